@@ -0,0 +1,10 @@
+// Tests run against the emulators; see `npm test`
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  // SMS sends are rate limited to one a second
+  testTimeout: 20000,
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/test/tsconfig.json' }],
+  },
+};
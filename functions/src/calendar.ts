@@ -0,0 +1,317 @@
+import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
+
+// Where calendarFeed is deployed; subscription links are built for the same region
+const CALENDAR_FEED_REGION = 'us-central1';
+
+interface CalendarShift {
+  id: string;
+  date: string;
+  time: string;
+  startTime: string;
+  endTime: string;
+  sleepIn?: boolean;
+  assignedStaff?: Array<string | { userId: string; role?: string }>;
+}
+
+interface RotaVersionData {
+  rotaId: string;
+  site: string;
+  startDate: string;
+  version: number;
+  shifts: CalendarShift[];
+  publishedAt: string;
+}
+
+interface LeaveData {
+  startDate: string;
+  endDate: string;
+  leaveType: string;
+  notes?: string;
+}
+
+// Subscription tokens are the document ids; only functions write them
+interface CalendarTokenData {
+  userId: string;
+  url: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revoked: boolean;
+  revokedAt: string | null;
+}
+
+const ROTA_TIME_ZONE = 'Europe/London';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far back the feed goes; calendar apps keep older events themselves
+const HISTORY_DAYS = 56;
+const UID_DOMAIN = 'care-home-dashboard';
+
+const LONDON_TIME_ZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${ROTA_TIME_ZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0000',
+  'TZOFFSETTO:+0100',
+  'TZNAME:BST',
+  'DTSTART:19700329T010000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0000',
+  'TZNAME:GMT',
+  'DTSTART:19701025T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i ? ' ' : '') + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const toDateValue = (date: string) => date.replace(/-/g, '');
+
+// Rota times are local, e.g. '7:30'
+const toLocalDateTime = (date: string, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${toDateValue(date)}T${String(hours).padStart(2, '0')}${String(minutes || 0).padStart(2, '0')}00`;
+};
+
+const toUtcStamp = (value: Date) => value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const getAssignment = (shift: CalendarShift, userId: string) =>
+  (shift.assignedStaff || [])
+    .map(a => (typeof a === 'string' ? { userId: a, role: undefined } : a))
+    .find(a => a.userId === userId);
+
+/**
+ * Builds a user's calendar from the latest published version of each rota
+ * they appear on, plus their approved leave. Drafts are left out, so the feed
+ * only changes when a manager publishes.
+ */
+export const buildUserCalendar = async (userId: string): Promise<string> => {
+  const db = admin.firestore();
+  const cutoff = new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+  const [versionSnapshot, leaveSnapshot] = await Promise.all([
+    db.collection('rotaVersions').where('staffIds', 'array-contains', userId).get(),
+    db.collection('leave-requests')
+      .where('userId', '==', userId)
+      .where('status', '==', 'approved')
+      .get(),
+  ]);
+
+  // Anyone changed in a version is listed on it, so the newest version
+  // listing the user has their current shifts for that rota
+  const latest = new Map<string, RotaVersionData>();
+  versionSnapshot.docs
+    .map(doc => doc.data() as RotaVersionData)
+    .filter(version => version.startDate >= addDays(cutoff, -7))
+    .forEach(version => {
+      const current = latest.get(version.rotaId);
+      if (!current || version.version > current.version) latest.set(version.rotaId, version);
+    });
+
+  const rotaDocs = latest.size
+    ? await db.getAll(...Array.from(latest.keys()).map(id => db.collection('rotas').doc(id)))
+    : [];
+  const rotas = new Map(rotaDocs
+    .filter(doc => doc.exists && !doc.data()?.deleted && !doc.data()?.migratedTo)
+    .map(doc => [doc.id, doc.data() || {}]));
+
+  const stamp = toUtcStamp(new Date());
+  const events: string[][] = [];
+
+  latest.forEach((version, rotaId) => {
+    const rota = rotas.get(rotaId);
+    if (!rota) return;
+    const patterns: Array<{ id: string; name: string }> = rota.configuration?.shiftPatterns || [];
+
+    version.shifts
+      .filter(shift => shift.date.slice(0, 10) >= cutoff)
+      .forEach(shift => {
+        const assignment = getAssignment(shift, userId);
+        if (!assignment) return;
+
+        const date = shift.date.slice(0, 10);
+        const overnight = minutesOf(shift.endTime) <= minutesOf(shift.startTime);
+        const name = patterns.find(pattern => pattern.id === shift.time)?.name || `${shift.startTime}-${shift.endTime}`;
+        const summary = `${name} shift${assignment.role ? ` (${assignment.role})` : ''}${shift.sleepIn ? ' - sleep-in' : ''}`;
+
+        events.push([
+          'BEGIN:VEVENT',
+          `UID:shift-${rotaId}-${shift.id}@${UID_DOMAIN}`,
+          `DTSTAMP:${stamp}`,
+          // Raised with each published version so calendar apps take the update
+          `SEQUENCE:${version.version}`,
+          `DTSTART;TZID=${ROTA_TIME_ZONE}:${toLocalDateTime(date, shift.startTime)}`,
+          `DTEND;TZID=${ROTA_TIME_ZONE}:${toLocalDateTime(overnight ? addDays(date, 1) : date, shift.endTime)}`,
+          `SUMMARY:${escapeText(summary)}`,
+          `LOCATION:${escapeText(version.site)}`,
+          `DESCRIPTION:${escapeText(`${version.site} rota, version ${version.version}`)}`,
+          'END:VEVENT',
+        ]);
+      });
+  });
+
+  leaveSnapshot.docs.forEach(doc => {
+    const leave = doc.data() as LeaveData;
+    const end = leave.endDate.slice(0, 10);
+    if (end < cutoff) return;
+
+    events.push([
+      'BEGIN:VEVENT',
+      `UID:leave-${doc.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toDateValue(leave.startDate.slice(0, 10))}`,
+      // All-day events end on the day after
+      `DTEND;VALUE=DATE:${toDateValue(addDays(end, 1))}`,
+      `SUMMARY:${escapeText(leave.leaveType || 'Leave')}`,
+      ...(leave.notes ? [`DESCRIPTION:${escapeText(leave.notes)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]);
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//Rota//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:My Shifts',
+    `X-WR-TIMEZONE:${ROTA_TIME_ZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...LONDON_TIME_ZONE,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+// The signed-in user's calendar, for a one-off .ics download
+export const exportCalendar = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  try {
+    return { ics: await buildUserCalendar(request.auth.uid) };
+  } catch (error) {
+    console.error('Error exporting calendar:', error);
+    throw new HttpsError('internal', 'Failed to export calendar');
+  }
+});
+
+// CALENDAR_FEED_URL overrides the default address, e.g. for a run.app URL or custom domain
+const getCalendarFeedUrl = () => {
+  if (process.env.CALENDAR_FEED_URL) return process.env.CALENDAR_FEED_URL.replace(/\/+$/, '');
+  const project = process.env.GCLOUD_PROJECT || admin.app().options.projectId;
+  return `https://${CALENDAR_FEED_REGION}-${project}.cloudfunctions.net/calendarFeed`;
+};
+
+// Creates a private subscription link for the signed-in user's calendar
+export const createCalendarToken = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const token = randomBytes(24).toString('hex');
+  const data: CalendarTokenData = {
+    userId: request.auth.uid,
+    url: `${getCalendarFeedUrl()}?token=${token}`,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+    revoked: false,
+    revokedAt: null,
+  };
+
+  await admin.firestore().collection('calendarTokens').doc(token).set(data);
+  return { id: token, url: data.url };
+});
+
+// Stops a subscription link working; admins can revoke anyone's
+export const revokeCalendarToken = onCall<{ tokenId: string }>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { tokenId } = request.data;
+  if (!tokenId) {
+    throw new HttpsError('invalid-argument', 'A tokenId is required');
+  }
+
+  const tokenRef = admin.firestore().collection('calendarTokens').doc(tokenId);
+  const tokenDoc = await tokenRef.get();
+  if (!tokenDoc.exists) {
+    throw new HttpsError('not-found', 'Calendar link not found');
+  }
+
+  if (tokenDoc.data()?.userId !== request.auth.uid) {
+    const caller = await admin.firestore().collection('users').doc(request.auth.uid).get();
+    if (caller.data()?.role !== 'admin' && request.auth.token.admin !== true) {
+      throw new HttpsError('permission-denied', 'You can only revoke your own calendar links');
+    }
+  }
+
+  await tokenRef.update({ revoked: true, revokedAt: new Date().toISOString() });
+  return { success: true };
+});
+
+// Calendar apps poll this with the token from the subscription link
+export const calendarFeed = onRequest(
+  {
+    region: CALENDAR_FEED_REGION,
+    timeoutSeconds: 30,
+    cors: true,
+  },
+  async (req, res) => {
+    try {
+      if (req.method !== 'GET') {
+        res.status(405).send('Method not allowed');
+        return;
+      }
+
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+      const tokenRef = token ? admin.firestore().collection('calendarTokens').doc(token) : null;
+      const tokenDoc = tokenRef ? await tokenRef.get() : null;
+      const data = tokenDoc?.data() as CalendarTokenData | undefined;
+      if (!tokenRef || !data || data.revoked) {
+        res.status(404).send('Calendar not found');
+        return;
+      }
+
+      const ics = await buildUserCalendar(data.userId);
+      await tokenRef.update({ lastUsedAt: new Date().toISOString() });
+
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Content-Disposition', 'inline; filename="rota.ics"');
+      res.set('Cache-Control', 'private, max-age=900');
+      res.status(200).send(ics);
+    } catch (error) {
+      console.error('Error serving calendar feed:', error);
+      res.status(500).send('Internal server error');
+    }
+  }
+);
@@ -1,7 +1,7 @@
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { onDocumentCreated, onDocumentUpdated } from 'firebase-functions/v2/firestore';
 import * as admin from 'firebase-admin';
-import * as sgMail from '@sendgrid/mail';
+import { sendNotification } from './notificationTransport';
 
 type ComplianceItemKey = 
   'dbsCheck' | 'healthCheck' | 'supervisionAgreement' | 'beneficiaryOnFile' | 
@@ -112,22 +112,22 @@ const checkItemExpiry = async (
       });
 
       // Send email notification
-      const msg = {
+      await sendNotification({
+        channel: 'email',
+        source: 'compliance',
+        userId,
         to: staffEmail,
-        from: process.env.SENDGRID_FROM_EMAIL || 'notifications@carehome.com',
         subject: `${itemName} Expiring Soon`,
-        templateId: process.env.SENDGRID_COMPLIANCE_TEMPLATE_ID,
-        text: `Your ${itemName} will expire in ${daysUntilExpiry} days. Please contact your manager to arrange renewal.`,
+        body: `Your ${itemName} will expire in ${daysUntilExpiry} days. Please contact your manager to arrange renewal.`,
         html: `<p>Your ${itemName} will expire in ${daysUntilExpiry} days. Please contact your manager to arrange renewal.</p>`,
-        dynamicTemplateData: {
+        templateId: process.env.SENDGRID_COMPLIANCE_TEMPLATE_ID,
+        templateData: {
           staffName,
           itemName,
           daysUntilExpiry,
           expiryDate: item.expiryDate.toDate().toLocaleDateString(),
         },
-      };
-
-      await sgMail.send(msg);
+      });
     }
   }
 };
@@ -154,6 +154,7 @@ export const checkComplianceExpiry = onSchedule(
         
         // Get staff details for notifications
         const staffDoc = await db.collection('users').doc(compliance.userId).get();
+        if (!staffDoc.exists) continue;
         const staffData = staffDoc.data() as StaffData;
 
         // Get manager ID if staff has a siteId
@@ -184,6 +185,7 @@ export const checkComplianceExpiry = onSchedule(
         ];
 
         for (const item of items) {
+          if (!compliance[item.key]) continue;
           await checkItemExpiry(
             compliance.userId,
             staffData.name,
@@ -1,42 +1,78 @@
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { onObjectFinalized } from 'firebase-functions/v2/storage';
 import * as admin from 'firebase-admin';
-import * as sgMail from '@sendgrid/mail';
-import { Twilio } from 'twilio';
 import { toDate } from './utils';
+import { sendToUser } from './notificationTransport';
+import { DolsDocument, DolsRecordData } from './types/dols';
 
-// Initialize Twilio
-const twilioClient = new Twilio(
-  process.env.TWILIO_ACCOUNT_SID || '',
-  process.env.TWILIO_AUTH_TOKEN || ''
-);
-
-interface DoLSRecord {
-  id: string;
-  residentName: string;
-  managerId: string;
-  expiryDate: admin.firestore.Timestamp;
-  status: 'active' | 'expired' | 'renewed';
-  remindersSent: number;
-  lastReminderDate?: admin.firestore.Timestamp;
-  documents: {
-    url: string;
-    name: string;
-    uploadDate: admin.firestore.Timestamp;
-  }[];
-}
+type DoLSRecord = DolsRecordData & { id: string };
 
 interface UserData {
-  id: string;
   name: string;
   email: string;
   phoneNumber?: string;
-  notificationPreferences: {
+  notificationPreferences?: {
     email: boolean;
     sms: boolean;
   };
 }
 
+// Matches the renewal task the DoLS timeline raises by hand
+const RENEWAL_LEAD_DAYS = 28;
+const RENEWAL_SUBMISSION_BUFFER_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { timeZone: 'Europe/London' });
+
+// One renewal task per authorisation, so reruns of the daily check cannot duplicate it
+const renewalTaskId = (dolsId: string) => `dols-renewal-${dolsId}`;
+
+/**
+ * Raises a renewal submission task for the manager of an authorisation that
+ * is close to expiry and has no renewal application yet, unless one was
+ * already raised from the timeline.
+ */
+async function raiseRenewalTask(
+  dols: DoLSRecord,
+  batch: admin.firestore.WriteBatch,
+  now: admin.firestore.Timestamp
+) {
+  if (!dols.expiryDate || dols.renewedById) return;
+
+  const db = admin.firestore();
+  const taskRef = db.collection('tasks').doc(renewalTaskId(dols.id));
+  const [existing, raisedByHand] = await Promise.all([
+    taskRef.get(),
+    db.collection('tasks')
+      .where('relatedRecordType', '==', 'dols')
+      .where('relatedRecordId', '==', dols.id)
+      .limit(1)
+      .get(),
+  ]);
+  if (existing.exists || !raisedByHand.empty) return;
+
+  const expiryDate = toDate(dols.expiryDate);
+  const submitBy = new Date(expiryDate.getTime() - RENEWAL_SUBMISSION_BUFFER_DAYS * DAY_MS);
+  const daysLeft = Math.floor((expiryDate.getTime() - now.toMillis()) / DAY_MS);
+  const reference = dols.supervisingBodyReference ? ` (ref ${dols.supervisingBodyReference})` : '';
+
+  batch.set(taskRef, {
+    title: `Submit ${dols.scheme === 'lps' ? 'LPS' : 'DoLS'} renewal for ${dols.residentName}`,
+    description: `Authorisation from ${dols.supervisingBody || 'the supervising body'}${reference} expires on ` +
+      `${formatDate(expiryDate)}. Submit the renewal application and record it against the existing authorisation.`,
+    dueDate: submitBy > now.toDate() ? admin.firestore.Timestamp.fromDate(submitBy) : now,
+    priority: daysLeft <= RENEWAL_SUBMISSION_BUFFER_DAYS ? 'high' : 'medium',
+    status: 'pending',
+    category: 'dols',
+    assignedTo: dols.managerId,
+    relatedRecordType: 'dols',
+    relatedRecordId: dols.id,
+    site: dols.site,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
 // Check for expiring DoLS
 export const checkExpiringDoLS = onSchedule(
   {
@@ -55,28 +91,38 @@ export const checkExpiringDoLS = onSchedule(
     const query = await admin
       .firestore()
       .collection('dols')
-      .where('expiryDate', '<=', thirtyDaysFromNow)
-      .where('remindersSent', '<', 3)
       .where('status', '==', 'active')
+      .where('expiryDate', '<=', admin.firestore.Timestamp.fromDate(thirtyDaysFromNow))
       .get();
 
     const batch = admin.firestore().batch();
-    const notifications: any[] = [];
+    const reminders: Array<() => Promise<unknown>> = [];
+
+    const renewalCutoff = new Date(now.toMillis() + RENEWAL_LEAD_DAYS * DAY_MS);
 
     for (const doc of query.docs) {
-      const dols = doc.data() as DoLSRecord;
+      const dols = { id: doc.id, ...doc.data() } as DoLSRecord;
+      if (!dols.expiryDate) continue;
+
+      if (toDate(dols.expiryDate) <= renewalCutoff) {
+        await raiseRenewalTask(dols, batch, now);
+      }
+
+      const remindersSent = dols.remindersSent || 0;
+      if (remindersSent >= 3) continue;
+
       const expiryDate = toDate(dols.expiryDate);
       let shouldSendReminder = false;
       let reminderType: 'initial' | 'followup' | 'final' = 'initial';
 
       // Determine reminder type based on expiry date and previous reminders
-      if (dols.remindersSent === 0 && expiryDate <= thirtyDaysFromNow) {
+      if (remindersSent === 0 && expiryDate <= thirtyDaysFromNow) {
         shouldSendReminder = true;
         reminderType = 'initial';
-      } else if (dols.remindersSent === 1 && expiryDate <= fourteenDaysFromNow) {
+      } else if (remindersSent === 1 && expiryDate <= fourteenDaysFromNow) {
         shouldSendReminder = true;
         reminderType = 'followup';
-      } else if (dols.remindersSent === 2 && expiryDate <= now.toDate()) {
+      } else if (remindersSent === 2 && expiryDate <= now.toDate()) {
         shouldSendReminder = true;
         reminderType = 'final';
       }
@@ -84,9 +130,10 @@ export const checkExpiringDoLS = onSchedule(
       if (shouldSendReminder) {
         // Update DoLS record
         batch.update(doc.ref, {
-          remindersSent: dols.remindersSent + 1,
+          remindersSent: remindersSent + 1,
           lastReminderDate: now,
           status: reminderType === 'final' ? 'expired' : 'active',
+          updatedAt: now,
         });
 
         // Get manager notification preferences
@@ -100,79 +147,33 @@ export const checkExpiringDoLS = onSchedule(
           const manager = managerDoc.data() as UserData;
           const notificationData = createNotificationMessage(reminderType, dols);
 
-          // Create in-app notification
-          notifications.push({
-            userId: dols.managerId,
+          reminders.push(() => sendToUser(dols.managerId, manager, ['inApp', 'email', 'sms'], {
+            source: 'dols',
             type: 'dols',
-            title: notificationData.title,
-            message: notificationData.message,
-            read: false,
-            timestamp: now,
-            link: '/dols',
-            priority: reminderType === 'final' ? 'high' : 'medium',
-          });
-
-          // Send email if enabled
-          if (manager.notificationPreferences.email) {
-            try {
-              const emailContent = `<p>Dear ${manager.name},</p>
+            subject: notificationData.title,
+            body: notificationData.message,
+            html: `<p>Dear ${manager.name},</p>
               <p>${notificationData.message}</p>
               <p>Please take necessary action to ensure compliance.</p>
-              <p>Expiry Date: ${expiryDate.toLocaleDateString()}</p>`;
-
-              await sgMail.send({
-                to: manager.email,
-                from: process.env.SENDGRID_FROM_EMAIL || '',
-                subject: notificationData.title,
-                text: notificationData.message,
-                html: emailContent,
-                templateId: process.env[`SENDGRID_DOLS_${reminderType.toUpperCase()}_TEMPLATE_ID`],
-                dynamicTemplateData: {
-                  managerName: manager.name,
-                  residentName: dols.residentName,
-                  expiryDate: expiryDate.toLocaleDateString(),
-                  message: notificationData.message,
-                },
-              });
-            } catch (error) {
-              console.error('Error sending email:', error);
-            }
-          }
-
-          // Send SMS if enabled
-          if (manager.notificationPreferences.sms && manager.phoneNumber) {
-            try {
-              await twilioClient.messages.create({
-                body: `${notificationData.title}\n\n${notificationData.message}`,
-                to: manager.phoneNumber,
-                from: process.env.TWILIO_PHONE_NUMBER || '',
-              });
-            } catch (error) {
-              console.error('Error sending SMS:', error);
-            }
-          }
-
-          // Create task for renewal
-          await admin.firestore().collection('managementTasks').add({
-            managerId: dols.managerId,
-            taskType: 'dols_renewal',
-            title: `Renew DoLS for ${dols.residentName}`,
-            description: `DoLS authorization expires on ${expiryDate.toLocaleDateString()}`,
-            priority: reminderType === 'final' ? 'critical' : 'high',
-            completed: false,
-            createdAt: now,
-            dueDate: admin.firestore.Timestamp.fromDate(
-              new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // Due in 7 days
-            ),
-          });
+              <p>Expiry Date: ${expiryDate.toLocaleDateString()}</p>`,
+            templateId: process.env[`SENDGRID_DOLS_${reminderType.toUpperCase()}_TEMPLATE_ID`],
+            templateData: {
+              managerName: manager.name,
+              residentName: dols.residentName,
+              expiryDate: expiryDate.toLocaleDateString(),
+              message: notificationData.message,
+            },
+            link: '/dols',
+            priority: reminderType === 'final' ? 'high' : 'medium',
+            site: dols.site,
+          }));
         }
       }
     }
 
+    // Only notify once the reminder counts are saved, so a retry cannot double-send
     await batch.commit();
-    await Promise.all(notifications.map(notification =>
-      admin.firestore().collection('notifications').add(notification)
-    ));
+    await Promise.all(reminders.map(send => send()));
   }
 );
 
@@ -180,18 +181,15 @@ function createNotificationMessage(
   reminderType: 'initial' | 'followup' | 'final',
   dols: DoLSRecord
 ) {
+  const expiryLabel = dols.expiryDate ? toDate(dols.expiryDate).toLocaleDateString() : 'unknown';
   const messages = {
     initial: {
       title: 'DoLS Expiring Soon',
-      message: `DoLS authorization for ${dols.residentName} expires in 30 days (${toDate(
-        dols.expiryDate
-      ).toLocaleDateString()})`,
+      message: `DoLS authorization for ${dols.residentName} expires in 30 days (${expiryLabel})`,
     },
     followup: {
       title: 'DoLS Expiration Reminder',
-      message: `DoLS authorization for ${dols.residentName} expires in 14 days (${toDate(
-        dols.expiryDate
-      ).toLocaleDateString()})`,
+      message: `DoLS authorization for ${dols.residentName} expires in 14 days (${expiryLabel})`,
     },
     final: {
       title: 'URGENT: DoLS Authorization Expired',
@@ -219,17 +217,24 @@ export const processDoLSDocumentUpload = onObjectFinalized(
 
     const downloadUrl = `https://storage.googleapis.com/${event.data.bucket}/${filePath}`;
 
+    // Server timestamps are not allowed inside arrays, so stamp the entry directly
+    const uploadDate = admin.firestore.Timestamp.now();
+    const document: DolsDocument = {
+      url: downloadUrl,
+      name: fileName,
+      uploadDate,
+    };
+    const uploadedBy = event.data.metadata?.uploadedBy;
+    if (uploadedBy) document.uploadedBy = uploadedBy;
+
     // Update DoLS record with new document
     await admin
       .firestore()
       .collection('dols')
       .doc(dolsId)
       .update({
-        documents: admin.firestore.FieldValue.arrayUnion({
-          url: downloadUrl,
-          name: fileName,
-          uploadDate: admin.firestore.FieldValue.serverTimestamp(),
-        }),
+        documents: admin.firestore.FieldValue.arrayUnion(document),
+        updatedAt: uploadDate,
       });
 
     // Create audit log
@@ -7,7 +7,15 @@ admin.initializeApp();
 // Export all functions
 export * from './training';
 export * from './auth';
+export * from './calendar';
 export * from './bulkAuth';
+export * from './compliance';
+export * from './dols';
+export * from './leave';
+export * from './messaging';
+export * from './recipientGroups';
+export * from './supervision';
+export * from './probation';
 
 // Test function
 export const testFunction = onRequest(
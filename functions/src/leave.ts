@@ -0,0 +1,517 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onDocumentUpdated, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { logger } from 'firebase-functions/v2';
+import * as admin from 'firebase-admin';
+import {
+  DEFAULT_LEAVE_POLICY,
+  LeaveAffectedShift,
+  LeaveConflict,
+  LeaveEntitlementData,
+  LeavePolicyData,
+} from './types/leave';
+import {
+  DAY_MS,
+  dayMs,
+  formatDay,
+  getEarnedFromHours,
+  getEntitlementTerms,
+  LeaveYear,
+  roundDays,
+} from './leaveYear';
+
+interface LeaveUser {
+  role?: string;
+  site?: string;
+  sites?: string[];
+  contractedHours?: number;
+  annualLeave?: number;
+  startDate?: admin.firestore.Timestamp | string | null;
+}
+
+interface LeaveRequestData {
+  userId: string;
+  startDate: string;
+  endDate: string;
+  leaveType: string;
+  status: string;
+}
+
+interface RotaShift {
+  id: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  paidHours?: number;
+  requiredRoles?: Array<{ role: string; count: number }>;
+  assignedStaff?: Array<string | { userId: string; role?: string }>;
+}
+
+interface RotaData {
+  site?: string;
+  startDate: string;
+  shifts?: RotaShift[];
+  deleted?: boolean;
+  migratedTo?: string;
+}
+
+const ROTA_TIME_ZONE = 'Europe/London';
+// Fields of a user that their entitlement depends on
+const CONTRACT_FIELDS: Array<keyof LeaveUser> = ['site', 'sites', 'contractedHours', 'annualLeave', 'startDate'];
+
+const db = admin.firestore();
+
+// en-CA formats as yyyy-MM-dd, matching leave and shift dates
+const dayFormatter = new Intl.DateTimeFormat('en-CA', { timeZone: ROTA_TIME_ZONE });
+
+const toDay = (value: LeaveUser['startDate']): string | null => {
+  if (!value) return null;
+  if (typeof value === 'string') return value.slice(0, 10);
+  return dayFormatter.format(value.toDate());
+};
+
+// Weekdays from start to end inclusive, as the web app counts leave days
+const countWeekdays = (start: string, end: string) => {
+  let days = 0;
+  for (let ms = dayMs(start); ms <= dayMs(end); ms += DAY_MS) {
+    const weekday = new Date(ms).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) days++;
+  }
+  return days;
+};
+
+const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours + (minutes || 0) / 60;
+};
+
+// Paid hours, or the full length for shifts saved before patterns had paid hours
+const getShiftHours = (shift: RotaShift) => {
+  if (shift.paidHours !== undefined) return shift.paidHours;
+  const start = parseTime(shift.startTime);
+  const end = parseTime(shift.endTime);
+  return end > start ? end - start : (24 - start) + end;
+};
+
+const getAssignedId = (assignment: string | { userId: string }) =>
+  typeof assignment === 'string' ? assignment : assignment.userId;
+
+// Plain id assignments predate shift roles and count as care staff
+const getAssignedRole = (assignment: string | { role?: string }) =>
+  typeof assignment === 'string' ? 'Care Staff' : assignment.role || 'Care Staff';
+
+const isAssigned = (shift: RotaShift, userId: string) =>
+  (shift.assignedStaff || []).some(assignment => getAssignedId(assignment) === userId);
+
+const siteOf = (user: LeaveUser, existing?: LeaveEntitlementData) =>
+  user.site || user.sites?.[0] || existing?.site || '';
+
+// Runs `load` on first call and hands every later caller the same promise
+const once = <T>(load: () => Promise<T>) => {
+  let result: Promise<T> | undefined;
+  return () => {
+    if (!result) result = load();
+    return result;
+  };
+};
+
+/**
+ * What recalculations share within one run: the date, the leave policies and
+ * rotas, each read at most once however many users are recalculated.
+ */
+const createLeaveRun = () => {
+  const today = dayFormatter.format(new Date());
+  const rotas = new Map<string, Promise<RotaData[]>>();
+
+  const getPolicies = once(async () => {
+    const snapshot = await db.collection('leavePolicies').get();
+    return snapshot.docs.map(doc => ({ ...DEFAULT_LEAVE_POLICY, ...doc.data() }) as LeavePolicyData);
+  });
+
+  return {
+    today,
+
+    // A site's own policy, else the default policy document, else the built-in default
+    getPolicy: async (site: string) => {
+      const policies = await getPolicies();
+      return policies.find(policy => site && policy.site === site) ||
+        policies.find(policy => policy.site === '') ||
+        DEFAULT_LEAVE_POLICY;
+    },
+
+    // Rotas with shifts from `from` up to today
+    getRotas: (from: string) => {
+      let result = rotas.get(from);
+      if (!result) {
+        result = db.collection('rotas')
+          .where('startDate', '>=', formatDay(dayMs(from) - 6 * DAY_MS))
+          .where('startDate', '<=', today)
+          .get()
+          .then(snapshot => snapshot.docs
+            .map(doc => doc.data() as RotaData)
+            .filter(rota => !rota.deleted && !rota.migratedTo));
+        rotas.set(from, result);
+      }
+      return result;
+    },
+  };
+};
+
+type LeaveRun = ReturnType<typeof createLeaveRun>;
+
+const getHoursWorked = async (userId: string, from: string, run: LeaveRun) => {
+  const rotas = await run.getRotas(from);
+  const hours = rotas
+    .flatMap(rota => rota.shifts || [])
+    .filter(shift => shift.date >= from && shift.date < run.today && isAssigned(shift, userId))
+    .reduce((sum, shift) => sum + getShiftHours(shift), 0);
+  return roundDays(hours);
+};
+
+const getUsedDays = async (userId: string, year: LeaveYear) => {
+  const snapshot = await db.collection('leave-requests')
+    .where('userId', '==', userId)
+    .where('status', '==', 'approved')
+    .get();
+
+  return snapshot.docs
+    .map(doc => doc.data() as LeaveRequestData)
+    .filter(request => request.leaveType === 'Annual Leave' &&
+      request.startDate <= year.end && request.endDate >= year.start)
+    .reduce((sum, request) => sum + countWeekdays(
+      request.startDate > year.start ? request.startDate : year.start,
+      request.endDate < year.end ? request.endDate : year.end
+    ), 0);
+};
+
+/**
+ * Works out a user's balance for the leave year containing today. Part-timers
+ * under an hours policy earn leave from rota shifts already worked rather than
+ * their prorated entitlement.
+ */
+const buildEntitlement = async (
+  userId: string,
+  user: LeaveUser,
+  existing: LeaveEntitlementData | undefined,
+  run: LeaveRun
+): Promise<LeaveEntitlementData> => {
+  const site = siteOf(user, existing);
+  const policy = await run.getPolicy(site);
+  const {
+    year,
+    from,
+    accrual,
+    allowance,
+    contractedHours,
+    entitlement,
+    carryForwardDays,
+  } = getEntitlementTerms(policy, run.today, { ...user, startDate: toDay(user.startDate) }, existing);
+
+  let hoursWorked: number | null = null;
+  let earned = entitlement;
+  if (accrual === 'hours') {
+    hoursWorked = await getHoursWorked(userId, from, run);
+    earned = getEarnedFromHours(policy, allowance, hoursWorked);
+  }
+
+  const usedDays = await getUsedDays(userId, year);
+  const accruedDays = roundDays(earned + carryForwardDays);
+  const now = new Date().toISOString();
+
+  return {
+    id: userId,
+    userId,
+    site,
+    leaveYear: year.label,
+    totalEntitlement: roundDays(entitlement + carryForwardDays),
+    remainingDays: roundDays(accruedDays - usedDays),
+    carryForwardDays,
+    yearStart: year.start,
+    yearEnd: year.end,
+    accrual,
+    contractedHours,
+    accruedDays,
+    usedDays,
+    hoursWorked,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+};
+
+const recalculateEntitlement = async (userId: string, run: LeaveRun, user?: LeaveUser) => {
+  const [userDoc, entitlementDoc] = await Promise.all([
+    user ? null : db.collection('users').doc(userId).get(),
+    db.collection('leave-entitlements').doc(userId).get(),
+  ]);
+  const userData = user || userDoc?.data() as LeaveUser | undefined;
+  if (!userData) {
+    console.warn(`User ${userId} not found for leave entitlement`);
+    return;
+  }
+
+  const existing = entitlementDoc.exists ? entitlementDoc.data() as LeaveEntitlementData : undefined;
+  const entitlement = await buildEntitlement(userId, userData, existing, run);
+  await entitlementDoc.ref.set(entitlement);
+};
+
+// One user at a time keeps a run over every user to a steady trickle of reads
+const recalculateUsers = async (users: admin.firestore.QueryDocumentSnapshot[], run: LeaveRun) => {
+  let failed = 0;
+  for (const userDoc of users) {
+    try {
+      await recalculateEntitlement(userDoc.id, run, userDoc.data() as LeaveUser);
+    } catch (error) {
+      failed++;
+      console.error(`Error recalculating leave for ${userDoc.id}:`, error);
+    }
+  }
+  logger.info(`Recalculated leave for ${users.length - failed} of ${users.length} users`);
+};
+
+/**
+ * Recalculates the balance when a request is approved (including requests
+ * managers create already approved), or when approved leave is cancelled,
+ * declined, moved or deleted.
+ */
+export const recalculateLeaveOnRequestChange = onDocumentWritten(
+  'leave-requests/{leaveId}',
+  async (event) => {
+    if (!event.data) return;
+
+    const before = event.data.before.data() as LeaveRequestData | undefined;
+    const after = event.data.after.data() as LeaveRequestData | undefined;
+    if (before?.status !== 'approved' && after?.status !== 'approved') return;
+    if (before && after &&
+        before.status === after.status &&
+        before.startDate === after.startDate &&
+        before.endDate === after.endDate &&
+        before.leaveType === after.leaveType) return;
+
+    const userId = (after || before)?.userId;
+    if (!userId) return;
+
+    try {
+      await recalculateEntitlement(userId, createLeaveRun());
+    } catch (error) {
+      console.error(`Error recalculating leave for request ${event.params.leaveId}:`, error);
+      throw error;
+    }
+  }
+);
+
+export const recalculateLeaveOnContractChange = onDocumentUpdated(
+  'users/{userId}',
+  async (event) => {
+    if (!event.data) return;
+
+    const before = event.data.before.data() as LeaveUser;
+    const after = event.data.after.data() as LeaveUser;
+    const changed = CONTRACT_FIELDS.some(field =>
+      JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+    if (!changed) return;
+
+    try {
+      await recalculateEntitlement(event.params.userId, createLeaveRun(), after);
+    } catch (error) {
+      console.error(`Error recalculating leave for user ${event.params.userId}:`, error);
+      throw error;
+    }
+  }
+);
+
+// A changed policy moves the leave year or entitlement of everyone it covers
+export const recalculateLeaveOnPolicyChange = onDocumentWritten(
+  'leavePolicies/{policyId}',
+  async (event) => {
+    const policyId = event.params.policyId;
+    const site = policyId === 'default' ? '' : policyId;
+
+    try {
+      const [usersSnapshot, entitlementsSnapshot] = await Promise.all([
+        db.collection('users').get(),
+        db.collection('leave-entitlements').get(),
+      ]);
+      const entitlements = new Map(entitlementsSnapshot.docs.map(doc =>
+        [doc.id, doc.data() as LeaveEntitlementData]));
+      const users = site
+        ? usersSnapshot.docs.filter(doc => siteOf(doc.data() as LeaveUser, entitlements.get(doc.id)) === site)
+        : usersSnapshot.docs;
+
+      await recalculateUsers(users, createLeaveRun());
+    } catch (error) {
+      console.error(`Error applying leave policy ${policyId}:`, error);
+      throw error;
+    }
+  }
+);
+
+/**
+ * Daily so hours-based balances pick up the shifts worked, and so each site's
+ * leave year rolls over, with its carry forward, on the day it starts.
+ */
+export const processLeaveYears = onSchedule(
+  {
+    schedule: '30 0 * * *', // Run daily at 00:30
+    timeZone: ROTA_TIME_ZONE,
+  },
+  async () => {
+    try {
+      const usersSnapshot = await db.collection('users').get();
+      await recalculateUsers(usersSnapshot.docs, createLeaveRun());
+    } catch (error) {
+      console.error('Error processing leave years:', error);
+      throw error;
+    }
+  }
+);
+
+// Roles a shift must keep enough of when someone on it takes leave
+const COVERED_ROLES = ['Shift Leader', 'Driver'];
+
+const formatShortDay = (day: string) => new Date(dayMs(day)).toLocaleDateString('en-GB', {
+  day: 'numeric',
+  month: 'short',
+  timeZone: 'UTC',
+});
+
+const listDays = (days: string[]) => days.length > 3
+  ? `${days.slice(0, 3).map(formatShortDay).join(', ')} and ${days.length - 3} more`
+  : days.map(formatShortDay).join(', ');
+
+const getAffectedShifts = async (userId: string, startDate: string, endDate: string) => {
+  const snapshot = await db.collection('rotas')
+    .where('startDate', '>=', formatDay(dayMs(startDate) - 6 * DAY_MS))
+    .where('startDate', '<=', endDate)
+    .get();
+
+  return snapshot.docs
+    .map(doc => ({ ...doc.data() as RotaData, id: doc.id }))
+    .filter(rota => !rota.deleted && !rota.migratedTo)
+    .flatMap(rota => (rota.shifts || [])
+      .filter(shift => shift.date >= startDate && shift.date <= endDate && isAssigned(shift, userId))
+      .map((shift): LeaveAffectedShift => {
+        const assigned = shift.assignedStaff || [];
+        const role = getAssignedRole(assigned.find(assignment => getAssignedId(assignment) === userId) || '');
+        const required = (shift.requiredRoles || [])
+          .filter(requirement => requirement.role === role)
+          .reduce((sum, requirement) => sum + requirement.count, 0);
+        const remaining = assigned
+          .filter(assignment => getAssignedId(assignment) !== userId && getAssignedRole(assignment) === role)
+          .length;
+
+        return {
+          rotaId: rota.id,
+          site: rota.site || '',
+          shiftId: shift.id,
+          date: shift.date.slice(0, 10),
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          role,
+          shortfall: COVERED_ROLES.includes(role) && remaining < required ? { role, required, remaining } : null,
+        };
+      }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+};
+
+// Days in the range on which the site already has its most staff off
+const getFullDays = async (site: string, userId: string, startDate: string, endDate: string, limit: number) => {
+  const snapshot = await db.collection('leave-requests')
+    .where('site', '==', site)
+    .where('status', '==', 'approved')
+    .get();
+  const others = snapshot.docs
+    .map(doc => doc.data() as LeaveRequestData)
+    .filter(request => request.userId !== userId && request.startDate <= endDate && request.endDate >= startDate);
+
+  const fullDays: string[] = [];
+  for (let ms = dayMs(startDate); ms <= dayMs(endDate); ms += DAY_MS) {
+    const day = formatDay(ms);
+    const off = new Set(others
+      .filter(request => request.startDate <= day && request.endDate >= day)
+      .map(request => request.userId));
+    if (off.size >= limit) fullDays.push(day);
+  }
+  return fullDays;
+};
+
+/**
+ * Checks leave against the site's policy and every rota it touches: blackout
+ * periods, the most staff off per day, and the shifts the person would leave,
+ * across weeks and sites. Staff can only see their own leave, so the team
+ * limit needs reading here.
+ */
+export const checkLeaveAvailability = onCall<{ userId?: string; startDate: string; endDate: string }>(
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { startDate, endDate } = request.data;
+    const userId = request.data.userId || request.auth.uid;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate || '') || !/^\d{4}-\d{2}-\d{2}$/.test(endDate || '') || endDate < startDate) {
+      throw new HttpsError('invalid-argument', 'A start and end date (yyyy-MM-dd) are required');
+    }
+
+    const [userDoc, callerDoc] = await Promise.all([
+      db.collection('users').doc(userId).get(),
+      userId === request.auth.uid ? null : db.collection('users').doc(request.auth.uid).get(),
+    ]);
+    const user = userDoc.data() as LeaveUser | undefined;
+    if (!user) {
+      throw new HttpsError('not-found', 'User not found');
+    }
+
+    const site = siteOf(user);
+    if (callerDoc) {
+      const caller = callerDoc.data() as LeaveUser | undefined;
+      const managesSite = caller?.role === 'manager' && (caller.sites || []).includes(site);
+      if (caller?.role !== 'admin' && !managesSite) {
+        throw new HttpsError('permission-denied', 'User does not have permission to check this leave');
+      }
+    }
+
+    try {
+      const policy = await createLeaveRun().getPolicy(site);
+      const conflicts: LeaveConflict[] = [];
+
+      (policy.blackoutPeriods || [])
+        .filter(period => period.startDate <= endDate && period.endDate >= startDate)
+        .forEach(period => conflicts.push({
+          type: 'blackout',
+          message: `Leave cannot be booked during ${period.name} (${formatShortDay(period.startDate)} to ${formatShortDay(period.endDate)})`,
+        }));
+
+      if (site && policy.maxStaffOffPerDay !== null) {
+        const fullDays = await getFullDays(site, userId, startDate, endDate, policy.maxStaffOffPerDay);
+        if (fullDays.length) {
+          conflicts.push({
+            type: 'team-limit',
+            message: `${site} already has ${policy.maxStaffOffPerDay} staff on leave on ${listDays(fullDays)}`,
+            dates: fullDays,
+          });
+        }
+      }
+
+      const affectedShifts = await getAffectedShifts(userId, startDate, endDate);
+      if (affectedShifts.length) {
+        conflicts.push({
+          type: 'shift-assigned',
+          message: `On ${affectedShifts.length} rota shift${affectedShifts.length === 1 ? '' : 's'} during this leave`,
+        });
+      }
+      const short = affectedShifts.filter(shift => shift.shortfall);
+      if (short.length) {
+        conflicts.push({
+          type: 'role-coverage',
+          message: `${short.length} shift${short.length === 1 ? ' would be' : 's would be'} left short of a Shift Leader or Driver`,
+          dates: Array.from(new Set(short.map(shift => shift.date))),
+        });
+      }
+
+      return { conflicts, affectedShifts };
+    } catch (error) {
+      console.error('Error checking leave availability:', error);
+      throw new HttpsError('internal', 'Failed to check leave availability');
+    }
+  }
+);
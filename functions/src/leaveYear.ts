@@ -0,0 +1,93 @@
+import { LeaveAccrual, LeaveEntitlementData, LeavePolicyData } from './types/leave';
+
+export interface LeaveYear {
+  label: string;
+  start: string;
+  end: string;
+}
+
+// What a user's contract says about leave, with the start date as yyyy-MM-dd
+export interface LeaveContract {
+  contractedHours?: number;
+  annualLeave?: number;
+  startDate: string | null;
+}
+
+export interface EntitlementTerms {
+  year: LeaveYear;
+  // First day of the year the user was in post
+  from: string;
+  accrual: LeaveAccrual;
+  allowance: number;
+  contractedHours: number;
+  entitlement: number;
+  carryForwardDays: number;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+// For users saved without an allowance: 5.6 weeks of a five-day week
+const DEFAULT_ANNUAL_LEAVE = 28;
+const WORKING_DAYS_PER_YEAR = 52 * 5;
+
+export const dayMs = (day: string) => Date.parse(`${day}T00:00:00Z`);
+export const formatDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export const roundDays = (days: number) => Math.round(days * 100) / 100;
+// Prorated entitlement is rounded up, never down, to the next half day
+const roundUpToHalf = (days: number) => Math.ceil(roundDays(days) * 2) / 2;
+
+export const getLeaveYear = (policy: LeavePolicyData, day: string): LeaveYear => {
+  const startOf = (year: number) => Date.UTC(year, policy.yearStartMonth - 1, policy.yearStartDay);
+  const year = Number(day.slice(0, 4));
+  const startYear = dayMs(day) >= startOf(year) ? year : year - 1;
+  return {
+    label: policy.yearStartMonth === 1 && policy.yearStartDay === 1
+      ? `${startYear}`
+      : `${startYear}-${startYear + 1}`,
+    start: formatDay(startOf(startYear)),
+    end: formatDay(startOf(startYear + 1) - DAY_MS),
+  };
+};
+
+/**
+ * The entitlement for the leave year containing `today`. A full-time allowance
+ * is prorated by contracted hours and by a start date inside the year. A balance
+ * left from an earlier year carries forward, up to the policy's cap.
+ */
+export const getEntitlementTerms = (
+  policy: LeavePolicyData,
+  today: string,
+  contract: LeaveContract,
+  existing?: Pick<LeaveEntitlementData, 'yearEnd' | 'remainingDays' | 'carryForwardDays'>
+): EntitlementTerms => {
+  const year = getLeaveYear(policy, today);
+
+  let carryForwardDays = existing?.carryForwardDays ?? 0;
+  if (existing?.yearEnd && existing.yearEnd < year.start) {
+    carryForwardDays = Math.min(Math.max(existing.remainingDays, 0), policy.carryForwardCap);
+  }
+
+  const allowance = contract.annualLeave || DEFAULT_ANNUAL_LEAVE;
+  const contractedHours = contract.contractedHours ?? policy.fullTimeHours;
+  const hoursFraction = Math.min(contractedHours / policy.fullTimeHours, 1);
+
+  const from = contract.startDate && contract.startDate > year.start ? contract.startDate : year.start;
+  const yearDays = (dayMs(year.end) - dayMs(year.start)) / DAY_MS + 1;
+  const daysInPost = from > year.end ? 0 : (dayMs(year.end) - dayMs(from)) / DAY_MS + 1;
+
+  return {
+    year,
+    from,
+    accrual: hoursFraction < 1 && policy.partTimeAccrual === 'hours' ? 'hours' : 'contract',
+    allowance,
+    contractedHours,
+    entitlement: roundUpToHalf(allowance * hoursFraction * daysInPost / yearDays),
+    carryForwardDays,
+  };
+};
+
+// Leave earned per day worked, e.g. 28 / (260 - 28) = 12.07% for 28 days
+export const getEarnedFromHours = (policy: LeavePolicyData, allowance: number, hoursWorked: number) => {
+  const rate = allowance / (WORKING_DAYS_PER_YEAR - allowance);
+  return roundDays(hoursWorked / (policy.fullTimeHours / 5) * rate);
+};
@@ -0,0 +1,162 @@
+import * as admin from 'firebase-admin';
+import { getLatestTraining } from './utils';
+
+/**
+ * Placeholder handling for message templates.
+ *
+ * Templates use `{{variable}}` placeholders that are resolved per recipient.
+ * The placeholder list and rendering rules mirror `src/utils/messageTemplates.ts`,
+ * which the app uses for the live preview and pre-send validation.
+ * Keep the two in sync.
+ */
+
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  name: 'Full name',
+  firstName: 'First name',
+  site: 'Home site',
+  nextShift: 'Next rota shift, e.g. "Mon 20 Oct, 7:30-14:30"',
+  expiringCourses: 'Training expiring in the next 30 days, or "None"',
+};
+
+export type TemplateValues = Record<string, string | null>;
+
+interface RecipientData {
+  name: string;
+  site?: string;
+}
+
+interface RotaShift {
+  date: string;
+  startTime: string;
+  endTime: string;
+  assignedStaff: Array<string | { userId: string }>;
+}
+
+interface PublishedRotaVersion {
+  rotaId: string;
+  version: number;
+  shifts: RotaShift[];
+}
+
+interface TrainingRecord {
+  staffId: string;
+  courseTitle: string;
+  expiryDate: admin.firestore.Timestamp;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+const EXPIRING_WINDOW_DAYS = 30;
+// Rotas run a week from `startDate`, so older versions hold no shifts from today on
+const ROTA_WEEK_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROTA_TIME_ZONE = 'Europe/London';
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// en-CA formats as yyyy-MM-dd, matching rota shift dates
+const dayFormatter = new Intl.DateTimeFormat('en-CA', { timeZone: ROTA_TIME_ZONE });
+
+export const findPlaceholders = (...texts: string[]): string[] => {
+  const found = new Set<string>();
+  texts.forEach(text => {
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      found.add(match[1]);
+    }
+  });
+  return Array.from(found);
+};
+
+export const getUnknownPlaceholders = (placeholders: string[], custom: Record<string, string> = {}) =>
+  placeholders.filter(name => !(name in TEMPLATE_VARIABLES) && !(name in custom));
+
+export const renderTemplate = (text: string, values: TemplateValues) =>
+  text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => values[name] ?? '');
+
+export const formatShift = (shift: Pick<RotaShift, 'date' | 'startTime' | 'endTime'>) => {
+  const [year, month, day] = shift.date.split('-').map(Number);
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  return `${weekday} ${day} ${MONTHS[month - 1]}, ${shift.startTime}-${shift.endTime}`;
+};
+
+export const findNextShift = (shifts: RotaShift[], userId: string, today: string) =>
+  shifts
+    .filter(shift => shift.date >= today && shift.assignedStaff.some(a =>
+      (typeof a === 'string' ? a : a.userId) === userId
+    ))
+    .sort((a, b) => a.date.localeCompare(b.date) ||
+      a.startTime.padStart(5, '0').localeCompare(b.startTime.padStart(5, '0')))[0] || null;
+
+// Shifts as staff were last sent them: the newest published version of each rota.
+// Drafts and edits made since the last publish never reach a message.
+export const getPublishedShifts = (versions: PublishedRotaVersion[], liveRotaIds: Set<string>) => {
+  const latest = new Map<string, PublishedRotaVersion>();
+  versions
+    .filter(version => liveRotaIds.has(version.rotaId))
+    .forEach(version => {
+      const current = latest.get(version.rotaId);
+      if (!current || version.version > current.version) latest.set(version.rotaId, version);
+    });
+  return Array.from(latest.values()).flatMap(version => version.shifts || []);
+};
+
+/**
+ * Loads the data needed by `placeholders` for each recipient. Values that
+ * cannot be resolved (e.g. no upcoming shift) are null.
+ */
+export const resolveTemplateValues = async (
+  recipients: Array<RecipientData & { id: string }>,
+  placeholders: string[],
+  custom: Record<string, string> = {}
+): Promise<Map<string, TemplateValues>> => {
+  const needed = new Set(placeholders);
+  const today = dayFormatter.format(new Date());
+  const results = new Map<string, TemplateValues>();
+
+  let upcomingShifts: RotaShift[] = [];
+  if (needed.has('nextShift')) {
+    const weekAgo = dayFormatter.format(new Date(Date.now() - ROTA_WEEK_DAYS * DAY_MS));
+    const [rotas, versions] = await Promise.all([
+      admin.firestore().collection('rotas').where('endDate', '>=', today).get(),
+      admin.firestore().collection('rotaVersions').where('startDate', '>=', weekAgo).get(),
+    ]);
+    const liveRotaIds = new Set(rotas.docs
+      .filter(doc => doc.data().status !== 'archived' && !doc.data().deleted && !doc.data().migratedTo)
+      .map(doc => doc.id));
+    upcomingShifts = getPublishedShifts(versions.docs.map(doc => doc.data() as PublishedRotaVersion), liveRotaIds);
+  }
+
+  const expiring = new Map<string, string[]>();
+  if (needed.has('expiringCourses')) {
+    const now = admin.firestore.Timestamp.now();
+    const cutoff = admin.firestore.Timestamp.fromMillis(now.toMillis() + EXPIRING_WINDOW_DAYS * DAY_MS);
+    const training = await admin.firestore()
+      .collection('training')
+      .where('expiryDate', '>=', now)
+      .get();
+    const recipientIds = new Set(recipients.map(r => r.id));
+    // A course renewed early has a later record that is not expiring
+    getLatestTraining(training.docs.map(doc => doc.data() as TrainingRecord))
+      .filter(record => recipientIds.has(record.staffId) && record.expiryDate.toMillis() <= cutoff.toMillis())
+      .forEach(({ staffId, courseTitle }) => {
+        expiring.set(staffId, [...(expiring.get(staffId) || []), courseTitle]);
+      });
+  }
+
+  recipients.forEach(recipient => {
+    const nextShift = needed.has('nextShift') ? findNextShift(upcomingShifts, recipient.id, today) : null;
+    const courses = expiring.get(recipient.id) || [];
+
+    results.set(recipient.id, {
+      ...custom,
+      name: recipient.name || null,
+      firstName: recipient.name?.split(' ')[0] || null,
+      site: recipient.site || null,
+      nextShift: nextShift ? formatShift(nextShift) : null,
+      expiringCourses: courses.length ? courses.sort().join(', ') : 'None',
+    });
+  });
+
+  return results;
+};
@@ -1,49 +1,34 @@
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import * as admin from 'firebase-admin';
-import * as sgMail from '@sendgrid/mail';
-import { Twilio } from 'twilio';
-import { toDate } from './utils';
-
-// Initialize Twilio
-const twilioClient = new Twilio(
-  process.env.TWILIO_ACCOUNT_SID || '',
-  process.env.TWILIO_AUTH_TOKEN || ''
-);
-
-interface ScheduledMessage {
-  id: string;
-  type: 'email' | 'sms' | 'both';
-  subject: string;
-  message: string;
-  frequency: 'once' | 'daily' | 'weekly' | 'monthly';
-  dayOfWeek?: number; // 0-6 for weekly
-  dayOfMonth?: number; // 1-31 for monthly
-  recipients: string[]; // User IDs
-  recipientGroups?: string[]; // Group IDs
-  active: boolean;
-  lastSent?: admin.firestore.Timestamp;
-  variables?: {
-    [key: string]: string;
-  };
-  template?: string;
-}
+import { sendToUser } from './notificationTransport';
+import { getNextRun } from './recurrence';
+import { resolveGroupMembers, worksAtSites } from './recipientGroups';
+import {
+  findPlaceholders,
+  getUnknownPlaceholders,
+  renderTemplate,
+  resolveTemplateValues,
+} from './messageTemplates';
+import { NotificationChannel } from './types/notifications';
+import { MessageType, ScheduledMessageData, ScheduledMessageSendLogData } from './types/messaging';
 
 interface UserData {
   id: string;
   name: string;
   email: string;
   phoneNumber?: string;
-  notificationPreferences: {
+  notificationPreferences?: {
     email: boolean;
     sms: boolean;
   };
-  groups?: string[];
   role?: string;
+  site?: string;
+  sites?: string[];
 }
 
 interface MassMessageData {
-  type: 'email' | 'sms' | 'both';
+  type: MessageType;
   subject: string;
   message: string;
   recipients?: string[];
@@ -52,153 +37,129 @@ interface MassMessageData {
   variables?: {
     [key: string]: string;
   };
+  // messageTemplates document the subject and message were started from
+  messageTemplateId?: string;
 }
 
-// Process scheduled messages
+// In-app notifications go out for every message type
+const channelsFor = (type: MessageType): NotificationChannel[] => [
+  'inApp',
+  ...(type === 'email' || type === 'both' ? ['email' as const] : []),
+  ...(type === 'sms' || type === 'both' ? ['sms' as const] : []),
+];
+
+// Explicit recipients plus everyone the static and dynamic groups resolve to
+const resolveRecipients = async (recipients: string[] = [], recipientGroups: string[] = []) => {
+  const recipientIds = new Set(recipients);
+  const groupMembers = await resolveGroupMembers(recipientGroups);
+  groupMembers.forEach(id => recipientIds.add(id));
+
+  const userDocs = await Promise.all(
+    Array.from(recipientIds).map(id =>
+      admin.firestore().collection('users').doc(id).get()
+    )
+  );
+
+  return userDocs
+    .filter(doc => doc.exists)
+    .map(doc => ({ id: doc.id, ...doc.data() })) as UserData[];
+};
+
+type MessageContent = Pick<MassMessageData, 'type' | 'subject' | 'message' | 'template' | 'variables'>;
+
+// Renders {{placeholders}} for every recipient and sends the result
+const sendPersonalised = async (users: UserData[], source: string, data: MessageContent) => {
+  const placeholders = findPlaceholders(data.subject, data.message);
+  const values = await resolveTemplateValues(users, placeholders, data.variables);
+
+  return Promise.all(users.map(async user => {
+    const userValues = values.get(user.id) || {};
+    const subject = renderTemplate(data.subject, userValues);
+    const message = renderTemplate(data.message, userValues);
+
+    const results = await sendToUser(user.id, user, channelsFor(data.type), {
+      source,
+      type: 'message',
+      subject,
+      body: message,
+      ...(data.template ? {
+        templateId: data.template,
+        templateData: {
+          subject,
+          message,
+          userName: user.name,
+        },
+      } : {}),
+    });
+    return { user, results };
+  }));
+};
+
+// Send due scheduled messages and work out when each should next run
 export const processScheduledMessages = onSchedule(
   {
-    schedule: '*/15 * * * *', // Run every 15 minutes
+    schedule: '*/5 * * * *', // Run every 5 minutes
     timeZone: 'Europe/London',
     memory: '1GiB',
   },
   async () => {
-    const now = new Date();
+    const now = admin.firestore.Timestamp.now();
     const query = await admin
       .firestore()
       .collection('scheduledMessages')
-      .where('active', '==', true)
+      .where('status', '==', 'active')
+      .where('nextRunAt', '<=', now)
       .get();
 
     for (const doc of query.docs) {
-      const message = doc.data() as ScheduledMessage;
-      let shouldSend = false;
-
-      // Check if message should be sent based on frequency
-      switch (message.frequency) {
-        case 'once':
-          shouldSend = !message.lastSent;
-          break;
-        case 'daily':
-          shouldSend = !message.lastSent || 
-            toDate(message.lastSent).getDate() !== now.getDate();
-          break;
-        case 'weekly':
-          shouldSend = !message.lastSent && 
-            now.getDay() === message.dayOfWeek;
-          break;
-        case 'monthly':
-          shouldSend = !message.lastSent && 
-            now.getDate() === message.dayOfMonth;
-          break;
-      }
-
-      if (shouldSend) {
-        // Get all recipients
-        const recipientIds = new Set(message.recipients);
-
-        // Add users from groups if any
-        if (message.recipientGroups?.length) {
-          const groupUsers = await admin
-            .firestore()
-            .collection('users')
-            .where('groups', 'array-contains-any', message.recipientGroups)
-            .get();
-
-          groupUsers.docs.forEach(doc => recipientIds.add(doc.id));
+      const schedule = doc.data() as ScheduledMessageData;
+      const runAt = schedule.nextRunAt || now;
+
+      // Claim the run before sending so an overlapping invocation skips it.
+      // Missed runs are not replayed; the next run is the first one after now.
+      const nextRun = getNextRun(schedule.recurrence, now.toDate());
+      const claimed = await admin.firestore().runTransaction(async (transaction) => {
+        const fresh = await transaction.get(doc.ref);
+        const current = fresh.data() as ScheduledMessageData | undefined;
+        if (!current || current.status !== 'active' ||
+            !current.nextRunAt || !current.nextRunAt.isEqual(runAt)) {
+          return false;
         }
 
-        // Get user details
-        const userDocs = await Promise.all(
-          Array.from(recipientIds).map(id =>
-            admin.firestore().collection('users').doc(id).get()
-          )
-        );
-
-        const users = userDocs
-          .filter(doc => doc.exists)
-          .map(doc => ({ id: doc.id, ...doc.data() })) as UserData[];
-
-        // Process message for each user
-        for (const user of users) {
-          // Replace variables in message
-          let processedMessage = message.message;
-          let processedSubject = message.subject;
+        transaction.update(doc.ref, {
+          nextRunAt: nextRun ? admin.firestore.Timestamp.fromDate(nextRun) : null,
+          status: nextRun ? 'active' : 'completed',
+          lastRunAt: now,
+          runCount: admin.firestore.FieldValue.increment(1),
+          updatedAt: now,
+        });
+        return true;
+      });
 
-          if (message.variables) {
-            const userData = {
-              name: user.name,
-              email: user.email,
-              ...message.variables,
-            };
+      if (!claimed) continue;
 
-            for (const [key, value] of Object.entries(userData)) {
-              const regex = new RegExp(`{${key}}`, 'g');
-              processedMessage = processedMessage.replace(regex, value);
-              processedSubject = processedSubject.replace(regex, value);
-            }
-          }
+      try {
+        const users = await resolveRecipients(schedule.recipients, schedule.recipientGroups);
+        const logs = doc.ref.collection('sendLogs');
+        const sent = await sendPersonalised(users, 'scheduled_message', schedule);
 
-          // Create in-app notification
-          await admin.firestore().collection('notifications').add({
+        for (const { user, results } of sent) {
+          const log: ScheduledMessageSendLogData = {
             userId: user.id,
-            type: 'message',
-            title: processedSubject,
-            message: processedMessage,
-            read: false,
-            timestamp: admin.firestore.FieldValue.serverTimestamp(),
-          });
-
-          // Send email if enabled
-          if ((message.type === 'email' || message.type === 'both') && 
-              user.notificationPreferences.email) {
-            try {
-              if (message.template) {
-                await sgMail.send({
-                  to: user.email,
-                  from: process.env.SENDGRID_FROM_EMAIL || '',
-                  subject: processedSubject,
-                  templateId: message.template,
-                  dynamicTemplateData: {
-                    subject: processedSubject,
-                    message: processedMessage,
-                    userName: user.name,
-                  },
-                });
-              } else {
-                await sgMail.send({
-                  to: user.email,
-                  from: process.env.SENDGRID_FROM_EMAIL || '',
-                  subject: processedSubject,
-                  text: processedMessage,
-                  html: processedMessage,
-                });
-              }
-            } catch (error) {
-              console.error('Error sending email:', error);
-            }
-          }
-
-          // Send SMS if enabled
-          if ((message.type === 'sms' || message.type === 'both') && 
-              user.notificationPreferences.sms && 
-              user.phoneNumber) {
-            try {
-              await twilioClient.messages.create({
-                body: `${processedSubject}\n\n${processedMessage}`,
-                to: user.phoneNumber,
-                from: process.env.TWILIO_PHONE_NUMBER || '',
-              });
-            } catch (error) {
-              console.error('Error sending SMS:', error);
-            }
-          }
+            userName: user.name,
+            runAt,
+            deliveries: results.map(result => ({
+              channel: result.channel,
+              status: result.status,
+              deliveryId: result.deliveryId,
+              ...(result.error ? { error: result.error } : {}),
+            })),
+            createdAt: admin.firestore.Timestamp.now(),
+          };
+          await logs.add(log);
         }
-
-        // Update last sent timestamp
-        await doc.ref.update({
-          lastSent: admin.firestore.FieldValue.serverTimestamp(),
-          active: message.frequency === 'once' ? false : true,
-        });
+      } catch (error) {
+        console.error(`Error sending scheduled message ${doc.id}:`, error);
       }
     }
   }
@@ -225,6 +186,7 @@ export const sendMassMessage = onCall<MassMessageData>(
       recipientGroups,
       template,
       variables,
+      messageTemplateId,
     } = request.data;
 
     // Verify sender has permission
@@ -242,112 +204,30 @@ export const sendMassMessage = onCall<MassMessageData>(
       );
     }
 
-    // Get all recipients
-    const recipientIds = new Set(recipients || []);
+    // Managers only reach staff at the homes they manage, however a group or rule is defined
+    const resolved = await resolveRecipients(recipients, recipientGroups);
+    const users = senderData.role === 'admin'
+      ? resolved
+      : resolved.filter(user => worksAtSites(user, senderData.sites || []));
 
-    // Add users from groups if any
-    if (recipientGroups?.length) {
-      const groupUsers = await admin
-        .firestore()
-        .collection('users')
-        .where('groups', 'array-contains-any', recipientGroups)
-        .get();
-
-      groupUsers.docs.forEach(doc => recipientIds.add(doc.id));
+    // Catch placeholders nothing can resolve before anything is sent
+    const unknown = getUnknownPlaceholders(findPlaceholders(subject, message), variables);
+    if (unknown.length) {
+      throw new HttpsError(
+        'invalid-argument',
+        `Unknown template variables: ${unknown.map(name => `{{${name}}}`).join(', ')}`
+      );
     }
 
-    // Get user details
-    const userDocs = await Promise.all(
-      Array.from(recipientIds).map(id =>
-        admin.firestore().collection('users').doc(id).get()
-      )
-    );
-
-    const users = userDocs
-      .filter(doc => doc.exists)
-      .map(doc => ({ id: doc.id, ...doc.data() })) as UserData[];
-
     // Send messages
-    const results = await Promise.allSettled(
-      users.flatMap(user => {
-        const promises = [];
-
-        // Process variables
-        let processedMessage = message;
-        let processedSubject = subject;
-
-        if (variables) {
-          const userData = {
-            name: user.name,
-            email: user.email,
-            ...variables,
-          };
-
-          for (const [key, value] of Object.entries(userData)) {
-            const regex = new RegExp(`{${key}}`, 'g');
-            processedMessage = processedMessage.replace(regex, value);
-            processedSubject = processedSubject.replace(regex, value);
-          }
-        }
-
-        // Create in-app notification
-        promises.push(
-          admin.firestore().collection('notifications').add({
-            userId: user.id,
-            type: 'message',
-            title: processedSubject,
-            message: processedMessage,
-            read: false,
-            timestamp: admin.firestore.FieldValue.serverTimestamp(),
-          })
-        );
-
-        // Send email if enabled
-        if ((type === 'email' || type === 'both') && 
-            user.notificationPreferences.email) {
-          if (template) {
-            promises.push(
-              sgMail.send({
-                to: user.email,
-                from: process.env.SENDGRID_FROM_EMAIL || '',
-                subject: processedSubject,
-                templateId: template,
-                dynamicTemplateData: {
-                  subject: processedSubject,
-                  message: processedMessage,
-                  userName: user.name,
-                },
-              })
-            );
-          } else {
-            promises.push(
-              sgMail.send({
-                to: user.email,
-                from: process.env.SENDGRID_FROM_EMAIL || '',
-                subject: processedSubject,
-                text: processedMessage,
-                html: processedMessage,
-              })
-            );
-          }
-        }
-
-        // Send SMS if enabled
-        if ((type === 'sms' || type === 'both') && 
-            user.notificationPreferences.sms && 
-            user.phoneNumber) {
-          promises.push(
-            twilioClient.messages.create({
-              body: `${processedSubject}\n\n${processedMessage}`,
-              to: user.phoneNumber,
-              from: process.env.TWILIO_PHONE_NUMBER || '',
-            })
-          );
-        }
-
-        return promises;
-      })
-    );
+    const sent = await sendPersonalised(users, 'mass_message', {
+      type,
+      subject,
+      message,
+      template,
+      variables,
+    });
+    const results = sent.flatMap(({ results }) => results);
 
     // Create audit log
     await admin.firestore().collection('auditLogs').add({
@@ -358,10 +238,12 @@ export const sendMassMessage = onCall<MassMessageData>(
       timestamp: admin.firestore.FieldValue.serverTimestamp(),
       subject,
       template,
+      messageTemplateId: messageTemplateId || null,
     });
 
-    const successful = results.filter(r => r.status === 'fulfilled').length;
-    const failed = results.filter(r => r.status === 'rejected').length;
+    const successful = results.filter(r => r.status === 'sent').length;
+    const failed = results.filter(r => r.status === 'failed').length;
+    const skipped = results.filter(r => r.status === 'skipped').length;
 
     return {
       success: true,
@@ -369,7 +251,10 @@ export const sendMassMessage = onCall<MassMessageData>(
         total: results.length,
         successful,
         failed,
+        skipped,
       },
+      // Recipients left out because they are not at the sender's sites
+      excluded: resolved.length - users.length,
     };
   }
 );
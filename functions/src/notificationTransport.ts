@@ -0,0 +1,288 @@
+import * as admin from 'firebase-admin';
+import { promises as fs } from 'fs';
+import { getSendGrid, getTwilioClient } from './utils';
+import {
+  DeliveryRecordData,
+  DeliveryResult,
+  NotificationChannel,
+  NotificationMessage,
+  OutboxEntryData,
+} from './types/notifications';
+
+/**
+ * Notification transport.
+ *
+ * Every email, SMS and in-app notification raised by the functions goes
+ * through `sendNotification`, which picks a driver for the channel, retries
+ * transient failures, rate limits per channel and records the outcome in
+ * the `deliveries` collection.
+ *
+ * Set `NOTIFICATION_TRANSPORT=outbox` (the default in the emulator) to write
+ * email and SMS to the `outbox` collection instead of the real providers, or
+ * additionally set `NOTIFICATION_OUTBOX_FILE` to append them to a JSON lines file.
+ */
+
+export interface NotificationDriver {
+  name: string;
+  send: (message: NotificationMessage, deliveryId: string) => Promise<string | undefined>;
+}
+
+interface RecipientPreferences {
+  email?: string;
+  phoneNumber?: string;
+  notificationPreferences?: {
+    email?: boolean;
+    sms?: boolean;
+  };
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Sends per second per channel, per function instance
+const RATE_LIMITS: Record<NotificationChannel, number> = {
+  email: 10,
+  sms: 1,
+  inApp: 50,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const nextSlot: Record<NotificationChannel, number> = { email: 0, sms: 0, inApp: 0 };
+
+const waitForSlot = async (channel: NotificationChannel) => {
+  const interval = 1000 / RATE_LIMITS[channel];
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot[channel]);
+  nextSlot[channel] = slot + interval;
+  if (slot > now) await sleep(slot - now);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// SendGrid and Twilio errors carry the HTTP status as `code`, `status` or `response.statusCode`
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (!isObject(error)) return undefined;
+  const response = 'response' in error && isObject(error.response) ? error.response : undefined;
+  const status = ('code' in error ? error.code : undefined) ??
+    ('status' in error ? error.status : undefined) ??
+    (response && 'statusCode' in response ? response.statusCode : undefined);
+  return typeof status === 'number' ? status : undefined;
+};
+
+// Client errors other than throttling will fail the same way on every attempt
+const isRetryable = (error: unknown) => {
+  const status = getErrorStatus(error);
+  return status === undefined || status === 429 || status >= 500;
+};
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const sendGridDriver: NotificationDriver = {
+  name: 'sendgrid',
+  send: async (message) => {
+    const sgMail = getSendGrid();
+    if (!sgMail) throw new Error('SendGrid is not configured');
+
+    const [response] = await sgMail.send({
+      to: message.to || '',
+      from: process.env.SENDGRID_FROM_EMAIL || '',
+      subject: message.subject,
+      text: message.body,
+      html: message.html || message.body,
+      ...(message.templateId ? {
+        templateId: message.templateId,
+        dynamicTemplateData: message.templateData || {},
+      } : {}),
+    });
+    return response.headers?.['x-message-id'];
+  },
+};
+
+const twilioDriver: NotificationDriver = {
+  name: 'twilio',
+  send: async (message) => {
+    const client = getTwilioClient();
+    if (!client) throw new Error('Twilio is not configured');
+
+    const result = await client.messages.create({
+      body: message.subject ? `${message.subject}\n\n${message.body}` : message.body,
+      to: message.to || '',
+      from: process.env.TWILIO_PHONE_NUMBER || '',
+    });
+    return result.sid;
+  },
+};
+
+const inAppDriver: NotificationDriver = {
+  name: 'firestore',
+  send: async (message) => {
+    if (!message.userId) throw new Error('In-app notifications need a userId');
+
+    const ref = await admin.firestore().collection('notifications').add({
+      userId: message.userId,
+      type: message.type || 'message',
+      title: message.subject,
+      message: message.body,
+      read: false,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      ...(message.link ? { link: message.link } : {}),
+      ...(message.priority ? { priority: message.priority } : {}),
+      ...(message.site ? { site: message.site } : {}),
+    });
+    return ref.id;
+  },
+};
+
+const outboxDriver: NotificationDriver = {
+  name: 'outbox',
+  send: async (message, deliveryId) => {
+    const entry: OutboxEntryData = {
+      channel: message.channel,
+      deliveryId,
+      userId: message.userId || null,
+      to: message.to || null,
+      subject: message.subject,
+      body: message.body,
+      html: message.html || null,
+      templateId: message.templateId || null,
+      templateData: message.templateData || null,
+      createdAt: admin.firestore.Timestamp.now(),
+    };
+
+    const file = process.env.NOTIFICATION_OUTBOX_FILE;
+    if (file) {
+      await fs.appendFile(file, `${JSON.stringify({ ...entry, createdAt: entry.createdAt.toDate() })}\n`);
+      return `${file}#${deliveryId}`;
+    }
+
+    const ref = await admin.firestore().collection('outbox').add(entry);
+    return ref.id;
+  },
+};
+
+const useOutbox = () => {
+  const transport = process.env.NOTIFICATION_TRANSPORT;
+  if (transport) return transport === 'outbox';
+  return process.env.FUNCTIONS_EMULATOR === 'true';
+};
+
+const overrides: Partial<Record<NotificationChannel, NotificationDriver>> = {};
+
+// Replace the driver for a channel, e.g. with a stub in tests
+export const setNotificationDriver = (channel: NotificationChannel, driver: NotificationDriver | null) => {
+  if (driver) {
+    overrides[channel] = driver;
+  } else {
+    delete overrides[channel];
+  }
+};
+
+export const getNotificationDriver = (channel: NotificationChannel): NotificationDriver | null => {
+  const override = overrides[channel];
+  if (override) return override;
+
+  switch (channel) {
+    case 'inApp':
+      return inAppDriver;
+    case 'email':
+      if (useOutbox()) return outboxDriver;
+      return getSendGrid() ? sendGridDriver : null;
+    case 'sms':
+      if (useOutbox()) return outboxDriver;
+      return getTwilioClient() ? twilioDriver : null;
+  }
+};
+
+export const sendNotification = async (message: NotificationMessage): Promise<DeliveryResult> => {
+  const deliveries = admin.firestore().collection('deliveries');
+  const deliveryRef = deliveries.doc();
+  const driver = getNotificationDriver(message.channel);
+  const now = admin.firestore.Timestamp.now();
+
+  const record: DeliveryRecordData = {
+    channel: message.channel,
+    driver: driver?.name || null,
+    source: message.source,
+    userId: message.userId || null,
+    to: message.to || null,
+    subject: message.subject,
+    status: 'queued',
+    attempts: 0,
+    providerId: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    sentAt: null,
+  };
+
+  if (!driver || (message.channel !== 'inApp' && !message.to)) {
+    const error = driver ? 'No recipient address' : `No driver configured for ${message.channel}`;
+    await deliveryRef.set({ ...record, status: 'skipped', error });
+    return { deliveryId: deliveryRef.id, channel: message.channel, status: 'skipped', driver: record.driver, error };
+  }
+
+  await deliveryRef.set(record);
+
+  let lastError: unknown;
+  let attempts = 0;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    attempts = attempt;
+    try {
+      await waitForSlot(message.channel);
+      const providerId = await driver.send(message, deliveryRef.id);
+      const sentAt = admin.firestore.Timestamp.now();
+
+      await deliveryRef.update({
+        status: 'sent',
+        attempts: attempt,
+        providerId: providerId || null,
+        error: null,
+        updatedAt: sentAt,
+        sentAt,
+      });
+      return { deliveryId: deliveryRef.id, channel: message.channel, status: 'sent', driver: driver.name, providerId };
+    } catch (error) {
+      lastError = error;
+      console.warn(`Delivery ${deliveryRef.id} attempt ${attempt} via ${driver.name} failed:`, error);
+      if (!isRetryable(error) || attempt === MAX_ATTEMPTS) break;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  const error = getErrorMessage(lastError);
+  await deliveryRef.update({
+    status: 'failed',
+    attempts,
+    error,
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+  console.error(`Delivery ${deliveryRef.id} via ${driver.name} failed:`, lastError);
+  return { deliveryId: deliveryRef.id, channel: message.channel, status: 'failed', driver: driver.name, error };
+};
+
+/**
+ * Send the same content to one user over several channels, honouring their
+ * email/SMS preferences. In-app notifications are always delivered.
+ */
+export const sendToUser = async (
+  userId: string,
+  user: RecipientPreferences,
+  channels: NotificationChannel[],
+  content: Omit<NotificationMessage, 'channel' | 'userId' | 'to'>
+): Promise<DeliveryResult[]> => {
+  const messages: NotificationMessage[] = [];
+
+  if (channels.includes('inApp')) {
+    messages.push({ ...content, channel: 'inApp', userId });
+  }
+  if (channels.includes('email') && user.notificationPreferences?.email && user.email) {
+    messages.push({ ...content, channel: 'email', userId, to: user.email });
+  }
+  if (channels.includes('sms') && user.notificationPreferences?.sms && user.phoneNumber) {
+    messages.push({ ...content, channel: 'sms', userId, to: user.phoneNumber });
+  }
+
+  return Promise.all(messages.map(sendNotification));
+};
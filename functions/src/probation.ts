@@ -0,0 +1,296 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentUpdated, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import * as admin from 'firebase-admin';
+import {
+  PROBATION_MILESTONES,
+  PROBATION_WEEKS,
+  ProbationDecision,
+  ProbationMilestone,
+  ProbationOutcome,
+  ProbationStatus,
+} from './types/probation';
+
+interface ProbationUser {
+  name?: string;
+  role?: string;
+  site?: string;
+  sites?: string[];
+  managerId?: string;
+  startDate?: admin.firestore.Timestamp | string | null;
+  probationStatus?: ProbationStatus;
+  probationEndDate?: string | null;
+  trainingProgress?: Partial<Record<ProbationMilestone, boolean>>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_ZONE = 'Europe/London';
+// Milestone sessions are booked for the morning of the milestone day
+const SESSION_HOUR_UTC = 9;
+
+const db = admin.firestore();
+
+// en-CA formats as yyyy-MM-dd
+const dayFormatter = new Intl.DateTimeFormat('en-CA', { timeZone: TIME_ZONE });
+
+const toDay = (value: ProbationUser['startDate']): string | null => {
+  if (!value) return null;
+  if (typeof value === 'string') return value.slice(0, 10);
+  return dayFormatter.format(value.toDate());
+};
+
+const addDays = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const sessionTime = (day: string) =>
+  admin.firestore.Timestamp.fromMillis(Date.parse(`${day}T00:00:00Z`) + SESSION_HOUR_UTC * 60 * 60 * 1000);
+
+const siteOf = (user: ProbationUser) => user.site || user.sites?.[0] || '';
+
+// The staff member's own manager, else a manager of their site
+const getSupervisorId = async (user: ProbationUser): Promise<string | null> => {
+  if (user.managerId) return user.managerId;
+
+  const site = siteOf(user);
+  if (!site) return null;
+
+  const managers = await db.collection('users')
+    .where('role', '==', 'manager')
+    .where('sites', 'array-contains', site)
+    .limit(1)
+    .get();
+  return managers.empty ? null : managers.docs[0].id;
+};
+
+const milestoneRef = (userId: string, key: ProbationMilestone | string) =>
+  db.collection('supervisions').doc(`probation-${userId}-${key}`);
+
+// Written in the same shape as the web app's createSupervision
+const bookSession = (
+  userId: string,
+  user: ProbationUser,
+  milestone: ProbationMilestone | 'extension',
+  type: 'supervision' | 'probation',
+  day: string,
+  supervisorId: string
+) => {
+  const now = admin.firestore.Timestamp.now();
+  return {
+    staffId: userId,
+    staffName: user.name || '',
+    supervisorId,
+    supervisor: '',
+    date: sessionTime(day),
+    type,
+    status: 'scheduled',
+    notes: '',
+    location: '',
+    agenda: [],
+    actionPoints: [],
+    site: siteOf(user),
+    probationMilestone: milestone,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Book the probation milestones from a new starter's start date, and move the
+// ones not yet held when the start date changes. Starters with no manager to
+// supervise them are booked once they are given a manager.
+export const scheduleProbationMilestones = onDocumentWritten(
+  'users/{userId}',
+  async (event) => {
+    if (!event.data) return;
+
+    const before = event.data.before.data() as ProbationUser | undefined;
+    const after = event.data.after.data() as ProbationUser | undefined;
+    const startDay = toDay(after?.startDate);
+    if (!after || !startDay) return;
+    const managerAssigned = !!after.managerId && !before?.managerId;
+    if (startDay === toDay(before?.startDate) && !managerAssigned) return;
+
+    // Without a status only a probation still running counts, so editing a
+    // long-serving employee does not open one for them
+    const today = dayFormatter.format(new Date());
+    const probationEndDate = addDays(startDay, PROBATION_WEEKS * 7);
+    if (!after.probationStatus && probationEndDate < today) return;
+
+    const status = after.probationStatus || 'pending';
+    if (status !== 'pending') return;
+
+    const userId = event.params.userId;
+
+    try {
+      const batch = db.batch();
+      const supervisorId = await getSupervisorId(after);
+      if (!supervisorId) {
+        console.warn(`No manager to supervise probation milestones for ${userId}`);
+      }
+
+      for (const milestone of PROBATION_MILESTONES) {
+        if (after.trainingProgress?.[milestone.key]) continue;
+
+        const day = addDays(startDay, milestone.week * 7);
+        const ref = milestoneRef(userId, milestone.key);
+        const existing = await ref.get();
+
+        if (existing.exists) {
+          if (existing.data()?.status === 'scheduled') {
+            batch.update(ref, { date: sessionTime(day), updatedAt: admin.firestore.Timestamp.now() });
+          }
+        } else if (day >= today && supervisorId) {
+          // Staff who started before the app was in use are not booked into past milestones
+          batch.set(ref, bookSession(userId, after, milestone.key, milestone.type, day, supervisorId));
+        }
+      }
+
+      batch.update(event.data.after.ref, { probationEndDate });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error in scheduleProbationMilestones:', error);
+      throw error;
+    }
+  }
+);
+
+// Tick the milestone off when its supervision is completed. Completing the last
+// one with every milestone done passes probation.
+export const updateProbationOnSupervision = onDocumentUpdated(
+  'supervisions/{supervisionId}',
+  async (event) => {
+    if (!event.data) return;
+
+    const before = event.data.before.data();
+    const after = event.data.after.data();
+    const milestone = PROBATION_MILESTONES.find(m => m.key === after.probationMilestone);
+    if (!milestone || before.status === 'completed' || after.status !== 'completed') return;
+
+    try {
+      const userRef = db.collection('users').doc(after.staffId);
+      const userDoc = await userRef.get();
+      const user = userDoc.data() as ProbationUser | undefined;
+      if (!user) return;
+
+      const progress = { ...user.trainingProgress, [milestone.key]: true };
+      const allDone = PROBATION_MILESTONES.every(m => progress[m.key]);
+      const isFinal = milestone.key === PROBATION_MILESTONES[PROBATION_MILESTONES.length - 1].key;
+
+      if (isFinal && allDone && (user.probationStatus || 'pending') === 'pending') {
+        const outcome: ProbationOutcome = {
+          decision: 'pass',
+          reason: 'All probation milestones completed',
+          extendedTo: null,
+          decidedBy: after.supervisorId || '',
+          decidedByName: 'Automatic',
+          decidedAt: new Date().toISOString(),
+        };
+        await userRef.update({
+          [`trainingProgress.${milestone.key}`]: true,
+          probationStatus: 'completed',
+          probationOutcomes: admin.firestore.FieldValue.arrayUnion(outcome),
+        });
+      } else {
+        await userRef.update({ [`trainingProgress.${milestone.key}`]: true });
+      }
+    } catch (error) {
+      console.error('Error in updateProbationOnSupervision:', error);
+      throw error;
+    }
+  }
+);
+
+const DECISION_STATUS: Record<ProbationDecision, ProbationStatus> = {
+  pass: 'completed',
+  extend: 'extended',
+  fail: 'failed',
+};
+
+// A manager passes, extends or fails a new starter's probation
+export const recordProbationOutcome = onCall<{
+  userId: string;
+  decision: ProbationDecision;
+  reason: string;
+  extendedTo?: string | null;
+}>(
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { userId, decision } = request.data;
+    const reason = (request.data.reason || '').trim();
+    const extendedTo = request.data.extendedTo || '';
+    const today = dayFormatter.format(new Date());
+
+    if (!userId || !DECISION_STATUS[decision]) {
+      throw new HttpsError('invalid-argument', 'A user and a decision of pass, extend or fail are required');
+    }
+    if (!reason) {
+      throw new HttpsError('invalid-argument', 'A reason is required');
+    }
+    if (decision === 'extend' && !(/^\d{4}-\d{2}-\d{2}$/.test(extendedTo) && extendedTo > today)) {
+      throw new HttpsError('invalid-argument', 'An extension needs a new end date (yyyy-MM-dd) in the future');
+    }
+
+    const [userDoc, callerDoc] = await Promise.all([
+      db.collection('users').doc(userId).get(),
+      db.collection('users').doc(request.auth.uid).get(),
+    ]);
+    const user = userDoc.data() as ProbationUser | undefined;
+    const caller = callerDoc.data() as ProbationUser | undefined;
+    if (!user) {
+      throw new HttpsError('not-found', 'User not found');
+    }
+
+    const managesSite = caller?.role === 'manager' && (caller.sites || []).includes(siteOf(user));
+    if (caller?.role !== 'admin' && !managesSite) {
+      throw new HttpsError('permission-denied', 'User does not have permission to decide this probation');
+    }
+
+    const status = user.probationStatus || 'pending';
+    if (status !== 'pending' && status !== 'extended') {
+      throw new HttpsError('failed-precondition', 'Probation has already been decided');
+    }
+
+    try {
+      const outcome: ProbationOutcome = {
+        decision,
+        reason,
+        extendedTo: decision === 'extend' ? extendedTo : null,
+        decidedBy: request.auth.uid,
+        decidedByName: caller?.name || '',
+        decidedAt: new Date().toISOString(),
+      };
+
+      const batch = db.batch();
+      batch.update(userDoc.ref, {
+        probationStatus: DECISION_STATUS[decision],
+        probationOutcomes: admin.firestore.FieldValue.arrayUnion(outcome),
+        ...(decision === 'extend' ? { probationEndDate: extendedTo } : {}),
+      });
+
+      // Sessions still booked for this probation are no longer needed once it is
+      // decided; an extension is reviewed in a session of its own
+      const booked = await db.collection('supervisions')
+        .where('staffId', '==', userId)
+        .where('status', '==', 'scheduled')
+        .get();
+      booked.docs
+        .filter(doc => doc.data().probationMilestone === 'extension' ||
+          (decision !== 'extend' && doc.data().probationMilestone))
+        .forEach(doc => batch.update(doc.ref, { status: 'cancelled', updatedAt: admin.firestore.Timestamp.now() }));
+
+      if (decision === 'extend') {
+        batch.set(
+          milestoneRef(userId, `extension-${extendedTo}`),
+          bookSession(userId, user, 'extension', 'probation', extendedTo, request.auth.uid)
+        );
+      }
+
+      await batch.commit();
+      return { probationStatus: DECISION_STATUS[decision] };
+    } catch (error) {
+      console.error('Error recording probation outcome:', error);
+      throw new HttpsError('internal', 'Failed to record probation outcome');
+    }
+  }
+);
@@ -0,0 +1,201 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as admin from 'firebase-admin';
+import { RecipientGroupData, RecipientGroupRule } from './types/messaging';
+import { getLatestTraining } from './utils';
+
+type GroupDefinition = Pick<RecipientGroupData, 'type' | 'memberIds' | 'rules' | 'match'>;
+
+interface GroupUser {
+  id: string;
+  name?: string;
+  role?: string;
+  site?: string;
+  sites?: string[];
+  roles?: string[];
+}
+
+interface TrainingExpiry {
+  staffId: string;
+  courseTitle: string;
+  expiryDate: admin.firestore.Timestamp;
+}
+
+interface RotaShift {
+  date: string;
+  assignedStaff?: Array<string | { userId: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROTA_TIME_ZONE = 'Europe/London';
+
+// Whether the user is based at or also works at one of `sites`
+export const worksAtSites = (user: Pick<GroupUser, 'site' | 'sites'>, sites: string[]) =>
+  sites.some(site => user.site === site || (user.sites || []).includes(site));
+
+// Runs `load` on first call and hands every later caller the same promise
+const once = <T>(load: () => Promise<T>) => {
+  let result: Promise<T> | undefined;
+  return () => {
+    if (!result) result = load();
+    return result;
+  };
+};
+
+/**
+ * Loads the data dynamic rules need at most once per resolution, so a message
+ * to several dynamic groups costs one read of each collection.
+ */
+const createRuleData = () => ({
+  getUsers: once(async () => {
+    const snapshot = await admin.firestore().collection('users').get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as GroupUser);
+  }),
+
+  // Courses whose latest record has expired; renewed courses no longer count
+  getExpiredTraining: once(async () => {
+    const now = admin.firestore.Timestamp.now();
+    const snapshot = await admin.firestore()
+      .collection('training')
+      .orderBy('expiryDate')
+      .get();
+    const records = snapshot.docs
+      .map(doc => ({
+        staffId: doc.data().staffId as string,
+        courseTitle: doc.data().courseTitle as string,
+        expiryDate: doc.data().expiryDate as admin.firestore.Timestamp | null,
+      }))
+      .filter((record): record is TrainingExpiry => !!record.expiryDate);
+    return getLatestTraining(records).filter(record => record.expiryDate.toMillis() < now.toMillis());
+  }),
+
+  getOnShiftTomorrow: once(async () => {
+    // en-CA formats as yyyy-MM-dd, matching rota shift dates
+    const tomorrow = new Intl.DateTimeFormat('en-CA', { timeZone: ROTA_TIME_ZONE })
+      .format(new Date(Date.now() + DAY_MS));
+    const snapshot = await admin.firestore()
+      .collection('rotas')
+      .where('startDate', '<=', tomorrow)
+      .get();
+
+    const staffIds = new Set<string>();
+    snapshot.docs
+      .map(doc => doc.data())
+      .filter(rota => rota.endDate >= tomorrow && rota.status !== 'archived' && !rota.deleted && !rota.migratedTo)
+      .flatMap(rota => (rota.shifts || []) as RotaShift[])
+      .filter(shift => shift.date === tomorrow)
+      .forEach(shift => (shift.assignedStaff || []).forEach(a =>
+        staffIds.add(typeof a === 'string' ? a : a.userId)
+      ));
+    return staffIds;
+  }),
+});
+
+type RuleData = ReturnType<typeof createRuleData>;
+
+// Staff ids matching a single rule
+const matchRule = async (rule: RecipientGroupRule, data: RuleData): Promise<Set<string>> => {
+  switch (rule.type) {
+    case 'role':
+    case 'site':
+    case 'shiftRole': {
+      const users = await data.getUsers();
+      return new Set(users
+        .filter(user => {
+          if (rule.type === 'role') return user.role === rule.value;
+          if (rule.type === 'site') return user.site === rule.value || (user.sites || []).includes(rule.value || '');
+          return (user.roles || []).includes(rule.value || '');
+        })
+        .map(user => user.id));
+    }
+    case 'expiredTraining': {
+      const records = await data.getExpiredTraining();
+      return new Set(records
+        .filter(record => !rule.value || record.courseTitle === rule.value)
+        .map(record => record.staffId));
+    }
+    case 'onShiftTomorrow':
+      return data.getOnShiftTomorrow();
+    default:
+      return new Set();
+  }
+};
+
+const resolveDefinition = async (group: GroupDefinition, data: RuleData): Promise<Set<string>> => {
+  if (group.type === 'static') {
+    return new Set(group.memberIds || []);
+  }
+
+  const rules = group.rules || [];
+  if (!rules.length) return new Set();
+
+  const matches = await Promise.all(rules.map(rule => matchRule(rule, data)));
+  if (group.match === 'any') {
+    return new Set(matches.flatMap(ids => Array.from(ids)));
+  }
+  const [first, ...rest] = matches;
+  return new Set(Array.from(first).filter(id => rest.every(ids => ids.has(id))));
+};
+
+/**
+ * Resolves `recipientGroups` documents to user ids. Static groups list their
+ * members; dynamic groups are evaluated against current data at send time.
+ * Unknown group ids are ignored.
+ */
+export const resolveGroupMembers = async (groupIds: string[]): Promise<Set<string>> => {
+  const members = new Set<string>();
+  if (!groupIds.length) return members;
+
+  const data = createRuleData();
+  const groupDocs = await Promise.all(
+    groupIds.map(id => admin.firestore().collection('recipientGroups').doc(id).get())
+  );
+
+  for (const doc of groupDocs) {
+    if (!doc.exists) continue;
+    const ids = await resolveDefinition(doc.data() as RecipientGroupData, data);
+    ids.forEach(id => members.add(id));
+  }
+
+  return members;
+};
+
+// Lists who a saved or draft group would reach now, for the Recipient Groups page
+export const previewRecipientGroup = onCall<{ groupId?: string; group?: GroupDefinition }>(
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const sender = await admin.firestore().collection('users').doc(request.auth.uid).get();
+    const senderData = sender.data() as GroupUser | undefined;
+    if (!senderData || !['admin', 'manager'].includes(senderData.role || '')) {
+      throw new HttpsError('permission-denied', 'User does not have permission to view recipient groups');
+    }
+
+    const { groupId, group } = request.data;
+    let definition = group;
+    if (groupId) {
+      const groupDoc = await admin.firestore().collection('recipientGroups').doc(groupId).get();
+      if (!groupDoc.exists) {
+        throw new HttpsError('not-found', 'Recipient group not found');
+      }
+      definition = groupDoc.data() as RecipientGroupData;
+    }
+    if (!definition) {
+      throw new HttpsError('invalid-argument', 'A groupId or group definition is required');
+    }
+
+    const data = createRuleData();
+    const ids = await resolveDefinition(definition, data);
+    const users = await data.getUsers();
+
+    // Managers only reach staff at the homes they manage
+    const sites = senderData.sites || [];
+    return {
+      members: users
+        .filter(user => ids.has(user.id) && (senderData.role === 'admin' || worksAtSites(user, sites)))
+        .map(user => ({ id: user.id, name: user.name || '' }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+);
@@ -0,0 +1,159 @@
+import { RecurrenceRule } from './types/messaging';
+
+/**
+ * Recurrence engine for scheduled messages.
+ *
+ * Rules are evaluated on the calendar of `rule.timeZone`, so a message set for
+ * 09:00 Europe/London goes out at 09:00 local time either side of a clock change.
+ *
+ * Mirrors `src/utils/recurrence.ts` in the web app, which uses it to preview
+ * and store the first run. Keep the two in sync.
+ */
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far ahead to look for a matching day before giving up
+const SEARCH_LIMIT_DAYS = 366 * 5;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return parts;
+};
+
+// Milliseconds to add to UTC to get wall-clock time in the zone at `date`
+const getOffset = (date: Date, timeZone: string) => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const zonedTimeToUtc = (local: LocalDate, time: string, timeZone: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, hours || 0, minutes || 0);
+
+  // Two passes settle on the right offset when the first guess straddles a clock change
+  let utc = wallClock - getOffset(new Date(wallClock), timeZone);
+  utc = wallClock - getOffset(new Date(utc), timeZone);
+  return new Date(utc);
+};
+
+const toLocalDate = (date: Date, timeZone: string): LocalDate => {
+  const p = getZonedParts(date, timeZone);
+  return { year: p.year, month: p.month, day: p.day };
+};
+
+export const parseLocalDate = (value: string): LocalDate => {
+  const [year, month, day] = value.split('-').map(Number);
+  return { year, month, day };
+};
+
+const dayNumber = (d: LocalDate) => Math.round(Date.UTC(d.year, d.month - 1, d.day) / DAY_MS);
+
+const fromDayNumber = (n: number): LocalDate => {
+  const date = new Date(n * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const dayOfWeek = (d: LocalDate) => new Date(Date.UTC(d.year, d.month - 1, d.day)).getUTCDay();
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const matchesRule = (rule: RecurrenceRule, date: LocalDate, start: LocalDate) => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'once':
+      return dayNumber(date) === dayNumber(start);
+    case 'daily':
+      return (dayNumber(date) - dayNumber(start)) % interval === 0;
+    case 'weekly': {
+      const days = rule.daysOfWeek?.length ? rule.daysOfWeek : [dayOfWeek(start)];
+      if (!days.includes(dayOfWeek(date))) return false;
+      // Weeks are counted from the Sunday on or before the start date
+      const weekStart = (d: LocalDate) => dayNumber(d) - dayOfWeek(d);
+      const weeks = Math.round((weekStart(date) - weekStart(start)) / 7);
+      return weeks % interval === 0;
+    }
+    case 'monthly': {
+      const months = (date.year - start.year) * 12 + (date.month - start.month);
+      if (months % interval !== 0) return false;
+      // Days past the end of a short month fall on its last day
+      const target = Math.min(rule.dayOfMonth || start.day, daysInMonth(date.year, date.month));
+      return date.day === target;
+    }
+  }
+};
+
+/**
+ * The first run strictly after `after`, or null when the rule has finished.
+ */
+export const getNextRun = (rule: RecurrenceRule, after: Date): Date | null => {
+  const start = parseLocalDate(rule.startDate);
+  const end = rule.endDate ? dayNumber(parseLocalDate(rule.endDate)) : null;
+  const first = Math.max(dayNumber(start), dayNumber(toLocalDate(after, rule.timeZone)));
+  if (rule.frequency === 'once' && first > dayNumber(start)) return null;
+
+  for (let n = first; n <= first + SEARCH_LIMIT_DAYS; n++) {
+    if (end !== null && n > end) return null;
+
+    const date = fromDayNumber(n);
+    if (!matchesRule(rule, date, start)) continue;
+
+    const run = zonedTimeToUtc(date, rule.time, rule.timeZone);
+    if (run > after) return run;
+    if (rule.frequency === 'once') return null;
+  }
+
+  return null;
+};
+
+export const getNextRuns = (rule: RecurrenceRule, after: Date, count: number): Date[] => {
+  const runs: Date[] = [];
+  let cursor = after;
+
+  while (runs.length < count) {
+    const next = getNextRun(rule, cursor);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+
+  return runs;
+};
@@ -1,370 +1,537 @@
-/* eslint-disable */
-// @ts-nocheck
-import * as functions from 'firebase-functions';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentCreated, onDocumentUpdated } from 'firebase-functions/v2/firestore';
 import * as admin from 'firebase-admin';
-import * as sgMail from '@sendgrid/mail';
-import { addMonths } from 'date-fns';
+import { sendToUser } from './notificationTransport';
+import { NotificationChannel } from './types/notifications';
+import {
+  DEFAULT_SUPERVISION_FREQUENCY_WEEKS,
+  LEGACY_SUPERVISION_COURSES,
+  MIN_FEEDBACK_RESPONSES,
+  OTHER_CONCERN_THEME,
+  SUPERVISION_CONCERN_THEMES,
+  SupervisionActionPoint,
+  SupervisionFeedbackSummary,
+  SupervisionType,
+} from './types/supervision';
+
+// Older records store action points as plain strings or as objects with a Timestamp due date
+type ActionPoint = SupervisionActionPoint | string | {
+  description: string;
+  dueDate?: admin.firestore.Timestamp;
+  completed?: boolean;
+};
 
 interface SupervisionRecord {
-  id: string;
   staffId: string;
   supervisorId: string;
   date: admin.firestore.Timestamp;
-  status: 'scheduled' | 'completed' | 'cancelled';
+  status: 'scheduled' | 'completed' | 'cancelled' | 'overdue';
+  type?: SupervisionType;
   notes?: string;
-  actionPoints?: {
-    description: string;
-    dueDate: admin.firestore.Timestamp;
-    completed: boolean;
-  }[];
-  questionnaireSent: boolean;
-  questionnaireCompleted: boolean;
+  actionPoints?: ActionPoint[];
+  questionnaireSent?: boolean;
+  questionnaireCompleted?: boolean;
+  completedAt?: admin.firestore.Timestamp;
+  site?: string;
+  // Set on sessions converted from the `training` collection
+  legacyTrainingId?: string;
+}
+
+interface QuestionnaireRecord {
+  supervisionId: string;
+  staffId: string;
+  staffName?: string;
+  site?: string;
+  topics?: string[];
+  concerns?: string[];
+  suggestions?: string[];
+  comments?: string;
+  rating?: number;
+  isConfidential?: boolean;
+  submittedAt?: admin.firestore.Timestamp;
 }
 
 interface UserData {
-  id: string;
   name: string;
   email: string;
-  notificationPreferences: {
+  role?: string;
+  site?: string;
+  sites?: string[];
+  supervisionFrequencyWeeks?: number | null;
+  notificationPreferences?: {
     email: boolean;
     sms: boolean;
   };
 }
 
+// Supervisions used to be `training` rows with a course title and dates
+interface LegacySupervisionRow {
+  staffId?: string;
+  staffName?: string;
+  courseTitle?: string;
+  completionDate?: unknown;
+  notes?: string;
+  location?: string;
+  supervisor?: string;
+  siteId?: string;
+  site?: string;
+  createdBy?: string;
+  createdAt?: unknown;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTION_POINT_DEFAULT_DAYS = 14;
+const BATCH_LIMIT = 500;
+const WEEK_MS = 7 * DAY_MS;
+
+// The next supervision is due one frequency after the last completed session
+const getNextDueDate = (date: admin.firestore.Timestamp, user?: UserData | null) =>
+  admin.firestore.Timestamp.fromMillis(
+    date.toMillis() + (user?.supervisionFrequencyWeeks || DEFAULT_SUPERVISION_FREQUENCY_WEEKS) * WEEK_MS
+  );
+
+const getParticipants = async (staffId: string, supervisorId: string) => {
+  // An empty id would make an invalid document path
+  if (!staffId || !supervisorId) return null;
+
+  const [staffDoc, supervisorDoc] = await Promise.all([
+    admin.firestore().doc(`users/${staffId}`).get(),
+    admin.firestore().doc(`users/${supervisorId}`).get(),
+  ]);
+
+  if (!staffDoc.exists || !supervisorDoc.exists) return null;
+
+  return {
+    staff: staffDoc.data() as UserData,
+    supervisor: supervisorDoc.data() as UserData,
+  };
+};
+
+interface SupervisionMessage {
+  subject: string;
+  body: string;
+  templateEnvKey?: string;
+  templateData?: Record<string, unknown>;
+  link?: string;
+}
+
+const notifyParticipant = (
+  userId: string,
+  user: UserData,
+  channels: NotificationChannel[],
+  { subject, body, templateEnvKey, templateData, link }: SupervisionMessage
+) => sendToUser(userId, user, channels, {
+  source: 'supervision',
+  type: 'supervision',
+  subject,
+  body,
+  link: link || '/supervision',
+  ...(templateEnvKey && process.env[templateEnvKey] ? {
+    templateId: process.env[templateEnvKey],
+    templateData,
+  } : {}),
+});
+
+const formatDueDate = (timestamp: admin.firestore.Timestamp) => timestamp.toDate().toISOString().slice(0, 10);
+
+// Matches `toActionPoints` in the web app, which reads the same records
+const toActionPoint = (actionPoint: ActionPoint, date: admin.firestore.Timestamp) => {
+  if (typeof actionPoint === 'object' && 'status' in actionPoint) {
+    const { description, ownerName, dueDate, status } = actionPoint;
+    return { description, owner: ownerName, dueDate, status };
+  }
+  const fallbackDue = formatDueDate(admin.firestore.Timestamp.fromMillis(
+    date.toMillis() + ACTION_POINT_DEFAULT_DAYS * DAY_MS
+  ));
+  if (typeof actionPoint === 'string') {
+    return { description: actionPoint, owner: '', dueDate: fallbackDue, status: 'open' };
+  }
+  return {
+    description: actionPoint.description,
+    owner: '',
+    dueDate: actionPoint.dueDate ? formatDueDate(actionPoint.dueDate) : fallbackDue,
+    status: actionPoint.completed ? 'completed' : 'open',
+  };
+};
+
 // Process supervision scheduling
-export const processSupervsionScheduling = functions.firestore
-  .document('supervisions/{supervisionId}')
-  .onCreate(async (snap, context) => {
+export const processSupervisionScheduling = onDocumentCreated(
+  'supervisions/{supervisionId}',
+  async (event) => {
+    const snap = event.data;
+    if (!snap) return;
+
     const supervision = snap.data() as SupervisionRecord;
     const { staffId, supervisorId, date } = supervision;
+    // Converted history was booked long ago; nobody needs telling again
+    if (supervision.legacyTrainingId) return;
 
     try {
-      // Get staff and supervisor data
-      const [staffDoc, supervisorDoc] = await Promise.all([
-        admin.firestore().doc(`users/${staffId}`).get(),
-        admin.firestore().doc(`users/${supervisorId}`).get(),
-      ]);
-
-      if (!staffDoc.exists || !supervisorDoc.exists) {
-        throw new Error('Staff or supervisor not found');
+      const participants = await getParticipants(staffId, supervisorId);
+      if (!participants) {
+        console.warn(`Staff or supervisor not found for supervision ${snap.id}`);
+        return;
       }
-
-      const staff = staffDoc.data() as UserData;
-      const supervisor = supervisorDoc.data() as UserData;
-
-      // Create notifications
-      const notifications = [
-        {
-          userId: staffId,
-          type: 'supervision',
-          title: 'Supervision Scheduled',
-          message: `Your supervision with ${supervisor.name} is scheduled for ${date.toDate().toLocaleString()}`,
-          read: false,
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        },
-        {
-          userId: supervisorId,
-          type: 'supervision',
-          title: 'Supervision Scheduled',
-          message: `Supervision with ${staff.name} is scheduled for ${date.toDate().toLocaleString()}`,
-          read: false,
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        },
-      ];
+      const { staff, supervisor } = participants;
+      const when = date.toDate().toLocaleString();
 
       await Promise.all([
-        // Create notifications
-        ...notifications.map(notification =>
-          admin.firestore().collection('notifications').add(notification)
-        ),
-        // Send email to staff
-        staff.notificationPreferences.email &&
-          sgMail.send({
-            to: staff.email,
-            from: functions.config().sendgrid.from_email,
-            subject: 'Supervision Scheduled',
-            templateId: functions.config().sendgrid.supervision_scheduled_template,
-            dynamicTemplateData: {
-              staffName: staff.name,
-              supervisorName: supervisor.name,
-              date: date.toDate().toLocaleString(),
-              questionnaireLink: `/supervision/${snap.id}/questionnaire`,
-            },
-          }),
+        notifyParticipant(staffId, staff, ['inApp', 'email'], {
+          subject: 'Supervision Scheduled',
+          body: `Your supervision with ${supervisor.name} is scheduled for ${when}`,
+          templateEnvKey: 'SENDGRID_SUPERVISION_SCHEDULED_TEMPLATE_ID',
+          templateData: {
+            staffName: staff.name,
+            supervisorName: supervisor.name,
+            date: when,
+            questionnaireLink: `/supervision/${snap.id}/questionnaire`,
+          },
+          link: `/supervision/${snap.id}/questionnaire`,
+        }),
+        notifyParticipant(supervisorId, supervisor, ['inApp'], {
+          subject: 'Supervision Scheduled',
+          body: `Supervision with ${staff.name} is scheduled for ${when}`,
+        }),
       ]);
-
-      return { success: true };
     } catch (error) {
-      console.error('Error in processSupervsionScheduling:', error);
+      console.error('Error in processSupervisionScheduling:', error);
       throw error;
     }
-  });
+  }
+);
+
+// Process questionnaire submission. Only shared answers mark the supervision,
+// which managers can read, so a confidential answer looks the same as none.
+export const processQuestionnaireSubmission = onDocumentCreated(
+  'supervisionQuestionnaires/{questionnaireId}',
+  async (event) => {
+    const questionnaire = event.data?.data() as QuestionnaireRecord | undefined;
+    if (!questionnaire?.supervisionId || questionnaire.isConfidential) return;
+    const { supervisionId } = questionnaire;
 
-// Process questionnaire submission
-export const processQuestionnaireSubmission = functions.firestore
-  .document('supervisionQuestionnaires/{questionnaireId}')
-  .onCreate(async (snap, context) => {
     try {
-      const supervisionId = snap.data().supervisionId;
-      const supervisionDoc = await admin.firestore()
-        .doc(`supervisions/${supervisionId}`)
-        .get();
+      const supervisionRef = admin.firestore().doc(`supervisions/${supervisionId}`);
+      const supervisionDoc = await supervisionRef.get();
 
       if (!supervisionDoc.exists) {
-        throw new Error('Supervision record not found');
+        console.warn(`Supervision ${supervisionId} not found for questionnaire ${event.params.questionnaireId}`);
+        return;
       }
 
-      const supervision = supervisionDoc.data() as SupervisionRecord;
-      const [staffDoc, supervisorDoc] = await Promise.all([
-        admin.firestore().doc(`users/${supervision.staffId}`).get(),
-        admin.firestore().doc(`users/${supervision.supervisorId}`).get(),
-      ]);
-
-      if (!staffDoc.exists || !supervisorDoc.exists) {
-        throw new Error('Staff or supervisor not found');
-      }
-
-      const staff = staffDoc.data() as UserData;
-      const supervisor = supervisorDoc.data() as UserData;
-
-      // Update supervision record
-      await supervisionDoc.ref.update({
+      await supervisionRef.update({
         questionnaireCompleted: true,
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       });
-
-      return { success: true };
     } catch (error) {
       console.error('Error in processQuestionnaireSubmission:', error);
       throw error;
     }
-  });
+  }
+);
 
 // Process supervision completion
-export const processSupervisionCompletion = functions.firestore
-  .document('supervisions/{supervisionId}')
-  .onUpdate(async (change, context) => {
-    const newData = change.after.data() as SupervisionRecord;
-    const oldData = change.before.data() as SupervisionRecord;
+export const processSupervisionCompletion = onDocumentUpdated(
+  'supervisions/{supervisionId}',
+  async (event) => {
+    if (!event.data) return;
 
-    // Only proceed if status changed to completed
-    if (oldData.status !== 'completed' && newData.status === 'completed') {
-      try {
-        const [staffDoc, supervisorDoc] = await Promise.all([
-          admin.firestore().doc(`users/${newData.staffId}`).get(),
-          admin.firestore().doc(`users/${newData.supervisorId}`).get(),
-        ]);
-
-        if (!staffDoc.exists || !supervisorDoc.exists) {
-          throw new Error('Staff or supervisor not found');
-        }
+    const newData = event.data.after.data() as SupervisionRecord;
+    const oldData = event.data.before.data() as SupervisionRecord;
 
-        const staff = staffDoc.data() as UserData;
-        const supervisor = supervisorDoc.data() as UserData;
-
-        // Send email to staff
-        if (staff.notificationPreferences.email) {
-          await sgMail.send({
-            to: staff.email,
-            from: functions.config().sendgrid.from_email,
-            subject: 'Supervision Summary',
-            templateId: functions.config().sendgrid.supervision_summary_template,
-            dynamicTemplateData: {
-              staffName: staff.name,
-              date: newData.date.toDate().toLocaleString(),
-              notes: newData.notes,
-              actionPoints: newData.actionPoints?.map(ap => ({
-                description: ap.description,
-                dueDate: ap.dueDate.toDate().toLocaleString(),
-              })),
-            },
-          });
-        }
-
-        // Create action point tasks
-        if (newData.actionPoints?.length) {
-          const tasks = newData.actionPoints.map(ap => ({
-            staffId: newData.staffId,
-            supervisorId: newData.supervisorId,
-            title: ap.description,
-            dueDate: ap.dueDate,
-            status: 'pending',
-            type: 'supervision_action',
-            supervisionId: change.after.id,
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          }));
+    // Only proceed if status changed to completed
+    if (oldData.status === 'completed' || newData.status !== 'completed') return;
 
-          await Promise.all(
-            tasks.map(task =>
-              admin.firestore().collection('tasks').add(task)
-            )
-          );
-        }
+    try {
+      const staffDoc = await admin.firestore().doc(`users/${newData.staffId}`).get();
+      await event.data.after.ref.update({
+        nextDueDate: getNextDueDate(newData.date, staffDoc.data() as UserData | undefined),
+        completedAt: newData.completedAt || admin.firestore.Timestamp.now(),
+      });
 
-        return { success: true };
-      } catch (error) {
-        console.error('Error in processSupervisionCompletion:', error);
-        throw error;
+      // Overdue points are raised as tasks by the web app, through TaskContext
+      const actionPoints = (newData.actionPoints || [])
+        .map(ap => toActionPoint(ap, newData.date))
+        .filter(ap => ap.status === 'open' && ap.description.trim());
+
+      const participants = await getParticipants(newData.staffId, newData.supervisorId);
+      if (participants) {
+        await notifyParticipant(newData.staffId, participants.staff, ['email'], {
+          subject: 'Supervision Summary',
+          body: `Your supervision on ${newData.date.toDate().toLocaleString()} has been recorded.`,
+          templateEnvKey: 'SENDGRID_SUPERVISION_SUMMARY_TEMPLATE_ID',
+          templateData: {
+            staffName: participants.staff.name,
+            date: newData.date.toDate().toLocaleString(),
+            notes: newData.notes || '',
+            actionPoints: actionPoints.map(ap => ({
+              description: ap.description,
+              owner: ap.owner,
+              dueDate: ap.dueDate,
+            })),
+          },
+        });
       }
+    } catch (error) {
+      console.error('Error in processSupervisionCompletion:', error);
+      throw error;
     }
-
-    return null;
-  });
+  }
+);
 
 // Process scheduled supervision reminders
-export const processScheduledSupervisionReminders = functions.pubsub
-  .schedule('0 9 * * *') // Run daily at 9 AM
-  .timeZone('Europe/London')
-  .onRun(async (context) => {
+export const processScheduledSupervisionReminders = onSchedule(
+  {
+    schedule: '0 9 * * *', // Run daily at 9 AM
+    timeZone: 'Europe/London',
+  },
+  async () => {
     try {
       const now = admin.firestore.Timestamp.now();
-      const threeDaysFromNow = new Date();
-      threeDaysFromNow.setDate(threeDaysFromNow.getDate() + 3);
+      const threeDaysFromNow = admin.firestore.Timestamp.fromMillis(now.toMillis() + 3 * DAY_MS);
 
       const query = await admin.firestore()
         .collection('supervisions')
         .where('status', '==', 'scheduled')
+        .where('date', '>=', now)
         .where('date', '<=', threeDaysFromNow)
         .get();
 
-      const notifications = [];
+      const pending: Promise<unknown>[] = [];
 
       for (const doc of query.docs) {
         const supervision = doc.data() as SupervisionRecord;
-        const [staffDoc, supervisorDoc] = await Promise.all([
-          admin.firestore().doc(`users/${supervision.staffId}`).get(),
-          admin.firestore().doc(`users/${supervision.supervisorId}`).get(),
-        ]);
-
-        if (!staffDoc.exists || !supervisorDoc.exists) continue;
-
-        const staff = staffDoc.data() as UserData;
-        const supervisor = supervisorDoc.data() as UserData;
-
-        // Send reminders
-        notifications.push(
-          // Staff reminder
-          staff.notificationPreferences.email &&
-          sgMail.send({
-            to: staff.email,
-            from: functions.config().sendgrid.from_email,
-            subject: 'Supervision Reminder',
-            templateId: functions.config().sendgrid.supervision_reminder_template,
-            dynamicTemplateData: {
+        const participants = await getParticipants(supervision.staffId, supervision.supervisorId);
+        if (!participants) continue;
+
+        const { staff, supervisor } = participants;
+        const when = supervision.date.toDate().toLocaleString();
+
+        pending.push(
+          notifyParticipant(supervision.staffId, staff, ['inApp', 'email'], {
+            subject: 'Upcoming Supervision',
+            body: `Your supervision with ${supervisor.name} is scheduled for ${when}`,
+            templateEnvKey: 'SENDGRID_SUPERVISION_REMINDER_TEMPLATE_ID',
+            templateData: {
               staffName: staff.name,
               supervisorName: supervisor.name,
-              date: supervision.date.toDate().toLocaleString(),
+              date: when,
               questionnaireLink: `/supervision/${doc.id}/questionnaire`,
             },
+            link: `/supervision/${doc.id}/questionnaire`,
           }),
-
-          // Supervisor reminder
-          supervisor.notificationPreferences.email &&
-          sgMail.send({
-            to: supervisor.email,
-            from: functions.config().sendgrid.from_email,
-            subject: 'Supervision Reminder',
-            templateId: functions.config().sendgrid.supervision_reminder_template,
-            dynamicTemplateData: {
+          notifyParticipant(supervision.supervisorId, supervisor, ['inApp', 'email'], {
+            subject: 'Upcoming Supervision',
+            body: `Supervision with ${staff.name} is scheduled for ${when}`,
+            templateEnvKey: 'SENDGRID_SUPERVISION_REMINDER_TEMPLATE_ID',
+            templateData: {
               staffName: staff.name,
               supervisorName: supervisor.name,
-              date: supervision.date.toDate().toLocaleString(),
+              date: when,
               supervisionLink: `/supervision/${doc.id}`,
             },
           })
         );
-
-        // Create in-app notifications
-        notifications.push(
-          admin.firestore().collection('notifications').add({
-            userId: supervision.staffId,
-            type: 'supervision',
-            title: 'Upcoming Supervision',
-            message: `Your supervision is scheduled for ${supervision.date.toDate().toLocaleString()}`,
-            read: false,
-            timestamp: now,
-          }),
-          admin.firestore().collection('notifications').add({
-            userId: supervision.supervisorId,
-            type: 'supervision',
-            title: 'Upcoming Supervision',
-            message: `Supervision with ${staff.name} is scheduled for ${supervision.date.toDate().toLocaleString()}`,
-            read: false,
-            timestamp: now,
-          })
-        );
       }
 
-      await Promise.all(notifications);
-      return { success: true };
+      await Promise.all(pending);
     } catch (error) {
       console.error('Error in processScheduledSupervisionReminders:', error);
       throw error;
     }
-  });
+  }
+);
 
 // Migrate supervision records
-export const migrateSupervisionRecords = functions.pubsub
-  .schedule('0 0 1 * *') // Run monthly
-  .timeZone('Europe/London')
-  .onRun(async (context) => {
+export const migrateSupervisionRecords = onSchedule(
+  {
+    schedule: '0 0 1 * *', // Run monthly
+    timeZone: 'Europe/London',
+  },
+  async () => {
     try {
       const now = admin.firestore.Timestamp.now();
-      const sixMonthsAgo = addMonths(now.toDate(), -6);
+      const sixMonthsAgo = now.toDate();
+      sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
 
       const query = await admin.firestore()
         .collection('supervisions')
-        .where('date', '<=', sixMonthsAgo)
+        .where('date', '<=', admin.firestore.Timestamp.fromDate(sixMonthsAgo))
         .where('status', '==', 'completed')
         .get();
 
-      let batch = admin.firestore().batch();
-      let count = 0;
+      // The latest completed session sets the next due date, so it stays
+      // unless there has been a newer one since
+      const recent = await admin.firestore()
+        .collection('supervisions')
+        .where('date', '>', admin.firestore.Timestamp.fromDate(sixMonthsAgo))
+        .where('status', '==', 'completed')
+        .get();
+      const recentlySupervised = new Set(recent.docs.map(doc => doc.data().staffId as string));
+      const latest = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+      query.docs.forEach(doc => {
+        const { staffId, date } = doc.data() as SupervisionRecord;
+        const current = latest.get(staffId);
+        if (!current || date.toMillis() > (current.data() as SupervisionRecord).date.toMillis()) {
+          latest.set(staffId, doc);
+        }
+      });
+      const toArchive = query.docs.filter(doc => {
+        const { staffId } = doc.data() as SupervisionRecord;
+        return recentlySupervised.has(staffId) || latest.get(staffId)?.id !== doc.id;
+      });
 
-      for (const doc of query.docs) {
-        // Archive record
-        const archiveRef = admin.firestore()
-          .collection('archivedSupervisions')
-          .doc(doc.id);
+      let batch = admin.firestore().batch();
+      let operations = 0;
 
-        batch.set(archiveRef, {
+      for (const doc of toArchive) {
+        batch.set(admin.firestore().collection('archivedSupervisions').doc(doc.id), {
           ...doc.data(),
           archivedAt: now,
         });
-
         batch.delete(doc.ref);
+        operations += 2;
 
-        count++;
-
-        // Commit batch every 500 operations
-        if (count % 500 === 0) {
+        if (operations >= BATCH_LIMIT) {
           await batch.commit();
           batch = admin.firestore().batch();
+          operations = 0;
         }
       }
 
-      // Commit any remaining operations
-      if (count % 500 !== 0) {
+      if (operations > 0) {
         await batch.commit();
       }
 
-      console.log(`Migrated ${count} supervision records`);
-      return { success: true, count };
+      console.log(`Migrated ${toArchive.length} supervision records`);
     } catch (error) {
       console.error('Error in migrateSupervisionRecords:', error);
       throw error;
     }
-  });
+  }
+);
+
+const LEGACY_TYPES: Array<[RegExp, SupervisionType]> = [
+  [/appraisal/i, 'appraisal'],
+  [/probation/i, 'probation'],
+  [/induction|care certificate/i, 'induction'],
+];
+
+const getLegacyType = (courseTitle = ''): SupervisionType =>
+  LEGACY_TYPES.find(([pattern]) => pattern.test(courseTitle))?.[1] || 'supervision';
+
+const toTimestamp = (value: unknown): admin.firestore.Timestamp | null => {
+  if (value instanceof admin.firestore.Timestamp) return value;
+  if (typeof value === 'string' && !isNaN(Date.parse(value))) {
+    return admin.firestore.Timestamp.fromDate(new Date(value));
+  }
+  return null;
+};
+
+// Convert supervision rows left in the `training` collection, by the old
+// Supervision page or by training uploads, into supervisions
+export const migrateLegacySupervisions = onSchedule(
+  {
+    schedule: '0 2 * * *', // Run daily at 2 AM
+    timeZone: 'Europe/London',
+  },
+  async () => {
+    try {
+      const db = admin.firestore();
+      const now = admin.firestore.Timestamp.now();
+
+      // Older rows were never given a recordType, only a supervision course title
+      const [byType, byCourse, usersSnapshot] = await Promise.all([
+        db.collection('training').where('recordType', '==', 'supervision').get(),
+        db.collection('training').where('courseTitle', 'in', LEGACY_SUPERVISION_COURSES).get(),
+        db.collection('users').get(),
+      ]);
+
+      const rows = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+      [...byType.docs, ...byCourse.docs].forEach(doc => rows.set(doc.id, doc));
+
+      const users = new Map(usersSnapshot.docs.map(doc => [doc.id, doc.data() as UserData]));
+      const usersByName = new Map(
+        usersSnapshot.docs.map(doc => [String(doc.data().name || '').trim().toLowerCase(), doc.id])
+      );
+
+      let batch = db.batch();
+      let operations = 0;
+      let migrated = 0;
+      let skipped = 0;
+
+      for (const doc of rows.values()) {
+        const row = doc.data() as LegacySupervisionRow;
+        // Rows booked from the old page could have a typed name and no staffId
+        const staffId = row.staffId && users.has(row.staffId)
+          ? row.staffId
+          : usersByName.get((row.staffName || '').trim().toLowerCase());
+        const date = toTimestamp(row.completionDate);
+
+        if (!staffId || !date) {
+          console.warn(`Cannot migrate training record ${doc.id}: no matching staff member or date`);
+          skipped++;
+          continue;
+        }
+
+        const staff = users.get(staffId);
+        const completed = date.toMillis() <= now.toMillis();
+
+        // Keyed by row and date so an upload that reuses the row keeps earlier sessions
+        const supervisionRef = db.collection('supervisions')
+          .doc(`${doc.id}_${date.toDate().toISOString().slice(0, 10)}`);
+
+        batch.set(supervisionRef, {
+          staffId,
+          staffName: staff?.name || row.staffName || '',
+          supervisorId: row.createdBy || '',
+          supervisor: row.supervisor || '',
+          date,
+          type: getLegacyType(row.courseTitle),
+          status: completed ? 'completed' : 'scheduled',
+          notes: row.notes || '',
+          location: row.location || '',
+          agenda: [],
+          actionPoints: [],
+          site: row.site || row.siteId || staff?.site || '',
+          ...(completed ? { completedAt: date, nextDueDate: getNextDueDate(date, staff) } : {}),
+          legacyTrainingId: doc.id,
+          createdAt: toTimestamp(row.createdAt) || now,
+          updatedAt: now,
+        });
+        batch.delete(doc.ref);
+        operations += 2;
+        migrated++;
+
+        if (operations >= BATCH_LIMIT) {
+          await batch.commit();
+          batch = db.batch();
+          operations = 0;
+        }
+      }
+
+      if (operations > 0) {
+        await batch.commit();
+      }
+
+      console.log(`Migrated ${migrated} legacy supervision records, skipped ${skipped}`);
+    } catch (error) {
+      console.error('Error in migrateLegacySupervisions:', error);
+      throw error;
+    }
+  }
+);
 
 // Update supervision statuses
-export const updateSupervisionStatuses = functions.pubsub
-  .schedule('0 * * * *') // Run hourly
-  .timeZone('Europe/London')
-  .onRun(async (context) => {
+export const updateSupervisionStatuses = onSchedule(
+  {
+    schedule: '0 * * * *', // Run hourly
+    timeZone: 'Europe/London',
+  },
+  async () => {
     try {
       const now = admin.firestore.Timestamp.now();
 
-      // Get supervisions that need status updates
       const query = await admin.firestore()
         .collection('supervisions')
         .where('status', '==', 'scheduled')
@@ -372,44 +539,158 @@ export const updateSupervisionStatuses = functions.pubsub
         .get();
 
       let batch = admin.firestore().batch();
-      let count = 0;
+      let operations = 0;
+      let updated = 0;
 
       for (const doc of query.docs) {
         const supervision = doc.data() as SupervisionRecord;
 
-        // Update to completed if questionnaire is done
-        if (supervision.questionnaireCompleted) {
-          batch.update(doc.ref, {
-            status: 'completed',
-            updatedAt: now,
-          });
-        }
-        // Update to cancelled if more than 24 hours past scheduled time
-        else if (supervision.date.toMillis() + (24 * 60 * 60 * 1000) < now.toMillis()) {
-          batch.update(doc.ref, {
-            status: 'cancelled',
-            updatedAt: now,
-          });
-        }
+        // More than 24 hours past the scheduled time without being recorded. The
+        // questionnaire is filled in beforehand, so it does not complete the session.
+        if (supervision.date.toMillis() + DAY_MS >= now.toMillis()) continue;
 
-        count++;
+        batch.update(doc.ref, { status: 'overdue', updatedAt: now });
+        operations++;
+        updated++;
 
-        // Commit batch every 500 operations
-        if (count % 500 === 0) {
+        if (operations >= BATCH_LIMIT) {
           await batch.commit();
           batch = admin.firestore().batch();
+          operations = 0;
         }
       }
 
-      // Commit any remaining operations
-      if (count % 500 !== 0) {
+      if (operations > 0) {
         await batch.commit();
       }
 
-      console.log(`Updated ${count} supervision statuses`);
-      return { success: true, count };
+      console.log(`Updated ${updated} supervision statuses`);
     } catch (error) {
       console.error('Error in updateSupervisionStatuses:', error);
       throw error;
     }
+  }
+);
+
+// en-CA formats as yyyy-MM-dd
+const dateFormatter = new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/London' });
+
+// Calendar quarter in UK time, as 'yyyy-Qn'
+const getQuarter = (date: Date) => {
+  const [year, month] = dateFormatter.format(date).split('-').map(Number);
+  return `${year}-Q${Math.ceil(month / 3)}`;
+};
+
+// The last `count` quarters to have ended, oldest first
+const getClosedQuarters = (now: Date, count: number) => {
+  const [year, month] = dateFormatter.format(now).split('-').map(Number);
+  const current = year * 4 + Math.floor((month - 1) / 3);
+  return Array.from({ length: count }, (_, index) => {
+    const quarter = current - count + index;
+    const quarterYear = Math.floor(quarter / 4);
+    return {
+      key: `${quarterYear}-Q${(quarter % 4) + 1}`,
+      start: new Date(Date.UTC(quarterYear, (quarter % 4) * 3, 1)),
+    };
   });
+};
+
+const average = (ratings: number[]) =>
+  ratings.length ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10 : null;
+
+// Shared answers are listed by name, so a total could give away the confidential
+// ones unless there are enough of those to hide among
+const canBreakDown = (responses: number, confidential: number) =>
+  responses >= MIN_FEEDBACK_RESPONSES && (confidential === 0 || confidential >= MIN_FEEDBACK_RESPONSES);
+
+const getConcernTheme = (concern: string) => {
+  const text = concern.toLowerCase();
+  return SUPERVISION_CONCERN_THEMES.find(({ keywords }) => keywords.some(keyword => text.includes(keyword)))?.theme ||
+    OTHER_CONCERN_THEME;
+};
+
+// Questionnaire answers for a site. Confidential ones are only counted in the
+// rating and concern themes of calendar quarters that have ended, each checked
+// against the minimum on its own, so the figures for a quarter never change
+// and no choice of range can single out a confidential answer.
+export const getSupervisionFeedbackSummary = onCall<{ site?: string; quarters?: number }>(
+  async (request): Promise<SupervisionFeedbackSummary> => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const site = request.data.site || '';
+    const quarters = Math.min(Math.max(Math.round(request.data.quarters || 4), 1), 8);
+
+    const callerDoc = await admin.firestore().doc(`users/${request.auth.uid}`).get();
+    const caller = callerDoc.data() as UserData | undefined;
+    const managesSite = caller?.role === 'manager' && !!site && (caller.sites || []).includes(site);
+    if (caller?.role !== 'admin' && !managesSite) {
+      throw new HttpsError('permission-denied', 'User does not have permission to view feedback for this site');
+    }
+
+    try {
+      const periods = getClosedQuarters(new Date(), quarters);
+
+      // A day early so answers from the first hours of a BST quarter are included
+      let query = admin.firestore()
+        .collection('supervisionQuestionnaires')
+        .where('submittedAt', '>=', admin.firestore.Timestamp.fromMillis(periods[0].start.getTime() - DAY_MS));
+      if (site) {
+        query = query.where('site', '==', site);
+      }
+      const snapshot = await query.get();
+      const answers = snapshot.docs
+        .map(doc => ({ id: doc.id, ...(doc.data() as QuestionnaireRecord) }))
+        .filter(answer => answer.submittedAt && getQuarter(answer.submittedAt.toDate()) >= periods[0].key);
+
+      return {
+        site,
+        quarters,
+        minimumResponses: MIN_FEEDBACK_RESPONSES,
+        periods: periods.map(({ key }) => {
+          const inPeriod = answers.filter(answer => answer.submittedAt && getQuarter(answer.submittedAt.toDate()) === key);
+          const confidential = inPeriod.filter(answer => answer.isConfidential).length;
+          if (!canBreakDown(inPeriod.length, confidential)) {
+            return { period: key, responses: null, averageRating: null, themes: [] };
+          }
+
+          const themeCounts = new Map<string, number>();
+          inPeriod.forEach(answer => (answer.concerns || []).forEach(concern => {
+            const theme = getConcernTheme(concern);
+            themeCounts.set(theme, (themeCounts.get(theme) || 0) + 1);
+          }));
+
+          return {
+            period: key,
+            responses: inPeriod.length,
+            averageRating: average(inPeriod.map(answer => answer.rating).filter((rating): rating is number => !!rating)),
+            themes: Array.from(themeCounts.entries())
+              .map(([theme, count]) => ({ theme, count }))
+              .sort((a, b) => b.count - a.count),
+          };
+        }),
+        // Shared answers are listed as they come in, including this quarter's
+        feedback: answers
+          .filter(answer => !answer.isConfidential)
+          .map(answer => ({
+            id: answer.id,
+            supervisionId: answer.supervisionId,
+            staffId: answer.staffId,
+            ...(answer.staffName ? { staffName: answer.staffName } : {}),
+            topics: answer.topics || [],
+            concerns: answer.concerns || [],
+            suggestions: answer.suggestions || [],
+            comments: answer.comments || '',
+            rating: answer.rating || 0,
+            isConfidential: false,
+            submittedAt: answer.submittedAt?.toDate().toISOString() || '',
+          }))
+          .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt)),
+      };
+    } catch (error) {
+      console.error('Error building supervision feedback summary:', error);
+      throw new HttpsError('internal', 'Failed to load supervision feedback');
+    }
+  }
+);
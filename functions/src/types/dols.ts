@@ -0,0 +1,53 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * DoLS (Deprivation of Liberty Safeguards) schema.
+ *
+ * Mirrors `src/types/dols.ts` in the web app, which writes these documents.
+ * Keep the two in sync.
+ */
+
+export type DolsStatus = 'pending' | 'active' | 'expired' | 'rejected' | 'renewed';
+export type DolsUrgency = 'standard' | 'urgent' | 'critical';
+export type DolsScheme = 'dols' | 'lps';
+export type DolsConditionStatus = 'outstanding' | 'met' | 'not_met';
+
+export interface DolsConditionData {
+  id: string;
+  description: string;
+  status: DolsConditionStatus;
+  dueDate: Timestamp | null;
+  notes: string;
+}
+
+export interface DolsDocument {
+  url: string;
+  name: string;
+  uploadDate: Timestamp;
+  uploadedBy?: string;
+}
+
+export interface DolsRecordData {
+  residentName: string;
+  site: string;
+  managerId: string;
+  scheme: DolsScheme;
+  status: DolsStatus;
+  urgencyLevel: DolsUrgency;
+  applicationDate: Timestamp;
+  startDate: Timestamp | null;
+  expiryDate: Timestamp | null;
+  supervisingBody: string;
+  supervisingBodyReference: string;
+  assessor: string;
+  notes: string;
+  conditions: DolsConditionData[];
+  documents: DolsDocument[];
+  remindersSent: number;
+  lastReminderDate: Timestamp | null;
+  previousAuthorisationId: string | null;
+  renewedById: string | null;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
@@ -0,0 +1,77 @@
+/**
+ * Leave policy and entitlement schema.
+ *
+ * Mirrors `src/types/leave.ts` in the web app, which reads these documents.
+ * Keep the two in sync.
+ */
+
+export type LeaveAccrual = 'contract' | 'hours';
+
+export interface LeaveBlackout {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface LeavePolicyData {
+  site: string;
+  name: string;
+  yearStartMonth: number;
+  yearStartDay: number;
+  fullTimeHours: number;
+  partTimeAccrual: LeaveAccrual;
+  carryForwardCap: number;
+  maxStaffOffPerDay: number | null;
+  blackoutPeriods: LeaveBlackout[];
+}
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicyData = {
+  site: '',
+  name: 'Default policy',
+  yearStartMonth: 4,
+  yearStartDay: 1,
+  fullTimeHours: 37.5,
+  partTimeAccrual: 'hours',
+  carryForwardCap: 5,
+  maxStaffOffPerDay: 2,
+  blackoutPeriods: [],
+};
+
+export interface LeaveEntitlementData {
+  id: string;
+  userId: string;
+  site: string;
+  leaveYear: string;
+  totalEntitlement: number;
+  remainingDays: number;
+  carryForwardDays: number;
+  yearStart?: string;
+  yearEnd?: string;
+  accrual?: LeaveAccrual;
+  contractedHours?: number;
+  accruedDays?: number;
+  usedDays?: number;
+  hoursWorked?: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LeaveConflictType = 'team-limit' | 'role-coverage' | 'shift-assigned' | 'blackout';
+
+export interface LeaveConflict {
+  type: LeaveConflictType;
+  message: string;
+  dates?: string[];
+}
+
+export interface LeaveAffectedShift {
+  rotaId: string;
+  site: string;
+  shiftId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  role: string;
+  shortfall: { role: string; required: number; remaining: number } | null;
+}
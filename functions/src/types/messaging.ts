@@ -0,0 +1,85 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { DeliveryStatus, NotificationChannel } from './notifications';
+
+/**
+ * Scheduled message schema.
+ *
+ * Mirrors `src/types/communication.ts` in the web app, which writes these
+ * documents. Keep the two in sync.
+ */
+
+export type MessageType = 'email' | 'sms' | 'both';
+export type RecurrenceFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+export type ScheduledMessageStatus = 'active' | 'paused' | 'completed';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Every N days/weeks/months
+  interval: number;
+  // Local wall-clock time, HH:mm
+  time: string;
+  // 0 (Sunday) - 6, weekly only
+  daysOfWeek?: number[];
+  // 1-31, monthly only; clamped to the last day of shorter months
+  dayOfMonth?: number;
+  // yyyy-MM-dd in `timeZone`
+  startDate: string;
+  endDate?: string | null;
+  timeZone: string;
+}
+
+export interface ScheduledMessageData {
+  type: MessageType;
+  subject: string;
+  message: string;
+  recipients: string[];
+  recipientGroups?: string[];
+  template?: string;
+  variables?: Record<string, string>;
+  recurrence: RecurrenceRule;
+  status: ScheduledMessageStatus;
+  nextRunAt: Timestamp | null;
+  lastRunAt: Timestamp | null;
+  runCount: number;
+  site: string;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface ScheduledMessageSendLogData {
+  userId: string;
+  userName: string;
+  runAt: Timestamp;
+  deliveries: Array<{
+    channel: NotificationChannel;
+    status: DeliveryStatus;
+    deliveryId: string;
+    error?: string;
+  }>;
+  createdAt: Timestamp;
+}
+
+export type RecipientGroupType = 'static' | 'dynamic';
+export type RecipientGroupRuleType = 'role' | 'site' | 'shiftRole' | 'expiredTraining' | 'onShiftTomorrow';
+
+export interface RecipientGroupRule {
+  type: RecipientGroupRuleType;
+  // role: 'admin' | 'manager' | 'staff'; site: site name; shiftRole: ShiftRole.
+  // Optional for expiredTraining (course title) and unused for onShiftTomorrow.
+  value?: string;
+}
+
+export interface RecipientGroupData {
+  name: string;
+  description?: string;
+  type: RecipientGroupType;
+  // Static groups only
+  memberIds: string[];
+  // Dynamic groups only; members match all rules, or any rule when match is 'any'
+  rules: RecipientGroupRule[];
+  match: 'all' | 'any';
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
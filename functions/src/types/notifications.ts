@@ -0,0 +1,63 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+export type NotificationChannel = 'email' | 'sms' | 'inApp';
+
+export type DeliveryStatus = 'queued' | 'sent' | 'failed' | 'skipped';
+
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  // Recipient user ID; required for in-app notifications
+  userId?: string;
+  // Email address or phone number for email/SMS
+  to?: string;
+  subject: string;
+  body: string;
+  html?: string;
+  templateId?: string;
+  templateData?: Record<string, unknown>;
+  // In-app notification fields
+  type?: string;
+  link?: string;
+  priority?: 'low' | 'medium' | 'high';
+  site?: string;
+  // Function or feature that raised the message, e.g. 'dols' or 'mass_message'
+  source: string;
+}
+
+export interface DeliveryResult {
+  deliveryId: string;
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  driver: string | null;
+  providerId?: string;
+  error?: string;
+}
+
+export interface DeliveryRecordData {
+  channel: NotificationChannel;
+  driver: string | null;
+  source: string;
+  userId: string | null;
+  to: string | null;
+  subject: string;
+  status: DeliveryStatus;
+  attempts: number;
+  providerId: string | null;
+  error: string | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  sentAt: Timestamp | null;
+}
+
+export interface OutboxEntryData {
+  channel: NotificationChannel;
+  deliveryId: string;
+  userId: string | null;
+  to: string | null;
+  subject: string;
+  body: string;
+  html: string | null;
+  templateId: string | null;
+  templateData: Record<string, unknown> | null;
+  createdAt: Timestamp;
+}
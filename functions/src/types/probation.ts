@@ -0,0 +1,35 @@
+/**
+ * Probation schema.
+ *
+ * Mirrors `src/types/probation.ts` in the web app, which reads the milestone
+ * flags, outcomes and supervisions written here. Keep the two in sync.
+ */
+
+export type ProbationMilestone = 'week1Review' | 'week4Supervision' | 'week8Review' | 'week12Supervision';
+
+export type ProbationStatus = 'pending' | 'extended' | 'completed' | 'failed';
+
+export type ProbationDecision = 'pass' | 'extend' | 'fail';
+
+export const PROBATION_MILESTONES: Array<{
+  key: ProbationMilestone;
+  label: string;
+  week: number;
+  type: 'supervision' | 'probation';
+}> = [
+  { key: 'week1Review', label: 'Week 1 Review', week: 1, type: 'probation' },
+  { key: 'week4Supervision', label: 'Week 4 Supervision', week: 4, type: 'supervision' },
+  { key: 'week8Review', label: 'Week 8 Review', week: 8, type: 'probation' },
+  { key: 'week12Supervision', label: 'Week 12 Supervision', week: 12, type: 'supervision' },
+];
+
+export const PROBATION_WEEKS = 12;
+
+export interface ProbationOutcome {
+  decision: ProbationDecision;
+  reason: string;
+  extendedTo: string | null;
+  decidedBy: string;
+  decidedByName: string;
+  decidedAt: string;
+}
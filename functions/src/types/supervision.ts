@@ -0,0 +1,83 @@
+/**
+ * Supervision schedule schema.
+ *
+ * Mirrors `src/utils/supervisionSchedule.ts` in the web app, which works out
+ * the same due dates, and `SUPERVISION_COURSES` in `src/utils/courseConstants.ts`
+ * for rows still held in the `training` collection. Keep them in sync.
+ */
+
+export type SupervisionType = 'supervision' | 'appraisal' | 'probation' | 'induction';
+
+export const DEFAULT_SUPERVISION_FREQUENCY_WEEKS = 12;
+
+export const LEGACY_SUPERVISION_COURSES = [
+  'Supervision',
+  'Appraisal',
+  'Induction Checklist - Support Worker (Residential)',
+  'Induction Milestone - Week 1 - Probation Review',
+  'Induction Milestone - Week 4 - Supervision',
+  'Induction Milestone - Week 8 - Probation Review',
+  'Induction Milestone - Week 12 - Supervision',
+  'Induction Milestone - Week 16 - Probation Review',
+  'Induction Milestone - Week 20 - Supervision',
+  'Induction Milestone - Week 24 - Probation Review',
+  'Care Certificate',
+];
+
+export type SupervisionActionStatus = 'open' | 'completed' | 'cancelled';
+
+// Mirrors `SupervisionActionPoint` in `src/types/supervision.ts`
+export interface SupervisionActionPoint {
+  id: string;
+  description: string;
+  ownerId: string;
+  ownerName: string;
+  dueDate: string;
+  status: SupervisionActionStatus;
+  raisedIn: string | null;
+  completedAt: string | null;
+}
+
+// Fewer answers than this, or fewer confidential answers than this, in a site
+// and period are not broken down, so a confidential answer cannot be picked out
+export const MIN_FEEDBACK_RESPONSES = 3;
+
+// Concerns are grouped under the first theme with a matching keyword
+export const SUPERVISION_CONCERN_THEMES: Array<{ theme: string; keywords: string[] }> = [
+  { theme: 'Workload & staffing', keywords: ['workload', 'staffing', 'short staffed', 'understaffed', 'busy', 'overtime', 'cover'] },
+  { theme: 'Rota & hours', keywords: ['rota', 'shift', 'hours', 'nights', 'weekend', 'annual leave', 'holiday'] },
+  { theme: 'Training', keywords: ['training', 'course', 'induction', 'learn', 'qualification'] },
+  { theme: 'Wellbeing & stress', keywords: ['stress', 'wellbeing', 'tired', 'burnout', 'anxious', 'mental health', 'sick'] },
+  { theme: 'Management & support', keywords: ['manager', 'management', 'support', 'supervisor', 'communication', 'listened'] },
+  { theme: 'Team relationships', keywords: ['team', 'colleague', 'bullying', 'conflict', 'attitude'] },
+  { theme: 'Safeguarding & care', keywords: ['safeguarding', 'resident', 'service user', 'medication', 'incident', 'care plan'] },
+  { theme: 'Pay & conditions', keywords: ['pay', 'wage', 'salary', 'money', 'contract'] },
+];
+
+export const OTHER_CONCERN_THEME = 'Other';
+
+// Mirrors `SupervisionFeedbackSummary` in `src/types/supervision.ts`, with dates as ISO strings
+export interface SupervisionFeedbackSummary {
+  site: string;
+  quarters: number;
+  minimumResponses: number;
+  periods: Array<{
+    period: string;
+    responses: number | null;
+    averageRating: number | null;
+    themes: Array<{ theme: string; count: number }>;
+  }>;
+  feedback: Array<{
+    id: string;
+    supervisionId: string;
+    staffId: string;
+    staffName?: string;
+    topics: string[];
+    concerns: string[];
+    suggestions: string[];
+    comments: string;
+    rating: number;
+    isConfidential: boolean;
+    submittedAt: string;
+  }>;
+}
@@ -1,9 +1,28 @@
 import { Timestamp } from 'firebase-admin/firestore';
+import * as sgMail from '@sendgrid/mail';
+import { Twilio } from 'twilio';
 
 export const toDate = (timestamp: Timestamp): Date => {
   return timestamp.toDate();
 };
 
+interface TrainingExpiry {
+  staffId: string;
+  courseTitle: string;
+  expiryDate: Timestamp;
+}
+
+// Each person's latest record of each course; a renewal supersedes the record it renews
+export const getLatestTraining = <T extends TrainingExpiry>(records: T[]): T[] => {
+  const latest = new Map<string, T>();
+  records.forEach(record => {
+    const key = `${record.staffId}/${record.courseTitle}`;
+    const current = latest.get(key);
+    if (!current || record.expiryDate.toMillis() > current.expiryDate.toMillis()) latest.set(key, record);
+  });
+  return Array.from(latest.values());
+};
+
 // Helper to check if email notifications are configured
 export const isEmailConfigured = (): boolean => {
   return !!(process.env.SENDGRID_FROM_EMAIL && process.env.SENDGRID_API_KEY);
@@ -17,3 +36,28 @@ export const isSMSConfigured = (): boolean => {
     process.env.TWILIO_PHONE_NUMBER
   );
 };
+
+let sendGridReady = false;
+let twilioClient: Twilio | null = null;
+
+// Clients are created on first use so that loading a module never fails
+// when a provider is not configured (e.g. in the emulator)
+export const getSendGrid = (): typeof sgMail | null => {
+  if (!isEmailConfigured()) return null;
+  if (!sendGridReady) {
+    sgMail.setApiKey(process.env.SENDGRID_API_KEY || '');
+    sendGridReady = true;
+  }
+  return sgMail;
+};
+
+export const getTwilioClient = (): Twilio | null => {
+  if (!isSMSConfigured()) return null;
+  if (!twilioClient) {
+    twilioClient = new Twilio(
+      process.env.TWILIO_ACCOUNT_SID || '',
+      process.env.TWILIO_AUTH_TOKEN || ''
+    );
+  }
+  return twilioClient;
+};
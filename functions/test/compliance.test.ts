@@ -0,0 +1,87 @@
+import {
+  clearFirestore,
+  daysFromNow,
+  db,
+  functions,
+  getData,
+  notificationsFor,
+  restoreTransports,
+  runScheduled,
+  seed,
+  SentMessages,
+  stubTransports,
+} from './helpers';
+import { checkComplianceExpiry } from '../src/compliance';
+
+const STAFF = { name: 'Sam Staff', email: 'sam@example.com', role: 'staff', siteId: 'oak' };
+
+const item = (expiryInDays: number) => ({
+  date: daysFromNow(expiryInDays - 365),
+  expiryDate: daysFromNow(expiryInDays),
+  status: 'valid',
+});
+
+let sent: SentMessages;
+
+beforeEach(async () => {
+  await clearFirestore();
+  await Promise.all([
+    seed('users/staff', STAFF),
+    seed('users/manager', { name: 'Mo Manager', email: 'mo@example.com', role: 'manager', siteId: 'oak' }),
+  ]);
+  sent = stubTransports();
+});
+
+afterEach(restoreTransports);
+
+afterAll(() => functions.cleanup());
+
+describe('checkComplianceExpiry', () => {
+  it('marks expired items and warns about items expiring within 30 days', async () => {
+    await seed('compliance/staff', {
+      userId: 'staff',
+      siteId: 'oak',
+      dbsCheck: item(10),
+      healthCheck: item(-1),
+      induction: item(90),
+    });
+
+    await runScheduled(checkComplianceExpiry);
+
+    expect(await getData('compliance/staff')).toMatchObject({
+      dbsCheck: { status: 'valid' },
+      healthCheck: { status: 'expired' },
+      induction: { status: 'valid' },
+    });
+
+    expect(sent.email).toHaveLength(1);
+    expect(sent.email[0]).toMatchObject({
+      to: STAFF.email,
+      subject: 'DBS Check Expiring Soon',
+      source: 'compliance',
+    });
+    expect(await notificationsFor('staff')).toEqual([
+      expect.objectContaining({ title: 'DBS Check Expiring', type: 'task' }),
+    ]);
+  });
+
+  it('gives DBS renewals to the site manager', async () => {
+    await seed('compliance/staff', { userId: 'staff', siteId: 'oak', dbsCheck: item(10) });
+
+    await runScheduled(checkComplianceExpiry);
+
+    const tasks = await db.collection('tasks').where('relatedRecordId', '==', 'staff').get();
+    expect(tasks.docs.map(doc => doc.data())).toEqual([
+      expect.objectContaining({ title: 'DBS Check Expiring - Sam Staff', assignedTo: 'manager' }),
+    ]);
+  });
+
+  it('skips records whose user no longer exists', async () => {
+    await seed('compliance/leaver', { userId: 'leaver', dbsCheck: item(10) });
+
+    await runScheduled(checkComplianceExpiry);
+
+    expect(sent.email).toHaveLength(0);
+    expect(await getData('compliance/leaver')).toMatchObject({ dbsCheck: { status: 'valid' } });
+  });
+});
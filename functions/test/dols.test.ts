@@ -0,0 +1,94 @@
+import {
+  clearFirestore,
+  daysFromNow,
+  functions,
+  getData,
+  notificationsFor,
+  restoreTransports,
+  runScheduled,
+  seed,
+  SentMessages,
+  stubTransports,
+} from './helpers';
+import { checkExpiringDoLS } from '../src/dols';
+
+const MANAGER = {
+  name: 'Mo Manager',
+  email: 'mo@example.com',
+  phoneNumber: '+447700900001',
+  notificationPreferences: { email: true, sms: true },
+};
+
+const dols = (expiryInDays: number, data: Record<string, unknown> = {}) => ({
+  residentName: 'Rita Resident',
+  managerId: 'manager',
+  site: 'Oak House',
+  scheme: 'dols',
+  status: 'active',
+  supervisingBody: 'Leeds City Council',
+  expiryDate: daysFromNow(expiryInDays),
+  remindersSent: 0,
+  ...data,
+});
+
+let sent: SentMessages;
+
+beforeEach(async () => {
+  await clearFirestore();
+  await seed('users/manager', MANAGER);
+  sent = stubTransports();
+});
+
+afterEach(restoreTransports);
+
+afterAll(() => functions.cleanup());
+
+describe('checkExpiringDoLS', () => {
+  it('sends the first reminder on every channel and raises a renewal task', async () => {
+    await seed('dols/expiring', dols(20));
+
+    await runScheduled(checkExpiringDoLS);
+
+    expect(await getData('dols/expiring')).toMatchObject({ remindersSent: 1, status: 'active' });
+    expect(sent.email).toHaveLength(1);
+    expect(sent.email[0]).toMatchObject({ to: MANAGER.email, subject: 'DoLS Expiring Soon', source: 'dols' });
+    expect(sent.sms).toHaveLength(1);
+    expect(sent.sms[0].to).toBe(MANAGER.phoneNumber);
+    expect(await notificationsFor('manager')).toHaveLength(1);
+
+    expect(await getData('tasks/dols-renewal-expiring')).toMatchObject({
+      assignedTo: 'manager',
+      relatedRecordType: 'dols',
+      relatedRecordId: 'expiring',
+      status: 'pending',
+    });
+  });
+
+  it('marks an authorisation expired with the final reminder', async () => {
+    await seed('dols/expired', dols(-1, { remindersSent: 2 }));
+
+    await runScheduled(checkExpiringDoLS);
+
+    expect(await getData('dols/expired')).toMatchObject({ remindersSent: 3, status: 'expired' });
+    expect(sent.email[0].subject).toBe('URGENT: DoLS Authorization Expired');
+  });
+
+  it('leaves authorisations alone until they are within 30 days', async () => {
+    await seed('dols/later', dols(60));
+
+    await runScheduled(checkExpiringDoLS);
+
+    expect(await getData('dols/later')).toMatchObject({ remindersSent: 0 });
+    expect(await getData('tasks/dols-renewal-later')).toBeUndefined();
+    expect(sent.email).toHaveLength(0);
+    expect(sent.sms).toHaveLength(0);
+  });
+
+  it('does not raise a renewal task once the renewal has been applied for', async () => {
+    await seed('dols/renewing', dols(20, { renewedById: 'renewal' }));
+
+    await runScheduled(checkExpiringDoLS);
+
+    expect(await getData('tasks/dols-renewal-renewing')).toBeUndefined();
+  });
+});
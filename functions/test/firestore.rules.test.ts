@@ -0,0 +1,359 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { collection, doc, getDoc, getDocs, query, setDoc, updateDoc, where } from 'firebase/firestore';
+
+/**
+ * Firestore rules, run against the emulator by `npm test`.
+ *
+ * Every scoped collection gets a document at the caller's site ('own') and one
+ * at another site ('other'), owned by somebody else, and each role reads both.
+ */
+
+const OWN_SITE = 'Oak House';
+const OTHER_SITE = 'Elm House';
+
+type Role = 'staff' | 'manager' | 'admin';
+
+const PROFILES: Record<Role, Record<string, unknown>> = {
+  staff: { role: 'staff', site: OWN_SITE, sites: [OWN_SITE], name: 'Sam Staff' },
+  manager: { role: 'manager', site: OWN_SITE, sites: [OWN_SITE], name: 'Mo Manager' },
+  admin: { role: 'admin', site: OWN_SITE, sites: [OWN_SITE], name: 'Ada Admin' },
+};
+
+// Whether each role may read the own-site and other-site document
+interface ReadCase {
+  collection: string;
+  siteField?: string;
+  data?: Record<string, unknown>;
+  staff: [boolean, boolean];
+  manager: [boolean, boolean];
+  admin: [boolean, boolean];
+}
+
+const READ_CASES: ReadCase[] = [
+  { collection: 'users', data: { role: 'staff' }, staff: [true, false], manager: [true, false], admin: [true, true] },
+  { collection: 'training', siteField: 'siteId', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'sickness', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'absencePolicies', staff: [true, true], manager: [true, true], admin: [true, true] },
+  { collection: 'leavePolicies', staff: [true, true], manager: [true, true], admin: [true, true] },
+  { collection: 'leave-requests', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'leave-entitlements', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'dols', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'supervisions', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'supervisionTemplates', staff: [true, true], manager: [true, true], admin: [true, true] },
+  // Only the author; managers go through the feedback summary function
+  { collection: 'supervisionQuestionnaires', staff: [false, false], manager: [false, false], admin: [false, false] },
+  {
+    collection: 'communicationBook',
+    data: { visibility: 'public' },
+    staff: [true, false],
+    manager: [true, false],
+    admin: [true, true],
+  },
+  // A site broadcast; personal notifications are covered below
+  {
+    collection: 'notifications',
+    data: { userId: null },
+    staff: [true, false],
+    manager: [true, false],
+    admin: [true, true],
+  },
+  { collection: 'deliveries', staff: [false, false], manager: [false, false], admin: [true, true] },
+  { collection: 'outbox', staff: [false, false], manager: [false, false], admin: [true, true] },
+  { collection: 'scheduledMessages', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'messageTemplates', staff: [false, false], manager: [true, false], admin: [true, true] },
+  { collection: 'recipientGroups', staff: [false, false], manager: [true, true], admin: [true, true] },
+  { collection: 'rotas', staff: [true, true], manager: [true, true], admin: [true, true] },
+  { collection: 'shiftPatterns', staff: [true, true], manager: [true, true], admin: [true, true] },
+  { collection: 'shiftSwaps', staff: [true, false], manager: [true, false], admin: [true, true] },
+  { collection: 'rotaVersions', staff: [true, false], manager: [true, false], admin: [true, true] },
+  { collection: 'calendarTokens', staff: [false, false], manager: [false, false], admin: [true, true] },
+  {
+    collection: 'tasks',
+    data: { assignedTo: 'colleague' },
+    staff: [false, false],
+    manager: [true, false],
+    admin: [true, true],
+  },
+];
+
+let testEnv: RulesTestEnvironment;
+
+const firestoreAs = (role: Role) => testEnv.authenticatedContext(role).firestore();
+
+const seed = async (path: string, data: Record<string, unknown>) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), path), data);
+  });
+};
+
+// Owned by a colleague so only site scoping can grant access
+const recordAt = (site: string, testCase: ReadCase) => ({
+  [testCase.siteField || 'site']: site,
+  staffId: 'colleague',
+  userId: 'colleague',
+  supervisorId: 'colleague',
+  createdBy: 'colleague',
+  requesterId: 'colleague',
+  staffIds: ['colleague'],
+  deleted: false,
+  ...testCase.data,
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-care-home',
+    firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await Promise.all((Object.keys(PROFILES) as Role[]).map(role => seed(`users/${role}`, PROFILES[role])));
+});
+
+describe('site scoping', () => {
+  describe.each(READ_CASES)('$collection', (testCase) => {
+    beforeEach(async () => {
+      await seed(`${testCase.collection}/own`, recordAt(OWN_SITE, testCase));
+      await seed(`${testCase.collection}/other`, recordAt(OTHER_SITE, testCase));
+    });
+
+    it.each(['staff', 'manager', 'admin'] as Role[])('%s reads own and other site as expected', async (role) => {
+      const [own, other] = testCase[role];
+      const db = firestoreAs(role);
+      const ownRead = getDoc(doc(db, testCase.collection, 'own'));
+      const otherRead = getDoc(doc(db, testCase.collection, 'other'));
+
+      await (own ? assertSucceeds(ownRead) : assertFails(ownRead));
+      await (other ? assertSucceeds(otherRead) : assertFails(otherRead));
+    });
+  });
+});
+
+describe('personal notifications', () => {
+  beforeEach(async () => {
+    // Stamped with the sender's site, as NotificationContext does
+    await seed('notifications/colleague', { userId: 'colleague', site: OWN_SITE, deleted: false, read: false });
+    await seed('notifications/mine', { userId: 'staff', site: OWN_SITE, deleted: false, read: false });
+    await seed('notifications/broadcast', { userId: null, site: OWN_SITE, deleted: false, read: false });
+  });
+
+  it('are readable by their recipient', async () => {
+    await assertSucceeds(getDoc(doc(firestoreAs('staff'), 'notifications/mine')));
+  });
+
+  it('are hidden from colleagues and managers at the same site', async () => {
+    await assertFails(getDoc(doc(firestoreAs('staff'), 'notifications/colleague')));
+    await assertFails(getDoc(doc(firestoreAs('manager'), 'notifications/colleague')));
+  });
+
+  it('are readable by admins', async () => {
+    await assertSucceeds(getDoc(doc(firestoreAs('admin'), 'notifications/colleague')));
+  });
+
+  it('cannot be changed by the site manager', async () => {
+    await assertFails(updateDoc(doc(firestoreAs('manager'), 'notifications/colleague'), { read: true }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('manager'), 'notifications/broadcast'), { read: true }));
+  });
+
+  it('only allow site queries limited to broadcasts', async () => {
+    const notifications = collection(firestoreAs('staff'), 'notifications');
+
+    await assertSucceeds(getDocs(query(
+      notifications,
+      where('deleted', '==', false),
+      where('site', '==', OWN_SITE),
+      where('userId', '==', null)
+    )));
+    await assertFails(getDocs(query(notifications, where('deleted', '==', false), where('site', '==', OWN_SITE))));
+  });
+});
+
+describe('own profile', () => {
+  it('lets staff change their preferences', async () => {
+    await assertSucceeds(updateDoc(doc(firestoreAs('staff'), 'users/staff'), { phoneNumber: '07700900000' }));
+  });
+
+  it.each(['annualLeave', 'contractedHours', 'startDate', 'site', 'probationStatus'])(
+    'does not let staff change %s',
+    async (field) => {
+      await assertFails(updateDoc(doc(firestoreAs('staff'), 'users/staff'), { [field]: 40 }));
+    }
+  );
+});
+
+describe('return to work sign-off', () => {
+  const interview = {
+    conductedBy: 'manager',
+    answers: { reason: 'Flu' },
+    employeeSignOff: null,
+    managerSignOff: { name: 'Mo Manager' },
+    completedAt: null,
+  };
+
+  beforeEach(async () => {
+    await seed('sickness/absence', { staffId: 'staff', site: OWN_SITE, returnToWorkInterview: interview });
+  });
+
+  it('lets the employee add their own signature', async () => {
+    await assertSucceeds(updateDoc(doc(firestoreAs('staff'), 'sickness/absence'), {
+      'returnToWorkInterview.employeeSignOff': { name: 'Sam Staff', userId: 'staff' },
+      'updatedAt': new Date(),
+    }));
+  });
+
+  it('does not let the employee change anything else', async () => {
+    await assertFails(updateDoc(doc(firestoreAs('staff'), 'sickness/absence'), {
+      'returnToWorkInterview.answers': { reason: 'Something else' },
+    }));
+    await assertFails(updateDoc(doc(firestoreAs('staff'), 'sickness/absence'), {
+      'returnToWorkInterview.employeeSignOff': { name: 'Sam Staff', userId: 'staff' },
+      'reason': 'Something else',
+    }));
+  });
+
+  it('does not let the employee sign as someone else or after completion', async () => {
+    await assertFails(updateDoc(doc(firestoreAs('staff'), 'sickness/absence'), {
+      'returnToWorkInterview.employeeSignOff': { name: 'Sam Staff', userId: 'colleague' },
+    }));
+
+    await seed('sickness/absence', {
+      staffId: 'staff',
+      site: OWN_SITE,
+      returnToWorkInterview: { ...interview, completedAt: new Date() },
+    });
+    await assertFails(updateDoc(doc(firestoreAs('staff'), 'sickness/absence'), {
+      'returnToWorkInterview.employeeSignOff': { name: 'Sam Staff', userId: 'staff' },
+    }));
+  });
+});
+
+describe('borrowed staff leave', () => {
+  const leave = (status: string) => ({ userId: 'borrowed', site: OTHER_SITE, status, startDate: '2024-03-04' });
+
+  beforeEach(async () => {
+    // Based at the other home and also working at the manager's
+    await seed('users/borrowed', { role: 'staff', site: OTHER_SITE, sites: [OTHER_SITE, OWN_SITE] });
+    await seed('leave-requests/approved', leave('approved'));
+    await seed('leave-requests/pending', leave('pending'));
+  });
+
+  it('is readable by managers where they work once approved', async () => {
+    const db = firestoreAs('manager');
+    await assertSucceeds(getDoc(doc(db, 'leave-requests/approved')));
+    await assertFails(getDoc(doc(db, 'leave-requests/pending')));
+    await assertSucceeds(getDocs(query(
+      collection(db, 'leave-requests'),
+      where('userId', 'in', ['borrowed']),
+      where('status', '==', 'approved')
+    )));
+  });
+
+  it('is hidden from staff at the same home', async () => {
+    await assertFails(getDoc(doc(firestoreAs('staff'), 'leave-requests/approved')));
+  });
+});
+
+describe('new profiles', () => {
+  it('can be created by their owner without sites', async () => {
+    await assertSucceeds(setDoc(doc(testEnv.authenticatedContext('newcomer').firestore(), 'users/newcomer'), {
+      role: 'staff',
+      site: '',
+      sites: [],
+    }));
+  });
+
+  it('cannot assign themselves a site', async () => {
+    const db = testEnv.authenticatedContext('newcomer').firestore();
+    await assertFails(setDoc(doc(db, 'users/newcomer'), { role: 'staff', site: OWN_SITE }));
+    await assertFails(setDoc(doc(db, 'users/newcomer'), { role: 'staff', sites: [OWN_SITE, OTHER_SITE] }));
+  });
+});
+
+describe('supervision booking', () => {
+  const supervision = (site: string) => ({ staffId: 'colleague', supervisorId: 'staff', site });
+
+  it('is limited to the managers of the site', async () => {
+    await assertFails(setDoc(doc(firestoreAs('staff'), 'supervisions/new'), supervision(OWN_SITE)));
+    await assertFails(setDoc(doc(firestoreAs('manager'), 'supervisions/new'), {
+      ...supervision(OTHER_SITE),
+      supervisorId: 'manager',
+    }));
+    await assertSucceeds(setDoc(doc(firestoreAs('manager'), 'supervisions/new'), {
+      ...supervision(OWN_SITE),
+      supervisorId: 'manager',
+    }));
+  });
+});
+
+describe('supervision feedback', () => {
+  const answers = (site: string) => ({ supervisionId: 'session', staffId: 'staff', site, rating: 4 });
+
+  beforeEach(async () => {
+    await seed('supervisions/session', { staffId: 'staff', supervisorId: 'manager', site: OWN_SITE });
+  });
+
+  it('is filed under the site of the supervision', async () => {
+    await assertSucceeds(setDoc(doc(firestoreAs('staff'), 'supervisionQuestionnaires/session'), answers(OWN_SITE)));
+  });
+
+  it("cannot be counted in another home's figures", async () => {
+    await assertFails(setDoc(doc(firestoreAs('staff'), 'supervisionQuestionnaires/session'), answers(OTHER_SITE)));
+  });
+});
+
+describe('tasks', () => {
+  const task = (assignedTo: string, site = OWN_SITE) => ({ title: 'Book training', status: 'pending', assignedTo, site });
+
+  beforeEach(async () => {
+    await seed('tasks/mine', task('staff'));
+    await seed('tasks/colleague', task('colleague'));
+  });
+
+  it('let staff read and work on their own tasks', async () => {
+    const db = firestoreAs('staff');
+    await assertSucceeds(getDoc(doc(db, 'tasks/mine')));
+    await assertSucceeds(updateDoc(doc(db, 'tasks/mine'), { status: 'completed' }));
+    await assertSucceeds(setDoc(doc(db, 'tasks/new'), task('staff')));
+  });
+
+  it('do not let staff hand tasks on or touch colleagues\' tasks', async () => {
+    const db = firestoreAs('staff');
+    await assertFails(updateDoc(doc(db, 'tasks/mine'), { assignedTo: 'colleague' }));
+    await assertFails(updateDoc(doc(db, 'tasks/colleague'), { status: 'completed' }));
+    await assertFails(setDoc(doc(db, 'tasks/new'), task('colleague')));
+    await assertFails(setDoc(doc(db, 'tasks/new'), task('staff', OTHER_SITE)));
+  });
+
+  it('are only raised by managers for their own sites', async () => {
+    const db = firestoreAs('manager');
+    await assertSucceeds(setDoc(doc(db, 'tasks/new'), task('colleague')));
+    await assertFails(setDoc(doc(db, 'tasks/elsewhere'), task('colleague', OTHER_SITE)));
+    await assertFails(updateDoc(doc(db, 'tasks/colleague'), { site: OTHER_SITE }));
+  });
+});
+
+describe('sending notifications', () => {
+  const notification = (userId: string | null, site: string) => ({ userId, site, read: false, deleted: false });
+
+  it('lets anyone notify a colleague', async () => {
+    await assertSucceeds(setDoc(doc(firestoreAs('staff'), 'notifications/new'), notification('colleague', OWN_SITE)));
+  });
+
+  it('limits broadcasts to the managers of the site', async () => {
+    await assertFails(setDoc(doc(firestoreAs('staff'), 'notifications/new'), notification(null, OWN_SITE)));
+    await assertFails(setDoc(doc(firestoreAs('manager'), 'notifications/new'), notification(null, OTHER_SITE)));
+    await assertSucceeds(setDoc(doc(firestoreAs('manager'), 'notifications/new'), notification(null, OWN_SITE)));
+  });
+});
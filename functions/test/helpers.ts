@@ -0,0 +1,79 @@
+import * as admin from 'firebase-admin';
+import functionsTest from 'firebase-functions-test';
+import { ScheduledEvent } from 'firebase-functions/v2/scheduler';
+import { setNotificationDriver } from '../src/notificationTransport';
+import { NotificationMessage } from '../src/types/notifications';
+
+/**
+ * Shared setup for the function tests, which run against the Firestore
+ * emulator started by `npm test`. Import this before any module under
+ * `src/` so the admin app exists when they load.
+ */
+
+export const PROJECT_ID = 'demo-care-home';
+
+// The DoLS upload trigger needs a bucket to load
+export const functions = functionsTest({ projectId: PROJECT_ID, storageBucket: `${PROJECT_ID}.appspot.com` });
+
+if (!admin.apps.length) {
+  admin.initializeApp({ projectId: PROJECT_ID });
+}
+
+export const db = admin.firestore();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const daysFromNow = (days: number) => admin.firestore.Timestamp.fromMillis(Date.now() + days * DAY_MS);
+
+export const clearFirestore = async () => {
+  const collections = await db.listCollections();
+  await Promise.all(collections.map(collection => db.recursiveDelete(collection)));
+};
+
+export const seed = (path: string, data: Record<string, unknown>) => db.doc(path).set(data);
+
+export const getData = async (path: string) => (await db.doc(path).get()).data();
+
+// Scheduled functions are called directly; the event is not read by any of them
+export const runScheduled = (fn: { run: (event: ScheduledEvent) => void | Promise<void> }) =>
+  fn.run({ scheduleTime: new Date().toISOString() });
+
+export interface SentMessages {
+  email: NotificationMessage[];
+  sms: NotificationMessage[];
+}
+
+/**
+ * Replaces SendGrid and Twilio with drivers that record what would have been
+ * sent. In-app notifications still go to Firestore.
+ */
+export const stubTransports = (): SentMessages => {
+  const sent: SentMessages = { email: [], sms: [] };
+
+  setNotificationDriver('email', {
+    name: 'sendgrid-stub',
+    send: async (message) => {
+      sent.email.push(message);
+      return `email-${sent.email.length}`;
+    },
+  });
+  setNotificationDriver('sms', {
+    name: 'twilio-stub',
+    send: async (message) => {
+      sent.sms.push(message);
+      return `sms-${sent.sms.length}`;
+    },
+  });
+
+  return sent;
+};
+
+export const restoreTransports = () => {
+  setNotificationDriver('email', null);
+  setNotificationDriver('sms', null);
+};
+
+export const notificationsFor = async (userId: string) => {
+  const snapshot = await db.collection('notifications').where('userId', '==', userId).get();
+  return snapshot.docs.map(doc => doc.data());
+};
@@ -0,0 +1,104 @@
+import { getEarnedFromHours, getEntitlementTerms, getLeaveYear } from '../src/leaveYear';
+import { DEFAULT_LEAVE_POLICY, LeavePolicyData } from '../src/types/leave';
+
+// April to March, 37.5 hour week, part-timers accrue by hours worked, five days carried forward
+const POLICY: LeavePolicyData = DEFAULT_LEAVE_POLICY;
+const TODAY = '2024-06-01';
+
+const FULL_TIME = { contractedHours: 37.5, annualLeave: 28, startDate: '2020-01-06' };
+
+describe('getLeaveYear', () => {
+  it('runs from the policy start date', () => {
+    expect(getLeaveYear(POLICY, TODAY)).toEqual({ label: '2024-2025', start: '2024-04-01', end: '2025-03-31' });
+    expect(getLeaveYear(POLICY, '2024-03-31')).toEqual({ label: '2023-2024', start: '2023-04-01', end: '2024-03-31' });
+  });
+
+  it('is labelled by the calendar year when it starts in January', () => {
+    expect(getLeaveYear({ ...POLICY, yearStartMonth: 1, yearStartDay: 1 }, TODAY))
+      .toEqual({ label: '2024', start: '2024-01-01', end: '2024-12-31' });
+  });
+});
+
+describe('getEntitlementTerms', () => {
+  it('gives the full allowance to staff in post all year', () => {
+    expect(getEntitlementTerms(POLICY, TODAY, FULL_TIME)).toMatchObject({
+      from: '2024-04-01',
+      accrual: 'contract',
+      entitlement: 28,
+      carryForwardDays: 0,
+    });
+  });
+
+  it('prorates a part-year starter by the days left in the year, rounding up to a half day', () => {
+    // 182 of 365 days in post: 28 * 182 / 365 = 13.96
+    expect(getEntitlementTerms(POLICY, TODAY, { ...FULL_TIME, startDate: '2024-10-01' })).toMatchObject({
+      from: '2024-10-01',
+      entitlement: 14,
+    });
+  });
+
+  it('gives nothing this year to a starter from next year', () => {
+    expect(getEntitlementTerms(POLICY, TODAY, { ...FULL_TIME, startDate: '2025-04-01' }).entitlement).toBe(0);
+  });
+
+  describe('carry forward', () => {
+    const lastYear = { yearEnd: '2024-03-31', carryForwardDays: 2 };
+
+    it('carries a balance above the cap forward at the cap', () => {
+      expect(getEntitlementTerms(POLICY, TODAY, FULL_TIME, { ...lastYear, remainingDays: 8 }).carryForwardDays).toBe(5);
+    });
+
+    it('carries a balance under the cap forward in full', () => {
+      expect(getEntitlementTerms(POLICY, TODAY, FULL_TIME, { ...lastYear, remainingDays: 3.5 }).carryForwardDays)
+        .toBe(3.5);
+    });
+
+    it('does not carry an overdrawn balance forward', () => {
+      expect(getEntitlementTerms(POLICY, TODAY, FULL_TIME, { ...lastYear, remainingDays: -2 }).carryForwardDays)
+        .toBe(0);
+    });
+
+    it('keeps what was carried into the current year', () => {
+      const thisYear = { yearEnd: '2025-03-31', remainingDays: 20, carryForwardDays: 4 };
+      expect(getEntitlementTerms(POLICY, TODAY, FULL_TIME, thisYear).carryForwardDays).toBe(4);
+    });
+  });
+
+  describe('part-time contracts', () => {
+    const HALF_TIME = { ...FULL_TIME, contractedHours: 18.75 };
+
+    it('accrue by hours worked under an hours policy', () => {
+      expect(getEntitlementTerms(POLICY, TODAY, HALF_TIME)).toMatchObject({
+        accrual: 'hours',
+        contractedHours: 18.75,
+        entitlement: 14,
+      });
+    });
+
+    it('are prorated by contracted hours under a contract policy', () => {
+      expect(getEntitlementTerms({ ...POLICY, partTimeAccrual: 'contract' }, TODAY, HALF_TIME)).toMatchObject({
+        accrual: 'contract',
+        entitlement: 14,
+      });
+    });
+
+    it('are never given more than the full-time allowance', () => {
+      expect(getEntitlementTerms(POLICY, TODAY, { ...FULL_TIME, contractedHours: 45 })).toMatchObject({
+        accrual: 'contract',
+        entitlement: 28,
+      });
+    });
+  });
+});
+
+describe('getEarnedFromHours', () => {
+  it('earns the allowance over the working days left after taking it', () => {
+    // 375 hours is 50 days of 7.5 hours, at 28 / (260 - 28) a day
+    expect(getEarnedFromHours(POLICY, 28, 375)).toBe(6.03);
+    expect(getEarnedFromHours(POLICY, 28, 0)).toBe(0);
+  });
+
+  it('earns the full allowance over a full-time year of work', () => {
+    expect(getEarnedFromHours(POLICY, 28, (260 - 28) * 7.5)).toBe(28);
+  });
+});
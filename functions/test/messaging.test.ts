@@ -0,0 +1,247 @@
+import * as admin from 'firebase-admin';
+import { CallableRequest } from 'firebase-functions/v2/https';
+import {
+  clearFirestore,
+  daysFromNow,
+  db,
+  functions,
+  getData,
+  notificationsFor,
+  restoreTransports,
+  runScheduled,
+  seed,
+  SentMessages,
+  stubTransports,
+} from './helpers';
+import { processScheduledMessages, sendMassMessage } from '../src/messaging';
+
+const STAFF = {
+  name: 'Sam Staff',
+  email: 'sam@example.com',
+  phoneNumber: '+447700900002',
+  role: 'staff',
+  site: 'Oak House',
+  notificationPreferences: { email: true, sms: false },
+};
+
+const schedule = (data: Record<string, unknown> = {}) => ({
+  type: 'email',
+  subject: 'Hello {{firstName}}',
+  message: 'Team meeting at {{site}} on Friday',
+  recipients: ['staff'],
+  recurrence: {
+    frequency: 'weekly',
+    interval: 1,
+    time: '09:00',
+    daysOfWeek: [1],
+    startDate: '2024-01-01',
+    endDate: null,
+    timeZone: 'Europe/London',
+  },
+  status: 'active',
+  nextRunAt: daysFromNow(-1 / 24),
+  lastRunAt: null,
+  runCount: 0,
+  site: 'Oak House',
+  createdBy: 'manager',
+  ...data,
+});
+
+const callAs = (uid: string, data: Record<string, unknown>) =>
+  functions.wrap(sendMassMessage)({ auth: { uid, token: {} }, data } as unknown as CallableRequest);
+
+let sent: SentMessages;
+
+beforeEach(async () => {
+  await clearFirestore();
+  await Promise.all([
+    seed('users/staff', STAFF),
+    seed('users/manager', {
+      ...STAFF,
+      name: 'Mo Manager',
+      email: 'mo@example.com',
+      role: 'manager',
+      sites: ['Oak House'],
+    }),
+  ]);
+  sent = stubTransports();
+});
+
+afterEach(restoreTransports);
+
+afterAll(() => functions.cleanup());
+
+describe('processScheduledMessages', () => {
+  it('sends due messages personalised per recipient and schedules the next run', async () => {
+    await seed('scheduledMessages/weekly', schedule());
+
+    await runScheduled(processScheduledMessages);
+
+    expect(sent.email).toHaveLength(1);
+    expect(sent.email[0]).toMatchObject({
+      to: STAFF.email,
+      subject: 'Hello Sam',
+      body: 'Team meeting at Oak House on Friday',
+      source: 'scheduled_message',
+    });
+
+    const updated = await getData('scheduledMessages/weekly');
+    expect(updated).toMatchObject({ status: 'active', runCount: 1 });
+    expect((updated?.nextRunAt as admin.firestore.Timestamp).toMillis()).toBeGreaterThan(Date.now());
+
+    const logs = await db.collection('scheduledMessages/weekly/sendLogs').get();
+    expect(logs.docs.map(doc => doc.data())).toEqual([
+      expect.objectContaining({
+        userId: 'staff',
+        deliveries: expect.arrayContaining([
+          expect.objectContaining({ channel: 'email', status: 'sent' }),
+          expect.objectContaining({ channel: 'inApp', status: 'sent' }),
+        ]),
+      }),
+    ]);
+  });
+
+  it('completes one-off messages after they are sent', async () => {
+    await seed('scheduledMessages/once', schedule({
+      recurrence: { ...schedule().recurrence, frequency: 'once' },
+    }));
+
+    await runScheduled(processScheduledMessages);
+
+    expect(sent.email).toHaveLength(1);
+    expect(await getData('scheduledMessages/once')).toMatchObject({ status: 'completed', nextRunAt: null });
+  });
+
+  it('skips paused and future messages', async () => {
+    await seed('scheduledMessages/paused', schedule({ status: 'paused' }));
+    await seed('scheduledMessages/future', schedule({ nextRunAt: daysFromNow(1) }));
+
+    await runScheduled(processScheduledMessages);
+
+    expect(sent.email).toHaveLength(0);
+    expect(await getData('scheduledMessages/future')).toMatchObject({ runCount: 0 });
+  });
+});
+
+describe('sendMassMessage', () => {
+  const message = {
+    type: 'email',
+    subject: 'Rota for {{name}}',
+    message: 'Your rota is out',
+    recipients: ['staff'],
+  };
+
+  it('sends to each recipient and records an audit log', async () => {
+    const result = await callAs('manager', message);
+
+    expect(result.stats).toEqual({ total: 2, successful: 2, failed: 0, skipped: 0 });
+    expect(sent.email).toHaveLength(1);
+    expect(sent.email[0]).toMatchObject({ to: STAFF.email, subject: 'Rota for Sam Staff', source: 'mass_message' });
+    expect(await notificationsFor('staff')).toHaveLength(1);
+
+    const audit = await db.collection('auditLogs').where('type', '==', 'mass_message').get();
+    expect(audit.docs[0].data()).toMatchObject({ sender: 'manager', recipientCount: 1 });
+  });
+
+  it('reaches the members of recipient groups', async () => {
+    await seed('recipientGroups/nights', {
+      name: 'Nights',
+      type: 'static',
+      memberIds: ['staff'],
+      rules: [],
+      match: 'all',
+    });
+
+    const result = await callAs('manager', { ...message, recipients: [], recipientGroups: ['nights'] });
+
+    expect(result.stats.successful).toBe(2);
+    expect(sent.email[0].to).toBe(STAFF.email);
+  });
+
+  it('leaves out group members at homes the manager does not manage', async () => {
+    await seed('users/elsewhere', { ...STAFF, email: 'eli@example.com', site: 'Elm House' });
+    await seed('recipientGroups/elm', {
+      name: 'Elm House',
+      type: 'dynamic',
+      memberIds: [],
+      rules: [{ type: 'site', value: 'Elm House' }],
+      match: 'all',
+    });
+
+    const result = await callAs('manager', { ...message, recipients: ['staff'], recipientGroups: ['elm'] });
+
+    expect(result.excluded).toBe(1);
+    expect(sent.email.map(email => email.to)).toEqual([STAFF.email]);
+  });
+
+  it('reaches staff with expired training who have not renewed it', async () => {
+    await seed('users/lapsed', { ...STAFF, email: 'lou@example.com' });
+    await Promise.all([
+      seed('training/staff-old', { staffId: 'staff', courseTitle: 'Fire Safety', expiryDate: daysFromNow(-30) }),
+      seed('training/staff-renewed', { staffId: 'staff', courseTitle: 'Fire Safety', expiryDate: daysFromNow(335) }),
+      seed('training/lapsed', { staffId: 'lapsed', courseTitle: 'Fire Safety', expiryDate: daysFromNow(-30) }),
+    ]);
+    await seed('recipientGroups/lapsed', {
+      name: 'Fire Safety lapsed',
+      type: 'dynamic',
+      memberIds: [],
+      rules: [{ type: 'expiredTraining', value: 'Fire Safety' }],
+      match: 'all',
+    });
+
+    await callAs('manager', { ...message, recipients: [], recipientGroups: ['lapsed'] });
+
+    expect(sent.email.map(email => email.to)).toEqual(['lou@example.com']);
+  });
+
+  it('fills {{nextShift}} from published rota versions, not drafts', async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const shift = (date: string, startTime: string) => ({ date, startTime, endTime: '14:30', assignedStaff: ['staff'] });
+    await seed('rotas/week', {
+      site: 'Oak House',
+      startDate: today,
+      endDate: '2999-12-31',
+      status: 'published',
+      // Added since the last publish, so staff have not been sent it
+      shifts: [shift(today, '7:30'), shift(today, '6:00')],
+    });
+    await seed('rotaVersions/week-1', { rotaId: 'week', site: 'Oak House', startDate: today, version: 1, shifts: [] });
+    await seed('rotaVersions/week-2', {
+      rotaId: 'week',
+      site: 'Oak House',
+      startDate: today,
+      version: 2,
+      shifts: [shift(today, '7:30')],
+    });
+
+    await callAs('manager', { ...message, message: 'Next: {{nextShift}}' });
+
+    expect(sent.email[0].body).toMatch(/^Next: \w{3} \d{1,2} \w{3}, 7:30-14:30$/);
+  });
+
+  it('lists only courses whose latest record expires in the next 30 days', async () => {
+    const training = (courseTitle: string, days: number) =>
+      ({ staffId: 'staff', courseTitle, expiryDate: daysFromNow(days) });
+    await Promise.all([
+      seed('training/fire-old', training('Fire Safety', 10)),
+      seed('training/fire-renewed', training('Fire Safety', 375)),
+      seed('training/first-aid', training('First Aid', 20)),
+      seed('training/manual-handling', training('Manual Handling', -400)),
+    ]);
+
+    await callAs('manager', { ...message, message: 'Due: {{expiringCourses}}' });
+
+    expect(sent.email[0].body).toBe('Due: First Aid');
+  });
+
+  it('only lets managers and admins send', async () => {
+    await expect(callAs('staff', message)).rejects.toMatchObject({ code: 'permission-denied' });
+    expect(sent.email).toHaveLength(0);
+  });
+
+  it('rejects placeholders nothing can fill before sending', async () => {
+    await expect(callAs('manager', { ...message, message: 'Hi {{nickname}}' }))
+      .rejects.toMatchObject({ code: 'invalid-argument' });
+    expect(sent.email).toHaveLength(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { clearFirestore, db, functions, getData, seed } from './helpers';
+import { scheduleProbationMilestones } from '../src/probation';
+import { PROBATION_MILESTONES } from '../src/types/probation';
+
+// Saved before probation tracking, so without a probation status
+const EMPLOYEE = {
+  name: 'Nia New',
+  role: 'staff',
+  site: 'Oak House',
+  sites: ['Oak House'],
+};
+const STARTER = { ...EMPLOYEE, probationStatus: 'pending' };
+
+const today = () => new Date().toISOString().slice(0, 10);
+const yearsAgo = (years: number) => `${new Date().getUTCFullYear() - years}-01-06`;
+
+const run = functions.wrap(scheduleProbationMilestones);
+
+// Saves the starter and runs the trigger for that write
+const write = async (data: Record<string, unknown>) => {
+  const before = await db.doc('users/starter').get();
+  await seed('users/starter', data);
+  const after = await db.doc('users/starter').get();
+  await run({ data: functions.makeChange(before, after), params: { userId: 'starter' } });
+};
+
+const booked = async () => {
+  const snapshot = await db.collection('supervisions').where('staffId', '==', 'starter').get();
+  return snapshot.docs.map(doc => doc.data());
+};
+
+beforeEach(clearFirestore);
+
+afterAll(() => functions.cleanup());
+
+describe('scheduleProbationMilestones', () => {
+  it("books each milestone with the starter's manager", async () => {
+    await write({ ...STARTER, startDate: today(), managerId: 'manager' });
+
+    const sessions = await booked();
+    expect(sessions).toHaveLength(PROBATION_MILESTONES.length);
+    expect(sessions.every(session => session.supervisorId === 'manager')).toBe(true);
+    expect(await getData('users/starter')).toHaveProperty('probationEndDate');
+  });
+
+  it('books with a manager of their site when they have no manager', async () => {
+    await seed('users/site-manager', { name: 'Mo Manager', role: 'manager', sites: ['Oak House'] });
+
+    await write({ ...STARTER, startDate: today() });
+
+    const sessions = await booked();
+    expect(sessions).toHaveLength(PROBATION_MILESTONES.length);
+    expect(sessions.every(session => session.supervisorId === 'site-manager')).toBe(true);
+  });
+
+  it('books nothing without a manager, then books once one is assigned', async () => {
+    await seed('users/elsewhere', { name: 'Eli Elsewhere', role: 'manager', sites: ['Elm House'] });
+
+    await write({ ...STARTER, startDate: today() });
+    expect(await booked()).toHaveLength(0);
+
+    await write({ ...STARTER, startDate: today(), managerId: 'manager' });
+    const sessions = await booked();
+    expect(sessions).toHaveLength(PROBATION_MILESTONES.length);
+    expect(sessions.every(session => session.supervisorId === 'manager')).toBe(true);
+  });
+
+  it('leaves long-serving staff without a probation status alone', async () => {
+    await write({ ...EMPLOYEE, startDate: yearsAgo(3) });
+    await write({ ...EMPLOYEE, startDate: yearsAgo(2), managerId: 'manager' });
+
+    expect(await booked()).toHaveLength(0);
+    expect(await getData('users/starter')).not.toHaveProperty('probationEndDate');
+  });
+
+  it('books starters still within probation who have no status yet', async () => {
+    await write({ ...EMPLOYEE, startDate: today(), managerId: 'manager' });
+
+    expect(await booked()).toHaveLength(PROBATION_MILESTONES.length);
+  });
+});
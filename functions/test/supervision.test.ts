@@ -0,0 +1,179 @@
+import * as admin from 'firebase-admin';
+import {
+  clearFirestore,
+  daysFromNow,
+  db,
+  functions,
+  getData,
+  notificationsFor,
+  restoreTransports,
+  runScheduled,
+  seed,
+  SentMessages,
+  stubTransports,
+} from './helpers';
+import {
+  processQuestionnaireSubmission,
+  processScheduledSupervisionReminders,
+  processSupervisionCompletion,
+  processSupervisionScheduling,
+} from '../src/supervision';
+
+const STAFF = {
+  name: 'Sam Staff',
+  email: 'sam@example.com',
+  supervisionFrequencyWeeks: 4,
+  notificationPreferences: { email: true, sms: true },
+};
+const SUPERVISOR = {
+  name: 'Mo Manager',
+  email: 'mo@example.com',
+  notificationPreferences: { email: true, sms: true },
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const supervision = (data: Record<string, unknown> = {}) => ({
+  staffId: 'staff',
+  supervisorId: 'supervisor',
+  date: daysFromNow(2),
+  status: 'scheduled',
+  site: 'Oak House',
+  ...data,
+});
+
+// Writes the document and hands the trigger the stored snapshot
+const created = async (path: string, data: Record<string, unknown>) => {
+  await seed(path, data);
+  return db.doc(path).get();
+};
+
+let sent: SentMessages;
+
+beforeEach(async () => {
+  await clearFirestore();
+  await Promise.all([seed('users/staff', STAFF), seed('users/supervisor', SUPERVISOR)]);
+  sent = stubTransports();
+});
+
+afterEach(restoreTransports);
+
+afterAll(() => functions.cleanup());
+
+describe('processSupervisionScheduling', () => {
+  const run = functions.wrap(processSupervisionScheduling);
+
+  it('tells the staff member by email and both participants in the app', async () => {
+    const snap = await created('supervisions/booked', supervision());
+
+    await run({ data: snap, params: { supervisionId: 'booked' } });
+
+    expect(sent.email).toHaveLength(1);
+    expect(sent.email[0]).toMatchObject({
+      to: STAFF.email,
+      subject: 'Supervision Scheduled',
+      link: '/supervision/booked/questionnaire',
+    });
+    expect(sent.sms).toHaveLength(0);
+    expect(await notificationsFor('staff')).toHaveLength(1);
+    expect(await notificationsFor('supervisor')).toHaveLength(1);
+  });
+
+  it('stays quiet for sessions converted from training rows', async () => {
+    const snap = await created('supervisions/legacy', supervision({ legacyTrainingId: 'training-1' }));
+
+    await run({ data: snap, params: { supervisionId: 'legacy' } });
+
+    expect(sent.email).toHaveLength(0);
+    expect(await notificationsFor('staff')).toHaveLength(0);
+  });
+
+  it('stays quiet for sessions booked without a supervisor', async () => {
+    const snap = await created('supervisions/unassigned', supervision({ supervisorId: '' }));
+
+    await run({ data: snap, params: { supervisionId: 'unassigned' } });
+
+    expect(sent.email).toHaveLength(0);
+    expect(await notificationsFor('staff')).toHaveLength(0);
+  });
+});
+
+describe('processQuestionnaireSubmission', () => {
+  const run = functions.wrap(processQuestionnaireSubmission);
+
+  beforeEach(async () => {
+    await seed('supervisions/booked', supervision({ questionnaireCompleted: false }));
+  });
+
+  it('marks shared answers as completed on the supervision', async () => {
+    const snap = await created('supervisionQuestionnaires/shared', {
+      supervisionId: 'booked',
+      staffId: 'staff',
+      rating: 4,
+      isConfidential: false,
+    });
+
+    await run({ data: snap, params: { questionnaireId: 'shared' } });
+
+    expect(await getData('supervisions/booked')).toMatchObject({ questionnaireCompleted: true });
+  });
+
+  it('leaves no mark for confidential answers', async () => {
+    const snap = await created('supervisionQuestionnaires/confidential', {
+      supervisionId: 'booked',
+      staffId: 'staff',
+      rating: 2,
+      isConfidential: true,
+    });
+
+    await run({ data: snap, params: { questionnaireId: 'confidential' } });
+
+    expect(await getData('supervisions/booked')).toMatchObject({ questionnaireCompleted: false });
+  });
+});
+
+describe('processSupervisionCompletion', () => {
+  const run = functions.wrap(processSupervisionCompletion);
+
+  it('sets the next due date from the staff frequency and emails the summary', async () => {
+    const date = daysFromNow(-1);
+    const before = await created('supervisions/done', supervision({ date }));
+    const after = await created('supervisions/done', supervision({
+      date,
+      status: 'completed',
+      notes: 'Going well',
+      actionPoints: ['Book moving and handling refresher'],
+    }));
+
+    await run({ data: functions.makeChange(before, after), params: { supervisionId: 'done' } });
+
+    const updated = await getData('supervisions/done');
+    expect((updated?.nextDueDate as admin.firestore.Timestamp).toMillis()).toBe(date.toMillis() + 4 * WEEK_MS);
+    expect(updated?.completedAt).toBeDefined();
+
+    expect(sent.email).toHaveLength(1);
+    expect(sent.email[0]).toMatchObject({ to: STAFF.email, subject: 'Supervision Summary' });
+  });
+
+  it('ignores updates to sessions that were already completed', async () => {
+    const before = await created('supervisions/done', supervision({ status: 'completed' }));
+    const after = await created('supervisions/done', supervision({ status: 'completed', notes: 'Typo fixed' }));
+
+    await run({ data: functions.makeChange(before, after), params: { supervisionId: 'done' } });
+
+    expect(await getData('supervisions/done')).not.toHaveProperty('nextDueDate');
+    expect(sent.email).toHaveLength(0);
+  });
+});
+
+describe('processScheduledSupervisionReminders', () => {
+  it('reminds both participants of sessions in the next three days', async () => {
+    await seed('supervisions/soon', supervision({ date: daysFromNow(2) }));
+    await seed('supervisions/later', supervision({ date: daysFromNow(10) }));
+
+    await runScheduled(processScheduledSupervisionReminders);
+
+    expect(sent.email.map(message => message.to).sort()).toEqual([SUPERVISOR.email, STAFF.email].sort());
+    expect(sent.email.every(message => message.subject === 'Upcoming Supervision')).toBe(true);
+  });
+});
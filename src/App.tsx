@@ -15,6 +15,7 @@ import { TaskProvider } from './contexts/TaskContext'
 import { NotificationProvider } from './contexts/NotificationContext'
 import { SupervisionProvider } from './contexts/SupervisionContext'
 import { ComplianceProvider } from './contexts/ComplianceContext'
+import { DolsProvider } from './contexts/DolsContext'
 import { CommunicationProvider } from './contexts/CommunicationContext'
 import { LeaderboardProvider } from './contexts/LeaderboardContext'
 import { GamificationProvider } from './contexts/GamificationContext'
@@ -22,6 +23,7 @@ import { SicknessProvider } from './contexts/SicknessContext'
 import { LeaveProvider } from './contexts/LeaveContext'
 import { ChatProvider } from './contexts/ChatContext'
 import { RotaProvider } from './contexts/RotaContext'
+import { ShiftSwapProvider } from './contexts/ShiftSwapContext'
 import { UserProvider } from './contexts/UserContext'
 
 // Components
@@ -36,6 +38,8 @@ import Dashboard from './pages/Dashboard'
 import Training from './pages/Training'
 import TrainingEdit from './pages/Training/TrainingEdit'
 import Supervision from './pages/Supervision'
+import SupervisionQuestionnaire from './pages/Supervision/Questionnaire'
+import Probation from './pages/Probation'
 import Tasks from './pages/Tasks'
 import Dols from './pages/Dols'
 import F2F from './pages/F2F'
@@ -45,11 +49,13 @@ import CommunicationBook from './pages/CommunicationBook'
 import UserProfile from './pages/UserProfile'
 import UserManagement from './pages/UserManagement'
 import Renewals from './pages/Renewals'
+import RecipientGroups from './pages/RecipientGroups'
 import Sickness from './pages/Sickness'
 import Leave from './pages/Leave'
 import Chat from './pages/Chat'
 import RotaPage from './pages/Rota'
 import ImportRotaPage from './pages/Rota/ImportRota'
+import ShiftSwapsPage from './pages/ShiftSwaps'
 
 const App: React.FC = () => {
   return (
@@ -69,208 +75,252 @@ const App: React.FC = () => {
                             <CommunicationProvider>
                               <LeaderboardProvider>
                                 <SicknessProvider>
-                                  <LeaveProvider>
+                                  <RotaProvider>
                                     <ChatProvider>
-                                      <RotaProvider>
-                                        <Router>
-                                          <React.Suspense fallback={<LoadingScreen />}>
-                                            <Routes>
-                                              <Route path="/login" element={<Login />} />
-                                              <Route path="/auth/magic-link-callback" element={<MagicLinkCallback />} />
-                                              <Route
-                                                path="/"
-                                                element={<MainLayout />}
-                                              >
-                                                {/* Dashboard - Different views for different roles */}
-                                                <Route index element={<Dashboard />} />
+                                      <LeaveProvider>
+                                        <ShiftSwapProvider>
+                                          <DolsProvider>
+                                            <Router>
+                                              <React.Suspense fallback={<LoadingScreen />}>
+                                                <Routes>
+                                                  <Route path="/login" element={<Login />} />
+                                                  <Route path="/auth/magic-link-callback" element={<MagicLinkCallback />} />
+                                                  <Route
+                                                    path="/"
+                                                    element={<MainLayout />}
+                                                  >
+                                                    {/* Dashboard - Different views for different roles */}
+                                                    <Route index element={<Dashboard />} />
 
-                                                {/* Staff and Manager accessible routes */}
-                                                <Route
-                                                  path="training"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<Training />}
+                                                    {/* Staff and Manager accessible routes */}
+                                                    <Route
+                                                      path="training"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Training />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="f2f"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<F2F />}
+                                                    <Route
+                                                      path="f2f"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<F2F />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="tasks"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<Tasks />}
+                                                    <Route
+                                                      path="tasks"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Tasks />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="profile"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      element={<UserProfile />}
+                                                    <Route
+                                                      path="profile"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          element={<UserProfile />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="compliance"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<Compliance />}
+                                                    <Route
+                                                      path="compliance"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Compliance />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="sickness"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<Sickness />}
+                                                    <Route
+                                                      path="sickness"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Sickness />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="leave"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<Leave />}
+                                                    <Route
+                                                      path="leave"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Leave />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="communication-book"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<CommunicationBook />}
+                                                    <Route
+                                                      path="communication-book"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<CommunicationBook />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="chat"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<Chat />}
+                                                    <Route
+                                                      path="chat"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Chat />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="rota"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireStaff
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<RotaPage />}
+                                                    <Route
+                                                      path="rota"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<RotaPage />}
+                                                        />
+                                                      }
+                                                    />
+                                                    <Route
+                                                      path="shift-swaps"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<ShiftSwapsPage />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
 
-                                                {/* Manager and Admin accessible routes */}
-                                                <Route
-                                                  path="rota/import"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<ImportRotaPage />}
+                                                    {/* Manager and Admin accessible routes */}
+                                                    <Route
+                                                      path="rota/import"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<ImportRotaPage />}
+                                                        />
+                                                      }
+                                                    />
+                                                    <Route
+                                                      path="training/:id"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<TrainingEdit />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="training/:id"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<TrainingEdit />}
+                                                    <Route
+                                                      path="supervision"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Supervision />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="supervision"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireManager
-                                                      allowedSites={['Willowbrook']}
-                                                      element={<Supervision />}
+                                                    <Route
+                                                      path="supervision/:id/questionnaire"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireStaff
+                                                          requireManager
+                                                          element={<SupervisionQuestionnaire />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="users"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireManager
-                                                      element={<UserManagement />}
+                                                    <Route
+                                                      path="probation"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireManager
+                                                          allowedSites={['Willowbrook']}
+                                                          element={<Probation />}
+                                                        />
+                                                      }
+                                                    />
+                                                    <Route
+                                                      path="users"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireManager
+                                                          element={<UserManagement />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
 
-                                                {/* Admin only routes */}
-                                                <Route
-                                                  path="dols"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireAdmin
-                                                      element={<Dols />}
+                                                    {/* Admin only routes */}
+                                                    <Route
+                                                      path="dols"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireAdmin
+                                                          element={<Dols />}
+                                                        />
+                                                      }
+                                                    />
+                                                    <Route
+                                                      path="communication"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireAdmin
+                                                          element={<Communication />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="communication"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireAdmin
-                                                      element={<Communication />}
+                                                    <Route
+                                                      path="recipient-groups"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireAdmin
+                                                          element={<RecipientGroups />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                                <Route
-                                                  path="renewals"
-                                                  element={
-                                                    <ProtectedRoute
-                                                      requireAdmin
-                                                      element={<Renewals />}
+                                                    <Route
+                                                      path="renewals"
+                                                      element={
+                                                        <ProtectedRoute
+                                                          requireAdmin
+                                                          element={<Renewals />}
+                                                        />
+                                                      }
                                                     />
-                                                  }
-                                                />
-                                              </Route>
-                                            </Routes>
-                                          </React.Suspense>
-                                        </Router>
-                                      </RotaProvider>
+                                                  </Route>
+                                                </Routes>
+                                              </React.Suspense>
+                                            </Router>
+                                          </DolsProvider>
+                                        </ShiftSwapProvider>
+                                      </LeaveProvider>
                                     </ChatProvider>
-                                  </LeaveProvider>
+                                  </RotaProvider>
                                 </SicknessProvider>
                               </LeaderboardProvider>
                             </CommunicationProvider>
@@ -47,6 +47,10 @@ import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import PageHeader from '../Common/PageHeader';
 import { useCommunication } from '../../contexts/CommunicationContext';
 import useData from '../../hooks/useData';
+import ScheduledMessages from './ScheduledMessages';
+import MessageTemplatePanel from './MessageTemplatePanel';
+import useTemplateValues from '../../hooks/useTemplateValues';
+import { findPlaceholders, getMissingValues, getUnknownPlaceholders } from '../../utils/messageTemplates';
 import { format, eachDayOfInterval, isWithinInterval } from 'date-fns';
 import { alpha, useTheme } from '@mui/material/styles';
 
@@ -56,6 +60,7 @@ interface User {
   email: string;
   phoneNumber?: string;
   department?: string;
+  site?: string;
   notificationPreferences?: {
     email: boolean;
     sms: boolean;
@@ -115,9 +120,12 @@ const MassCommunication = () => {
   const [subject, setSubject] = useState('');
   const [selectedStaff, setSelectedStaff] = useState<string[]>([]);
   const [successMessage, setSuccessMessage] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
 
-  const { sendMessage, loading } = useCommunication();
+  const { sendMessage, recipientGroups, loading } = useCommunication();
   const { data: users = [] } = useData<User>('users');
+  const { getValues } = useTemplateValues(tabValue !== 2);
 
   const handleSelectAllStaff = () => {
     if (selectedStaff.length === users.length) {
@@ -203,24 +211,46 @@ const MassCommunication = () => {
     setTabValue(newValue);
     setMessage('');
     setSubject('');
+    setTemplateId('');
     setSelectedStaff([]);
+    setSelectedGroups([]);
     setStartDate(null);
     setEndDate(null);
     setSelectedDayShifts([]);
   };
 
   const handleSendMessage = async () => {
+    const placeholders = findPlaceholders(subject, message);
+    const unknown = getUnknownPlaceholders(placeholders);
+    if (unknown.length) {
+      setError(`Unknown template variables: ${unknown.map(name => `{{${name}}}`).join(', ')}`);
+      return;
+    }
+
+    const recipientsMissingValues = users
+      .filter(user => selectedStaff.includes(user.id))
+      .filter(user => getMissingValues(placeholders, getValues(user)).length > 0);
+    if (recipientsMissingValues.length && !window.confirm(
+      `${recipientsMissingValues.length} recipient(s) have no value for some template variables ` +
+      `(${recipientsMissingValues.slice(0, 5).map(user => user.name).join(', ')}` +
+      `${recipientsMissingValues.length > 5 ? ', ...' : ''}). Those parts will be left blank. Send anyway?`
+    )) {
+      return;
+    }
+
     try {
       const messageData = {
         type: messageType as 'email' | 'sms' | 'both',
         subject: subject || 'Staff Communication',
         message,
         recipients: selectedStaff,
+        recipientGroups: selectedGroups,
         dateRange: startDate && endDate ? {
           start: startDate,
           end: endDate
         } : undefined,
-        shifts: selectedDayShifts
+        shifts: selectedDayShifts,
+        messageTemplateId: templateId || undefined
       };
 
       await sendMessage(messageData);
@@ -230,7 +260,9 @@ const MassCommunication = () => {
       setTimeout(() => {
         setMessage('');
         setSubject('');
+        setTemplateId('');
         setSelectedStaff([]);
+        setSelectedGroups([]);
         setStartDate(null);
         setEndDate(null);
         setSelectedDayShifts([]);
@@ -243,6 +275,22 @@ const MassCommunication = () => {
     }
   };
 
+  const renderTemplatePanel = () => (
+    <MessageTemplatePanel
+      subject={subject}
+      message={message}
+      templateId={templateId}
+      recipients={users.filter(user => selectedStaff.includes(user.id))}
+      getValues={getValues}
+      onApply={(template) => {
+        setTemplateId(template.id);
+        setSubject(template.subject);
+        setMessage(template.body);
+      }}
+      onInsert={(placeholder) => setMessage(prev => (prev && !/\s$/.test(prev) ? `${prev} ` : prev) + placeholder)}
+    />
+  );
+
   const stats = useMemo<MessageStats>(() => {
     return {
       totalSent: selectedStaff.length,
@@ -253,7 +301,7 @@ const MassCommunication = () => {
   }, [selectedStaff.length, users.length]);
 
   const achievements = useMemo(() => {
-    const hasSelectedStaff = selectedStaff.length > 0;
+    const hasSelectedStaff = selectedStaff.length > 0 || selectedGroups.length > 0;
     const hasMessage = message.trim().length > 0;
     const hasShifts = selectedDayShifts.some(day => 
       Object.values(day.shifts).some(selected => selected)
@@ -270,7 +318,7 @@ const MassCommunication = () => {
         hasShifts && hasDateRange
       ].filter(Boolean).length
     };
-  }, [selectedStaff, message, selectedDayShifts, startDate, endDate, tabValue, users.length]);
+  }, [selectedStaff, selectedGroups, message, selectedDayShifts, startDate, endDate, tabValue, users.length]);
 
   const renderMessageTypeSelector = () => (
     <FormControl 
@@ -413,6 +461,36 @@ const MassCommunication = () => {
           },
         }}
       />
+
+      {recipientGroups.length > 0 && (
+        <Autocomplete
+          multiple
+          id="group-selector"
+          options={recipientGroups}
+          value={recipientGroups.filter(group => selectedGroups.includes(group.id))}
+          onChange={(_e, newValue) => setSelectedGroups(newValue.map(group => group.id))}
+          getOptionLabel={(option) => option.name}
+          renderOption={(props, option) => (
+            <MenuItem {...props}>
+              <Box>
+                <Typography variant="body1">{option.name}</Typography>
+                <Typography variant="caption" color="textSecondary">
+                  {option.type === 'dynamic' ? 'Dynamic, worked out when sent' : `${option.memberIds.length} member(s)`}
+                </Typography>
+              </Box>
+            </MenuItem>
+          )}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              variant="outlined"
+              label="Recipient Groups"
+              placeholder="Add groups..."
+            />
+          )}
+          sx={{ width: '100%', mt: 2 }}
+        />
+      )}
     </Box>
   );
 
@@ -587,6 +665,7 @@ const MassCommunication = () => {
             <Box>
               <Typography variant="body1" color="textSecondary">
                 Recipients Selected: {selectedStaff.length}
+                {selectedGroups.length > 0 && ` + ${selectedGroups.length} group(s)`}
               </Typography>
               <Typography variant="body2" color="textSecondary">
                 Total Staff: {users.length}
@@ -659,6 +738,19 @@ const MassCommunication = () => {
           </Stack>
         }
       />
+      <Tab 
+        label={
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Schedule />
+            <Box>
+              <Typography variant="body1">Scheduled</Typography>
+              <Typography variant="caption" color="textSecondary">
+                Recurring messages
+              </Typography>
+            </Box>
+          </Stack>
+        }
+      />
     </Tabs>
   );
 
@@ -672,14 +764,15 @@ const MassCommunication = () => {
     }}>
       {loading && (
         <Typography color="textSecondary">
-          Sending to {selectedStaff.length} recipients...
+          Sending to {selectedStaff.length} recipients
+          {selectedGroups.length > 0 && ` and ${selectedGroups.length} group(s)`}...
         </Typography>
       )}
       <Button
         variant="contained"
         color="primary"
         onClick={handleSendMessage}
-        disabled={loading || !message || !selectedStaff.length}
+        disabled={loading || !message || (!selectedStaff.length && !selectedGroups.length)}
         startIcon={loading ? <CircularProgress size={20} /> : <SendIcon />}
         sx={{
           transition: 'all 0.3s ease',
@@ -737,7 +830,7 @@ const MassCommunication = () => {
               },
             }}
           >
-            {renderProgressHeader()}
+            {tabValue !== 2 && renderProgressHeader()}
             {renderTabs()}
             <Box sx={{ p: 3 }}>
               {tabValue === 0 && (
@@ -749,6 +842,9 @@ const MassCommunication = () => {
                     <Grid item xs={12}>
                       {renderStaffSelector()}
                     </Grid>
+                    <Grid item xs={12}>
+                      {renderTemplatePanel()}
+                    </Grid>
                     <Grid item xs={12}>
                       <TextField
                         fullWidth
@@ -800,6 +896,9 @@ const MassCommunication = () => {
                     <Grid item xs={12}>
                       {renderStaffSelector()}
                     </Grid>
+                    <Grid item xs={12}>
+                      {renderTemplatePanel()}
+                    </Grid>
                     <Grid item xs={12}>
                       <TextField
                         fullWidth
@@ -839,8 +938,15 @@ const MassCommunication = () => {
                   </Grid>
                 </Fade>
               )}
+              {tabValue === 2 && (
+                <Fade in>
+                  <Box>
+                    <ScheduledMessages users={users} />
+                  </Box>
+                </Fade>
+              )}
             </Box>
-            {renderSendButton()}
+            {tabValue !== 2 && renderSendButton()}
           </Paper>
 
           <style>
@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { useCommunication } from '../../contexts/CommunicationContext';
+import {
+  TEMPLATE_VARIABLES,
+  TemplateValues,
+  findPlaceholders,
+  getMissingValues,
+  getUnknownPlaceholders,
+  renderTemplate,
+} from '../../utils/messageTemplates';
+
+interface Recipient {
+  id: string;
+  name: string;
+  site?: string;
+}
+
+interface Props {
+  subject: string;
+  message: string;
+  templateId: string;
+  recipients: Recipient[];
+  getValues: (recipient: Recipient) => TemplateValues;
+  onApply: (template: { id: string; subject: string; body: string }) => void;
+  onInsert: (placeholder: string) => void;
+}
+
+const MessageTemplatePanel: React.FC<Props> = ({
+  subject,
+  message,
+  templateId,
+  recipients,
+  getValues,
+  onApply,
+  onInsert,
+}) => {
+  const { messageTemplates, saveTemplate, deleteTemplate } = useCommunication();
+  const [previewId, setPreviewId] = useState('');
+  const [newName, setNewName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!recipients.some(r => r.id === previewId)) {
+      setPreviewId(recipients[0]?.id || '');
+    }
+  }, [recipients, previewId]);
+
+  const placeholders = useMemo(() => findPlaceholders(subject, message), [subject, message]);
+  const unknown = getUnknownPlaceholders(placeholders);
+  const previewRecipient = recipients.find(r => r.id === previewId);
+  const previewValues = previewRecipient ? getValues(previewRecipient) : null;
+  const missing = previewValues ? getMissingValues(placeholders, previewValues) : [];
+
+  const handleSave = async () => {
+    const current = messageTemplates.find(t => t.id === templateId);
+    setSaving(true);
+    try {
+      if (current && !newName.trim()) {
+        await saveTemplate({ name: current.name, subject, body: message }, current.id);
+      } else {
+        const id = await saveTemplate({ name: newName.trim(), subject, body: message });
+        onApply({ id, subject, body: message });
+        setNewName('');
+      }
+    } catch (error) {
+      console.error('Error saving template:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const current = messageTemplates.find(t => t.id === templateId);
+    if (!current || !window.confirm(`Delete the template "${current.name}"?`)) return;
+    try {
+      await deleteTemplate(current.id);
+      onApply({ id: '', subject, body: message });
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Grid container spacing={2} alignItems="center">
+        <Grid item xs={12} md={5}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Template</InputLabel>
+            <Select
+              value={templateId}
+              label="Template"
+              onChange={(e) => {
+                const template = messageTemplates.find(t => t.id === e.target.value);
+                onApply(template
+                  ? { id: template.id, subject: template.subject, body: template.body }
+                  : { id: '', subject, body: message });
+              }}
+            >
+              <MenuItem value="">
+                <em>No template</em>
+              </MenuItem>
+              {messageTemplates.map(template => (
+                <MenuItem key={template.id} value={template.id}>{template.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={5}>
+          <TextField
+            fullWidth
+            size="small"
+            label={templateId ? 'Save as new template (optional)' : 'New template name'}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+        </Grid>
+        <Grid item xs={12} md={2}>
+          <Stack direction="row" spacing={1}>
+            <Tooltip title={templateId && !newName.trim() ? 'Update template' : 'Save as template'}>
+              <span>
+                <IconButton
+                  onClick={handleSave}
+                  disabled={saving || !message.trim() || (!templateId && !newName.trim())}
+                >
+                  <SaveIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Delete template">
+              <span>
+                <IconButton onClick={handleDelete} disabled={!templateId}>
+                  <DeleteIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Stack>
+        </Grid>
+
+        <Grid item xs={12}>
+          <Typography variant="caption" color="textSecondary">
+            Insert a variable:
+          </Typography>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mt: 0.5 }}>
+            {Object.entries(TEMPLATE_VARIABLES).map(([name, description]) => (
+              <Tooltip key={name} title={description}>
+                <Chip
+                  size="small"
+                  label={`{{${name}}}`}
+                  variant={placeholders.includes(name) ? 'filled' : 'outlined'}
+                  color={placeholders.includes(name) ? 'primary' : 'default'}
+                  onClick={() => onInsert(`{{${name}}}`)}
+                />
+              </Tooltip>
+            ))}
+          </Stack>
+        </Grid>
+
+        {unknown.length > 0 && (
+          <Grid item xs={12}>
+            <Alert severity="error">
+              Unknown variables: {unknown.map(name => `{{${name}}}`).join(', ')}
+            </Alert>
+          </Grid>
+        )}
+
+        {placeholders.length > 0 && (
+          <Grid item xs={12}>
+            <Box display="flex" alignItems="center" gap={2} mb={1}>
+              <Typography variant="subtitle2">Preview</Typography>
+              <FormControl size="small" sx={{ minWidth: 200 }} disabled={!recipients.length}>
+                <InputLabel>Recipient</InputLabel>
+                <Select
+                  value={previewRecipient ? previewId : ''}
+                  label="Recipient"
+                  onChange={(e) => setPreviewId(e.target.value)}
+                >
+                  {recipients.map(r => (
+                    <MenuItem key={r.id} value={r.id}>{r.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+            {previewValues ? (
+              <Box sx={{ p: 2, bgcolor: 'action.hover', borderRadius: 1 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  {renderTemplate(subject, previewValues) || '(no subject)'}
+                </Typography>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {renderTemplate(message, previewValues)}
+                </Typography>
+                {missing.length > 0 && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    No value for {missing.map(name => `{{${name}}}`).join(', ')} — these will be left blank.
+                  </Alert>
+                )}
+              </Box>
+            ) : (
+              <Typography variant="body2" color="textSecondary">
+                Select recipients to preview the message.
+              </Typography>
+            )}
+          </Grid>
+        )}
+      </Grid>
+      {!newName && templateId && (
+        <Box mt={1}>
+          <Button size="small" onClick={() => onApply({ id: '', subject, body: message })}>
+            Detach from template
+          </Button>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default MessageTemplatePanel;
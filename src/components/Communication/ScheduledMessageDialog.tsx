@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import {
+  MessageType,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  ScheduledMessage,
+  ScheduledMessageInput,
+} from '../../types/communication';
+import { getNextRuns, isValidTimeZone } from '../../utils/recurrence';
+import { useCommunication } from '../../contexts/CommunicationContext';
+
+interface Recipient {
+  id: string;
+  name: string;
+}
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: ScheduledMessageInput) => Promise<void>;
+  users: Recipient[];
+  schedule?: ScheduledMessage | null;
+}
+
+const PREVIEW_COUNT = 5;
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  once: '',
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const defaultRule = (): RecurrenceRule => ({
+  frequency: 'weekly',
+  interval: 1,
+  time: '09:00',
+  daysOfWeek: [new Date().getDay()],
+  dayOfMonth: new Date().getDate(),
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: null,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'Europe/London',
+});
+
+const ScheduledMessageDialog: React.FC<Props> = ({ open, onClose, onSave, users, schedule }) => {
+  const { recipientGroups } = useCommunication();
+  const [type, setType] = useState<MessageType>('email');
+  const [subject, setSubject] = useState('');
+  const [message, setMessage] = useState('');
+  const [recipients, setRecipients] = useState<string[]>([]);
+  const [groups, setGroups] = useState<string[]>([]);
+  const [rule, setRule] = useState<RecurrenceRule>(defaultRule);
+  const [previewCount, setPreviewCount] = useState(PREVIEW_COUNT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setType(schedule?.type || 'email');
+    setSubject(schedule?.subject || '');
+    setMessage(schedule?.message || '');
+    setRecipients(schedule?.recipients || []);
+    setGroups(schedule?.recipientGroups || []);
+    setRule(schedule ? { ...defaultRule(), ...schedule.recurrence } : defaultRule());
+    setPreviewCount(PREVIEW_COUNT);
+    setError(null);
+  }, [open, schedule]);
+
+  const updateRule = (updates: Partial<RecurrenceRule>) => setRule(prev => ({ ...prev, ...updates }));
+
+  const timeZoneValid = isValidTimeZone(rule.timeZone);
+
+  const preview = useMemo(() => {
+    if (!timeZoneValid || !rule.startDate || !rule.time) return [];
+    return getNextRuns(rule, new Date(), previewCount);
+  }, [rule, previewCount, timeZoneValid]);
+
+  const handleSave = async () => {
+    if (!subject.trim() || !message.trim()) {
+      setError('Subject and message are required');
+      return;
+    }
+    if (!recipients.length && !groups.length) {
+      setError('Select at least one recipient or group');
+      return;
+    }
+    if (!timeZoneValid) {
+      setError(`Unknown time zone "${rule.timeZone}"`);
+      return;
+    }
+    if (rule.frequency === 'weekly' && !rule.daysOfWeek?.length) {
+      setError('Pick at least one day of the week');
+      return;
+    }
+    if (!preview.length) {
+      setError('This schedule has no future send times');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ type, subject, message, recipients, recipientGroups: groups, recurrence: rule });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{schedule ? 'Edit Scheduled Message' : 'New Scheduled Message'}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth>
+              <InputLabel>Message Type</InputLabel>
+              <Select
+                value={type}
+                label="Message Type"
+                onChange={(e) => setType(e.target.value as MessageType)}
+              >
+                <MenuItem value="sms">SMS</MenuItem>
+                <MenuItem value="email">Email</MenuItem>
+                <MenuItem value="both">Both</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={8}>
+            <Autocomplete
+              multiple
+              options={users}
+              value={users.filter(user => recipients.includes(user.id))}
+              onChange={(_e, value) => setRecipients(value.map(user => user.id))}
+              getOptionLabel={(option) => option.name}
+              renderInput={(params) => <TextField {...params} label="Recipients" />}
+            />
+          </Grid>
+          {recipientGroups.length > 0 && (
+            <Grid item xs={12}>
+              <Autocomplete
+                multiple
+                options={recipientGroups}
+                value={recipientGroups.filter(group => groups.includes(group.id))}
+                onChange={(_e, value) => setGroups(value.map(group => group.id))}
+                getOptionLabel={(option) => option.name}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Recipient Groups"
+                    helperText="Dynamic groups are worked out again at each send"
+                  />
+                )}
+              />
+            </Grid>
+          )}
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              label="Subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              rows={3}
+              label="Message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </Grid>
+
+          <Grid item xs={12}>
+            <Typography variant="subtitle2">Repeat</Typography>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth>
+              <InputLabel>Frequency</InputLabel>
+              <Select
+                value={rule.frequency}
+                label="Frequency"
+                onChange={(e) => updateRule({ frequency: e.target.value as RecurrenceFrequency })}
+              >
+                <MenuItem value="once">Once</MenuItem>
+                <MenuItem value="daily">Daily</MenuItem>
+                <MenuItem value="weekly">Weekly</MenuItem>
+                <MenuItem value="monthly">Monthly</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          {rule.frequency !== 'once' && (
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                type="number"
+                label={`Every N ${INTERVAL_UNITS[rule.frequency]}`}
+                value={rule.interval}
+                inputProps={{ min: 1 }}
+                onChange={(e) => updateRule({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </Grid>
+          )}
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              type="time"
+              label="Time"
+              value={rule.time}
+              InputLabelProps={{ shrink: true }}
+              onChange={(e) => updateRule({ time: e.target.value })}
+            />
+          </Grid>
+          {rule.frequency === 'weekly' && (
+            <Grid item xs={12}>
+              <ToggleButtonGroup
+                size="small"
+                value={rule.daysOfWeek || []}
+                onChange={(_e, days: number[]) => updateRule({ daysOfWeek: [...days].sort((a, b) => a - b) })}
+              >
+                {DAY_LABELS.map((label, day) => (
+                  <ToggleButton key={label} value={day}>{label}</ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Grid>
+          )}
+          {rule.frequency === 'monthly' && (
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Day of Month"
+                value={rule.dayOfMonth || 1}
+                inputProps={{ min: 1, max: 31 }}
+                helperText="Short months use their last day"
+                onChange={(e) => updateRule({ dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+              />
+            </Grid>
+          )}
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              type="date"
+              label={rule.frequency === 'once' ? 'Date' : 'Starts'}
+              value={rule.startDate}
+              InputLabelProps={{ shrink: true }}
+              onChange={(e) => updateRule({ startDate: e.target.value })}
+            />
+          </Grid>
+          {rule.frequency !== 'once' && (
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                type="date"
+                label="Ends (optional)"
+                value={rule.endDate || ''}
+                InputLabelProps={{ shrink: true }}
+                onChange={(e) => updateRule({ endDate: e.target.value || null })}
+              />
+            </Grid>
+          )}
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              label="Time Zone"
+              value={rule.timeZone}
+              error={!timeZoneValid}
+              helperText={timeZoneValid ? ' ' : 'Use an IANA name, e.g. Europe/London'}
+              onChange={(e) => updateRule({ timeZone: e.target.value })}
+            />
+          </Grid>
+
+          <Grid item xs={12}>
+            <Box display="flex" alignItems="center" justifyContent="space-between">
+              <Typography variant="subtitle2">Next send times</Typography>
+              <TextField
+                size="small"
+                type="number"
+                label="Show"
+                value={previewCount}
+                inputProps={{ min: 1, max: 50 }}
+                sx={{ width: 90 }}
+                onChange={(e) => setPreviewCount(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </Box>
+            {preview.length === 0 ? (
+              <Typography variant="body2" color="textSecondary">
+                No future send times for this schedule.
+              </Typography>
+            ) : (
+              <List dense>
+                {preview.map(run => (
+                  <ListItem key={run.toISOString()} disableGutters>
+                    <ListItemText
+                      primary={format(run, 'EEEE d MMMM yyyy, HH:mm')}
+                      secondary={rule.timeZone !== Intl.DateTimeFormat().resolvedOptions().timeZone
+                        ? `Your local time; scheduled in ${rule.timeZone}`
+                        : undefined}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+            {(recipients.length > 0 || groups.length > 0) && (
+              <Chip
+                size="small"
+                label={`${recipients.length} recipient(s)${groups.length ? ` + ${groups.length} group(s)` : ''} per send`}
+              />
+            )}
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Schedule'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScheduledMessageDialog;
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  History as HistoryIcon,
+  Pause as PauseIcon,
+  PlayArrow as ResumeIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useCommunication } from '../../contexts/CommunicationContext';
+import { RecurrenceRule, ScheduledMessage, ScheduledMessageSendLog } from '../../types/communication';
+import ScheduledMessageDialog from './ScheduledMessageDialog';
+
+interface Recipient {
+  id: string;
+  name: string;
+}
+
+interface Props {
+  users: Recipient[];
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const describeRule = (rule: RecurrenceRule) => {
+  const every = rule.interval > 1 ? `Every ${rule.interval} ` : 'Every ';
+  switch (rule.frequency) {
+    case 'once':
+      return `Once on ${rule.startDate} at ${rule.time}`;
+    case 'daily':
+      return `${every}${rule.interval > 1 ? 'days' : 'day'} at ${rule.time}`;
+    case 'weekly': {
+      const days = (rule.daysOfWeek || []).map(d => DAY_LABELS[d]).join(', ');
+      return `${every}${rule.interval > 1 ? 'weeks' : 'week'} on ${days} at ${rule.time}`;
+    }
+    case 'monthly':
+      return `${every}${rule.interval > 1 ? 'months' : 'month'} on day ${rule.dayOfMonth} at ${rule.time}`;
+  }
+};
+
+const getStatusColor = (status: ScheduledMessage['status']) => {
+  switch (status) {
+    case 'active':
+      return 'success';
+    case 'paused':
+      return 'warning';
+    default:
+      return 'default';
+  }
+};
+
+const ScheduledMessages: React.FC<Props> = ({ users }) => {
+  const {
+    scheduledMessages,
+    createSchedule,
+    updateSchedule,
+    pauseSchedule,
+    resumeSchedule,
+    deleteSchedule,
+    getSendLogs,
+  } = useCommunication();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ScheduledMessage | null>(null);
+  const [logsFor, setLogsFor] = useState<ScheduledMessage | null>(null);
+  const [logs, setLogs] = useState<ScheduledMessageSendLog[]>([]);
+
+  const handleOpen = (schedule: ScheduledMessage | null) => {
+    setEditing(schedule);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (schedule: ScheduledMessage) => {
+    if (!window.confirm(`Delete the schedule "${schedule.subject}"?`)) return;
+    try {
+      await deleteSchedule(schedule.id);
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+    }
+  };
+
+  const handleToggle = async (schedule: ScheduledMessage) => {
+    try {
+      if (schedule.status === 'paused') {
+        await resumeSchedule(schedule.id);
+      } else {
+        await pauseSchedule(schedule.id);
+      }
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+    }
+  };
+
+  const handleShowLogs = async (schedule: ScheduledMessage) => {
+    setLogsFor(schedule);
+    setLogs([]);
+    try {
+      setLogs(await getSendLogs(schedule.id));
+    } catch (error) {
+      console.error('Error loading send logs:', error);
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h6">Scheduled Messages</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpen(null)}>
+          New Schedule
+        </Button>
+      </Box>
+
+      {scheduledMessages.length === 0 ? (
+        <Typography color="textSecondary">No scheduled messages yet.</Typography>
+      ) : (
+        <Paper variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Subject</TableCell>
+                <TableCell>Repeat</TableCell>
+                <TableCell>Next Send</TableCell>
+                <TableCell>Last Sent</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {scheduledMessages.map(schedule => (
+                <TableRow key={schedule.id} hover>
+                  <TableCell>
+                    <Typography variant="body2">{schedule.subject}</Typography>
+                    <Typography variant="caption" color="textSecondary">
+                      {schedule.type.toUpperCase()} · {schedule.recipients.length} recipient(s)
+                      {schedule.recipientGroups?.length ? ` + ${schedule.recipientGroups.length} group(s)` : ''}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{describeRule(schedule.recurrence)}</Typography>
+                    <Typography variant="caption" color="textSecondary">
+                      {schedule.recurrence.timeZone}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {schedule.status === 'active' && schedule.nextRunAt
+                      ? format(schedule.nextRunAt, 'dd MMM yyyy HH:mm')
+                      : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {schedule.lastRunAt ? format(schedule.lastRunAt, 'dd MMM yyyy HH:mm') : 'Never'}
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="small" label={schedule.status} color={getStatusColor(schedule.status)} />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                      {schedule.status !== 'completed' && (
+                        <Tooltip title={schedule.status === 'paused' ? 'Resume' : 'Pause'}>
+                          <IconButton size="small" onClick={() => handleToggle(schedule)}>
+                            {schedule.status === 'paused' ? <ResumeIcon /> : <PauseIcon />}
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      <Tooltip title="Send log">
+                        <IconButton size="small" onClick={() => handleShowLogs(schedule)}>
+                          <HistoryIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => handleOpen(schedule)}>
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => handleDelete(schedule)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      <ScheduledMessageDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        users={users}
+        schedule={editing}
+        onSave={async (data) => {
+          if (editing) {
+            await updateSchedule(editing.id, data);
+          } else {
+            await createSchedule(data);
+          }
+        }}
+      />
+
+      <Dialog open={!!logsFor} onClose={() => setLogsFor(null)} maxWidth="md" fullWidth>
+        <DialogTitle>Send Log — {logsFor?.subject}</DialogTitle>
+        <DialogContent>
+          {logs.length === 0 ? (
+            <Typography color="textSecondary">Nothing has been sent yet.</Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Run</TableCell>
+                  <TableCell>Recipient</TableCell>
+                  <TableCell>Deliveries</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {logs.map(log => (
+                  <TableRow key={log.id}>
+                    <TableCell>{format(log.runAt, 'dd MMM yyyy HH:mm')}</TableCell>
+                    <TableCell>{log.userName}</TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap">
+                        {log.deliveries.map(delivery => (
+                          <Tooltip key={delivery.deliveryId} title={delivery.error || ''}>
+                            <Chip
+                              size="small"
+                              variant="outlined"
+                              label={`${delivery.channel}: ${delivery.status}`}
+                              color={delivery.status === 'sent' ? 'success' :
+                                delivery.status === 'failed' ? 'error' : 'default'}
+                            />
+                          </Tooltip>
+                        ))}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setLogsFor(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ScheduledMessages;
@@ -41,6 +41,7 @@ import {
   Event as EventIcon,
   VerifiedUser as ComplianceIcon,
   Message as MessageIcon,
+  Groups as GroupsIcon,
   Sick as SickIcon,
   EventAvailable as LeaveIcon,
   Book as BookIcon,
@@ -49,6 +50,8 @@ import {
   CloudUpload as ImportIcon,
   FilterList as FilterIcon,
   HelpOutline as HelpIcon,
+  SwapHoriz as SwapIcon,
+  HowToReg as ProbationIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../../contexts/AuthContext';
 import { useData } from '../../contexts/DataContext';
@@ -106,6 +109,13 @@ const MainLayout: React.FC = () => {
       description: 'View and manage staff rotas',
       section: 'Staff',
     },
+    { 
+      path: '/shift-swaps', 
+      label: 'Shift Swaps', 
+      icon: <SwapIcon />,
+      description: 'Offer, swap and pick up shifts',
+      section: 'Staff',
+    },
     { 
       path: '/rota/import', 
       label: 'Import Rota', 
@@ -174,6 +184,14 @@ const MainLayout: React.FC = () => {
       section: 'Supervision',
       adminOnly: true,
     },
+    {
+      path: '/probation',
+      label: 'Probation',
+      icon: <ProbationIcon />,
+      description: 'New starters through probation',
+      section: 'Supervision',
+      adminOnly: true,
+    },
     { 
       path: '/dols', 
       label: 'DoLS', 
@@ -198,6 +216,14 @@ const MainLayout: React.FC = () => {
       section: 'Communication',
       adminOnly: true,
     },
+    {
+      path: '/recipient-groups',
+      label: 'Recipient Groups',
+      icon: <GroupsIcon />,
+      description: 'Manage messaging groups',
+      section: 'Communication',
+      adminOnly: true,
+    },
     { 
       path: '/users', 
       label: 'Users', 
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CheckCircle as CheckCircleIcon } from '@mui/icons-material';
+import { format, parseISO } from 'date-fns';
+import { useLeave } from '../../contexts/LeaveContext';
+import { BLOCKING_LEAVE_CONFLICTS, LeaveAvailability, LeaveRequest } from '../../types/leave';
+
+interface LeaveApprovalDialogProps {
+  request: LeaveRequest | null;
+  onClose: () => void;
+  onApproved: (request: LeaveRequest) => void;
+}
+
+const getShiftKey = ({ rotaId, shiftId }: { rotaId: string; shiftId: string }) => `${rotaId}/${shiftId}`;
+
+/**
+ * Shows a manager what approving leave would mean for the rota before they
+ * approve it, and offers to take the person off the shifts they are on at
+ * sites they manage.
+ */
+export const LeaveApprovalDialog: React.FC<LeaveApprovalDialogProps> = ({ request, onClose, onApproved }) => {
+  const { checkLeaveAvailability, approveLeave, canChangeRota } = useLeave();
+  const [availability, setAvailability] = useState<LeaveAvailability | null>(null);
+  const [unassign, setUnassign] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+
+    setAvailability(null);
+    setUnassign([]);
+    setNotes('');
+    setError(null);
+    setChecking(true);
+    checkLeaveAvailability(request.startDate, request.endDate, request.leaveType, request)
+      .then(result => {
+        if (cancelled) return;
+        setAvailability(result);
+        setUnassign(result.affectedShifts.filter(shift => canChangeRota(shift.site)).map(getShiftKey));
+      })
+      .catch(err => {
+        console.error('Error checking leave request:', err);
+        if (!cancelled) setError('Could not check the rota for this request');
+      })
+      .finally(() => {
+        if (!cancelled) setChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request, checkLeaveAvailability, canChangeRota]);
+
+  const handleApprove = async () => {
+    if (!request) return;
+    setApproving(true);
+    setError(null);
+    try {
+      // Shifts at other sites go too, so the approval reports them as left on the rota
+      const shifts = (availability?.affectedShifts || [])
+        .filter(shift => unassign.includes(getShiftKey(shift)) || !canChangeRota(shift.site));
+      await approveLeave(request.id, notes.trim() || 'Approved by manager/admin', shifts);
+      onApproved(request);
+    } catch (err) {
+      console.error('Error approving leave request:', err);
+      setError(err instanceof Error ? err.message : 'Failed to approve leave');
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const toggleShift = (key: string) => setUnassign(prev =>
+    prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  const affectedShifts = availability?.affectedShifts || [];
+  const changeableShifts = affectedShifts.filter(shift => canChangeRota(shift.site));
+  const otherSites = Array.from(new Set(
+    affectedShifts.filter(shift => !canChangeRota(shift.site)).map(shift => shift.site)
+  ));
+  const conflicts = (availability?.conflicts || []).filter(conflict => conflict.type !== 'shift-assigned');
+
+  return (
+    <Dialog open={!!request} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Approve Leave{request ? ` — ${request.staffName}` : ''}</DialogTitle>
+      <DialogContent>
+        {request && (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Typography variant="body2">
+              {request.leaveType}, {format(parseISO(request.startDate), 'd MMM yyyy')} to{' '}
+              {format(parseISO(request.endDate), 'd MMM yyyy')} ({request.totalDays} working{' '}
+              {request.totalDays === 1 ? 'day' : 'days'})
+            </Typography>
+
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            {checking && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <CircularProgress size={20} />
+                <Typography variant="body2" color="text.secondary">Checking rotas and team leave...</Typography>
+              </Box>
+            )}
+
+            {conflicts.map((conflict, index) => (
+              <Alert key={index} severity={BLOCKING_LEAVE_CONFLICTS.includes(conflict.type) ? 'error' : 'warning'}>
+                {conflict.message}
+              </Alert>
+            ))}
+
+            {availability && !affectedShifts.length && !conflicts.length && (
+              <Alert severity="success">No rota shifts or leave rules are affected</Alert>
+            )}
+
+            {affectedShifts.length > 0 && (
+              <>
+                <Typography variant="subtitle2">
+                  {request.staffName} is on {affectedShifts.length} shift{affectedShifts.length === 1 ? '' : 's'} during this leave
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell padding="checkbox" />
+                      <TableCell>Date</TableCell>
+                      <TableCell>Site</TableCell>
+                      <TableCell>Shift</TableCell>
+                      <TableCell>Role</TableCell>
+                      <TableCell>Cover left</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {affectedShifts.map(shift => {
+                      const key = getShiftKey(shift);
+                      const canChange = canChangeRota(shift.site);
+                      return (
+                        <TableRow
+                          key={key}
+                          hover={canChange}
+                          onClick={canChange ? () => toggleShift(key) : undefined}
+                          sx={{ cursor: canChange ? 'pointer' : 'default' }}
+                        >
+                          <TableCell padding="checkbox">
+                            <Checkbox checked={unassign.includes(key)} disabled={!canChange} />
+                          </TableCell>
+                          <TableCell>{format(parseISO(shift.date), 'EEE d MMM')}</TableCell>
+                          <TableCell>{shift.site}</TableCell>
+                          <TableCell>{shift.startTime}-{shift.endTime}</TableCell>
+                          <TableCell>{shift.role}</TableCell>
+                          <TableCell>
+                            {shift.shortfall ? (
+                              <Chip
+                                size="small"
+                                color="error"
+                                label={`${shift.shortfall.remaining} of ${shift.shortfall.required} ${shift.shortfall.role}`}
+                              />
+                            ) : (
+                              <Chip size="small" label="Covered" />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {otherSites.length > 0 && (
+                  <Alert severity="warning">
+                    You can't change the rota at {otherSites.join(', ')}, so {request.staffName} will stay on those
+                    shifts until that site's manager takes them off
+                  </Alert>
+                )}
+                {changeableShifts.length > 0 && (
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={unassign.length === changeableShifts.length}
+                        indeterminate={unassign.length > 0 && unassign.length < changeableShifts.length}
+                        onChange={(e) => setUnassign(e.target.checked ? changeableShifts.map(getShiftKey) : [])}
+                      />
+                    }
+                    label={`Take ${request.staffName} off the ticked shifts when approving`}
+                  />
+                )}
+              </>
+            )}
+
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Approval notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          color="success"
+          startIcon={<CheckCircleIcon />}
+          onClick={handleApprove}
+          disabled={checking || approving}
+        >
+          {approving ? 'Approving...' : unassign.length ? `Approve and Unassign ${unassign.length}` : 'Approve'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -30,9 +30,8 @@ import {
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { useLeave } from '../../contexts/LeaveContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { useRotaContext } from '../../contexts/RotaContext';
 import { useNotifications } from '../../contexts/NotificationContext';
-import { LeaveType } from '../../types/leave';
+import { BLOCKING_LEAVE_CONFLICTS, LeaveType } from '../../types/leave';
 import {
   format,
   parseISO,
@@ -130,9 +129,8 @@ export const LeaveRequestForm: React.FC<{
 }> = ({ onSubmit, onCancel }) => {
   const baseTheme = useTheme();
   const adhdfTheme = createADHDFriendlyTheme(baseTheme);
-  const { leaveEntitlement, calculateLeaveDays, checkLeaveAvailability, teamCalendar, requestLeave } = useLeave();
+  const { leaveEntitlement, leaveYear, calculateLeaveDays, checkLeaveAvailability, teamCalendar, requestLeave } = useLeave();
   const { currentUser, userData } = useAuth();
-  const { currentRota } = useRotaContext();
   const { notify } = useNotifications();
 
   // Form state
@@ -150,26 +148,15 @@ export const LeaveRequestForm: React.FC<{
   const [busyPeriodWarning, setBusyPeriodWarning] = useState('');
   const [rotaConflict, setRotaConflict] = useState(false);
 
-  // Get current leave year dates
-  const getCurrentLeaveYear = () => {
-    const now = new Date();
-    const year = now.getMonth() < 3 ? now.getFullYear() - 1 : now.getFullYear();
-    return {
-      start: new Date(year, 3, 1), // April 1st
-      end: new Date(year + 1, 2, 31), // March 31st next year
-    };
-  };
-
   // Check if date is in current leave year
   const isInCurrentLeaveYear = (date: Date) => {
-    const { start, end } = getCurrentLeaveYear();
+    const { start, end } = leaveYear;
     return isAfter(date, start) && isBefore(date, end);
   };
 
   // Calculate days until year end
   const getDaysUntilYearEnd = () => {
-    const { end } = getCurrentLeaveYear();
-    return differenceInDays(end, new Date());
+    return differenceInDays(leaveYear.end, new Date());
   };
 
   // Calculate business days
@@ -231,25 +218,6 @@ export const LeaveRequestForm: React.FC<{
     }
   }, [formData.startDate, formData.endDate]);
 
-  // Check for rota conflicts
-  useEffect(() => {
-    if (formData.startDate && formData.endDate && currentRota) {
-      const startDate = parseISO(formData.startDate);
-      const endDate = parseISO(formData.endDate);
-      const rotaStart = parseISO(currentRota.startDate);
-      const rotaEnd = parseISO(currentRota.endDate);
-
-      if (
-        (isAfter(startDate, rotaStart) && isBefore(startDate, rotaEnd)) ||
-        (isAfter(endDate, rotaStart) && isBefore(endDate, rotaEnd))
-      ) {
-        setRotaConflict(true);
-      } else {
-        setRotaConflict(false);
-      }
-    }
-  }, [formData.startDate, formData.endDate, currentRota]);
-
   // Calculate leave quota usage
   const calculateQuotaUsage = () => {
     if (!leaveEntitlement) return 0;
@@ -283,24 +251,30 @@ export const LeaveRequestForm: React.FC<{
 
           // Check if dates are in current leave year
           if (!isInCurrentLeaveYear(start) || !isInCurrentLeaveYear(end)) {
-            newErrors.dates = 'Leave dates must be within the current leave year (April-March)';
+            newErrors.dates = `Leave dates must be within the current leave year (${leaveYear.label})`;
           }
 
           if (leaveEntitlement && businessDays > leaveEntitlement.remainingDays) {
             newErrors.dates = 'Requested days exceed your remaining leave balance';
           }
 
-          // Check availability
-          const availability = await checkLeaveAvailability(
-            formData.startDate,
-            formData.endDate,
-            formData.leaveType
-          );
-
-          if (!availability.isAvailable) {
-            availability.conflicts.forEach(conflict => {
-              newErrors.dates = conflict.message;
-            });
+          // Check availability; being on the rota is for the manager to sort out when approving
+          try {
+            const availability = await checkLeaveAvailability(
+              formData.startDate,
+              formData.endDate,
+              formData.leaveType
+            );
+
+            availability.conflicts
+              .filter(conflict => BLOCKING_LEAVE_CONFLICTS.includes(conflict.type))
+              .forEach(conflict => {
+                newErrors.dates = conflict.message;
+              });
+            setRotaConflict(availability.affectedShifts.length > 0);
+          } catch (error) {
+            console.error('Error checking leave availability:', error);
+            newErrors.dates = 'Could not check team leave and the rota. Please try again.';
           }
         }
         break;
@@ -439,8 +413,13 @@ export const LeaveRequestForm: React.FC<{
                       Including {leaveEntitlement.carryForwardDays} carried forward days
                     </Typography>
                   )}
+                  {leaveEntitlement.accrual === 'hours' && (
+                    <Typography variant="body2" color="text.secondary">
+                      Earned so far from {leaveEntitlement.hoursWorked ?? 0} hours worked, out of {leaveEntitlement.totalEntitlement} days for the year
+                    </Typography>
+                  )}
                   <Typography variant="body2" color="text.secondary">
-                    Current Leave Year: {format(getCurrentLeaveYear().start, 'do MMM yyyy')} - {format(getCurrentLeaveYear().end, 'do MMM yyyy')}
+                    Current Leave Year: {format(leaveYear.start, 'do MMM yyyy')} - {format(leaveYear.end, 'do MMM yyyy')}
                   </Typography>
                 </Stack>
               </Alert>
@@ -571,7 +550,7 @@ export const LeaveRequestForm: React.FC<{
               icon={<EventIcon />}
             >
               <Typography variant="body2">
-                This leave request conflicts with an existing rota. Please coordinate with your manager.
+                You are on the rota during this leave. Your manager will arrange cover when approving it.
               </Typography>
             </Alert>
           )}
@@ -752,7 +731,7 @@ export const LeaveRequestForm: React.FC<{
               <Typography variant="body2">
                 • Select your leave type first
                 <br />
-                • Choose your start and end dates (within current leave year: {format(getCurrentLeaveYear().start, 'MMM yyyy')} - {format(getCurrentLeaveYear().end, 'MMM yyyy')})
+                • Choose your start and end dates (within current leave year: {format(leaveYear.start, 'MMM yyyy')} - {format(leaveYear.end, 'MMM yyyy')})
                 <br />
                 • Add any notes or comments (optional)
                 <br />
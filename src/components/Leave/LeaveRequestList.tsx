@@ -37,7 +37,8 @@ import { useLeave } from '../../contexts/LeaveContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { useRotaContext } from '../../contexts/RotaContext';
 import { useNotifications } from '../../contexts/NotificationContext';
-import { format, parseISO, isWithinInterval, startOfMonth, endOfMonth, isAfter, isBefore } from 'date-fns';
+import { LeaveApprovalDialog } from './LeaveApprovalDialog';
+import { format, parseISO, isWithinInterval, startOfMonth, endOfMonth } from 'date-fns';
 import { DataTableColumn } from '../../types';
 
 interface FilterState {
@@ -53,7 +54,7 @@ type LeaveRequestColumn = keyof LeaveRequest | 'actions';
 
 export const LeaveRequestList: React.FC = () => {
   const theme = useTheme();
-  const { leaveRequests, updateLeaveRequest, leaveEntitlement } = useLeave();
+  const { leaveRequests, updateLeaveRequest, leaveEntitlement, leaveYear } = useLeave();
   const { currentRota } = useRotaContext();
   const { currentUser, userData, isAdmin } = useAuth();
   const { notify } = useNotifications();
@@ -64,6 +65,7 @@ export const LeaveRequestList: React.FC = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [showStats, setShowStats] = useState(false);
+  const [approvalRequest, setApprovalRequest] = useState<LeaveRequest | null>(null);
 
   const [filters, setFilters] = useState<FilterState>({
     status: 'all',
@@ -173,26 +175,21 @@ export const LeaveRequestList: React.FC = () => {
     setSelectedRequest(null);
   };
 
-  const handleApproveRequest = async (request: LeaveRequest) => {
-    if (!request || !currentUser) return;
-    try {
-      await updateLeaveRequest(request.id, {
-        status: 'approved',
-        approvedBy: currentUser.uid,
-        approvalNotes: 'Approved by manager/admin',
-        updatedAt: new Date().toISOString()
-      });
-      notify({
-        type: 'system',
-        title: 'Leave Request Approved',
-        message: `Leave request for ${request.staffName} has been approved`,
-        userId: request.userId
-      });
-      setSelectedRequest(null);
-      setIsEditDialogOpen(false);
-    } catch (error) {
-      console.error('Error approving leave request:', error);
-    }
+  // Approval goes through the review of affected shifts and leave rules
+  const handleApproveRequest = (request: LeaveRequest) => {
+    setIsEditDialogOpen(false);
+    setApprovalRequest(request);
+  };
+
+  const handleApproved = (request: LeaveRequest) => {
+    notify({
+      type: 'system',
+      title: 'Leave Request Approved',
+      message: `Leave request for ${request.staffName} has been approved`,
+      userId: request.userId
+    });
+    setApprovalRequest(null);
+    setSelectedRequest(null);
   };
 
   const handleDeclineRequest = async (request: LeaveRequest) => {
@@ -275,11 +272,7 @@ export const LeaveRequestList: React.FC = () => {
   };
 
   const isLeaveInCurrentYear = (request: LeaveRequest): boolean => {
-    const now = new Date();
-    const yearStart = new Date(now.getFullYear(), 3, 1);
-    const yearEnd = new Date(now.getFullYear() + 1, 2, 31);
-    const leaveStart = parseISO(request.startDate);
-    return isAfter(leaveStart, yearStart) && isBefore(leaveStart, yearEnd);
+    return isWithinInterval(parseISO(request.startDate), leaveYear);
   };
 
   const canManage = (request: LeaveRequest): boolean => {
@@ -714,6 +707,12 @@ export const LeaveRequestList: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <LeaveApprovalDialog
+        request={approvalRequest}
+        onClose={() => setApprovalRequest(null)}
+        onApproved={handleApproved}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={isDeleteDialogOpen}
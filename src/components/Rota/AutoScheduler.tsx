@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -16,37 +16,30 @@ import {
   Typography,
   Slider,
   Box,
-  Divider
+  Divider,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress
 } from '@mui/material';
+import { format, parseISO } from 'date-fns';
 import {
   AISchedulerOptions,
-  WeeklyShiftRequirements
+  RotaOptimiserResult,
+  ShiftPattern,
+  ShiftStaffing
 } from '../../types/rota';
+import { requirementsToStaffing } from '../../utils/rotaUtils';
 
 interface AutoSchedulerProps {
   open: boolean;
   onClose: () => void;
-  onGenerate: (options: AISchedulerOptions) => void;
+  onGenerate: (options: AISchedulerOptions) => Promise<RotaOptimiserResult | null>;
+  // The rota's shift patterns; each gets its own staffing requirements
+  patterns: ShiftPattern[];
 }
 
-const defaultShiftRequirements: WeeklyShiftRequirements = {
-  morning: {
-    total: 5,
-    shiftLeader: 1,
-    driver: 1
-  },
-  afternoon: {
-    total: 4,
-    shiftLeader: 1,
-    driver: 0
-  },
-  night: {
-    total: 2,
-    shiftLeader: 1,
-    driver: 0
-  }
-};
-
 const defaultWeightings = {
   trainingCompliance: 25,
   performanceMetrics: 25,
@@ -57,24 +50,40 @@ const defaultWeightings = {
 const AutoScheduler: React.FC<AutoSchedulerProps> = ({
   open,
   onClose,
-  onGenerate
+  onGenerate,
+  patterns
 }) => {
   const [optimizationPriority, setOptimizationPriority] = useState<'balanced' | 'staff-preference' | 'coverage'>('balanced');
   const [considerTrainingStatus, setConsiderTrainingStatus] = useState(true);
   const [considerPerformanceMetrics, setConsiderPerformanceMetrics] = useState(true);
   const [allowPartialFill, setAllowPartialFill] = useState(false);
-  const [maxIterations, setMaxIterations] = useState(1000);
-  const [shiftRequirements, setShiftRequirements] = useState<WeeklyShiftRequirements>(defaultShiftRequirements);
+  const [maxIterations, setMaxIterations] = useState(5000);
+  const [seed, setSeed] = useState(1);
+  const [shiftRequirements, setShiftRequirements] = useState<Record<string, ShiftStaffing>>({});
   const [weightings, setWeightings] = useState(defaultWeightings);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  // Shown instead of the settings when some places could not be filled
+  const [result, setResult] = useState<RotaOptimiserResult | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setShiftRequirements(Object.fromEntries(patterns.map(pattern => [pattern.id, requirementsToStaffing(pattern.defaultRequirements)])));
+  }, [open, patterns]);
+
+  const handleClose = useCallback(() => {
+    setResult(null);
+    onClose();
+  }, [onClose]);
 
-  const handleGenerate = useCallback(() => {
+  const handleGenerate = useCallback(async () => {
     const options: AISchedulerOptions = {
       optimizationPriority,
       considerTrainingStatus,
       considerPerformanceMetrics,
       allowPartialFill,
       maxIterations,
+      seed,
       shiftRequirements,
       staff: [],
       weightings: {
@@ -85,23 +94,31 @@ const AutoScheduler: React.FC<AutoSchedulerProps> = ({
       }
     };
 
-    onGenerate(options);
-    onClose();
+    setGenerating(true);
+    const generated = await onGenerate(options);
+    setGenerating(false);
+
+    if (generated && generated.unmet.length > 0) {
+      setResult(generated);
+    } else {
+      handleClose();
+    }
   }, [
     optimizationPriority,
     considerTrainingStatus,
     considerPerformanceMetrics,
     allowPartialFill,
     maxIterations,
+    seed,
     shiftRequirements,
     weightings,
     onGenerate,
-    onClose
+    handleClose
   ]);
 
   const handleShiftRequirementChange = useCallback((
-    shift: keyof WeeklyShiftRequirements,
-    field: keyof WeeklyShiftRequirements[keyof WeeklyShiftRequirements],
+    shift: string,
+    field: keyof ShiftStaffing,
     value: number
   ) => {
     setShiftRequirements(prev => ({
@@ -120,8 +137,43 @@ const AutoScheduler: React.FC<AutoSchedulerProps> = ({
     }));
   }, []);
 
+  if (result) {
+    const unfilled = result.unmet.reduce((sum, requirement) => sum + requirement.missing, 0);
+    return (
+      <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>Rota Generated With Gaps</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {unfilled} place(s) could not be filled without breaking a hard constraint.
+            Each gap lists why the rest of the team could not take it.
+          </Alert>
+          <List dense>
+            {result.unmet.map(requirement => (
+              <ListItem key={`${requirement.shiftId}-${requirement.role}`} divider>
+                <ListItemText
+                  primary={`${format(parseISO(requirement.date), 'EEE d MMM')} · ${requirement.time} · ${requirement.role}`}
+                  secondary={requirement.message}
+                />
+              </ListItem>
+            ))}
+          </List>
+          <Typography variant="caption" color="text.secondary">
+            Seed {result.seed} · preference cost {result.preferenceCost}. Changing the seed or
+            iterations may give a different rota; the same settings always give the same one.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setResult(null)}>Back to Settings</Button>
+          <Button onClick={handleClose} variant="contained">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
       <DialogTitle>Auto Scheduler Settings</DialogTitle>
       <DialogContent>
         <Stack spacing={3} sx={{ mt: 1 }}>
@@ -140,48 +192,52 @@ const AutoScheduler: React.FC<AutoSchedulerProps> = ({
 
           <Typography variant="h6">Shift Requirements</Typography>
           <Stack spacing={2}>
-            {Object.entries(shiftRequirements).map(([shift, requirements]) => (
-              <Box key={shift} sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1 }}>
-                <Typography variant="subtitle1" sx={{ mb: 2 }}>
-                  {shift.charAt(0).toUpperCase() + shift.slice(1)} Shift
-                </Typography>
-                <Stack spacing={2}>
-                  <TextField
-                    type="number"
-                    label="Total Staff"
-                    value={requirements.total}
-                    onChange={(e) => handleShiftRequirementChange(
-                      shift as keyof WeeklyShiftRequirements,
-                      'total',
-                      parseInt(e.target.value)
-                    )}
-                    inputProps={{ min: 0 }}
-                  />
-                  <TextField
-                    type="number"
-                    label="Shift Leaders"
-                    value={requirements.shiftLeader}
-                    onChange={(e) => handleShiftRequirementChange(
-                      shift as keyof WeeklyShiftRequirements,
-                      'shiftLeader',
-                      parseInt(e.target.value)
-                    )}
-                    inputProps={{ min: 0 }}
-                  />
-                  <TextField
-                    type="number"
-                    label="Drivers"
-                    value={requirements.driver}
-                    onChange={(e) => handleShiftRequirementChange(
-                      shift as keyof WeeklyShiftRequirements,
-                      'driver',
-                      parseInt(e.target.value)
-                    )}
-                    inputProps={{ min: 0 }}
-                  />
-                </Stack>
-              </Box>
-            ))}
+            {patterns.filter(pattern => shiftRequirements[pattern.id]).map(pattern => {
+              const shift = pattern.id;
+              const requirements = shiftRequirements[shift];
+              return (
+                <Box key={shift} sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+                  <Typography variant="subtitle1" sx={{ mb: 2 }}>
+                    {pattern.name} ({pattern.start} - {pattern.end})
+                  </Typography>
+                  <Stack spacing={2}>
+                    <TextField
+                      type="number"
+                      label="Total Staff"
+                      value={requirements.total}
+                      onChange={(e) => handleShiftRequirementChange(
+                        shift,
+                        'total',
+                        parseInt(e.target.value)
+                      )}
+                      inputProps={{ min: 0 }}
+                    />
+                    <TextField
+                      type="number"
+                      label="Shift Leaders"
+                      value={requirements.shiftLeader}
+                      onChange={(e) => handleShiftRequirementChange(
+                        shift,
+                        'shiftLeader',
+                        parseInt(e.target.value)
+                      )}
+                      inputProps={{ min: 0 }}
+                    />
+                    <TextField
+                      type="number"
+                      label="Drivers"
+                      value={requirements.driver}
+                      onChange={(e) => handleShiftRequirementChange(
+                        shift,
+                        'driver',
+                        parseInt(e.target.value)
+                      )}
+                      inputProps={{ min: 0 }}
+                    />
+                  </Stack>
+                </Box>
+              );
+            })}
           </Stack>
 
           <FormControlLabel
@@ -231,7 +287,14 @@ const AutoScheduler: React.FC<AutoSchedulerProps> = ({
                   label="Max Iterations"
                   value={maxIterations}
                   onChange={(e) => setMaxIterations(parseInt(e.target.value))}
-                  inputProps={{ min: 100, max: 10000 }}
+                  inputProps={{ min: 100, max: 50000 }}
+                />
+                <TextField
+                  type="number"
+                  label="Seed"
+                  value={seed}
+                  onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                  helperText="The same seed and settings always produce the same rota"
                 />
 
                 <Typography variant="subtitle1">Weightings</Typography>
@@ -258,9 +321,9 @@ const AutoScheduler: React.FC<AutoSchedulerProps> = ({
         </Stack>
       </DialogContent>
       <DialogActions>
-        <Button onClick={onClose}>Cancel</Button>
-        <Button onClick={handleGenerate} variant="contained" color="primary">
-          Generate Rota
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={handleGenerate} variant="contained" color="primary" disabled={generating}>
+          {generating ? <CircularProgress size={20} /> : 'Generate Rota'}
         </Button>
       </DialogActions>
     </Dialog>
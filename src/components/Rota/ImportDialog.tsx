@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -24,16 +24,27 @@ import {
 } from '@mui/material';
 import { useDropzone } from 'react-dropzone';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import { parseISO } from 'date-fns';
 import { 
   RotaImportData, 
-  ShiftTime, 
-  Staff, 
-  SHIFT_TIME_DETAILS, 
+  RotaSpreadsheet,
+  ShiftCodeMap,
   ShiftStatus,
-  ShiftAssignment 
+  ShiftAssignment,
+  StaffNameMatch
 } from '../../types/rota';
+import { applyShiftChanges, getShiftPatterns } from '../../utils/rotaUtils';
+import {
+  buildSpreadsheetImport,
+  getDefaultShiftCodes,
+  matchStaffName,
+  normaliseShiftCode,
+  parseRotaSpreadsheet
+} from '../../utils/rotaSpreadsheet';
 import { useRotaContext } from '../../contexts/RotaContext';
+import { useAuth } from '../../contexts/AuthContext';
 import { useNotifications } from '../../contexts/NotificationContext';
+import { SpreadsheetImportReview } from './SpreadsheetImportReview';
 
 interface ImportDialogProps {
   open: boolean;
@@ -49,14 +60,28 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
   onComplete
 }) => {
   const theme = useTheme();
-  const { staff, currentRota, updateRota } = useRotaContext();
+  const { staff, currentRota, updateRota, checkShiftAssignments } = useRotaContext();
+  const { currentUser } = useAuth();
   const { notify } = useNotifications();
   
   const [activeStep, setActiveStep] = useState(0);
   const [importData, setImportData] = useState<RotaImportData | null>(null);
+  const [sheet, setSheet] = useState<RotaSpreadsheet | null>(null);
+  const [codes, setCodes] = useState<ShiftCodeMap>({});
+  const [matches, setMatches] = useState<StaffNameMatch[]>([]);
+  const [rowStaff, setRowStaff] = useState<Array<string | null>>([]);
+  const [issues, setIssues] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const patterns = useMemo(() => getShiftPatterns(currentRota?.configuration), [currentRota]);
+
+  const sheetImport = useMemo(() => (
+    sheet && currentRota
+      ? buildSpreadsheetImport(sheet, currentRota, staff, rowStaff, codes, currentUser?.uid || 'IMPORT')
+      : null
+  ), [sheet, currentRota, staff, rowStaff, codes, currentUser]);
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length !== 1) {
       setError('Please upload a single file');
@@ -66,10 +91,32 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
     const file = acceptedFiles[0];
     setIsLoading(true);
     setError(null);
+    setImportData(null);
+    setSheet(null);
+    setIssues([]);
 
     try {
+      if (!currentRota) {
+        throw new Error('Open the rota to import into first');
+      }
+
+      if (!file.name.toLowerCase().endsWith('.json')) {
+        const parsed = await parseRotaSpreadsheet(file, parseISO(currentRota.startDate));
+        if (!parsed.rows.length) {
+          throw new Error('No staff rows were found under the dates');
+        }
+        const found = parsed.rows.map(row => matchStaffName(row.name, staff));
+        setSheet(parsed);
+        setCodes(getDefaultShiftCodes(patterns));
+        setMatches(found);
+        setRowStaff(found.map(match => match.staffId));
+        setActiveStep(1);
+        return;
+      }
+
       const text = await file.text();
       const data = JSON.parse(text) as RotaImportData;
+      const patternIds = patterns.map(pattern => pattern.id);
 
       // Validate the imported data
       if (!Array.isArray(data.shifts)) {
@@ -80,7 +127,7 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
         if (!shift.date || !shift.time || !Array.isArray(shift.staff)) {
           throw new Error('Invalid shift data format');
         }
-        if (!Object.keys(SHIFT_TIME_DETAILS).includes(shift.time)) {
+        if (!patternIds.includes(shift.time)) {
           throw new Error(`Invalid shift time: ${shift.time}`);
         }
       }
@@ -92,17 +139,64 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [currentRota, staff, patterns]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/json': ['.json']
+      'application/json': ['.json'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel': ['.xls'],
+      'text/csv': ['.csv']
     },
     multiple: false
   });
 
+  const handleCodeChange = (code: string, time: string | null | undefined) => {
+    setCodes(prev => {
+      const next = { ...prev };
+      if (time === undefined) {
+        delete next[normaliseShiftCode(code)];
+      } else {
+        next[normaliseShiftCode(code)] = time;
+      }
+      return next;
+    });
+  };
+
+  const handleRowStaffChange = (index: number, staffId: string | null) => {
+    setRowStaff(prev => prev.map((current, i) => (i === index ? staffId : current)));
+  };
+
+  const handleSpreadsheetImport = async () => {
+    if (!sheetImport || !currentRota) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await updateRota(applyShiftChanges(currentRota, sheetImport.changes));
+      notify({
+        type: 'system',
+        title: 'Import Successful',
+        message: `Rota updated from ${sheet?.rows.length || 0} rows of the spreadsheet`,
+        userId: 'system'
+      });
+      onComplete?.();
+      onClose();
+    } catch (err) {
+      console.error('Error importing rota spreadsheet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import data');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleImport = async () => {
+    if (sheet) {
+      await handleSpreadsheetImport();
+      return;
+    }
     if (!importData || !currentRota) return;
 
     setIsLoading(true);
@@ -179,7 +273,23 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
     setActiveStep((prev) => prev - 1);
   };
 
-  const handleNext = () => {
+  const handleNext = async () => {
+    // Rule problems the spreadsheet would cause, shown before anything is saved
+    if (activeStep === 1 && sheetImport && currentRota) {
+      setIsLoading(true);
+      setError(null);
+      try {
+        setIssues(sheetImport.changes.length
+          ? await checkShiftAssignments(currentRota.id, sheetImport.changes)
+          : []);
+      } catch (err) {
+        console.error('Error checking imported shifts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to check the imported shifts');
+        return;
+      } finally {
+        setIsLoading(false);
+      }
+    }
     setActiveStep((prev) => prev + 1);
   };
 
@@ -212,13 +322,26 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
         or click to select a file
       </Typography>
       <Typography variant="caption" color="textSecondary" component="div">
-        Accepts JSON files only
+        Accepts Excel (.xlsx, .xls), CSV or JSON. Put staff names down the side and dates across the top.
       </Typography>
     </Stack>
   );
 
   const renderReviewStep = () => (
     <Stack spacing={2}>
+      {sheet && sheetImport && (
+        <SpreadsheetImportReview
+          sheet={sheet}
+          patterns={patterns}
+          staff={staff}
+          codes={codes}
+          onCodeChange={handleCodeChange}
+          matches={matches}
+          rowStaff={rowStaff}
+          onRowStaffChange={handleRowStaffChange}
+          result={sheetImport}
+        />
+      )}
       {importData && (
         <TableContainer component={Paper}>
           <Table size="small">
@@ -285,9 +408,19 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
               {activeStep === 0 && renderUploadStep()}
               {activeStep === 1 && renderReviewStep()}
               {activeStep === 2 && (
-                <Alert severity="info">
-                  Click Import to proceed with importing the rota data
-                </Alert>
+                <Stack spacing={2}>
+                  {issues.length > 0 && (
+                    <Alert severity="warning">
+                      The imported rota breaks these rules. You can still import it and fix them on the rota.
+                      <ul>
+                        {issues.map(issue => <li key={issue}>{issue}</li>)}
+                      </ul>
+                    </Alert>
+                  )}
+                  <Alert severity="info">
+                    Click Import to proceed with importing the rota data
+                  </Alert>
+                </Stack>
               )}
             </>
           )}
@@ -315,7 +448,7 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
             <Button
               variant="contained"
               onClick={handleNext}
-              disabled={!importData}
+              disabled={!importData && !sheet}
             >
               Next
             </Button>
@@ -10,13 +10,17 @@ import {
   Chip
 } from '@mui/material';
 import { format, addDays, isToday } from 'date-fns';
-import { Rota, Staff, ShiftTime, SHIFT_TIME_DETAILS, Shift, ShiftRole } from '../../types/rota';
+import { Rota, Staff, ShiftTime, Shift, ShiftRole, ShiftType, ShiftPattern, SHIFT_TYPE_LABELS } from '../../types/rota';
+import { getRotaPatterns } from '../../utils/rotaUtils';
 import ShiftCell from './ShiftCell';
 import StaffSelector from './StaffSelector';
 import AddIcon from '@mui/icons-material/Add';
 import WbSunnyIcon from '@mui/icons-material/WbSunny';
 import WbTwilightIcon from '@mui/icons-material/WbTwilight';
 import NightsStayIcon from '@mui/icons-material/NightsStay';
+import WbTwilightOutlinedIcon from '@mui/icons-material/WbTwilightOutlined';
+import HotelIcon from '@mui/icons-material/Hotel';
+import ScheduleIcon from '@mui/icons-material/Schedule';
 
 interface RosterGridProps {
   startDate: Date;
@@ -35,12 +39,18 @@ interface ShiftRequirements {
   driver: boolean;
 }
 
-const getShiftIcon = (type: 'morning' | 'afternoon' | 'night') => {
+const getShiftIcon = (type: ShiftType) => {
   switch (type) {
     case 'morning':
       return <WbSunnyIcon fontSize="small" sx={{ color: '#FBC02D' }} />;
     case 'afternoon':
       return <WbTwilightIcon fontSize="small" sx={{ color: '#5C6BC0' }} />;
+    case 'long-day':
+      return <ScheduleIcon fontSize="small" sx={{ color: '#EF6C00' }} />;
+    case 'twilight':
+      return <WbTwilightOutlinedIcon fontSize="small" sx={{ color: '#6A1B9A' }} />;
+    case 'sleep-in':
+      return <HotelIcon fontSize="small" sx={{ color: '#00695C' }} />;
     case 'night':
       return <NightsStayIcon fontSize="small" sx={{ color: '#311B92' }} />;
   }
@@ -75,7 +85,7 @@ const RosterGrid: React.FC<RosterGridProps> = ({
     [startDate]
   );
 
-  const shiftTimes = useMemo(() => Object.keys(SHIFT_TIME_DETAILS) as ShiftTime[], []);
+  const patterns = useMemo(() => getRotaPatterns(rota), [rota]);
 
   const getShiftsForDateAndTime = useCallback(
     (date: string, time: ShiftTime): Shift[] => {
@@ -106,12 +116,13 @@ const RosterGrid: React.FC<RosterGridProps> = ({
   }, [onStaffAssign]);
 
   const handleQuickAdd = useCallback(
-    (date: string, time: ShiftTime) => {
+    (date: string, pattern: ShiftPattern) => {
       if (onAddShift) {
-        onAddShift(date, time, {
-          total: SHIFT_TIME_DETAILS[time].type === 'night' ? 2 : 4,
-          shiftLeader: true,
-          driver: SHIFT_TIME_DETAILS[time].type === 'morning'
+        const { defaultRequirements } = pattern;
+        onAddShift(date, pattern.id, {
+          total: defaultRequirements.reduce((sum, requirement) => sum + requirement.count, 0) || 1,
+          shiftLeader: defaultRequirements.some(requirement => requirement.role === 'Shift Leader'),
+          driver: defaultRequirements.some(requirement => requirement.role === 'Driver')
         });
       }
     },
@@ -187,9 +198,9 @@ const RosterGrid: React.FC<RosterGridProps> = ({
 
       {/* Grid */}
       <Stack spacing={1}>
-        {shiftTimes.map((time) => (
+        {patterns.map((pattern) => (
           <Stack
-            key={time}
+            key={pattern.id}
             direction="row"
             spacing={1}
             sx={{
@@ -210,13 +221,13 @@ const RosterGrid: React.FC<RosterGridProps> = ({
                 flexShrink: 0
               }}
             >
-              {getShiftIcon(SHIFT_TIME_DETAILS[time].type)}
+              {getShiftIcon(pattern.type)}
               <Stack spacing={0.25}>
                 <Typography variant="subtitle2" fontWeight="600" sx={{ fontSize: '0.8rem' }}>
-                  {SHIFT_TIME_DETAILS[time].start} - {SHIFT_TIME_DETAILS[time].end}
+                  {pattern.start} - {pattern.end}
                 </Typography>
                 <Chip
-                  label={SHIFT_TIME_DETAILS[time].type}
+                  label={pattern.name || SHIFT_TYPE_LABELS[pattern.type]}
                   size="small"
                   variant="outlined"
                   sx={{
@@ -233,8 +244,8 @@ const RosterGrid: React.FC<RosterGridProps> = ({
 
             {/* Shifts */}
             {weekDays.map(({ formattedDate }) => {
-              const shifts = getShiftsForDateAndTime(formattedDate, time);
-              const cellId = `${formattedDate}-${time}`;
+              const shifts = getShiftsForDateAndTime(formattedDate, pattern.id);
+              const cellId = `${formattedDate}-${pattern.id}`;
 
               return (
                 <Box
@@ -296,7 +307,7 @@ const RosterGrid: React.FC<RosterGridProps> = ({
                           borderColor: theme.palette.primary.main
                         }
                       }}
-                      onClick={() => handleQuickAdd(formattedDate, time)}
+                      onClick={() => handleQuickAdd(formattedDate, pattern)}
                     >
                       <IconButton size="small" sx={{ p: 0.5 }}>
                         <AddIcon fontSize="small" />
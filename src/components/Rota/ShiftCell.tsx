@@ -18,7 +18,9 @@ import VerifiedIcon from '@mui/icons-material/Verified';
 import EventBusyIcon from '@mui/icons-material/EventBusy';
 import DirectionsCarIcon from '@mui/icons-material/DirectionsCar';
 import SupervisorAccountIcon from '@mui/icons-material/SupervisorAccount';
-import { Shift, Staff, SHIFT_TIME_DETAILS, TrainingModule, ShiftRole } from '../../types/rota';
+import HotelIcon from '@mui/icons-material/Hotel';
+import { Shift, Staff, TrainingModule, ShiftRole, SHIFT_TYPE_LABELS } from '../../types/rota';
+import { calculateShiftHours } from '../../utils/rotaUtils';
 
 interface ShiftCellProps {
   shift: Shift;
@@ -98,7 +100,7 @@ const ShiftCell: React.FC<ShiftCellProps> = ({
     }).filter(details => details.name !== 'Unknown Staff')
   , [shift.assignedStaff, staff, shift.date]);
 
-  const timeDetails = SHIFT_TIME_DETAILS[shift.time];
+  const paidHours = calculateShiftHours(shift);
 
   const getRoleIcon = (role: ShiftRole) => {
     switch (role) {
@@ -146,7 +148,7 @@ const ShiftCell: React.FC<ShiftCellProps> = ({
             fontSize: '0.8rem'
           }}
         >
-          {timeDetails.start} - {timeDetails.end}
+          {shift.startTime} - {shift.endTime}
           <Typography 
             variant="caption" 
             sx={{ 
@@ -159,11 +161,16 @@ const ShiftCell: React.FC<ShiftCellProps> = ({
               fontSize: '0.7rem'
             }}
           >
-            {timeDetails.type}
+            {SHIFT_TYPE_LABELS[shift.type] || shift.type}
           </Typography>
         </Typography>
 
         <Stack direction="row" spacing={0.5} alignItems="center">
+          {shift.sleepIn && (
+            <Tooltip title={`Sleep-in, ${paidHours}h paid`} arrow>
+              <HotelIcon sx={{ fontSize: '0.9rem', color: theme.palette.info.main }} />
+            </Tooltip>
+          )}
           {shift.trainingRequired && shift.trainingRequired.length > 0 && (
             <Tooltip title={`Required Training: ${shift.trainingRequired.join(', ')}`} arrow>
               <SchoolIcon 
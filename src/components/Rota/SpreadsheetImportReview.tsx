@@ -0,0 +1,200 @@
+import React, { useMemo } from 'react';
+import {
+  Alert,
+  Chip,
+  MenuItem,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  RotaSpreadsheet,
+  RotaSpreadsheetImport,
+  ShiftCodeMap,
+  ShiftPattern,
+  Staff,
+  StaffNameMatch,
+} from '../../types/rota';
+import { normaliseShiftCode, parseShiftCell, resolveShiftCode } from '../../utils/rotaSpreadsheet';
+
+interface SpreadsheetImportReviewProps {
+  sheet: RotaSpreadsheet;
+  patterns: ShiftPattern[];
+  staff: Staff[];
+  codes: ShiftCodeMap;
+  onCodeChange: (code: string, time: string | null | undefined) => void;
+  matches: StaffNameMatch[];
+  rowStaff: Array<string | null>;
+  onRowStaffChange: (index: number, staffId: string | null) => void;
+  result: RotaSpreadsheetImport;
+}
+
+// Select values that are not shift pattern or staff ids
+const OFF = '__off';
+const UNKNOWN = '__unknown';
+const SKIP = '__skip';
+
+export const SpreadsheetImportReview: React.FC<SpreadsheetImportReviewProps> = ({
+  sheet,
+  patterns,
+  staff,
+  codes,
+  onCodeChange,
+  matches,
+  rowStaff,
+  onRowStaffChange,
+  result
+}) => {
+  const sheetCodes = useMemo(() => {
+    const counts = new Map<string, number>();
+    sheet.rows.forEach(row => Object.values(row.cells).forEach(cell => {
+      const key = normaliseShiftCode(parseShiftCell(cell).code);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [sheet]);
+
+  const sortedStaff = useMemo(() => [...staff].sort((a, b) => a.name.localeCompare(b.name)), [staff]);
+  const nameOf = (staffId: string) => staff.find(member => member.id === staffId)?.name || 'Unknown';
+
+  const unknownNames = rowStaff.filter(staffId => !staffId).length;
+  const unknownCodes = sheetCodes.filter(([code]) => resolveShiftCode(code, codes) === undefined).length;
+  const added = result.changes.filter(change => change.assign).length;
+  const removed = result.changes.filter(change => change.removeStaffId).length;
+
+  const renderMatch = (index: number) => {
+    const match = matches[index];
+    const staffId = rowStaff[index];
+    if (!staffId) {
+      return <Chip size="small" color="warning" label="Unknown name" />;
+    }
+    if (rowStaff.indexOf(staffId) !== index) {
+      return <Chip size="small" color="warning" label="Listed twice, row ignored" />;
+    }
+    if (staffId !== match.staffId) {
+      return <Chip size="small" label="Chosen" />;
+    }
+    return match.score < 1
+      ? <Chip size="small" color="info" label="Close match" />
+      : <Chip size="small" color="success" label="Matched" />;
+  };
+
+  return (
+    <Stack spacing={2}>
+      {(unknownNames > 0 || unknownCodes > 0) && (
+        <Alert severity="warning">
+          {unknownNames > 0 && `${unknownNames} name${unknownNames === 1 ? '' : 's'} could not be matched to staff and will be skipped. `}
+          {unknownCodes > 0 && `${unknownCodes} shift code${unknownCodes === 1 ? ' is' : 's are'} not mapped; those days are left as they are.`}
+        </Alert>
+      )}
+      {result.outsideDates.length > 0 && (
+        <Alert severity="info">
+          {result.outsideDates.length} date{result.outsideDates.length === 1 ? '' : 's'} in the sheet fall outside this rota's week and will be ignored.
+        </Alert>
+      )}
+      {result.missingShifts.length > 0 && (
+        <Alert severity="warning">
+          No matching shift on the rota for: {result.missingShifts.map(({ date, time }) => `${date} ${time}`).join(', ')}
+        </Alert>
+      )}
+
+      <Typography variant="subtitle2">Shift codes</Typography>
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Code</TableCell>
+              <TableCell>Cells</TableCell>
+              <TableCell>Means</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sheetCodes.map(([code, count]) => {
+              const time = resolveShiftCode(code, codes);
+              const value = time === undefined ? UNKNOWN : time === null ? OFF : time;
+              return (
+                <TableRow key={code}>
+                  <TableCell>
+                    <Chip size="small" label={code} color={time === undefined ? 'warning' : 'default'} />
+                  </TableCell>
+                  <TableCell>{count}</TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      fullWidth
+                      size="small"
+                      value={value}
+                      onChange={(e) => {
+                        const next = e.target.value;
+                        onCodeChange(code, next === UNKNOWN ? undefined : next === OFF ? null : next);
+                      }}
+                    >
+                      <MenuItem value={UNKNOWN}>Not mapped (leave as is)</MenuItem>
+                      <MenuItem value={OFF}>Not working</MenuItem>
+                      {patterns.map(pattern => (
+                        <MenuItem key={pattern.id} value={pattern.id}>
+                          {pattern.name} {pattern.start}-{pattern.end}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="subtitle2">Staff</Typography>
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Name in sheet</TableCell>
+              <TableCell>Staff member</TableCell>
+              <TableCell>Match</TableCell>
+              <TableCell>Shifts</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sheet.rows.map((row, index) => (
+              <TableRow key={`${row.name}-${index}`}>
+                <TableCell>{row.name}</TableCell>
+                <TableCell>
+                  <TextField
+                    select
+                    fullWidth
+                    size="small"
+                    value={rowStaff[index] || SKIP}
+                    onChange={(e) => onRowStaffChange(index, e.target.value === SKIP ? null : e.target.value)}
+                    helperText={!rowStaff[index] && matches[index].suggestions.length
+                      ? `Did you mean ${matches[index].suggestions.map(nameOf).join(' or ')}?`
+                      : undefined}
+                  >
+                    <MenuItem value={SKIP}>Skip this row</MenuItem>
+                    {sortedStaff.map(member => (
+                      <MenuItem key={member.id} value={member.id}>{member.name}</MenuItem>
+                    ))}
+                  </TextField>
+                </TableCell>
+                <TableCell>{renderMatch(index)}</TableCell>
+                <TableCell>{Object.keys(row.cells).length}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="body2" color="text.secondary">
+        {added} assignment{added === 1 ? '' : 's'} to add and {removed} to remove. Staff not in the sheet keep their shifts.
+      </Typography>
+    </Stack>
+  );
+};
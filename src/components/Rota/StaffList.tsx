@@ -23,9 +23,12 @@ import VerifiedIcon from '@mui/icons-material/Verified';
 import SchoolIcon from '@mui/icons-material/School';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import { Staff, ShiftRole, ComplianceLevel } from '../../types/rota';
+import { isBorrowedStaff } from '../../utils/rotaUtils';
 
 interface StaffListProps {
   staff: Staff[];
+  // The site being rostered; staff based elsewhere are marked as borrowed
+  site?: string;
   onDragStart?: (staff: Staff) => void;
   selectedStaff?: string;
   onStaffSelect?: (staffId: string) => void;
@@ -33,6 +36,7 @@ interface StaffListProps {
 
 const StaffList: React.FC<StaffListProps> = ({
   staff,
+  site,
   onDragStart,
   selectedStaff,
   onStaffSelect
@@ -224,6 +228,9 @@ const StaffList: React.FC<StaffListProps> = ({
                         <PersonIcon />
                       </Badge>
                       <Typography component="span">{member.name}</Typography>
+                      {site && isBorrowedStaff(member, site) && (
+                        <Chip label={`From ${member.site}`} size="small" color="info" variant="outlined" />
+                      )}
                     </Stack>
                   }
                   secondary={
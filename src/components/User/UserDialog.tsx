@@ -33,6 +33,7 @@ import {
   Business as BusinessIcon,
   AccessTime as AccessTimeIcon,
   EventAvailable as EventAvailableIcon,
+  SupervisorAccount as SupervisorAccountIcon,
 } from '@mui/icons-material';
 import { darken } from '@mui/material/styles';
 import { useAuth } from '../../contexts/AuthContext';
@@ -40,6 +41,7 @@ import { useUsers } from '../../contexts/UserContext';
 import { User } from '../../types';
 import { ShiftRole } from '../../types/rota';
 import { THEME } from '../../theme/colors';
+import { DEFAULT_SUPERVISION_FREQUENCY_WEEKS } from '../../utils/supervisionSchedule';
 
 const SITES = ['Willowbrook', 'Sunnydale', 'Riverside', 'Oakwood'];
 
@@ -173,6 +175,7 @@ export const UserDialog: React.FC<UserDialogProps> = memo(({ open, onClose, user
         contractedHours: userData.contractedHours ?? DEFAULT_USER_DATA.contractedHours,
         annualLeave: userData.annualLeave ?? DEFAULT_USER_DATA.annualLeave,
         sickness: userData.sickness ?? DEFAULT_USER_DATA.sickness,
+        supervisionFrequencyWeeks: userData.supervisionFrequencyWeeks || null,
         preferences: userData.preferences ?? DEFAULT_USER_DATA.preferences,
         performanceMetrics: userData.performanceMetrics ?? DEFAULT_USER_DATA.performanceMetrics
       });
@@ -466,7 +469,7 @@ export const UserDialog: React.FC<UserDialogProps> = memo(({ open, onClose, user
           value={userData.annualLeave || ''}
           onChange={(e) => handleFieldChange('annualLeave', parseInt(e.target.value))}
           error={!!formErrors.annualLeave}
-          helperText={formErrors.annualLeave || 'Annual leave entitlement'}
+          helperText={formErrors.annualLeave || 'Full-time allowance, prorated by contracted hours'}
           InputProps={{
             startAdornment: (
               <EventAvailableIcon sx={{ 
@@ -478,6 +481,23 @@ export const UserDialog: React.FC<UserDialogProps> = memo(({ open, onClose, user
         />
       </Grid>
 
+      <Grid item xs={12} sm={6}>
+        <TextField
+          fullWidth
+          label="Supervision Every (weeks)"
+          type="number"
+          value={userData.supervisionFrequencyWeeks || ''}
+          onChange={(e) => handleFieldChange('supervisionFrequencyWeeks', e.target.value ? parseInt(e.target.value) : null)}
+          helperText={`Leave blank for every ${DEFAULT_SUPERVISION_FREQUENCY_WEEKS} weeks`}
+          inputProps={{ min: 1 }}
+          InputProps={{
+            startAdornment: (
+              <SupervisorAccountIcon sx={{ mr: 1, color: 'action.active' }} />
+            ),
+          }}
+        />
+      </Grid>
+
       <Grid item xs={12}>
         <FormControlLabel
           control={
@@ -89,8 +89,9 @@ const DEFAULT_USER_DATA = {
   },
   role: 'staff' as const,
   roles: ['Care Staff'] as ShiftRole[],
-  sites: ['Willowbrook'] as string[],
-  site: 'Willowbrook',
+  // Assigned by a manager or admin; the rules reject self-assigned sites
+  sites: [] as string[],
+  site: '',
   departmentId: '',
   probationStatus: 'pending' as const,
   trainingProgress: {
@@ -254,8 +255,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             if (!userData.attendance) updates.attendance = DEFAULT_USER_DATA.attendance;
             if (!userData.preferences) updates.preferences = DEFAULT_USER_DATA.preferences;
             if (!userData.performanceMetrics) updates.performanceMetrics = DEFAULT_USER_DATA.performanceMetrics;
-            if (userData.contractedHours === undefined) updates.contractedHours = DEFAULT_USER_DATA.contractedHours;
-            if (userData.annualLeave === undefined) updates.annualLeave = DEFAULT_USER_DATA.annualLeave;
             if (userData.sickness === undefined) updates.sickness = DEFAULT_USER_DATA.sickness;
 
             // Update role if it doesn't match custom claims
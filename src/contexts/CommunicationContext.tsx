@@ -1,10 +1,36 @@
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useContext, useEffect, useState } from 'react';
 import { getFunctions, httpsCallable } from 'firebase/functions';
-import { collection, addDoc, updateDoc, doc, deleteDoc, query, where, orderBy, getDocs } from 'firebase/firestore';
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  doc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  getDocs,
+  limit,
+  onSnapshot,
+  Timestamp,
+} from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { useAuth } from './AuthContext';
-import { CommunicationEntry, CommunicationComment, CommunicationFilter, AIEnhancementType } from '../types/communication';
+import {
+  CommunicationEntry,
+  CommunicationComment,
+  CommunicationFilter,
+  AIEnhancementType,
+  ScheduledMessage,
+  ScheduledMessageInput,
+  ScheduledMessageSendLog,
+  MessageTemplate,
+  MessageTemplateInput,
+  RecipientGroup,
+  RecipientGroupInput,
+} from '../types/communication';
 import { enhanceWithAI } from '../utils/geminiAI';
+import { getNextRun } from '../utils/recurrence';
 
 interface CommunicationContextType {
   sendMessage: (data: MassMessageData) => Promise<any>;
@@ -14,6 +40,20 @@ interface CommunicationContextType {
   addComment: (entryId: string, comment: Omit<CommunicationComment, 'id' | 'entryId' | 'createdAt'>) => Promise<string>;
   getEntries: (filter?: CommunicationFilter) => Promise<CommunicationEntry[]>;
   enhanceContent: (content: string, type: AIEnhancementType) => Promise<string>;
+  scheduledMessages: ScheduledMessage[];
+  createSchedule: (data: ScheduledMessageInput) => Promise<string>;
+  updateSchedule: (id: string, data: ScheduledMessageInput) => Promise<void>;
+  pauseSchedule: (id: string) => Promise<void>;
+  resumeSchedule: (id: string) => Promise<void>;
+  deleteSchedule: (id: string) => Promise<void>;
+  getSendLogs: (scheduleId: string) => Promise<ScheduledMessageSendLog[]>;
+  messageTemplates: MessageTemplate[];
+  saveTemplate: (data: MessageTemplateInput, id?: string) => Promise<string>;
+  deleteTemplate: (id: string) => Promise<void>;
+  recipientGroups: RecipientGroup[];
+  saveGroup: (data: RecipientGroupInput, id?: string) => Promise<string>;
+  deleteGroup: (id: string) => Promise<void>;
+  previewGroup: (group: string | RecipientGroupInput) => Promise<GroupMember[]>;
   loading: boolean;
   error: string | null;
 }
@@ -28,11 +68,27 @@ interface MassMessageData {
   variables?: {
     [key: string]: string;
   };
+  messageTemplateId?: string;
   site?: string;
 }
 
+interface GroupMember {
+  id: string;
+  name: string;
+}
+
 const CommunicationContext = createContext<CommunicationContextType | undefined>(undefined);
 
+const SEND_LOG_LIMIT = 100;
+
+const toDate = (value: Timestamp | null | undefined): Date | null => (value ? value.toDate() : null);
+
+// The first run is worked out here; processScheduledMessages advances it after each send
+const getFirstRun = (data: ScheduledMessageInput) => {
+  const nextRun = getNextRun(data.recurrence, new Date());
+  return nextRun ? Timestamp.fromDate(nextRun) : null;
+};
+
 export const useCommunication = () => {
   const context = useContext(CommunicationContext);
   if (!context) {
@@ -44,9 +100,104 @@ export const useCommunication = () => {
 export const CommunicationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [messageTemplates, setMessageTemplates] = useState<MessageTemplate[]>([]);
+  const [recipientGroups, setRecipientGroups] = useState<RecipientGroup[]>([]);
   const { currentUser, userData, isAdmin } = useAuth();
   const functions = getFunctions();
 
+  useEffect(() => {
+    // Only admins and managers can schedule messages
+    if (!currentUser || !userData || (!isAdmin && userData.role !== 'manager')) {
+      setScheduledMessages([]);
+      setMessageTemplates([]);
+      setRecipientGroups([]);
+      return;
+    }
+
+    const sites = userData.sites?.length ? userData.sites : [''];
+    const q = isAdmin
+      ? query(collection(db, 'scheduledMessages'))
+      : query(collection(db, 'scheduledMessages'), where('site', 'in', sites));
+    // Templates saved without a site are shared with every manager
+    const templatesQuery = isAdmin
+      ? query(collection(db, 'messageTemplates'))
+      : query(collection(db, 'messageTemplates'), where('site', 'in', [...sites, '']));
+
+    const unsubscribeTemplates = onSnapshot(
+      templatesQuery,
+      (snapshot) => {
+        const templates = snapshot.docs.map(templateDoc => {
+          const data = templateDoc.data();
+          return {
+            ...data,
+            id: templateDoc.id,
+            createdAt: toDate(data.createdAt) || new Date(),
+            updatedAt: toDate(data.updatedAt) || new Date(),
+          } as MessageTemplate;
+        });
+        setMessageTemplates(templates.sort((a, b) => a.name.localeCompare(b.name)));
+      },
+      (err) => {
+        console.error('Error fetching message templates:', err);
+        setError('Failed to fetch message templates');
+      }
+    );
+
+    const unsubscribeGroups = onSnapshot(
+      collection(db, 'recipientGroups'),
+      (snapshot) => {
+        const groups = snapshot.docs.map(groupDoc => {
+          const data = groupDoc.data();
+          return {
+            ...data,
+            id: groupDoc.id,
+            memberIds: data.memberIds || [],
+            rules: data.rules || [],
+            createdAt: toDate(data.createdAt) || new Date(),
+            updatedAt: toDate(data.updatedAt) || new Date(),
+          } as RecipientGroup;
+        });
+        setRecipientGroups(groups.sort((a, b) => a.name.localeCompare(b.name)));
+      },
+      (err) => {
+        console.error('Error fetching recipient groups:', err);
+        setError('Failed to fetch recipient groups');
+      }
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const schedules = snapshot.docs.map(scheduleDoc => {
+          const data = scheduleDoc.data();
+          return {
+            ...data,
+            id: scheduleDoc.id,
+            nextRunAt: toDate(data.nextRunAt),
+            lastRunAt: toDate(data.lastRunAt),
+            runCount: data.runCount || 0,
+            createdAt: toDate(data.createdAt) || new Date(),
+            updatedAt: toDate(data.updatedAt) || new Date(),
+          } as ScheduledMessage;
+        });
+        setScheduledMessages(schedules.sort((a, b) =>
+          (a.nextRunAt?.getTime() ?? Infinity) - (b.nextRunAt?.getTime() ?? Infinity)
+        ));
+      },
+      (err) => {
+        console.error('Error fetching scheduled messages:', err);
+        setError('Failed to fetch scheduled messages');
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      unsubscribeTemplates();
+      unsubscribeGroups();
+    };
+  }, [currentUser, userData, isAdmin]);
+
   // Helper function to create notifications
   const createNotification = async (userId: string, title: string, message: string) => {
     try {
@@ -107,6 +258,218 @@ export const CommunicationProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  // Scheduled message functions
+  const createSchedule = async (data: ScheduledMessageInput) => {
+    if (!currentUser) {
+      throw new Error('User must be authenticated');
+    }
+
+    try {
+      const now = Timestamp.now();
+      const nextRunAt = getFirstRun(data);
+      const docRef = await addDoc(collection(db, 'scheduledMessages'), {
+        ...data,
+        recipientGroups: data.recipientGroups || [],
+        status: nextRunAt ? 'active' : 'completed',
+        nextRunAt,
+        lastRunAt: null,
+        runCount: 0,
+        site: userData?.site || '',
+        createdBy: currentUser.uid,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return docRef.id;
+    } catch (err) {
+      console.error('Error creating scheduled message:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  const updateSchedule = async (id: string, data: ScheduledMessageInput) => {
+    try {
+      const existing = scheduledMessages.find(s => s.id === id);
+      const nextRunAt = getFirstRun(data);
+      await updateDoc(doc(db, 'scheduledMessages', id), {
+        ...data,
+        recipientGroups: data.recipientGroups || [],
+        nextRunAt,
+        // Editing a finished schedule with future runs brings it back
+        status: existing?.status === 'paused' ? 'paused' : nextRunAt ? 'active' : 'completed',
+        updatedAt: Timestamp.now(),
+      });
+    } catch (err) {
+      console.error('Error updating scheduled message:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  const pauseSchedule = async (id: string) => {
+    try {
+      await updateDoc(doc(db, 'scheduledMessages', id), {
+        status: 'paused',
+        updatedAt: Timestamp.now(),
+      });
+    } catch (err) {
+      console.error('Error pausing scheduled message:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  // Runs missed while paused are skipped, not sent late
+  const resumeSchedule = async (id: string) => {
+    const schedule = scheduledMessages.find(s => s.id === id);
+    if (!schedule) return;
+
+    try {
+      const nextRunAt = getFirstRun(schedule);
+      await updateDoc(doc(db, 'scheduledMessages', id), {
+        status: nextRunAt ? 'active' : 'completed',
+        nextRunAt,
+        updatedAt: Timestamp.now(),
+      });
+    } catch (err) {
+      console.error('Error resuming scheduled message:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  const deleteSchedule = async (id: string) => {
+    try {
+      await deleteDoc(doc(db, 'scheduledMessages', id));
+    } catch (err) {
+      console.error('Error deleting scheduled message:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  const getSendLogs = async (scheduleId: string) => {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'scheduledMessages', scheduleId, 'sendLogs'),
+        orderBy('createdAt', 'desc'),
+        limit(SEND_LOG_LIMIT)
+      ));
+      return snapshot.docs.map(logDoc => {
+        const data = logDoc.data();
+        return {
+          ...data,
+          id: logDoc.id,
+          runAt: toDate(data.runAt) || new Date(),
+          createdAt: toDate(data.createdAt) || new Date(),
+        } as ScheduledMessageSendLog;
+      });
+    } catch (err) {
+      console.error('Error fetching send logs:', err);
+      throw err;
+    }
+  };
+
+  // Message template functions
+  const saveTemplate = async (data: MessageTemplateInput, id?: string) => {
+    if (!currentUser) {
+      throw new Error('User must be authenticated');
+    }
+
+    try {
+      const now = Timestamp.now();
+      if (id) {
+        await updateDoc(doc(db, 'messageTemplates', id), { ...data, updatedAt: now });
+        return id;
+      }
+
+      const docRef = await addDoc(collection(db, 'messageTemplates'), {
+        ...data,
+        // Admin templates are shared across sites
+        site: isAdmin ? '' : userData?.site || '',
+        createdBy: currentUser.uid,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return docRef.id;
+    } catch (err) {
+      console.error('Error saving message template:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    try {
+      await deleteDoc(doc(db, 'messageTemplates', id));
+    } catch (err) {
+      console.error('Error deleting message template:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  // Recipient group functions
+  const saveGroup = async (data: RecipientGroupInput, id?: string) => {
+    if (!currentUser) {
+      throw new Error('User must be authenticated');
+    }
+
+    // Only the fields for the group's type are kept
+    const group = {
+      ...data,
+      memberIds: data.type === 'static' ? data.memberIds : [],
+      rules: data.type === 'dynamic' ? data.rules : [],
+    };
+
+    try {
+      const now = Timestamp.now();
+      if (id) {
+        await updateDoc(doc(db, 'recipientGroups', id), { ...group, updatedAt: now });
+        return id;
+      }
+
+      const docRef = await addDoc(collection(db, 'recipientGroups'), {
+        ...group,
+        createdBy: currentUser.uid,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return docRef.id;
+    } catch (err) {
+      console.error('Error saving recipient group:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  const deleteGroup = async (id: string) => {
+    try {
+      await deleteDoc(doc(db, 'recipientGroups', id));
+    } catch (err) {
+      console.error('Error deleting recipient group:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  };
+
+  // Resolves a saved group (by id) or a draft definition with the same resolver sends use
+  const previewGroup = async (group: string | RecipientGroupInput) => {
+    try {
+      const preview = httpsCallable<
+        { groupId?: string; group?: Pick<RecipientGroupInput, 'type' | 'memberIds' | 'rules' | 'match'> },
+        { members: GroupMember[] }
+      >(functions, 'previewRecipientGroup');
+      const result = await preview(typeof group === 'string'
+        ? { groupId: group }
+        : { group: { type: group.type, memberIds: group.memberIds, rules: group.rules, match: group.match } });
+      return result.data.members;
+    } catch (err) {
+      console.error('Error previewing recipient group:', err);
+      throw err;
+    }
+  };
+
   // Communication book functions
   const addEntry = async (entry: Omit<CommunicationEntry, 'id' | 'date' | 'lastModified' | 'comments'>) => {
     if (!currentUser) {
@@ -328,6 +691,20 @@ export const CommunicationProvider: React.FC<{ children: React.ReactNode }> = ({
     addComment,
     getEntries,
     enhanceContent,
+    scheduledMessages,
+    createSchedule,
+    updateSchedule,
+    pauseSchedule,
+    resumeSchedule,
+    deleteSchedule,
+    getSendLogs,
+    messageTemplates,
+    saveTemplate,
+    deleteTemplate,
+    recipientGroups,
+    saveGroup,
+    deleteGroup,
+    previewGroup,
     loading,
     error,
   };
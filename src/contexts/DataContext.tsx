@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { collection, onSnapshot, query } from 'firebase/firestore';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { useAuth } from './AuthContext';
 import { addDays } from 'date-fns';
@@ -31,7 +31,7 @@ export const useData = () => {
 };
 
 export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { currentUser } = useAuth();
+  const { currentUser, userData, isAdmin } = useAuth();
   const [stats, setStats] = useState<Stats>({
     totalRecords: 0,
     expiringTraining: 0,
@@ -50,9 +50,27 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const thirtyDaysFromNow = addDays(new Date(), 30);
     const now = new Date();
 
+    // Queries are scoped the same way as the Firestore security rules
+    let trainingQuery;
+    let dolsQuery = null;
+    let tasksQuery;
+    if (isAdmin) {
+      trainingQuery = query(collection(db, 'training'));
+      dolsQuery = query(collection(db, 'dols'));
+      tasksQuery = query(collection(db, 'tasks'));
+    } else if (userData?.role === 'manager' && userData.sites?.length) {
+      trainingQuery = query(collection(db, 'training'), where('siteId', 'in', userData.sites));
+      dolsQuery = query(collection(db, 'dols'), where('site', 'in', userData.sites));
+      tasksQuery = query(collection(db, 'tasks'), where('site', 'in', userData.sites));
+    } else {
+      // Staff only see their own records and have no access to DoLS
+      trainingQuery = query(collection(db, 'training'), where('staffId', '==', currentUser.uid));
+      tasksQuery = query(collection(db, 'tasks'), where('assignedTo', '==', currentUser.uid));
+    }
+
     // Training Records
     const trainingUnsubscribe = onSnapshot(
-      query(collection(db, 'training')),
+      trainingQuery,
       (snapshot) => {
         setStats((currentStats) => ({
           ...currentStats,
@@ -72,16 +90,16 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     );
 
     // DoLS Records
-    const dolsUnsubscribe = onSnapshot(
-      query(collection(db, 'dols')),
+    const dolsUnsubscribe = dolsQuery ? onSnapshot(
+      dolsQuery,
       (snapshot) => {
         setStats((currentStats) => ({
           ...currentStats,
           expiringDols: snapshot.docs.filter(
-            (doc) => doc.data().status === 'active' && doc.data().expiryDate <= thirtyDaysFromNow
+            (doc) => doc.data().status === 'active' && doc.data().expiryDate?.toDate() <= thirtyDaysFromNow
           ).length,
           expiredDols: snapshot.docs.filter(
-            (doc) => doc.data().status === 'active' && doc.data().expiryDate <= now
+            (doc) => doc.data().status === 'active' && doc.data().expiryDate?.toDate() <= now
           ).length,
         }));
       },
@@ -89,11 +107,11 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         console.error('Error fetching DoLS records:', err);
         setError(err as Error);
       }
-    );
+    ) : () => {};
 
     // Tasks
     const tasksUnsubscribe = onSnapshot(
-      query(collection(db, 'tasks')),
+      tasksQuery,
       (snapshot) => {
         setStats((currentStats) => ({
           ...currentStats,
@@ -118,7 +136,7 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
       dolsUnsubscribe();
       tasksUnsubscribe();
     };
-  }, [currentUser]);
+  }, [currentUser, userData, isAdmin]);
 
   return (
     <DataContext.Provider
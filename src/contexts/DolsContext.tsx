@@ -0,0 +1,346 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  doc,
+  addDoc,
+  deleteDoc,
+  writeBatch,
+  Timestamp,
+} from 'firebase/firestore';
+import { ref, uploadBytes } from 'firebase/storage';
+import { db, storage } from '../firebase/config';
+import { useAuth } from './AuthContext';
+import { useTask } from './TaskContext';
+import { addDays, differenceInDays, format, subDays } from 'date-fns';
+import {
+  DolsRecord,
+  DolsRecordData,
+  DolsCondition,
+  DolsConditionData,
+  DolsFormData,
+  DolsContextType,
+} from '../types/dols';
+
+const DolsContext = createContext<DolsContextType | undefined>(undefined);
+
+// Renewal applications should be with the supervising body well before expiry.
+// checkExpiringDoLS raises these tasks daily; the timeline can raise one early.
+const RENEWAL_LEAD_DAYS = 28;
+const RENEWAL_SUBMISSION_BUFFER_DAYS = 14;
+
+const toDate = (value: Timestamp | null | undefined): Date | null => {
+  if (!value) return null;
+  return value.toDate();
+};
+
+const toTimestamp = (value: Date | null | undefined): Timestamp | null => {
+  if (!value) return null;
+  return Timestamp.fromDate(value);
+};
+
+const toCondition = (data: DolsConditionData): DolsCondition => ({
+  ...data,
+  dueDate: toDate(data.dueDate),
+});
+
+const toConditionData = (condition: DolsCondition): DolsConditionData => ({
+  ...condition,
+  dueDate: toTimestamp(condition.dueDate),
+});
+
+const toRecord = (id: string, data: DolsRecordData): DolsRecord => {
+  const record: DolsRecord = {
+    ...data,
+    id,
+    scheme: data.scheme || 'dols',
+    supervisingBodyReference: data.supervisingBodyReference || '',
+    conditions: (data.conditions || []).map(toCondition),
+    documents: data.documents || [],
+    remindersSent: data.remindersSent || 0,
+    previousAuthorisationId: data.previousAuthorisationId || null,
+    renewedById: data.renewedById || null,
+    applicationDate: toDate(data.applicationDate) || new Date(),
+    startDate: toDate(data.startDate),
+    expiryDate: toDate(data.expiryDate),
+    lastReminderDate: toDate(data.lastReminderDate),
+    createdAt: toDate(data.createdAt) || new Date(),
+    updatedAt: toDate(data.updatedAt) || new Date(),
+  };
+
+  // Expiry is derived for display only; checkExpiringDoLS persists it
+  if (record.status === 'active' && record.expiryDate && record.expiryDate < new Date()) {
+    record.status = 'expired';
+  }
+
+  return record;
+};
+
+const toFirestoreFields = (data: Partial<DolsFormData>) => {
+  const fields: Partial<DolsRecordData> = {};
+  if (data.residentName !== undefined) fields.residentName = data.residentName;
+  if (data.site !== undefined) fields.site = data.site;
+  if (data.scheme !== undefined) fields.scheme = data.scheme;
+  if (data.status !== undefined) fields.status = data.status;
+  if (data.urgencyLevel !== undefined) fields.urgencyLevel = data.urgencyLevel;
+  if (data.applicationDate !== undefined) fields.applicationDate = Timestamp.fromDate(data.applicationDate);
+  if (data.startDate !== undefined) fields.startDate = toTimestamp(data.startDate);
+  if (data.expiryDate !== undefined) fields.expiryDate = toTimestamp(data.expiryDate);
+  if (data.supervisingBody !== undefined) fields.supervisingBody = data.supervisingBody;
+  if (data.supervisingBodyReference !== undefined) fields.supervisingBodyReference = data.supervisingBodyReference;
+  if (data.conditions !== undefined) fields.conditions = data.conditions.map(toConditionData);
+  if (data.assessor !== undefined) fields.assessor = data.assessor;
+  if (data.notes !== undefined) fields.notes = data.notes;
+  return fields;
+};
+
+export const useDols = () => {
+  const context = useContext(DolsContext);
+  if (!context) {
+    throw new Error('useDols must be used within a DolsProvider');
+  }
+  return context;
+};
+
+export const DolsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [records, setRecords] = useState<DolsRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { currentUser, userData, isAdmin } = useAuth();
+  const { tasks, addTask } = useTask();
+  // Records a renewal task has been requested for, until it shows up in `tasks`
+  const pendingRenewalTasks = useRef(new Set<string>());
+
+  useEffect(() => {
+    // DoLS records are resident data, so staff never subscribe
+    if (!currentUser || !userData || (!isAdmin && userData.role !== 'manager')) {
+      setRecords([]);
+      setLoading(false);
+      return;
+    }
+
+    const q = isAdmin
+      ? query(collection(db, 'dols'))
+      : query(collection(db, 'dols'), where('site', 'in', userData.sites?.length ? userData.sites : ['']));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const dolsData = snapshot.docs.map(doc => toRecord(doc.id, doc.data() as DolsRecordData));
+        setRecords(dolsData.sort((a, b) => b.applicationDate.getTime() - a.applicationDate.getTime()));
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching DoLS records:', err);
+        setError('Failed to fetch DoLS records');
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser, userData, isAdmin]);
+
+  const buildNewRecord = useCallback((data: DolsFormData, previousAuthorisationId: string | null): DolsRecordData => {
+    if (!currentUser) throw new Error('No user logged in');
+    const now = Timestamp.now();
+
+    return {
+      ...(toFirestoreFields(data) as Omit<DolsRecordData, 'managerId'>),
+      managerId: currentUser.uid,
+      documents: [],
+      remindersSent: 0,
+      lastReminderDate: null,
+      previousAuthorisationId,
+      renewedById: null,
+      createdBy: currentUser.uid,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }, [currentUser]);
+
+  const addRecord = useCallback(async (data: DolsFormData): Promise<string> => {
+    try {
+      const docRef = await addDoc(collection(db, 'dols'), buildNewRecord(data, null));
+      return docRef.id;
+    } catch (err) {
+      console.error('Error adding DoLS record:', err);
+      throw err;
+    }
+  }, [buildNewRecord]);
+
+  const updateRecord = useCallback(async (id: string, updates: Partial<DolsFormData>) => {
+    try {
+      const fields: Partial<DolsRecordData> = {
+        ...toFirestoreFields(updates),
+        updatedAt: Timestamp.now(),
+      };
+
+      const existing = records.find(r => r.id === id);
+
+      // A new expiry date restarts the reminder cycle
+      if (updates.expiryDate !== undefined) {
+        if (existing?.expiryDate?.getTime() !== updates.expiryDate?.getTime()) {
+          fields.remindersSent = 0;
+          fields.lastReminderDate = null;
+        }
+      }
+
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'dols', id), fields);
+
+      // The authorisation being renewed stays active, and keeps getting expiry
+      // reminders, until the renewal is granted. A refused renewal frees it up
+      // for another application.
+      const previousId = existing?.previousAuthorisationId;
+      const previous = records.find(r => r.id === previousId);
+      if (previousId && previous?.renewedById === id && updates.status !== existing?.status) {
+        if (updates.status === 'active') {
+          batch.update(doc(db, 'dols', previousId), { status: 'renewed', updatedAt: Timestamp.now() });
+        } else if (updates.status === 'rejected') {
+          batch.update(doc(db, 'dols', previousId), { renewedById: null, updatedAt: Timestamp.now() });
+        }
+      }
+
+      await batch.commit();
+    } catch (err) {
+      console.error('Error updating DoLS record:', err);
+      throw err;
+    }
+  }, [records]);
+
+  const deleteRecord = useCallback(async (id: string) => {
+    try {
+      await deleteDoc(doc(db, 'dols', id));
+    } catch (err) {
+      console.error('Error deleting DoLS record:', err);
+      throw err;
+    }
+  }, []);
+
+  // Files land in dols/{id}/ and processDoLSDocumentUpload appends them to `documents`
+  const uploadDocument = useCallback(async (recordId: string, file: File) => {
+    if (!currentUser) throw new Error('No user logged in');
+
+    try {
+      const storageRef = ref(storage, `dols/${recordId}/${Date.now()}_${file.name}`);
+      await uploadBytes(storageRef, file, {
+        customMetadata: { uploadedBy: currentUser.uid },
+      });
+    } catch (err) {
+      console.error('Error uploading DoLS document:', err);
+      throw err;
+    }
+  }, [currentUser]);
+
+  const renewRecord = useCallback(async (record: DolsRecord, data: DolsFormData): Promise<string> => {
+    try {
+      const renewalRef = doc(collection(db, 'dols'));
+      const batch = writeBatch(db);
+
+      batch.set(renewalRef, buildNewRecord(data, record.id));
+      batch.update(doc(db, 'dols', record.id), {
+        // Recorded as already granted, or left running until it is
+        ...(data.status === 'active' ? { status: 'renewed' } : {}),
+        renewedById: renewalRef.id,
+        updatedAt: Timestamp.now(),
+      });
+
+      await batch.commit();
+      return renewalRef.id;
+    } catch (err) {
+      console.error('Error renewing DoLS record:', err);
+      throw err;
+    }
+  }, [buildNewRecord]);
+
+  // Oldest authorisation first, following previousAuthorisationId/renewedById links
+  const getRenewalChain = useCallback((recordId: string): DolsRecord[] => {
+    const byId = new Map(records.map(r => [r.id, r]));
+    let current = byId.get(recordId);
+    if (!current) return [];
+
+    const visited = new Set<string>([current.id]);
+    while (current.previousAuthorisationId && byId.has(current.previousAuthorisationId)) {
+      const previous: DolsRecord = byId.get(current.previousAuthorisationId)!;
+      if (visited.has(previous.id)) break;
+      visited.add(previous.id);
+      current = previous;
+    }
+
+    const chain: DolsRecord[] = [current];
+    while (current.renewedById && byId.has(current.renewedById)) {
+      const next: DolsRecord = byId.get(current.renewedById)!;
+      if (chain.includes(next)) break;
+      chain.push(next);
+      current = next;
+    }
+
+    return chain;
+  }, [records]);
+
+  const getResidentHistory = useCallback((residentName: string): DolsRecord[] => {
+    const name = residentName.trim().toLowerCase();
+    return records
+      .filter(r => r.residentName.trim().toLowerCase() === name)
+      .sort((a, b) => a.applicationDate.getTime() - b.applicationDate.getTime());
+  }, [records]);
+
+  const hasRenewalTask = useCallback((recordId: string) => (
+    pendingRenewalTasks.current.has(recordId) ||
+    tasks.some(t => t.relatedRecordType === 'dols' && t.relatedRecordId === recordId)
+  ), [tasks]);
+
+  const createRenewalTask = useCallback(async (record: DolsRecord) => {
+    if (hasRenewalTask(record.id)) return;
+    pendingRenewalTasks.current.add(record.id);
+
+    try {
+      const expiryDate = record.expiryDate || addDays(new Date(), RENEWAL_LEAD_DAYS);
+      const submitBy = subDays(expiryDate, RENEWAL_SUBMISSION_BUFFER_DAYS);
+      const daysLeft = differenceInDays(expiryDate, new Date());
+      const reference = record.supervisingBodyReference ? ` (ref ${record.supervisingBodyReference})` : '';
+
+      await addTask({
+        title: `Submit ${record.scheme === 'lps' ? 'LPS' : 'DoLS'} renewal for ${record.residentName}`,
+        description: `Authorisation from ${record.supervisingBody || 'the supervising body'}${reference} expires on ${format(expiryDate, 'dd/MM/yyyy')}. Submit the renewal application and record it against the existing authorisation.`,
+        dueDate: submitBy > new Date() ? submitBy : new Date(),
+        priority: daysLeft <= RENEWAL_SUBMISSION_BUFFER_DAYS ? 'high' : 'medium',
+        status: 'pending',
+        category: 'dols',
+        assignedTo: record.managerId,
+        relatedRecordType: 'dols',
+        relatedRecordId: record.id,
+        site: record.site,
+      });
+    } catch (err) {
+      pendingRenewalTasks.current.delete(record.id);
+      console.error('Error creating DoLS renewal task:', err);
+      throw err;
+    }
+  }, [addTask, hasRenewalTask]);
+
+  return (
+    <DolsContext.Provider
+      value={{
+        records,
+        loading,
+        error,
+        addRecord,
+        updateRecord,
+        deleteRecord,
+        uploadDocument,
+        renewRecord,
+        getRenewalChain,
+        getResidentHistory,
+        createRenewalTask,
+      }}
+    >
+      {children}
+    </DolsContext.Provider>
+  );
+};
+
+export default DolsContext;
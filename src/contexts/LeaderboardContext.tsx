@@ -4,6 +4,7 @@ import {
   query, 
   orderBy, 
   limit, 
+  where,
   onSnapshot,
   QueryDocumentSnapshot,
   DocumentData 
@@ -65,8 +66,15 @@ export const LeaderboardProvider: React.FC<{ children: React.ReactNode }> = ({ c
   };
 
   useEffect(() => {
+    if (!userData) return;
+
+    // Only admins can read every profile, so everyone else gets a per-site leaderboard
+    const leaderboardQuery = userData.role === 'admin'
+      ? query(collection(db, 'users'), orderBy('points', 'desc'), limit(10))
+      : query(collection(db, 'users'), where('site', '==', userData.site || ''), orderBy('points', 'desc'), limit(10));
+
     const unsubscribe = onSnapshot(
-      query(collection(db, 'users'), orderBy('points', 'desc'), limit(10)),
+      leaderboardQuery,
       (snapshot) => {
         const entries: LeaderboardEntry[] = [];
         snapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>, index: number) => {
@@ -98,7 +106,7 @@ export const LeaderboardProvider: React.FC<{ children: React.ReactNode }> = ({ c
     );
 
     return () => unsubscribe();
-  }, []);
+  }, [userData]);
 
   const userRank = userData
     ? leaderboard.findIndex((entry) => entry.userId === userData.id) + 1
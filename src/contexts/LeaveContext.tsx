@@ -1,25 +1,54 @@
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { collection, doc, getDoc, setDoc, updateDoc, query, where, getDocs } from 'firebase/firestore';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  getDocs,
+  onSnapshot,
+  Timestamp
+} from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { useAuth } from './AuthContext';
 import { useNotifications } from './NotificationContext';
 import { useRotaContext } from './RotaContext';
-import { differenceInDays, parseISO, isWithinInterval, addDays, format, startOfYear, endOfYear } from 'date-fns';
+import { differenceInDays, parseISO, isWithinInterval, addDays, format } from 'date-fns';
 import {
   LeaveRequest,
   LeaveEntitlement,
   TeamCalendarEntry,
   LeaveAvailability,
   LeaveType,
-  LeaveStats
+  LeaveStats,
+  LeavePolicy,
+  LeavePolicyInput,
+  LeaveAffectedShift,
+  DEFAULT_LEAVE_POLICY,
+  BLOCKING_LEAVE_CONFLICTS
 } from '../types/leave';
+import { ShiftChange } from '../types/rota';
+import { checkLeaveRules } from '../services/leaveService';
+import { getEntitlementYear, LeaveYear } from '../utils/leaveYear';
 
 interface LeaveContextType {
   leaveRequests: LeaveRequest[];
   leaveEntitlement: LeaveEntitlement | null;
+  // The signed-in user's current leave year
+  leaveYear: LeaveYear;
+  leavePolicies: LeavePolicy[];
+  getLeavePolicy: (site?: string) => LeavePolicy;
+  saveLeavePolicy: (site: string, policy: LeavePolicyInput) => Promise<void>;
+  deleteLeavePolicy: (site: string) => Promise<void>;
   isLoading: boolean;
   requestLeave: (request: Omit<LeaveRequest, 'id' | 'status' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  approveLeave: (leaveId: string, approvalNotes?: string) => Promise<void>;
+  // Whether the signed-in user may change the rota at `site`, as the rules allow
+  canChangeRota: (site: string) => boolean;
+  // Approves the leave, then takes the person off any of `unassign` still on the rota.
+  // Resolves to the shifts they could not be taken off, which are also notified to the approver
+  approveLeave: (leaveId: string, approvalNotes?: string, unassign?: LeaveAffectedShift[]) => Promise<LeaveAffectedShift[]>;
   rejectLeave: (leaveId: string, approvalNotes?: string) => Promise<void>;
   cancelLeave: (leaveId: string) => Promise<void>;
   updateLeaveRequest: (leaveId: string, updates: Partial<LeaveRequest>) => Promise<void>;
@@ -31,7 +60,13 @@ interface LeaveContextType {
     type: LeaveType;
   }[]>;
   calculateLeaveDays: (startDate: string, endDate: string) => number;
-  checkLeaveAvailability: (startDate: string, endDate: string, leaveType: LeaveType) => Promise<LeaveAvailability>;
+  // Checks the signed-in user's leave, or another person's when a manager reviews `request`
+  checkLeaveAvailability: (
+    startDate: string,
+    endDate: string,
+    leaveType: LeaveType,
+    request?: LeaveRequest
+  ) => Promise<LeaveAvailability>;
   teamCalendar: TeamCalendarEntry[];
   getLeaveStats: () => LeaveStats;
   createLeaveRequest: (request: Omit<LeaveRequest, 'id' | 'status' | 'createdAt' | 'updatedAt'>) => Promise<void>;
@@ -55,10 +90,11 @@ export const LeaveProvider: React.FC<Props> = ({ children }) => {
   const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
   const [leaveEntitlement, setLeaveEntitlement] = useState<LeaveEntitlement | null>(null);
   const [teamCalendar, setTeamCalendar] = useState<TeamCalendarEntry[]>([]);
+  const [leavePolicies, setLeavePolicies] = useState<LeavePolicy[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const { currentUser, userData } = useAuth();
+  const { currentUser, userData, isAdmin } = useAuth();
   const { notify } = useNotifications();
-  const { currentRota } = useRotaContext();
+  const { currentRota, changeShiftAssignments } = useRotaContext();
 
   // Load leave requests
   const loadLeaveRequests = useCallback(async () => {
@@ -66,7 +102,14 @@ export const LeaveProvider: React.FC<Props> = ({ children }) => {
 
     try {
       setIsLoading(true);
-      const leaveQuery = query(collection(db, 'leave-requests'));
+      let leaveQuery;
+      if (userData?.role === 'admin') {
+        leaveQuery = query(collection(db, 'leave-requests'));
+      } else if (userData?.role === 'manager' && userData.sites?.length) {
+        leaveQuery = query(collection(db, 'leave-requests'), where('site', 'in', userData.sites));
+      } else {
+        leaveQuery = query(collection(db, 'leave-requests'), where('userId', '==', currentUser.uid));
+      }
       const snapshot = await getDocs(leaveQuery);
       const requests = snapshot.docs.map(doc => ({
         id: doc.id,
@@ -78,22 +121,88 @@ export const LeaveProvider: React.FC<Props> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [currentUser]);
+  }, [currentUser, userData]);
 
-  // Load leave entitlement
-  const loadLeaveEntitlement = useCallback(async () => {
-    if (!currentUser) return;
+  // Functions recalculate the balance as leave is approved or cancelled, so keep listening
+  useEffect(() => {
+    if (!currentUser) {
+      setLeaveEntitlement(null);
+      return;
+    }
 
-    try {
-      const entitlementDoc = await getDoc(doc(db, 'leave-entitlements', currentUser.uid));
-      if (entitlementDoc.exists()) {
-        setLeaveEntitlement(entitlementDoc.data() as LeaveEntitlement);
+    const unsubscribe = onSnapshot(
+      doc(db, 'leave-entitlements', currentUser.uid),
+      (entitlementDoc) => {
+        setLeaveEntitlement(entitlementDoc.exists() ? entitlementDoc.data() as LeaveEntitlement : null);
+      },
+      (error) => {
+        console.error('Error loading leave entitlement:', error);
       }
-    } catch (error) {
-      console.error('Error loading leave entitlement:', error);
+    );
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setLeavePolicies([]);
+      return;
     }
+
+    const unsubscribe = onSnapshot(
+      collection(db, 'leavePolicies'),
+      (snapshot) => {
+        setLeavePolicies(snapshot.docs.map(policyDoc => ({
+          ...DEFAULT_LEAVE_POLICY,
+          ...policyDoc.data(),
+          id: policyDoc.id,
+        }) as LeavePolicy));
+      },
+      (err) => {
+        console.error('Error fetching leave policies:', err);
+      }
+    );
+
+    return () => unsubscribe();
   }, [currentUser]);
 
+  // A site's own policy, else the default policy document, else the built-in default
+  const getLeavePolicy = useCallback((site?: string): LeavePolicy =>
+    leavePolicies.find(policy => site && policy.site === site) ||
+    leavePolicies.find(policy => policy.site === '') ||
+    DEFAULT_LEAVE_POLICY, [leavePolicies]);
+
+  const leaveYear = useMemo(
+    () => getEntitlementYear(leaveEntitlement, getLeavePolicy(userData?.site || userData?.sites?.[0])),
+    [leaveEntitlement, getLeavePolicy, userData]
+  );
+
+  const canChangeRota = useCallback((site: string) =>
+    isAdmin || (userData?.role === 'manager' && !!userData.sites?.includes(site)), [isAdmin, userData]);
+
+  const saveLeavePolicy = async (site: string, policy: LeavePolicyInput): Promise<void> => {
+    try {
+      await setDoc(doc(db, 'leavePolicies', site || 'default'), {
+        ...policy,
+        site,
+        updatedAt: Timestamp.now(),
+        updatedBy: currentUser?.uid || '',
+      });
+    } catch (err) {
+      console.error('Error saving leave policy:', err);
+      throw new Error('Failed to save leave policy');
+    }
+  };
+
+  const deleteLeavePolicy = async (site: string): Promise<void> => {
+    try {
+      await deleteDoc(doc(db, 'leavePolicies', site || 'default'));
+    } catch (err) {
+      console.error('Error deleting leave policy:', err);
+      throw new Error('Failed to delete leave policy');
+    }
+  };
+
   // Calculate leave days excluding weekends
   const calculateLeaveDays = useCallback((startDate: string, endDate: string): number => {
     const start = parseISO(startDate);
@@ -167,83 +276,48 @@ export const LeaveProvider: React.FC<Props> = ({ children }) => {
   const checkLeaveAvailability = useCallback(async (
     startDate: string,
     endDate: string,
-    leaveType: LeaveType
+    leaveType: LeaveType,
+    request?: LeaveRequest
   ): Promise<LeaveAvailability> => {
-    if (!currentUser || !currentRota || !leaveEntitlement) {
-      return { isAvailable: false, conflicts: [] };
+    if (!currentUser) {
+      return { isAvailable: false, conflicts: [], affectedShifts: [] };
     }
 
     const conflicts: LeaveAvailability['conflicts'] = [];
+    const isOwn = !request || request.userId === currentUser.uid;
 
-    // Check leave year boundaries
-    const leaveYearStart = startOfYear(new Date());
-    const leaveYearEnd = endOfYear(new Date());
-    const requestStart = parseISO(startDate);
-    const requestEnd = parseISO(endDate);
-
-    if (!isWithinInterval(requestStart, { start: leaveYearStart, end: leaveYearEnd }) ||
-        !isWithinInterval(requestEnd, { start: leaveYearStart, end: leaveYearEnd })) {
-      conflicts.push({
-        type: 'leave-year',
-        message: 'Leave must be taken within the current leave year'
-      });
-    }
+    // The balance and leave year loaded here are the signed-in user's
+    if (isOwn) {
+      const requestStart = parseISO(startDate);
+      const requestEnd = parseISO(endDate);
 
-    // Check balance for annual leave
-    if (leaveType === 'Annual Leave') {
-      const requestedDays = calculateLeaveDays(startDate, endDate);
-      if (requestedDays > leaveEntitlement.remainingDays) {
+      if (!isWithinInterval(requestStart, leaveYear) || !isWithinInterval(requestEnd, leaveYear)) {
         conflicts.push({
-          type: 'balance',
-          message: 'Insufficient leave balance'
+          type: 'leave-year',
+          message: `Leave must be taken within the current leave year (${leaveYear.label})`
         });
       }
-    }
 
-    // Check team limit (max 2 staff on leave per day)
-    const overlappingLeave = leaveRequests.filter(request => 
-      request.status === 'approved' &&
-      isWithinInterval(parseISO(startDate), {
-        start: parseISO(request.startDate),
-        end: parseISO(request.endDate)
-      })
-    );
-
-    if (overlappingLeave.length >= 2) {
-      conflicts.push({
-        type: 'team-limit',
-        message: 'Maximum number of staff already on leave during this period'
-      });
+      if (leaveType === 'Annual Leave' && leaveEntitlement) {
+        const requestedDays = calculateLeaveDays(startDate, endDate);
+        if (requestedDays > leaveEntitlement.remainingDays) {
+          conflicts.push({
+            type: 'balance',
+            message: 'Insufficient leave balance'
+          });
+        }
+      }
     }
 
-    // Check role coverage
-    const affectedShifts = currentRota.shifts.filter(shift =>
-      isWithinInterval(parseISO(shift.date), {
-        start: parseISO(startDate),
-        end: parseISO(endDate)
-      })
-    );
-
-    const hasUncoveredShifts = affectedShifts.some(shift =>
-      shift.assignedStaff.some(assignment =>
-        typeof assignment === 'string'
-          ? assignment === currentUser.uid
-          : assignment.userId === currentUser.uid
-      )
-    );
-
-    if (hasUncoveredShifts) {
-      conflicts.push({
-        type: 'role-coverage',
-        message: 'You are scheduled for shifts during this period'
-      });
-    }
+    const rules = await checkLeaveRules(startDate, endDate, isOwn ? undefined : request.userId);
+    conflicts.push(...rules.conflicts);
 
     return {
-      isAvailable: conflicts.length === 0,
-      conflicts
+      isAvailable: !conflicts.some(conflict => BLOCKING_LEAVE_CONFLICTS.includes(conflict.type)),
+      conflicts,
+      affectedShifts: rules.affectedShifts
     };
-  }, [currentUser, currentRota, leaveEntitlement, leaveRequests, calculateLeaveDays]);
+  }, [currentUser, leaveEntitlement, leaveYear, calculateLeaveDays]);
 
   // Get leave statistics
   const getLeaveStats = useCallback((): LeaveStats => {
@@ -350,16 +424,25 @@ export const LeaveProvider: React.FC<Props> = ({ children }) => {
   useEffect(() => {
     if (currentUser) {
       loadLeaveRequests();
-      loadLeaveEntitlement();
     }
-  }, [currentUser, loadLeaveRequests, loadLeaveEntitlement]);
+  }, [currentUser, loadLeaveRequests]);
 
   const value = {
     leaveRequests,
     leaveEntitlement,
+    leaveYear,
+    leavePolicies,
+    getLeavePolicy,
+    saveLeavePolicy,
+    deleteLeavePolicy,
     isLoading,
     requestLeave: createLeaveRequest,
-    approveLeave: async (leaveId: string, approvalNotes?: string) => {
+    canChangeRota,
+    approveLeave: async (leaveId: string, approvalNotes?: string, unassign: LeaveAffectedShift[] = []) => {
+      const request = leaveRequests.find(r => r.id === leaveId);
+      // Rotas at sites the approver does not manage are left for that site's managers
+      const leftOn = unassign.filter(shift => !canChangeRota(shift.site));
+
       const updates: Partial<LeaveRequest> = {
         status: 'approved',
         approvedBy: currentUser?.uid,
@@ -367,6 +450,35 @@ export const LeaveProvider: React.FC<Props> = ({ children }) => {
         updatedAt: new Date().toISOString()
       };
       await updateLeaveRequest(leaveId, updates);
+      if (!request) return leftOn;
+
+      // One save per rota, so each week's changes are checked together
+      const byRota = new Map<string, LeaveAffectedShift[]>();
+      unassign
+        .filter(shift => canChangeRota(shift.site))
+        .forEach(shift => byRota.set(shift.rotaId, [...(byRota.get(shift.rotaId) || []), shift]));
+      for (const [rotaId, shifts] of Array.from(byRota.entries())) {
+        const changes: ShiftChange[] = shifts.map(shift => ({ shiftId: shift.shiftId, removeStaffId: request.userId }));
+        try {
+          await changeShiftAssignments(rotaId, changes);
+        } catch (error) {
+          console.error(`Error taking ${request.userId} off rota ${rotaId}:`, error);
+          leftOn.push(...shifts);
+        }
+      }
+
+      if (leftOn.length) {
+        const sites = Array.from(new Set(leftOn.map(shift => shift.site))).join(', ');
+        notify({
+          type: 'system',
+          title: 'Rota Not Updated',
+          message: `${request.staffName} is still on ${leftOn.length} shift${leftOn.length === 1 ? '' : 's'} ` +
+            `during their approved leave at ${sites}. Ask the site's manager to take them off.`,
+          userId: currentUser?.uid || '',
+          priority: 'high'
+        });
+      }
+      return leftOn;
     },
     rejectLeave: async (leaveId: string, approvalNotes?: string) => {
       const updates: Partial<LeaveRequest> = {
@@ -88,11 +88,12 @@ export const NotificationProvider: React.FC<Props> = ({
           ...doc.data()
         })) as Notification[];
       } else if (userData?.role === 'manager' && userData.sites) {
-        // Manager can see notifications for their sites and personal notifications
+        // Manager can see broadcasts for their sites and personal notifications
         const siteQuery = query(
           collection(db, 'notifications'),
           where('deleted', '==', false),
           where('site', 'in', userData.sites),
+          where('userId', '==', null),
           orderBy('timestamp', 'desc')
         );
         const personalQuery = query(
@@ -125,11 +126,12 @@ export const NotificationProvider: React.FC<Props> = ({
         notificationData = Array.from(notificationMap.values());
         notificationData.sort((a, b) => getTimestampMs(b.timestamp) - getTimestampMs(a.timestamp));
       } else {
-        // Staff can only see notifications for their site and personal notifications
+        // Staff can only see broadcasts for their site and personal notifications
         const siteQuery = query(
           collection(db, 'notifications'),
           where('deleted', '==', false),
           where('site', '==', userData?.site || ''),
+          where('userId', '==', null),
           orderBy('timestamp', 'desc')
         );
         const personalQuery = query(
@@ -175,10 +177,15 @@ export const NotificationProvider: React.FC<Props> = ({
   ) => {
     if (!currentUser) return;
 
+    // 'system' (or no recipient) means the notification is for the current user
+    const recipientId = notification.userId && notification.userId !== 'system'
+      ? notification.userId
+      : currentUser.uid;
+
     const notificationsRef = collection(db, 'notifications');
     const newNotification: Omit<Notification, 'id'> = {
       ...notification,
-      userId: currentUser.uid,
+      userId: recipientId,
       timestamp: Timestamp.now(),
       read: false,
       site: userData?.site || '',
@@ -188,6 +195,9 @@ export const NotificationProvider: React.FC<Props> = ({
     const docRef = await addDoc(notificationsRef, newNotification);
     const createdNotification = { ...newNotification, id: docRef.id } as Notification;
 
+    // Notifications for colleagues are picked up when they next load theirs
+    if (recipientId !== currentUser.uid) return;
+
     setNotifications(prev => [createdNotification, ...prev]);
     
     // Show snackbar for new notification
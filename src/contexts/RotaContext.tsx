@@ -1,5 +1,5 @@
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { collection, doc, getDoc, setDoc, updateDoc, query, where, getDocs } from 'firebase/firestore';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo } from 'react';
+import { collection, doc, getDoc, setDoc, updateDoc, query, where, getDocs, onSnapshot } from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { useAuth } from './AuthContext';
 import { useNotifications } from './NotificationContext';
@@ -13,19 +13,34 @@ import {
   Shift,
   ShiftAssignment,
   ShiftRole,
-  ShiftStatus,
   createEmptyRotaStats,
   ShiftTime,
-  SHIFT_TIME_DETAILS,
-  ShiftRequirementWithRoles
+  ShiftPattern,
+  ShiftRequirementWithRoles,
+  RotaOptimiserResult,
+  ShiftChange,
+  RotaVersion,
+  DEFAULT_SHIFT_PATTERNS
 } from '../types/rota';
 import { 
-  generateRota,
-  validateRotaWithDefaults, 
+  validateRota,
   generateRotaStats,
-  generateShiftSuggestions
+  generateShiftSuggestions,
+  getRotaId,
+  getStaffCommitments,
+  worksAtSite,
+  createShiftFromPattern,
+  findShiftPattern,
+  getShiftPatterns,
+  applyShiftChanges,
+  checkShiftChanges,
+  diffRotaShifts,
+  getVersionStaffIds,
+  getShiftLabel
 } from '../utils/rotaUtils';
-import { format, startOfWeek, endOfWeek } from 'date-fns';
+import { generateRota, withApprovedLeave } from '../utils/rotaGenerator';
+import { LeaveRequest } from '../types/leave';
+import { format, startOfWeek, endOfWeek, parseISO } from 'date-fns';
 
 interface ShiftRequirements {
   total: number;
@@ -35,36 +50,67 @@ interface ShiftRequirements {
 
 interface RotaContextType {
   currentRota: Rota | null;
+  // Staff who work at the current site, including those borrowed from other homes
   staff: Staff[];
+  currentSite: string;
+  availableSites: string[];
+  // The same week's rotas at the other sites, for cross-site checks
+  otherSiteRotas: Rota[];
+  // The current site's shift definitions, used for new rotas
+  shiftPatterns: ShiftPattern[];
+  // Published versions of the current rota, newest first
+  rotaVersions: RotaVersion[];
   isLoading: boolean;
   error: string | null;
-  loadRotaForWeek: (date: Date) => Promise<void>;
-  createRota: (startDate: string) => Promise<void>;
+  setCurrentSite: (site: string) => void;
+  loadRotaForWeek: (date: Date, site?: string) => Promise<Rota | null>;
+  // A site's rotas for every week touching the dates, oldest first, without opening them
+  loadSiteRotas: (site: string, from: Date, to: Date) => Promise<Rota[]>;
+  createRota: (startDate: string, site?: string) => Promise<Rota | null>;
   updateRota: (rota: Rota) => Promise<void>;
   deleteRota: (rotaId: string) => Promise<void>;
-  generateAIRota: (options: AISchedulerOptions) => Promise<void>;
+  generateAIRota: (options: AISchedulerOptions) => Promise<RotaOptimiserResult | null>;
   validateCurrentRota: () => Promise<RotaValidationError[]>;
   getRotaStats: () => ReturnType<typeof generateRotaStats>;
   assignStaffToShift: (shiftId: string, assignment: ShiftAssignment) => Promise<void>;
   removeStaffFromShift: (shiftId: string, staffId: string) => Promise<void>;
+  // Problems with changing any rota's assignments, checked against the latest saved rota
+  checkShiftAssignments: (rotaId: string, changes: ShiftChange[]) => Promise<string[]>;
+  // Makes the changes if they pass the same checks, otherwise throws with the problems
+  changeShiftAssignments: (rotaId: string, changes: ShiftChange[]) => Promise<Rota>;
   getShiftSuggestions: (shift: Shift) => Promise<AIShiftSuggestion>;
   addShift: (date: string, time: ShiftTime, requirements: ShiftRequirements) => Promise<void>;
+  saveShiftPatterns: (patterns: ShiftPattern[]) => Promise<void>;
+  // Snapshots the current rota as a new version and tells each affected staff member what changed for them
+  publishRota: (notes?: string) => Promise<RotaVersion | null>;
+  acknowledgeRotaVersion: (versionId: string) => Promise<void>;
 }
 
 export const RotaContext = createContext<RotaContextType>({
   currentRota: null,
   staff: [],
+  currentSite: '',
+  availableSites: [],
+  otherSiteRotas: [],
+  shiftPatterns: DEFAULT_SHIFT_PATTERNS,
+  rotaVersions: [],
   isLoading: false,
   error: null,
-  loadRotaForWeek: async () => {},
-  createRota: async () => {},
+  setCurrentSite: () => {},
+  loadRotaForWeek: async () => null,
+  loadSiteRotas: async () => [],
+  createRota: async () => null,
   updateRota: async () => {},
   deleteRota: async () => {},
-  generateAIRota: async () => {},
+  generateAIRota: async () => null,
   validateCurrentRota: async () => [],
   getRotaStats: () => createEmptyRotaStats(),
   assignStaffToShift: async () => {},
   removeStaffFromShift: async () => {},
+  checkShiftAssignments: async () => [],
+  changeShiftAssignments: async () => {
+    throw new Error('RotaProvider is missing');
+  },
   getShiftSuggestions: async () => ({
     shiftId: '',
     suggestedStaff: [],
@@ -73,7 +119,10 @@ export const RotaContext = createContext<RotaContextType>({
     reasoning: [],
     evaluations: {}
   }),
-  addShift: async () => {}
+  addShift: async () => {},
+  saveShiftPatterns: async () => {},
+  publishRota: async () => null,
+  acknowledgeRotaVersion: async () => {}
 });
 
 export const useRotaContext = () => useContext(RotaContext);
@@ -82,16 +131,133 @@ interface Props {
   children: React.ReactNode;
 }
 
+// Every live rota for the weeks touching `from` to `to`, across all sites
+const fetchRotasBetween = async (from: Date, to: Date): Promise<Rota[]> => {
+  const rotaQuery = query(
+    collection(db, 'rotas'),
+    where('startDate', '>=', format(startOfWeek(from, { weekStartsOn: 1 }), 'yyyy-MM-dd')),
+    where('startDate', '<=', format(to, 'yyyy-MM-dd'))
+  );
+
+  const rotaSnapshot = await getDocs(rotaQuery);
+  return rotaSnapshot.docs
+    .map(rotaDoc => ({ ...(rotaDoc.data() as Rota), id: rotaDoc.id }))
+    .filter(rota => !rota.deleted && !rota.migratedTo);
+};
+
+// Every live rota for the week containing `date`, across all sites
+const fetchWeekRotas = (date: Date): Promise<Rota[]> =>
+  fetchRotasBetween(date, endOfWeek(date, { weekStartsOn: 1 }));
+
+// Firestore `in` filters take at most ten values
+const IN_QUERY_LIMIT = 10;
+
+/**
+ * Approved leave overlapping `from` to `to` (yyyy-MM-dd) for the given staff,
+ * wherever it was booked. Firestore takes one range filter per query, so the
+ * end date is bounded there and the start date here.
+ */
+const fetchApprovedLeave = async (userIds: string[], from: string, to: string): Promise<LeaveRequest[]> => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < userIds.length; i += IN_QUERY_LIMIT) {
+    chunks.push(userIds.slice(i, i + IN_QUERY_LIMIT));
+  }
+
+  const snapshots = await Promise.all(chunks.map(ids => getDocs(query(
+    collection(db, 'leave-requests'),
+    where('userId', 'in', ids),
+    where('status', '==', 'approved'),
+    where('endDate', '>=', from)
+  ))));
+  return snapshots
+    .flatMap(snapshot => snapshot.docs)
+    .map(leaveDoc => leaveDoc.data() as LeaveRequest)
+    .filter(request => request.startDate <= to);
+};
+
 export const RotaProvider: React.FC<Props> = ({ children }) => {
   const [currentRota, setCurrentRota] = useState<Rota | null>(null);
-  const [staff, setStaff] = useState<Staff[]>([]);
+  const [allStaff, setAllStaff] = useState<Staff[]>([]);
+  const [currentSite, setCurrentSite] = useState('');
+  const [otherSiteRotas, setOtherSiteRotas] = useState<Rota[]>([]);
+  const [shiftPatterns, setShiftPatterns] = useState<ShiftPattern[]>(DEFAULT_SHIFT_PATTERNS);
+  const [rotaVersions, setRotaVersions] = useState<RotaVersion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasLoadedStaff, setHasLoadedStaff] = useState(false);
 
-  const { currentUser } = useAuth();
+  const { currentUser, userData, isAdmin } = useAuth();
   const { notify } = useNotifications();
 
+  const availableSites = useMemo(() => {
+    const managed = userData?.sites?.length ? userData.sites : [userData?.site || ''];
+    if (!isAdmin) return managed.filter(Boolean);
+    const fromStaff = allStaff.flatMap(member => [member.site || '', ...(member.sites || [])]);
+    return Array.from(new Set([...managed, ...fromStaff].filter(Boolean))).sort();
+  }, [isAdmin, userData, allStaff]);
+
+  useEffect(() => {
+    if (currentSite && availableSites.includes(currentSite)) return;
+    const home = userData?.site;
+    setCurrentSite(home && availableSites.includes(home) ? home : availableSites[0] || '');
+  }, [availableSites, currentSite, userData]);
+
+  const staff = useMemo(
+    () => (currentSite ? allStaff.filter(member => worksAtSite(member, currentSite)) : allStaff),
+    [allStaff, currentSite]
+  );
+
+  useEffect(() => {
+    if (!currentUser || !currentSite) {
+      setShiftPatterns(DEFAULT_SHIFT_PATTERNS);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'shiftPatterns', currentSite),
+      (snapshot) => {
+        const patterns = snapshot.data()?.patterns as ShiftPattern[] | undefined;
+        setShiftPatterns(patterns?.length ? patterns : DEFAULT_SHIFT_PATTERNS);
+      },
+      (err) => {
+        console.error('Error fetching shift patterns:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser, currentSite]);
+
+  const currentRotaId = currentRota?.id;
+  const currentRotaSite = currentRota?.site;
+
+  useEffect(() => {
+    if (!currentUser || !currentRotaId || !currentRotaSite) {
+      setRotaVersions([]);
+      return;
+    }
+
+    // Filtering on site as well lets staff query the versions they may read
+    const versionsQuery = query(
+      collection(db, 'rotaVersions'),
+      where('site', '==', currentRotaSite),
+      where('rotaId', '==', currentRotaId)
+    );
+    const unsubscribe = onSnapshot(
+      versionsQuery,
+      (snapshot) => {
+        const versions = snapshot.docs
+          .map(versionDoc => ({ ...(versionDoc.data() as RotaVersion), id: versionDoc.id }))
+          .sort((a, b) => b.version - a.version);
+        setRotaVersions(versions);
+      },
+      (err) => {
+        console.error('Error fetching rota versions:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser, currentRotaId, currentRotaSite]);
+
   const updateRota = useCallback(async (rota: Rota) => {
     if (!currentUser) return;
     setIsLoading(true);
@@ -118,13 +284,23 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
     setIsLoading(true);
 
     try {
-      const staffQuery = query(collection(db, 'users'), where('role', '==', 'staff'));
-      const staffSnapshot = await getDocs(staffQuery);
-      const staffData: Staff[] = staffSnapshot.docs.map(doc => {
+      const userSites = userData?.sites?.length ? userData.sites : [userData?.site || ''];
+      const staffQueries = isAdmin
+        ? [query(collection(db, 'users'), where('role', '==', 'staff'))]
+        : [
+            query(collection(db, 'users'), where('role', '==', 'staff'), where('site', 'in', userSites)),
+            // Staff based elsewhere who also work at one of our sites
+            query(collection(db, 'users'), where('role', '==', 'staff'), where('sites', 'array-contains-any', userSites))
+          ];
+      const snapshots = await Promise.all(staffQueries.map(staffQuery => getDocs(staffQuery)));
+      const staffDocs = new Map(snapshots.flatMap(snapshot => snapshot.docs).map(doc => [doc.id, doc]));
+      const staffData: Staff[] = Array.from(staffDocs.values()).map(doc => {
         const data = doc.data();
         return {
           id: doc.id,
           name: data.name || 'Unnamed Staff',
+          site: data.site,
+          sites: data.sites || [],
           email: data.email || 'no-email@example.com',
           roles: (data.roles || ['Care Staff']) as ShiftRole[],
           contractedHours: data.contractedHours || 37.5,
@@ -161,7 +337,7 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
           certifications: data.certifications || []
         };
       });
-      setStaff(staffData);
+      setAllStaff(staffData);
       setHasLoadedStaff(true);
     } catch (err) {
       console.error('Error loading staff:', err);
@@ -175,14 +351,14 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [currentUser, notify, hasLoadedStaff]);
+  }, [currentUser, userData, isAdmin, notify, hasLoadedStaff]);
 
   useEffect(() => {
     loadStaff();
   }, [loadStaff]);
 
-  const loadRotaForWeek = useCallback(async (date: Date) => {
-    if (!currentUser) return;
+  const loadRotaForWeek = useCallback(async (date: Date, site: string = currentSite) => {
+    if (!currentUser || !site) return null;
     setIsLoading(true);
 
     try {
@@ -190,36 +366,43 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
         await loadStaff();
       }
 
-      const weekStart = startOfWeek(date, { weekStartsOn: 1 });
-      const weekEnd = endOfWeek(date, { weekStartsOn: 1 });
-      
-      const rotaQuery = query(
-        collection(db, 'rotas'),
-        where('startDate', '>=', format(weekStart, 'yyyy-MM-dd')),
-        where('startDate', '<=', format(weekEnd, 'yyyy-MM-dd'))
-      );
-
-      const rotaSnapshot = await getDocs(rotaQuery);
-      if (!rotaSnapshot.empty) {
-        const rotaDoc = rotaSnapshot.docs[0];
-        const rotaData = rotaDoc.data() as Rota;
-        setCurrentRota({ ...rotaData, id: rotaDoc.id });
-      } else {
-        setCurrentRota(null);
+      const weekStart = format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      const rotaId = getRotaId(site, weekStart);
+      const weekRotas = await fetchWeekRotas(date);
+
+      let rota = weekRotas.find(r => r.id === rotaId) || null;
+
+      // Rotas saved before they were kept per site have no site; the home
+      // site of the first manager to open the week takes them over
+      const legacy = weekRotas.find(r => !r.site);
+      const canAdopt = isAdmin || userData?.role === 'manager';
+      if (!rota && legacy && canAdopt && site === userData?.site) {
+        rota = { ...legacy, id: rotaId, site, startDate: weekStart };
+        await setDoc(doc(db, 'rotas', rotaId), rota);
+        await updateDoc(doc(db, 'rotas', legacy.id), {
+          migratedTo: rotaId,
+          lastModified: new Date().toISOString(),
+          modifiedBy: currentUser.uid
+        });
       }
+
+      setCurrentRota(rota);
+      setOtherSiteRotas(weekRotas.filter(r => r.site && r.site !== site));
+      return rota;
     } catch (err) {
       console.error('Error loading rota:', err);
       setError('Failed to load rota');
+      return null;
     } finally {
       setIsLoading(false);
     }
-  }, [currentUser, loadStaff, hasLoadedStaff]);
+  }, [currentUser, userData, isAdmin, currentSite, loadStaff, hasLoadedStaff]);
 
   const addShift = useCallback(async (date: string, time: ShiftTime, requirements: ShiftRequirements) => {
     if (!currentRota || !currentUser) return;
 
     try {
-      const timeDetails = SHIFT_TIME_DETAILS[time];
+      const pattern = findShiftPattern(time, getShiftPatterns(currentRota.configuration));
       
       // Create required roles array based on requirements
       const requiredRoles: ShiftRequirementWithRoles[] = [];
@@ -241,16 +424,8 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
       }
 
       const newShift: Shift = {
+        ...createShiftFromPattern(date, pattern, requiredRoles),
         id: `${date}-${time}-${Date.now()}`,
-        date,
-        time,
-        startTime: timeDetails.start,
-        endTime: timeDetails.end,
-        type: timeDetails.type,
-        requiredStaff: requirements.total,
-        requiredRoles,
-        assignedStaff: [],
-        status: 'Unfilled',
         complianceStatus: 'High'
       };
 
@@ -284,27 +459,7 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
     if (!currentUser || !currentRota) return;
 
     try {
-      const updatedRota = {
-        ...currentRota,
-        shifts: currentRota.shifts.map(shift => {
-          if (shift.id === shiftId) {
-            const newAssignedStaff = [...shift.assignedStaff, assignment];
-            const newStatus: ShiftStatus = 
-              newAssignedStaff.length >= shift.requiredStaff ? 'Fully Staffed' :
-              newAssignedStaff.length > 0 ? 'Partially Staffed' : 
-              'Unfilled';
-            
-            return {
-              ...shift,
-              assignedStaff: newAssignedStaff,
-              status: newStatus
-            };
-          }
-          return shift;
-        })
-      };
-
-      await updateRota(updatedRota);
+      await updateRota(applyShiftChanges(currentRota, [{ shiftId, assign: assignment }]));
     } catch (err) {
       console.error('Error assigning staff:', err);
       notify({
@@ -320,31 +475,7 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
     if (!currentUser || !currentRota) return;
 
     try {
-      const updatedRota = {
-        ...currentRota,
-        shifts: currentRota.shifts.map(shift => {
-          if (shift.id === shiftId) {
-            const newAssignedStaff = shift.assignedStaff.filter(assignment => 
-              typeof assignment === 'string'
-                ? assignment !== staffId
-                : assignment.userId !== staffId
-            );
-            const newStatus: ShiftStatus = 
-              newAssignedStaff.length === 0 ? 'Unfilled' : 
-              newAssignedStaff.length >= shift.requiredStaff ? 'Fully Staffed' : 
-              'Partially Staffed';
-
-            return {
-              ...shift,
-              assignedStaff: newAssignedStaff,
-              status: newStatus
-            };
-          }
-          return shift;
-        })
-      };
-
-      await updateRota(updatedRota);
+      await updateRota(applyShiftChanges(currentRota, [{ shiftId, removeStaffId: staffId }]));
     } catch (err) {
       console.error('Error removing staff:', err);
       notify({
@@ -356,8 +487,52 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
     }
   }, [currentUser, currentRota, updateRota, notify]);
 
-  const createRota = useCallback(async (startDate: string) => {
-    if (!currentUser) return;
+  // The saved rota and the rest of its week, so checks never run against stale state
+  const loadRotaWithWeek = useCallback(async (rotaId: string) => {
+    const rotaDoc = await getDoc(doc(db, 'rotas', rotaId));
+    if (!rotaDoc.exists() || rotaDoc.data().deleted) {
+      throw new Error('The rota for this shift no longer exists');
+    }
+    const rota = { ...(rotaDoc.data() as Rota), id: rotaId };
+    const weekRotas = await fetchWeekRotas(parseISO(rota.startDate));
+    return { rota, otherRotas: weekRotas.filter(r => r.id !== rotaId && r.site) };
+  }, []);
+
+  const checkShiftAssignments = useCallback(async (rotaId: string, changes: ShiftChange[]) => {
+    const { rota, otherRotas } = await loadRotaWithWeek(rotaId);
+    return checkShiftChanges(rota, allStaff, changes, otherRotas);
+  }, [loadRotaWithWeek, allStaff]);
+
+  const changeShiftAssignments = useCallback(async (rotaId: string, changes: ShiftChange[]) => {
+    if (!currentUser) throw new Error('You must be signed in to change the rota');
+
+    try {
+      const { rota, otherRotas } = await loadRotaWithWeek(rotaId);
+      const issues = checkShiftChanges(rota, allStaff, changes, otherRotas);
+      if (issues.length) {
+        throw new Error(issues.join('; '));
+      }
+
+      const now = new Date().toISOString();
+      const updatedRota = {
+        ...applyShiftChanges(rota, changes),
+        updatedAt: now,
+        lastModified: now,
+        modifiedBy: currentUser.uid
+      };
+      const { id, ...rotaData } = updatedRota;
+      await updateDoc(doc(db, 'rotas', id), rotaData);
+
+      setCurrentRota(prev => (prev?.id === id ? updatedRota : prev));
+      return updatedRota;
+    } catch (err) {
+      console.error('Error changing shift assignments:', err);
+      throw err;
+    }
+  }, [currentUser, loadRotaWithWeek, allStaff]);
+
+  const createRota = useCallback(async (startDate: string, site: string = currentSite) => {
+    if (!currentUser || !site) return null;
     setIsLoading(true);
 
     try {
@@ -365,12 +540,22 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
         await loadStaff();
       }
 
+      // Never overwrite a rota that a failed load did not pick up
+      const rotaId = getRotaId(site, startDate);
+      const existing = await getDoc(doc(db, 'rotas', rotaId));
+      if (existing.exists() && !existing.data().deleted) {
+        const rota = { ...(existing.data() as Rota), id: rotaId };
+        setCurrentRota(rota);
+        return rota;
+      }
+
       const newRota: Rota = {
-        id: '',
+        id: rotaId,
+        site,
         startDate,
         endDate: format(endOfWeek(new Date(startDate), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
         shifts: [],
-        configuration: defaultRotaConfiguration,
+        configuration: { ...defaultRotaConfiguration, shiftPatterns },
         status: 'draft',
         createdBy: currentUser.uid,
         createdAt: new Date().toISOString(),
@@ -379,17 +564,135 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
         modifiedBy: currentUser.uid
       };
 
-      const rotaRef = doc(collection(db, 'rotas'));
-      newRota.id = rotaRef.id;
-      await setDoc(rotaRef, newRota);
+      await setDoc(doc(db, 'rotas', newRota.id), newRota);
       setCurrentRota(newRota);
+      return newRota;
     } catch (err) {
       console.error('Error creating rota:', err);
       setError('Failed to create rota');
+      return null;
     } finally {
       setIsLoading(false);
     }
-  }, [currentUser, loadStaff, hasLoadedStaff]);
+  }, [currentUser, currentSite, shiftPatterns, loadStaff, hasLoadedStaff]);
+
+  const saveShiftPatterns = useCallback(async (patterns: ShiftPattern[]) => {
+    if (!currentUser || !currentSite) return;
+
+    try {
+      await setDoc(doc(db, 'shiftPatterns', currentSite), {
+        site: currentSite,
+        patterns,
+        updatedAt: new Date().toISOString(),
+        updatedBy: currentUser.uid
+      });
+      // Shifts already on the rota keep the times they were created with
+      if (currentRota) {
+        await updateRota({
+          ...currentRota,
+          configuration: { ...currentRota.configuration, shiftPatterns: patterns }
+        });
+      }
+    } catch (err) {
+      console.error('Error saving shift patterns:', err);
+      throw new Error('Failed to save shift patterns');
+    }
+  }, [currentUser, currentSite, currentRota, updateRota]);
+
+  const publishRota = useCallback(async (notes = '') => {
+    if (!currentUser || !currentRota?.site) return null;
+
+    try {
+      const latest = rotaVersions[0];
+      const diffs = diffRotaShifts(latest?.shifts || [], currentRota.shifts);
+      if (latest && !diffs.length) {
+        throw new Error(`Nothing has changed since version ${latest.version}`);
+      }
+
+      const now = new Date().toISOString();
+      const versionNumber = (latest?.version || 0) + 1;
+      const version: RotaVersion = {
+        id: `${currentRota.id}_v${versionNumber}`,
+        rotaId: currentRota.id,
+        site: currentRota.site,
+        startDate: currentRota.startDate,
+        version: versionNumber,
+        shifts: currentRota.shifts,
+        notes,
+        publishedAt: now,
+        publishedBy: currentUser.uid,
+        publishedByName: userData?.name || '',
+        staffIds: getVersionStaffIds(currentRota.shifts, diffs),
+        acknowledgements: {}
+      };
+
+      const { id, ...versionData } = version;
+      await setDoc(doc(db, 'rotaVersions', id), versionData);
+      await updateDoc(doc(db, 'rotas', currentRota.id), {
+        status: 'published',
+        publishedVersion: versionNumber,
+        publishedAt: now,
+        lastModified: now,
+        modifiedBy: currentUser.uid
+      });
+      setCurrentRota(prev => (prev?.id === currentRota.id
+        ? { ...prev, status: 'published', publishedVersion: versionNumber, publishedAt: now }
+        : prev));
+
+      // Each person hears only about their own shifts
+      const patterns = getShiftPatterns(currentRota.configuration);
+      const week = format(parseISO(currentRota.startDate), 'd MMM');
+      await Promise.all(version.staffIds.map(staffId => {
+        const added = diffs.filter(diff => diff.added.includes(staffId)).map(diff => getShiftLabel(diff, patterns));
+        const removed = diffs.filter(diff => diff.removed.includes(staffId)).map(diff => getShiftLabel(diff, patterns));
+        const changes = [
+          added.length ? `Added: ${added.join('; ')}` : '',
+          removed.length ? `Removed: ${removed.join('; ')}` : ''
+        ].filter(Boolean);
+
+        return notify({
+          type: 'system',
+          title: latest ? 'Your Rota Has Changed' : 'Rota Published',
+          message: changes.length
+            ? `${currentRota.site} rota for the week of ${week} (version ${versionNumber}). ${changes.join('. ')}`
+            : `${currentRota.site} rota for the week of ${week} has been published (version ${versionNumber}). Your shifts are unchanged.`,
+          userId: staffId,
+          link: '/rota',
+          priority: latest ? 'high' : 'medium'
+        });
+      }));
+
+      return version;
+    } catch (err) {
+      console.error('Error publishing rota:', err);
+      throw err;
+    }
+  }, [currentUser, userData, currentRota, rotaVersions, notify]);
+
+  const loadSiteRotas = useCallback(async (site: string, from: Date, to: Date) => {
+    try {
+      const rotas = await fetchRotasBetween(from, to);
+      return rotas
+        .filter(rota => rota.site === site)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+    } catch (err) {
+      console.error('Error loading site rotas:', err);
+      throw new Error('Failed to load rotas');
+    }
+  }, []);
+
+  const acknowledgeRotaVersion = useCallback(async (versionId: string) => {
+    if (!currentUser) return;
+
+    try {
+      await updateDoc(doc(db, 'rotaVersions', versionId), {
+        [`acknowledgements.${currentUser.uid}`]: new Date().toISOString()
+      });
+    } catch (err) {
+      console.error('Error acknowledging rota:', err);
+      throw new Error('Failed to acknowledge rota');
+    }
+  }, [currentUser]);
 
   const deleteRota = useCallback(async (rotaId: string) => {
     if (!currentUser) return;
@@ -411,30 +714,41 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
   }, [currentUser]);
 
   const generateAIRota = useCallback(async (options: AISchedulerOptions) => {
-    if (!currentRota) return;
+    if (!currentRota) return null;
     setIsLoading(true);
 
     try {
-      const generatedRota = generateRota(
+      // Leave is booked at each person's home site, which borrowed staff do not share
+      const approvedLeave = await fetchApprovedLeave(
+        staff.map(member => member.id),
+        currentRota.startDate,
+        currentRota.endDate
+      );
+
+      const result = generateRota(
         currentRota.startDate,
         currentRota.endDate,
-        staff,
+        withApprovedLeave(staff, approvedLeave),
         currentRota.configuration,
-        options
+        options,
+        getStaffCommitments(otherSiteRotas)
       );
-      await updateRota(generatedRota);
+      // Keep the stored rota's identity; only the shifts are regenerated
+      await updateRota({ ...currentRota, shifts: result.rota.shifts });
+      return result;
     } catch (err) {
       console.error('Error generating AI rota:', err);
       setError('Failed to generate AI rota');
+      return null;
     } finally {
       setIsLoading(false);
     }
-  }, [currentRota, staff, updateRota]);
+  }, [currentRota, staff, otherSiteRotas, updateRota]);
 
   const validateCurrentRota = useCallback(async () => {
     if (!currentRota) return [];
-    return validateRotaWithDefaults(currentRota);
-  }, [currentRota]);
+    return validateRota(currentRota, staff, otherSiteRotas);
+  }, [currentRota, staff, otherSiteRotas]);
 
   const getRotaStats = useCallback(() => {
     if (!currentRota || !staff.length) return createEmptyRotaStats();
@@ -458,9 +772,16 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
   const value = {
     currentRota,
     staff,
+    currentSite,
+    availableSites,
+    otherSiteRotas,
+    shiftPatterns,
+    rotaVersions,
     isLoading,
     error,
+    setCurrentSite,
     loadRotaForWeek,
+    loadSiteRotas,
     createRota,
     updateRota,
     deleteRota,
@@ -469,8 +790,13 @@ export const RotaProvider: React.FC<Props> = ({ children }) => {
     getRotaStats,
     assignStaffToShift,
     removeStaffFromShift,
+    checkShiftAssignments,
+    changeShiftAssignments,
     getShiftSuggestions,
-    addShift
+    addShift,
+    saveShiftPatterns,
+    publishRota,
+    acknowledgeRotaVersion
   };
 
   return (
@@ -0,0 +1,343 @@
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import { collection, doc, addDoc, updateDoc, query, where, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { useAuth } from './AuthContext';
+import { useNotifications } from './NotificationContext';
+import { useRotaContext } from './RotaContext';
+import { Rota, Shift, ShiftRole, ShiftSwapRequest, ShiftSwapStatus } from '../types/rota';
+import { getShiftLabel, getShiftPatterns, getStaffAssignment, getSwapChanges } from '../utils/rotaUtils';
+
+interface ShiftSwapContextType {
+  requests: ShiftSwapRequest[];
+  loading: boolean;
+  error: string | null;
+  // Put one of your shifts up for any colleague to take
+  offerShift: (rota: Rota, shift: Shift, notes?: string) => Promise<void>;
+  // Ask a colleague to trade one of your shifts for one of theirs on the same rota
+  proposeSwap: (rota: Rota, shift: Shift, counterpartShift: Shift, counterpartId: string, notes?: string) => Promise<void>;
+  // Ask to fill a role still open on a shift
+  claimShift: (rota: Rota, shift: Shift, role: ShiftRole, notes?: string) => Promise<void>;
+  takeOffer: (requestId: string) => Promise<void>;
+  respondToSwap: (requestId: string, accept: boolean, notes?: string) => Promise<void>;
+  cancelRequest: (requestId: string) => Promise<void>;
+  // Re-runs the rota checks for a request and saves what they find
+  checkRequest: (requestId: string) => Promise<string[]>;
+  approveRequest: (requestId: string, notes?: string) => Promise<void>;
+  declineRequest: (requestId: string, notes?: string) => Promise<void>;
+}
+
+const ACTIVE_STATUSES: ShiftSwapStatus[] = ['open', 'proposed', 'pending'];
+
+const ShiftSwapContext = createContext<ShiftSwapContextType | null>(null);
+
+export const useShiftSwaps = () => {
+  const context = useContext(ShiftSwapContext);
+  if (!context) {
+    throw new Error('useShiftSwaps must be used within a ShiftSwapProvider');
+  }
+  return context;
+};
+
+interface Props {
+  children: React.ReactNode;
+}
+
+export const ShiftSwapProvider: React.FC<Props> = ({ children }) => {
+  const [requests, setRequests] = useState<ShiftSwapRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { currentUser, userData } = useAuth();
+  const { notify } = useNotifications();
+  const { currentSite, staff, checkShiftAssignments, changeShiftAssignments } = useRotaContext();
+
+  useEffect(() => {
+    if (!currentUser || !currentSite) {
+      setRequests([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'shiftSwaps'), where('site', '==', currentSite)),
+      (snapshot) => {
+        const data = snapshot.docs
+          .map(swapDoc => ({ ...(swapDoc.data() as ShiftSwapRequest), id: swapDoc.id }))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        setRequests(data);
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching shift swaps:', err);
+        setError('Failed to load shift swaps');
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser, currentSite]);
+
+  const findRequest = useCallback((requestId: string) => {
+    const request = requests.find(r => r.id === requestId);
+    if (!request) throw new Error('Shift swap request not found');
+    return request;
+  }, [requests]);
+
+  const staffName = useCallback(
+    (staffId: string) => staff.find(member => member.id === staffId)?.name || 'A colleague',
+    [staff]
+  );
+
+  const tell = useCallback((userId: string | null, title: string, message: string) => {
+    if (!userId) return Promise.resolve();
+    return notify({ type: 'system', title, message, userId, link: '/shift-swaps' });
+  }, [notify]);
+
+  const createRequest = useCallback(async (
+    rota: Rota,
+    shift: Shift,
+    details: Pick<ShiftSwapRequest, 'type' | 'status' | 'role'> & Partial<ShiftSwapRequest>
+  ) => {
+    if (!currentUser || !rota.site) throw new Error('You must be signed in to request a shift change');
+
+    const duplicate = requests.some(r =>
+      r.requesterId === currentUser.uid &&
+      r.shiftId === shift.id &&
+      ACTIVE_STATUSES.includes(r.status)
+    );
+    if (duplicate) throw new Error('You already have an open request for this shift');
+
+    const now = new Date().toISOString();
+    const request: Omit<ShiftSwapRequest, 'id'> = {
+      site: rota.site,
+      rotaId: rota.id,
+      weekStart: rota.startDate,
+      shiftId: shift.id,
+      shiftDate: shift.date.slice(0, 10),
+      shiftLabel: getShiftLabel(shift, getShiftPatterns(rota.configuration)),
+      requesterId: currentUser.uid,
+      requesterName: userData?.name || staffName(currentUser.uid),
+      counterpartId: null,
+      counterpartName: null,
+      counterpartShiftId: null,
+      counterpartShiftDate: null,
+      counterpartShiftLabel: null,
+      counterpartRole: null,
+      notes: '',
+      issues: [],
+      createdAt: now,
+      updatedAt: now,
+      decidedBy: null,
+      decidedAt: null,
+      decisionNotes: '',
+      ...details
+    };
+
+    // Claims go straight to a manager, so show them any problems up front
+    if (request.status === 'pending') {
+      request.issues = await checkShiftAssignments(
+        rota.id,
+        getSwapChanges({ ...request, id: '' }, currentUser.uid)
+      );
+    }
+
+    try {
+      await addDoc(collection(db, 'shiftSwaps'), request);
+    } catch (err) {
+      console.error('Error creating shift swap request:', err);
+      throw err;
+    }
+    return request;
+  }, [currentUser, userData, requests, staffName, checkShiftAssignments]);
+
+  const offerShift = useCallback(async (rota: Rota, shift: Shift, notes = '') => {
+    if (!currentUser) return;
+    const assignment = getStaffAssignment(shift, currentUser.uid);
+    if (!assignment) throw new Error('You are not on this shift');
+
+    await createRequest(rota, shift, { type: 'offer', status: 'open', role: assignment.role, notes });
+  }, [currentUser, createRequest]);
+
+  const proposeSwap = useCallback(async (
+    rota: Rota,
+    shift: Shift,
+    counterpartShift: Shift,
+    counterpartId: string,
+    notes = ''
+  ) => {
+    if (!currentUser) return;
+    const assignment = getStaffAssignment(shift, currentUser.uid);
+    const counterpartAssignment = getStaffAssignment(counterpartShift, counterpartId);
+    if (!assignment) throw new Error('You are not on this shift');
+    if (!counterpartAssignment) throw new Error(`${staffName(counterpartId)} is not on that shift`);
+
+    const request = await createRequest(rota, shift, {
+      type: 'swap',
+      status: 'proposed',
+      role: assignment.role,
+      counterpartId,
+      counterpartName: staffName(counterpartId),
+      counterpartShiftId: counterpartShift.id,
+      counterpartShiftDate: counterpartShift.date.slice(0, 10),
+      counterpartShiftLabel: getShiftLabel(counterpartShift, getShiftPatterns(rota.configuration)),
+      counterpartRole: counterpartAssignment.role,
+      notes
+    });
+
+    await tell(
+      counterpartId,
+      'Shift Swap Proposed',
+      `${request.requesterName} would like your ${request.counterpartShiftLabel} shift in exchange for their ${request.shiftLabel} shift`
+    );
+  }, [currentUser, createRequest, staffName, tell]);
+
+  const claimShift = useCallback(async (rota: Rota, shift: Shift, role: ShiftRole, notes = '') => {
+    await createRequest(rota, shift, { type: 'claim', status: 'pending', role, notes });
+  }, [createRequest]);
+
+  const updateRequest = useCallback(async (requestId: string, updates: Partial<ShiftSwapRequest>) => {
+    try {
+      await updateDoc(doc(db, 'shiftSwaps', requestId), {
+        ...updates,
+        updatedAt: new Date().toISOString()
+      });
+    } catch (err) {
+      console.error('Error updating shift swap request:', err);
+      throw err;
+    }
+  }, []);
+
+  const takeOffer = useCallback(async (requestId: string) => {
+    if (!currentUser) return;
+    const request = findRequest(requestId);
+    if (request.type !== 'offer' || request.status !== 'open') {
+      throw new Error('This shift is no longer on offer');
+    }
+    if (request.requesterId === currentUser.uid) throw new Error('You cannot take your own shift');
+
+    const counterpartName = userData?.name || staffName(currentUser.uid);
+    const issues = await checkShiftAssignments(
+      request.rotaId,
+      getSwapChanges({ ...request, counterpartId: currentUser.uid }, currentUser.uid)
+    );
+    await updateRequest(requestId, {
+      status: 'pending',
+      counterpartId: currentUser.uid,
+      counterpartName,
+      issues
+    });
+    await tell(
+      request.requesterId,
+      'Shift Offer Taken',
+      `${counterpartName} will take your ${request.shiftLabel} shift once a manager approves`
+    );
+  }, [currentUser, userData, findRequest, staffName, checkShiftAssignments, updateRequest, tell]);
+
+  const respondToSwap = useCallback(async (requestId: string, accept: boolean, notes = '') => {
+    if (!currentUser) return;
+    const request = findRequest(requestId);
+    if (request.type !== 'swap' || request.status !== 'proposed' || request.counterpartId !== currentUser.uid) {
+      throw new Error('This swap is not waiting on you');
+    }
+
+    if (accept) {
+      const issues = await checkShiftAssignments(request.rotaId, getSwapChanges(request, currentUser.uid));
+      await updateRequest(requestId, { status: 'pending', issues });
+    } else {
+      await updateRequest(requestId, { status: 'declined', decisionNotes: notes });
+    }
+    await tell(
+      request.requesterId,
+      accept ? 'Shift Swap Accepted' : 'Shift Swap Declined',
+      accept
+        ? `${request.counterpartName} agreed to swap shifts with you; it now needs a manager's approval`
+        : `${request.counterpartName} declined to swap their ${request.counterpartShiftLabel} shift`
+    );
+  }, [currentUser, findRequest, checkShiftAssignments, updateRequest, tell]);
+
+  const cancelRequest = useCallback(async (requestId: string) => {
+    if (!currentUser) return;
+    const request = findRequest(requestId);
+    if (!ACTIVE_STATUSES.includes(request.status)) throw new Error('This request has already been decided');
+
+    await updateRequest(requestId, { status: 'cancelled' });
+    if (request.counterpartId !== currentUser.uid) {
+      await tell(
+        request.counterpartId,
+        'Shift Swap Cancelled',
+        `${request.requesterName} cancelled their request for the ${request.shiftLabel} shift`
+      );
+    }
+  }, [currentUser, findRequest, updateRequest, tell]);
+
+  const checkRequest = useCallback(async (requestId: string) => {
+    if (!currentUser) return [];
+    const request = findRequest(requestId);
+    const issues = await checkShiftAssignments(request.rotaId, getSwapChanges(request, currentUser.uid));
+    await updateRequest(requestId, { issues });
+    return issues;
+  }, [currentUser, findRequest, checkShiftAssignments, updateRequest]);
+
+  const approveRequest = useCallback(async (requestId: string, notes = '') => {
+    if (!currentUser) return;
+    const request = findRequest(requestId);
+    if (request.status !== 'pending') throw new Error('Only requests awaiting approval can be approved');
+
+    // Throws with the problems if the rota has moved on since the request was made
+    await changeShiftAssignments(request.rotaId, getSwapChanges(request, currentUser.uid));
+    await updateRequest(requestId, {
+      status: 'approved',
+      issues: [],
+      decidedBy: currentUser.uid,
+      decidedAt: new Date().toISOString(),
+      decisionNotes: notes
+    });
+
+    const message = request.type === 'claim'
+      ? `You are now on the ${request.shiftLabel} shift`
+      : request.type === 'offer'
+        ? `${request.counterpartName} is now on the ${request.shiftLabel} shift instead of ${request.requesterName}`
+        : `${request.requesterName} and ${request.counterpartName} have swapped the ${request.shiftLabel} and ${request.counterpartShiftLabel} shifts`;
+    await tell(request.requesterId, 'Shift Change Approved', message);
+    await tell(request.counterpartId, 'Shift Change Approved', message);
+  }, [currentUser, findRequest, changeShiftAssignments, updateRequest, tell]);
+
+  const declineRequest = useCallback(async (requestId: string, notes = '') => {
+    if (!currentUser) return;
+    const request = findRequest(requestId);
+    if (!ACTIVE_STATUSES.includes(request.status)) throw new Error('This request has already been decided');
+
+    await updateRequest(requestId, {
+      status: 'declined',
+      decidedBy: currentUser.uid,
+      decidedAt: new Date().toISOString(),
+      decisionNotes: notes
+    });
+
+    const message = `The request for the ${request.shiftLabel} shift was declined${notes ? `: ${notes}` : ''}`;
+    await tell(request.requesterId, 'Shift Change Declined', message);
+    await tell(request.counterpartId, 'Shift Change Declined', message);
+  }, [currentUser, findRequest, updateRequest, tell]);
+
+  const value = {
+    requests,
+    loading,
+    error,
+    offerShift,
+    proposeSwap,
+    claimShift,
+    takeOffer,
+    respondToSwap,
+    cancelRequest,
+    checkRequest,
+    approveRequest,
+    declineRequest
+  };
+
+  return (
+    <ShiftSwapContext.Provider value={value}>
+      {children}
+    </ShiftSwapContext.Provider>
+  );
+};
@@ -8,6 +8,8 @@ import {
   where, 
   orderBy, 
   addDoc, 
+  setDoc,
+  deleteDoc,
   Timestamp,
 } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
@@ -19,16 +21,18 @@ import {
   SicknessRecord, 
   SicknessContextType, 
   NewSicknessRecord, 
-  TriggerStatus 
+  TriggerStatus,
+  AbsencePolicy,
+  AbsencePolicyInput,
+  DEFAULT_ABSENCE_POLICY,
+  ReturnToWorkInterview,
 } from '../types/sickness';
 import { useTask } from './TaskContext';
+import { describeTriggerStatus, scoreAbsences, TRIGGER_REASON_LABELS } from '../utils/absenceScoring';
 
-const SicknessContext = createContext<SicknessContextType | undefined>(undefined);
+const BACK_TO_WORK_TASK_TITLE = 'Back to Work Interview';
 
-const TRIGGER_THRESHOLDS = {
-  occurrences: 4,
-  days: 10
-};
+const SicknessContext = createContext<SicknessContextType | undefined>(undefined);
 
 // Helper function to safely convert Date/Timestamp to Date
 const toDate = (value: Date | Timestamp | undefined): Date => {
@@ -49,9 +53,10 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const [sicknessRecords, setSicknessRecords] = useState<SicknessRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [absencePolicies, setAbsencePolicies] = useState<AbsencePolicy[]>([]);
   const { currentUser, userData, isAdmin } = useAuth();
   const { users, updateUser } = useUsers();
-  const { addTask } = useTask();
+  const { tasks, addTask, updateTask } = useTask();
 
   useEffect(() => {
     if (!currentUser || !userData) {
@@ -109,6 +114,58 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     return () => unsubscribe();
   }, [currentUser, userData, isAdmin]);
 
+  useEffect(() => {
+    if (!currentUser) {
+      setAbsencePolicies([]);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      collection(db, 'absencePolicies'),
+      (snapshot) => {
+        setAbsencePolicies(snapshot.docs.map(policyDoc => ({
+          ...DEFAULT_ABSENCE_POLICY,
+          ...policyDoc.data(),
+          id: policyDoc.id,
+        }) as AbsencePolicy));
+      },
+      (err) => {
+        console.error('Error fetching absence policies:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  // A site's own policy, else the default policy document, else the built-in default
+  const getPolicyForSite = (site?: string): AbsencePolicy =>
+    absencePolicies.find(policy => site && policy.site === site) ||
+    absencePolicies.find(policy => policy.site === '') ||
+    DEFAULT_ABSENCE_POLICY;
+
+  const saveAbsencePolicy = async (site: string, policy: AbsencePolicyInput): Promise<void> => {
+    try {
+      await setDoc(doc(db, 'absencePolicies', site || 'default'), {
+        ...policy,
+        site,
+        updatedAt: Timestamp.now(),
+        updatedBy: currentUser?.uid || '',
+      });
+    } catch (err) {
+      console.error('Error saving absence policy:', err);
+      throw new Error('Failed to save absence policy');
+    }
+  };
+
+  const deleteAbsencePolicy = async (site: string): Promise<void> => {
+    try {
+      await deleteDoc(doc(db, 'absencePolicies', site || 'default'));
+    } catch (err) {
+      console.error('Error deleting absence policy:', err);
+      throw new Error('Failed to delete absence policy');
+    }
+  };
+
   // Calculate total sickness days for a staff member
   const calculateSicknessTotals = async (staffId: string): Promise<void> => {
     const staffRecords = sicknessRecords.filter(record => 
@@ -187,39 +244,26 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     return patterns;
   };
 
-  const getTriggerStatus = (staffId: string): TriggerStatus => {
-    const today = new Date();
-    const yearStart = new Date(today.getFullYear(), 0, 1);
-    
-    // Only count sickness type records for trigger points
-    const yearRecords = sicknessRecords.filter(record => 
-      record.staffId === staffId &&
-      record.type === 'sickness' &&
-      toDate(record.startDate) >= yearStart
-    );
+  // `records` lets a caller include a record the snapshot listener hasn't delivered yet
+  const getTriggerStatus = (staffId: string, records: SicknessRecord[] = sicknessRecords): TriggerStatus => {
+    const staffRecords = records.filter(record => record.staffId === staffId);
+    const site = users.find(u => u.id === staffId)?.site || staffRecords[0]?.site;
+    const policy = getPolicyForSite(site);
 
-    const totalDays = yearRecords.reduce((sum, record) => {
-      const start = toDate(record.startDate);
-      const end = record.endDate ? toDate(record.endDate) : today;
-      return sum + Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    }, 0);
-
-    const occurrences = yearRecords.length;
-    const hasReachedTrigger = totalDays > TRIGGER_THRESHOLDS.days || 
-                             occurrences >= TRIGGER_THRESHOLDS.occurrences;
-    const isNearingTrigger = !hasReachedTrigger && (
-      occurrences >= TRIGGER_THRESHOLDS.occurrences - 1 || 
-      totalDays >= TRIGGER_THRESHOLDS.days - 2
-    );
-
-    const patterns = detectPatterns(yearRecords);
+    const score = scoreAbsences(staffRecords, policy);
+    const patterns = detectPatterns(score.sicknessRecords);
 
     return { 
-      occurrences, 
-      totalDays, 
-      isNearingTrigger,
-      hasReachedTrigger,
-      patterns 
+      occurrences: score.occurrences,
+      totalDays: score.totalDays,
+      bradfordScore: score.bradfordScore,
+      windowStart: score.windowStart,
+      policy,
+      triggeredBy: score.triggeredBy,
+      isNearingTrigger: score.isNearingTrigger,
+      hasReachedTrigger: score.hasReachedTrigger,
+      patterns,
+      unpaid: score.unpaid,
     };
   };
 
@@ -232,8 +276,11 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       return;
     }
 
+    // Nothing to chase if the interview was completed before the steps started
+    if (record.returnToWorkInterview?.completedAt) return;
+
     await addTask({
-      title: `Back to Work Interview - ${record.staffName}`,
+      title: `${BACK_TO_WORK_TASK_TITLE} - ${record.staffName}`,
       description: `Conduct back to work interview for ${record.staffName} following sickness absence`,
       dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // Due in 24 hours
       priority: 'high',
@@ -246,7 +293,10 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     });
   };
 
-  const createTriggerPointTask = async (record: SicknessRecord): Promise<void> => {
+  const createTriggerPointTask = async (
+    record: SicknessRecord,
+    status: TriggerStatus = getTriggerStatus(record.staffId)
+  ): Promise<void> => {
     const staffUser = users.find(u => u.id === record.staffId);
     const managerUser = users.find(u => u.id === staffUser?.managerId);
 
@@ -255,13 +305,14 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       return;
     }
 
-    const { occurrences, totalDays, patterns } = getTriggerStatus(record.staffId);
+    const { policy, triggeredBy, patterns } = status;
 
     await addTask({
       title: `Sickness Trigger Point Review - ${record.staffName}`,
-      description: `Review required due to trigger points being reached:\n` +
-                  `Occurrences: ${occurrences}/${TRIGGER_THRESHOLDS.occurrences}\n` +
-                  `Total Days: ${totalDays}/${TRIGGER_THRESHOLDS.days}\n` +
+      description: `Review required due to trigger points being reached under "${policy.name}" ` +
+                  `(rolling ${policy.windowMonths} months):\n` +
+                  describeTriggerStatus(status).join('\n') + '\n' +
+                  `Triggered by: ${triggeredBy.map(reason => TRIGGER_REASON_LABELS[reason]).join(', ')}\n` +
                   (patterns.length > 0 ? `\nPatterns Detected:\n${patterns.map(p => `- ${p.description}`).join('\n')}` : ''),
       dueDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // Due in 3 days
       priority: 'high',
@@ -305,12 +356,10 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         await calculateSicknessTotals(record.staffId);
 
         // Check trigger points and create task if needed
-        const triggerStatus = getTriggerStatus(record.staffId);
+        const newRecord = { id: docRef.id, ...recordData } as SicknessRecord;
+        const triggerStatus = getTriggerStatus(record.staffId, [...sicknessRecords, newRecord]);
         if (triggerStatus.hasReachedTrigger) {
-          await createTriggerPointTask({
-            id: docRef.id,
-            ...recordData,
-          } as SicknessRecord);
+          await createTriggerPointTask(newRecord, triggerStatus);
 
           await updateDoc(doc(db, 'sickness', docRef.id), { 
             step: 1 // Automatically progress to step 1 if trigger points reached
@@ -380,6 +429,93 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
+  const saveReturnToWorkInterview = async (recordId: string, interview: ReturnToWorkInterview): Promise<void> => {
+    try {
+      await updateSicknessRecord(recordId, {
+        returnToWorkInterview: { ...interview, completedAt: null },
+      });
+
+      // Once the manager has signed, the employee is asked to read and sign it
+      const record = sicknessRecords.find(r => r.id === recordId);
+      const previousSignOff = record?.returnToWorkInterview?.managerSignOff;
+      const newlySigned = !!interview.managerSignOff && (!previousSignOff ||
+        toDate(previousSignOff.signedAt).getTime() !== toDate(interview.managerSignOff.signedAt).getTime());
+      if (record && newlySigned && !interview.employeeSignOff) {
+        await createNotification(
+          record.staffId,
+          'system',
+          'Return to Work Interview Ready to Sign',
+          'Please read your return to work interview and sign it from your Sickness page',
+          '/sickness'
+        );
+      }
+    } catch (err) {
+      console.error('Error saving return to work interview:', err);
+      throw new Error('Failed to save return to work interview');
+    }
+  };
+
+  // Only the employee's own signature is written, which is all the rules let them change
+  const signReturnToWorkInterview = async (record: SicknessRecord, name: string): Promise<void> => {
+    if (!currentUser || record.staffId !== currentUser.uid) {
+      throw new Error('Only the employee can sign their return to work interview');
+    }
+    if (!record.returnToWorkInterview || record.returnToWorkInterview.completedAt) {
+      throw new Error('There is no interview waiting to be signed');
+    }
+
+    try {
+      await updateDoc(doc(db, 'sickness', record.id), {
+        'returnToWorkInterview.employeeSignOff': {
+          name: name.trim(),
+          signedAt: Timestamp.now(),
+          userId: currentUser.uid,
+        },
+        updatedAt: Timestamp.now(),
+      });
+    } catch (err) {
+      console.error('Error signing return to work interview:', err);
+      throw new Error('Failed to sign return to work interview');
+    }
+  };
+
+  const completeReturnToWorkInterview = async (
+    record: SicknessRecord,
+    interview: ReturnToWorkInterview
+  ): Promise<void> => {
+    if (!interview.employeeSignOff || !interview.managerSignOff) {
+      throw new Error('Both the employee and the manager must sign off the interview');
+    }
+
+    try {
+      const completed = { ...interview, completedAt: Timestamp.now() };
+      await updateSicknessRecord(record.id, {
+        returnToWorkInterview: completed,
+        returnToWorkDate: interview.firstDayBack,
+      });
+
+      await progressToNextStep({ ...record, returnToWorkInterview: completed });
+
+      const openTasks = tasks.filter(task =>
+        task.relatedRecordId === record.id &&
+        task.title.startsWith(BACK_TO_WORK_TASK_TITLE) &&
+        task.status !== 'completed'
+      );
+      await Promise.all(openTasks.map(task => updateTask(task.id, { status: 'completed' })));
+
+      await createNotification(
+        record.staffId,
+        'system',
+        'Return to Work Interview Completed',
+        `Your return to work interview from ${toDate(interview.interviewDate).toLocaleDateString()} has been signed off`,
+        '/sickness'
+      );
+    } catch (err) {
+      console.error('Error completing return to work interview:', err);
+      throw new Error('Failed to complete return to work interview');
+    }
+  };
+
   const progressToNextStep = async (record: SicknessRecord): Promise<void> => {
     try {
       if (record.step >= 3 || record.type !== 'sickness') return;
@@ -472,9 +608,16 @@ export const SicknessProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     scheduleReview,
     completeSicknessRecord,
     uploadReturnToWorkForm,
+    saveReturnToWorkInterview,
+    completeReturnToWorkInterview,
+    signReturnToWorkInterview,
     progressToNextStep,
     archiveRecord,
     getTriggerStatus,
+    absencePolicies,
+    getPolicyForSite,
+    saveAbsencePolicy,
+    deleteAbsencePolicy,
   };
 
   return (
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import {
   collection,
   query,
@@ -13,11 +13,22 @@ import {
   QuerySnapshot,
   FirestoreError,
   addDoc,
+  setDoc,
 } from 'firebase/firestore';
+import { format, parseISO } from 'date-fns';
 import { db } from '../firebase/config';
 import { useAuth } from './AuthContext';
-import { Supervision } from '../types';
+import { useTask } from './TaskContext';
+import { Supervision, SupervisionFeedback } from '../types';
+import {
+  DEFAULT_SUPERVISION_TEMPLATE,
+  SupervisionActionPoint,
+  SupervisionAgendaItem,
+  SupervisionTemplate,
+  SupervisionTemplateInput,
+} from '../types/supervision';
 import { createNotification } from '../utils/notifications';
+import { getActionPointOrigin, toActionPoints } from '../utils/supervisionActionPoints';
 
 interface SupervisionStats {
   total: number;
@@ -37,9 +48,30 @@ interface SupervisionContextType {
   updateSupervision: (id: string, data: Partial<Supervision>) => Promise<void>;
   deleteSupervision: (id: string) => Promise<void>;
   markComplete: (id: string) => Promise<void>;
+  recordSession: (id: string, session: SupervisionSession) => Promise<void>;
   sendReminder: (supervisionId: string, message: string) => Promise<void>;
+  submitQuestionnaire: (supervisionId: string, answers: QuestionnaireAnswers) => Promise<void>;
+  hasSubmittedQuestionnaire: (supervisionId: string) => Promise<boolean>;
+  supervisionTemplates: SupervisionTemplate[];
+  getSupervisionTemplate: (site?: string) => SupervisionTemplate;
+  saveSupervisionTemplate: (site: string, template: SupervisionTemplateInput) => Promise<void>;
+  deleteSupervisionTemplate: (site: string) => Promise<void>;
+}
+
+// What is written up when a supervision takes place
+export interface SupervisionSession {
+  notes: string;
+  agenda: SupervisionAgendaItem[];
+  // This session's new points and the points carried in from the last one
+  actionPoints: SupervisionActionPoint[];
 }
 
+// What the supervisee sends ahead of their supervision
+export type QuestionnaireAnswers = Pick<
+  SupervisionFeedback,
+  'topics' | 'concerns' | 'suggestions' | 'comments' | 'rating' | 'isConfidential'
+>;
+
 const SupervisionContext = createContext<SupervisionContextType | undefined>(undefined);
 
 const toDate = (value: string | Timestamp | Date | undefined | null): Date | undefined => {
@@ -55,11 +87,13 @@ const toTimestamp = (date: Date | string | undefined): Timestamp => {
   return Timestamp.fromDate(dateObj);
 };
 
-interface FirestoreSupervision extends Omit<Supervision, 'date' | 'nextDueDate' | 'createdAt' | 'updatedAt'> {
+interface FirestoreSupervision extends Omit<Supervision, 'date' | 'nextDueDate' | 'createdAt' | 'updatedAt' | 'completedAt' | 'actionPoints'> {
   date: Timestamp;
   nextDueDate?: Timestamp;
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  completedAt?: Timestamp;
+  actionPoints?: Parameters<typeof toActionPoints>[0];
   site?: string;
 }
 
@@ -98,7 +132,10 @@ export function useSupervision() {
 
 export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { currentUser, userData, isAdmin } = useAuth();
+  const { tasks, loading: tasksLoading, addTask, updateTask } = useTask();
   const [supervisions, setSupervisions] = useState<Supervision[]>([]);
+  const [supervisionTemplates, setSupervisionTemplates] = useState<SupervisionTemplate[]>([]);
+  const raisingTasks = useRef(new Set<string>());
   const [stats, setStats] = useState<SupervisionStats>({
     total: 0,
     completed: 0,
@@ -146,6 +183,8 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
             const date = data.date?.toDate();
             if (!date) throw new Error('Invalid date in supervision record');
 
+            const session = { id: doc.id, staffId: data.staffId, staffName: data.staffName, date };
+
             return {
               id: doc.id,
               staffId: data.staffId,
@@ -157,12 +196,16 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
               status: data.status,
               type: data.type,
               notes: data.notes || '',
-              concerns: data.concerns || [],
-              actionPoints: data.actionPoints || [],
+              location: data.location || '',
+              agenda: data.agenda || [],
+              actionPoints: toActionPoints(data.actionPoints, session),
               notificationSchedule: data.notificationSchedule,
               createdAt: data.createdAt.toDate(),
               updatedAt: data.updatedAt.toDate(),
+              completedAt: data.completedAt?.toDate(),
               site: data.site,
+              questionnaireCompleted: data.questionnaireCompleted || false,
+              probationMilestone: data.probationMilestone || null,
             };
           });
 
@@ -186,6 +229,79 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
     return () => unsubscribe();
   }, [currentUser, userData, isAdmin]);
 
+  useEffect(() => {
+    if (!currentUser) {
+      setSupervisionTemplates([]);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      collection(db, 'supervisionTemplates'),
+      (snapshot) => {
+        setSupervisionTemplates(snapshot.docs.map(templateDoc => ({
+          ...DEFAULT_SUPERVISION_TEMPLATE,
+          ...templateDoc.data(),
+          id: templateDoc.id,
+        }) as SupervisionTemplate));
+      },
+      (err) => {
+        console.error('Error fetching supervision templates:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  // Tasks raised for action points point at the session the point was agreed in
+  const findActionPointTask = useCallback((point: SupervisionActionPoint, supervisionId: string) =>
+    tasks.find(task =>
+      task.relatedRecordType === 'supervision' &&
+      task.relatedRecordId === getActionPointOrigin(point, supervisionId) &&
+      task.title === point.description), [tasks]);
+
+  // Overdue action points become tasks for their owner. Each staff member's
+  // latest completed session holds the current state of their action points.
+  useEffect(() => {
+    if (loading || tasksLoading || !(isAdmin || userData?.role === 'manager')) return;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const latest = new Map<string, Supervision>();
+    supervisions
+      .filter(supervision => supervision.status === 'completed')
+      .forEach(supervision => {
+        const current = latest.get(supervision.staffId);
+        if (!current || supervision.date > current.date) latest.set(supervision.staffId, supervision);
+      });
+
+    latest.forEach(supervision => {
+      (supervision.actionPoints || [])
+        .filter(point => point.status === 'open' && point.dueDate < today)
+        .filter(point => !findActionPointTask(point, supervision.id))
+        .forEach(point => {
+          const key = `${getActionPointOrigin(point, supervision.id)}/${point.id}`;
+          if (raisingTasks.current.has(key)) return;
+          raisingTasks.current.add(key);
+
+          addTask({
+            title: point.description,
+            description: `Overdue action point from ${supervision.staffName}'s supervision, due ${point.dueDate}`,
+            dueDate: parseISO(point.dueDate),
+            priority: 'high',
+            status: 'pending',
+            category: 'supervision',
+            assignedTo: point.ownerId,
+            assignedBy: supervision.supervisorId,
+            relatedRecordType: 'supervision',
+            relatedRecordId: getActionPointOrigin(point, supervision.id),
+            site: supervision.site || '',
+          }).catch(err => {
+            console.error('Error raising task for action point:', err);
+            raisingTasks.current.delete(key);
+          });
+        });
+    });
+  }, [supervisions, loading, tasksLoading, isAdmin, userData, addTask, findActionPointTask]);
+
   const createSupervision = async (data: Partial<Supervision>) => {
     try {
       const firestoreData = {
@@ -194,7 +310,7 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
         nextDueDate: data.nextDueDate ? toTimestamp(data.nextDueDate) : null,
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
-        site: userData?.site || '',
+        site: data.site || userData?.site || '',
       } as FirestoreSupervision;
 
       const supervisionRef = await addDoc(collection(db, 'supervisions'), firestoreData);
@@ -206,7 +322,7 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
           'supervision',
           'New Supervision Scheduled',
           `A new supervision has been scheduled for ${toDate(data.date)?.toLocaleDateString()}`,
-          `/supervision/${supervisionRef.id}`
+          `/supervision/${supervisionRef.id}/questionnaire`
         );
       }
     } catch (err) {
@@ -245,6 +361,7 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
     }
   };
 
+  // Functions set nextDueDate from the staff member's supervision frequency
   const markComplete = async (id: string) => {
     try {
       const supervision = supervisions.find(s => s.id === id);
@@ -252,33 +369,71 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
 
       await updateDoc(doc(db, 'supervisions', id), {
         status: 'completed',
+        completedAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
       });
+    } catch (err) {
+      console.error('Error marking supervision complete:', err);
+      throw err;
+    }
+  };
 
-      // Schedule next supervision
-      const nextDate = new Date();
-      nextDate.setMonth(nextDate.getMonth() + 3); // 3 months from now
-
-      const nextDueDate = new Date(nextDate);
-      nextDueDate.setDate(nextDueDate.getDate() + 90); // 90 days after
-
-      await createSupervision({
-        staffId: supervision.staffId,
-        supervisorId: supervision.supervisorId,
-        staffName: supervision.staffName,
-        supervisor: supervision.supervisor,
-        date: nextDate,
-        nextDueDate: nextDueDate,
-        status: 'scheduled',
-        type: supervision.type,
-        site: supervision.site,
+  const recordSession = async (id: string, session: SupervisionSession) => {
+    try {
+      const now = Timestamp.now();
+      await updateDoc(doc(db, 'supervisions', id), {
+        status: 'completed',
+        notes: session.notes,
+        agenda: session.agenda,
+        actionPoints: session.actionPoints.map(point => ({
+          ...point,
+          completedAt: point.status === 'completed' ? point.completedAt || format(new Date(), 'yyyy-MM-dd') : null,
+        })),
+        completedAt: now,
+        updatedAt: now,
       });
+
+      // Close the tasks of overdue points that have now been dealt with
+      await Promise.all(session.actionPoints
+        .filter(point => point.status !== 'open')
+        .map(point => findActionPointTask(point, id))
+        .filter((task): task is NonNullable<typeof task> => !!task && task.status !== 'completed')
+        .map(task => updateTask(task.id, { status: 'completed' })));
     } catch (err) {
-      console.error('Error marking supervision complete:', err);
+      console.error('Error recording supervision:', err);
       throw err;
     }
   };
 
+  // A site's own template, else the default template document, else the built-in agenda
+  const getSupervisionTemplate = useCallback((site?: string): SupervisionTemplate =>
+    supervisionTemplates.find(template => site && template.site === site) ||
+    supervisionTemplates.find(template => template.site === '') ||
+    DEFAULT_SUPERVISION_TEMPLATE, [supervisionTemplates]);
+
+  const saveSupervisionTemplate = async (site: string, template: SupervisionTemplateInput) => {
+    try {
+      await setDoc(doc(db, 'supervisionTemplates', site || 'default'), {
+        ...template,
+        site,
+        updatedAt: Timestamp.now(),
+        updatedBy: currentUser?.uid || '',
+      });
+    } catch (err) {
+      console.error('Error saving supervision template:', err);
+      throw new Error('Failed to save supervision template');
+    }
+  };
+
+  const deleteSupervisionTemplate = async (site: string) => {
+    try {
+      await deleteDoc(doc(db, 'supervisionTemplates', site || 'default'));
+    } catch (err) {
+      console.error('Error deleting supervision template:', err);
+      throw new Error('Failed to delete supervision template');
+    }
+  };
+
   const sendReminder = async (supervisionId: string, message: string) => {
     try {
       const supervision = supervisions.find(s => s.id === supervisionId);
@@ -289,7 +444,7 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
         'supervision',
         'Supervision Reminder',
         message,
-        `/supervision/${supervisionId}`
+        `/supervision/${supervisionId}/questionnaire`
       );
 
       await updateDoc(doc(db, 'supervisions', supervisionId), {
@@ -301,6 +456,46 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
     }
   };
 
+  // Keyed by supervision so each session gets one questionnaire; functions
+  // then mark it completed on the supervision
+  const submitQuestionnaire = async (supervisionId: string, answers: QuestionnaireAnswers) => {
+    try {
+      const supervision = supervisions.find(s => s.id === supervisionId);
+      if (!supervision || !currentUser) throw new Error('Supervision not found');
+
+      await setDoc(doc(db, 'supervisionQuestionnaires', supervisionId), {
+        ...answers,
+        supervisionId,
+        staffId: currentUser.uid,
+        ...(userData?.name ? { staffName: userData.name } : {}),
+        // The rules require the supervision's own site
+        site: supervision.site ?? null,
+        submittedAt: Timestamp.now(),
+      });
+    } catch (err) {
+      console.error('Error submitting supervision questionnaire:', err);
+      throw err;
+    }
+  };
+
+  // Read from the questionnaire itself, which only its author can see;
+  // confidential answers leave no mark on the supervision
+  const hasSubmittedQuestionnaire = useCallback(async (supervisionId: string) => {
+    if (!currentUser) return false;
+
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'supervisionQuestionnaires'),
+        where('staffId', '==', currentUser.uid),
+        where('supervisionId', '==', supervisionId)
+      ));
+      return !snapshot.empty;
+    } catch (err) {
+      console.error('Error checking supervision questionnaire:', err);
+      throw err;
+    }
+  }, [currentUser]);
+
   return (
     <SupervisionContext.Provider
       value={{
@@ -312,7 +507,14 @@ export const SupervisionProvider: React.FC<{ children: React.ReactNode }> = ({ c
         updateSupervision,
         deleteSupervision,
         markComplete,
+        recordSession,
         sendReminder,
+        submitQuestionnaire,
+        hasSubmittedQuestionnaire,
+        supervisionTemplates,
+        getSupervisionTemplate,
+        saveSupervisionTemplate,
+        deleteSupervisionTemplate,
       }}
     >
       {children}
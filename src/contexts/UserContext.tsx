@@ -96,6 +96,8 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
             departmentId: data.departmentId || '',
             managerId: data.managerId || '',
             probationStatus: data.probationStatus || 'pending',
+            probationEndDate: data.probationEndDate || null,
+            probationOutcomes: data.probationOutcomes || [],
             trainingProgress: data.trainingProgress || {
               week1Review: false,
               week4Supervision: false,
@@ -120,6 +122,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
             contractedHours: data.contractedHours ?? DEFAULT_USER_DATA.contractedHours,
             annualLeave: data.annualLeave ?? DEFAULT_USER_DATA.annualLeave,
             sickness: data.sickness ?? DEFAULT_USER_DATA.sickness,
+            supervisionFrequencyWeeks: data.supervisionFrequencyWeeks ?? null,
             attendance: {
               attendanceRate: data.attendance?.attendanceRate ?? DEFAULT_USER_DATA.attendance.attendanceRate,
               lateDays: data.attendance?.lateDays ?? DEFAULT_USER_DATA.attendance.lateDays,
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useRotaContext } from '../contexts/RotaContext';
 import { useNotifications } from '../contexts/NotificationContext';
 import { 
@@ -28,8 +28,14 @@ export const useRota = (options: UseRotaOptions = {}) => {
   const {
     currentRota,
     staff,
+    currentSite,
+    availableSites,
+    otherSiteRotas,
+    shiftPatterns,
+    rotaVersions,
     isLoading,
     error,
+    setCurrentSite,
     loadRotaForWeek,
     createRota,
     updateRota,
@@ -40,7 +46,10 @@ export const useRota = (options: UseRotaOptions = {}) => {
     assignStaffToShift,
     removeStaffFromShift,
     getShiftSuggestions,
-    addShift
+    addShift,
+    saveShiftPatterns,
+    publishRota,
+    acknowledgeRotaVersion
   } = useRotaContext();
 
   const { notify } = useNotifications();
@@ -48,20 +57,26 @@ export const useRota = (options: UseRotaOptions = {}) => {
   const [selectedShiftId, setSelectedShiftId] = useState<string | null>(null);
   const [isNavigating, setIsNavigating] = useState(false);
 
-  // Load rota data when currentDate changes
+  const loadedKey = useRef<string | null>(null);
+
+  // Load the week's rota for a site, creating it if the site has none yet
+  const openRota = useCallback(async (date: Date, site: string = currentSite) => {
+    const rota = await loadRotaForWeek(date, site);
+    if (rota) return rota;
+    return createRota(format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd'), site);
+  }, [currentSite, loadRotaForWeek, createRota]);
+
+  // Load rota data when the week or site changes
   useEffect(() => {
-    const loadRotaData = async () => {
-      if (!autoLoad && !isNavigating) return;
+    if (!autoLoad || !currentSite) return;
+    const key = `${format(startOfWeek(currentDate, { weekStartsOn: 1 }), 'yyyy-MM-dd')}|${currentSite}`;
+    if (loadedKey.current === key) return;
+    loadedKey.current = key;
 
+    const loadRotaData = async () => {
       try {
         setIsNavigating(true);
-        await loadRotaForWeek(currentDate);
-        
-        // If no rota exists for this week, create one
-        if (!currentRota) {
-          const weekStart = format(startOfWeek(currentDate, { weekStartsOn: 1 }), 'yyyy-MM-dd');
-          await createRota(weekStart);
-        }
+        await openRota(currentDate, currentSite);
       } catch (err) {
         console.error('Error loading rota:', err);
         notify({
@@ -76,7 +91,7 @@ export const useRota = (options: UseRotaOptions = {}) => {
     };
 
     loadRotaData();
-  }, [currentDate, autoLoad, loadRotaForWeek, createRota, notify, currentRota, isNavigating]);
+  }, [currentDate, currentSite, autoLoad, openRota, notify]);
 
   const navigateToWeek = useCallback(async (date: Date) => {
     setCurrentDate(date);
@@ -175,13 +190,19 @@ export const useRota = (options: UseRotaOptions = {}) => {
 
   const generateRota = useCallback(async (options: AISchedulerOptions) => {
     try {
-      await generateAIRota(options);
+      const result = await generateAIRota(options);
+      if (!result) throw new Error('Rota was not generated');
+
+      const unfilled = result.unmet.reduce((sum, requirement) => sum + requirement.missing, 0);
       notify({
         type: 'system',
-        title: 'Success',
-        message: 'Rota generated successfully',
+        title: unfilled ? 'Rota Generated With Gaps' : 'Success',
+        message: unfilled
+          ? `${unfilled} place(s) could not be filled without breaking a constraint`
+          : 'Rota generated successfully',
         userId: 'system'
       });
+      return result;
     } catch (err) {
       console.error('Error generating rota:', err);
       notify({
@@ -190,6 +211,7 @@ export const useRota = (options: UseRotaOptions = {}) => {
         message: 'Failed to generate rota',
         userId: 'system'
       });
+      return null;
     }
   }, [generateAIRota, notify]);
 
@@ -237,6 +259,16 @@ export const useRota = (options: UseRotaOptions = {}) => {
     getShiftSuggestions,
     loadRotaForWeek,
     createRota,
+    openRota,
+    currentSite,
+    availableSites,
+    otherSiteRotas,
+    shiftPatterns,
+    saveShiftPatterns,
+    rotaVersions,
+    publishRota,
+    acknowledgeRotaVersion,
+    switchSite: setCurrentSite,
     isNavigating
   };
 };
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from 'react';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { format, subDays } from 'date-fns';
+import { db } from '../firebase/config';
+import { useAuth } from '../contexts/AuthContext';
+import { useTraining } from '../contexts/TrainingContext';
+import { User } from '../types';
+import { Rota, RotaVersion, Shift } from '../types/rota';
+import { buildTemplateValues, getPublishedShifts, TemplateValues } from '../utils/messageTemplates';
+
+// Rotas run a week from `startDate`, so older versions hold no shifts from today on
+const ROTA_WEEK_DAYS = 7;
+
+/**
+ * Resolves message template placeholders for a recipient on the client, for
+ * the live preview and for checking values before a message is sent.
+ */
+export const useTemplateValues = (enabled: boolean) => {
+  const { userData, isAdmin } = useAuth();
+  const { trainingRecords } = useTraining();
+  const [upcomingShifts, setUpcomingShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const loadShifts = async () => {
+      setLoading(true);
+      try {
+        const weekAgo = format(subDays(new Date(), ROTA_WEEK_DAYS), 'yyyy-MM-dd');
+        // Managers may only list the versions of their own sites' rotas
+        const sites = userData?.sites?.length ? userData.sites : [''];
+        const [rotas, versions] = await Promise.all([
+          getDocs(query(
+            collection(db, 'rotas'),
+            where('endDate', '>=', format(new Date(), 'yyyy-MM-dd'))
+          )),
+          getDocs(isAdmin
+            ? query(collection(db, 'rotaVersions'), where('startDate', '>=', weekAgo))
+            : query(collection(db, 'rotaVersions'), where('site', 'in', sites), where('startDate', '>=', weekAgo))),
+        ]);
+        if (cancelled) return;
+        const liveRotaIds = new Set(rotas.docs
+          .filter(rotaDoc => {
+            const rota = rotaDoc.data() as Rota;
+            return rota.status !== 'archived' && !rota.deleted && !rota.migratedTo;
+          })
+          .map(rotaDoc => rotaDoc.id));
+        setUpcomingShifts(getPublishedShifts(versions.docs.map(doc => doc.data() as RotaVersion), liveRotaIds));
+      } catch (err) {
+        console.error('Error loading upcoming shifts:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadShifts();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, isAdmin, userData?.sites]);
+
+  const getValues = useCallback(
+    (user: Pick<User, 'id' | 'name' | 'site'>, custom?: Record<string, string>): TemplateValues =>
+      buildTemplateValues(user, trainingRecords, upcomingShifts, custom),
+    [trainingRecords, upcomingShifts]
+  );
+
+  return { getValues, loading };
+};
+
+export default useTemplateValues;
@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { v4 as uuidv4 } from 'uuid';
+import { format, parseISO } from 'date-fns';
+import { DolsCondition, DolsConditionStatus } from '../../../types/dols';
+
+interface Props {
+  conditions: DolsCondition[];
+  onChange: (conditions: DolsCondition[]) => void;
+}
+
+const DolsConditionsEditor: React.FC<Props> = ({ conditions, onChange }) => {
+  const updateCondition = (id: string, updates: Partial<DolsCondition>) => {
+    onChange(conditions.map(c => (c.id === id ? { ...c, ...updates } : c)));
+  };
+
+  const addCondition = () => {
+    onChange([
+      ...conditions,
+      { id: uuidv4(), description: '', status: 'outstanding', dueDate: null, notes: '' },
+    ]);
+  };
+
+  const removeCondition = (id: string) => {
+    onChange(conditions.filter(c => c.id !== id));
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle2">Conditions</Typography>
+        <Button size="small" startIcon={<AddIcon />} onClick={addCondition}>
+          Add Condition
+        </Button>
+      </Box>
+
+      {conditions.length === 0 && (
+        <Typography variant="body2" color="textSecondary">
+          No conditions attached to this authorisation.
+        </Typography>
+      )}
+
+      {conditions.map((condition) => (
+        <Paper key={condition.id} variant="outlined" sx={{ p: 2, mb: 1 }}>
+          <Grid container spacing={2} alignItems="center">
+            <Grid item xs={11}>
+              <TextField
+                label="Condition"
+                fullWidth
+                required
+                size="small"
+                value={condition.description}
+                onChange={(e) => updateCondition(condition.id, { description: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={1}>
+              <IconButton size="small" onClick={() => removeCondition(condition.id)}>
+                <DeleteIcon />
+              </IconButton>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Status</InputLabel>
+                <Select
+                  value={condition.status}
+                  label="Status"
+                  onChange={(e) => updateCondition(condition.id, { status: e.target.value as DolsConditionStatus })}
+                >
+                  <MenuItem value="outstanding">Outstanding</MenuItem>
+                  <MenuItem value="met">Met</MenuItem>
+                  <MenuItem value="not_met">Not Met</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label="Due Date"
+                type="date"
+                fullWidth
+                size="small"
+                InputLabelProps={{ shrink: true }}
+                value={condition.dueDate ? format(condition.dueDate, 'yyyy-MM-dd') : ''}
+                onChange={(e) => updateCondition(condition.id, {
+                  dueDate: e.target.value ? parseISO(e.target.value) : null,
+                })}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Notes"
+                fullWidth
+                size="small"
+                value={condition.notes}
+                onChange={(e) => updateCondition(condition.id, { notes: e.target.value })}
+              />
+            </Grid>
+          </Grid>
+        </Paper>
+      ))}
+    </Box>
+  );
+};
+
+export default DolsConditionsEditor;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Step,
+  StepContent,
+  StepLabel,
+  Stepper,
+  Typography,
+} from '@mui/material';
+import { Assignment as TaskIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useDols } from '../../../contexts/DolsContext';
+import { useTask } from '../../../contexts/TaskContext';
+import { DolsRecord } from '../../../types/dols';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  residentName: string;
+}
+
+const formatDate = (date: Date | null) => (date ? format(date, 'MMM d, yyyy') : '—');
+
+const getStatusColor = (status: DolsRecord['status']) => {
+  switch (status) {
+    case 'active':
+      return 'success';
+    case 'pending':
+      return 'warning';
+    case 'renewed':
+      return 'info';
+    default:
+      return 'error';
+  }
+};
+
+const DolsTimelineDialog: React.FC<Props> = ({ open, onClose, residentName }) => {
+  const { getResidentHistory, createRenewalTask } = useDols();
+  const { tasks } = useTask();
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+
+  const history = useMemo(() => getResidentHistory(residentName), [getResidentHistory, residentName]);
+
+  const handleCreateTask = async (record: DolsRecord) => {
+    setCreatingFor(record.id);
+    try {
+      await createRenewalTask(record);
+    } catch (error) {
+      console.error('Error creating renewal task:', error);
+    } finally {
+      setCreatingFor(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Authorisation History — {residentName}</DialogTitle>
+      <DialogContent>
+        {history.length === 0 ? (
+          <Typography color="textSecondary">No authorisations recorded.</Typography>
+        ) : (
+          <Stepper orientation="vertical" activeStep={history.length - 1}>
+            {history.map((record) => {
+              const renewalTask = tasks.find(
+                t => t.relatedRecordType === 'dols' && t.relatedRecordId === record.id
+              );
+              const metConditions = record.conditions.filter(c => c.status === 'met').length;
+
+              return (
+                <Step key={record.id} expanded completed={record.status === 'renewed'}>
+                  <StepLabel>
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <Typography variant="subtitle2">
+                        {record.scheme === 'lps' ? 'LPS' : 'DoLS'} applied {formatDate(record.applicationDate)}
+                      </Typography>
+                      <Chip label={record.status} size="small" color={getStatusColor(record.status)} />
+                    </Box>
+                  </StepLabel>
+                  <StepContent>
+                    <Stack spacing={0.5}>
+                      <Typography variant="body2" color="textSecondary">
+                        Authorised {formatDate(record.startDate)} to {formatDate(record.expiryDate)}
+                      </Typography>
+                      <Typography variant="body2" color="textSecondary">
+                        {record.supervisingBody || 'Supervising body not recorded'}
+                        {record.supervisingBodyReference && ` — ref ${record.supervisingBodyReference}`}
+                      </Typography>
+                      {record.conditions.length > 0 && (
+                        <Typography variant="body2" color="textSecondary">
+                          Conditions met: {metConditions}/{record.conditions.length}
+                        </Typography>
+                      )}
+                      {renewalTask ? (
+                        <Box>
+                          <Chip
+                            icon={<TaskIcon />}
+                            size="small"
+                            variant="outlined"
+                            label={`Renewal task ${renewalTask.status.replace('_', ' ')} — due ${formatDate(renewalTask.dueDate)}`}
+                          />
+                        </Box>
+                      ) : record.status === 'active' && !record.renewedById && (
+                        <Box>
+                          <Button
+                            size="small"
+                            startIcon={<TaskIcon />}
+                            disabled={creatingFor === record.id}
+                            onClick={() => handleCreateTask(record)}
+                          >
+                            Create Renewal Task
+                          </Button>
+                        </Box>
+                      )}
+                    </Stack>
+                  </StepContent>
+                </Step>
+              );
+            })}
+          </Stepper>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DolsTimelineDialog;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Box,
   Button,
@@ -34,80 +34,47 @@ import {
   Star as StarIcon,
   EmojiEvents as TrophyIcon,
   Assignment as DoLSIcon,
+  Autorenew as RenewIcon,
+  Timeline as TimelineIcon,
 } from '@mui/icons-material';
-import { collection, addDoc, deleteDoc, doc, updateDoc, query, onSnapshot } from 'firebase/firestore';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage } from '../../firebase/config';
 import { useAuth } from '../../contexts/AuthContext';
-import { format, addDays, isBefore, differenceInDays } from 'date-fns';
+import { useDols } from '../../contexts/DolsContext';
+import { DolsRecord, DolsFormData, DolsStatus, DolsUrgency, DolsScheme, DolsCondition } from '../../types/dols';
+import { format, parseISO, differenceInDays } from 'date-fns';
 import { alpha, useTheme } from '@mui/material/styles';
+import DolsConditionsEditor from './components/DolsConditionsEditor';
+import DolsTimelineDialog from './components/DolsTimelineDialog';
 
-interface DolsRecord {
-  id: string;
-  residentName: string;
-  status: 'pending' | 'active' | 'expired' | 'rejected';
-  applicationDate: string;
-  startDate: string;
-  endDate: string;
-  supervisingBody: string;
-  assessor: string;
-  documentUrl?: string;
-  notes: string;
-  urgencyLevel: 'standard' | 'urgent' | 'critical';
-  reminderSent: boolean;
-}
+// Date inputs work in yyyy-MM-dd strings; the context works in Dates
+const toInputDate = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : '');
+const fromInputDate = (value: string) => (value ? parseISO(value) : null);
 
 const DolsPage = () => {
   const theme = useTheme();
-  const { currentUser } = useAuth();
-  const [records, setRecords] = useState<DolsRecord[]>([]);
+  const { currentUser, userData } = useAuth();
+  const { records, addRecord, updateRecord, deleteRecord, uploadDocument, renewRecord } = useDols();
   const [open, setOpen] = useState(false);
   const [editingRecord, setEditingRecord] = useState<DolsRecord | null>(null);
+  const [renewingRecord, setRenewingRecord] = useState<DolsRecord | null>(null);
+  const [timelineResident, setTimelineResident] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [hoveredCard, setHoveredCard] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     residentName: '',
-    status: 'pending',
+    site: '',
+    scheme: 'dols' as DolsScheme,
+    status: 'pending' as DolsStatus,
     applicationDate: '',
     startDate: '',
-    endDate: '',
+    expiryDate: '',
     supervisingBody: '',
+    supervisingBodyReference: '',
     assessor: '',
     notes: '',
-    urgencyLevel: 'standard',
+    urgencyLevel: 'standard' as DolsUrgency,
+    conditions: [] as DolsCondition[],
   });
 
-  useEffect(() => {
-    if (!currentUser) return;
-
-    const q = query(collection(db, 'dols'));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const dolsData: DolsRecord[] = [];
-      snapshot.forEach((doc) => {
-        const record = { id: doc.id, ...doc.data() } as DolsRecord;
-        
-        // Calculate status based on dates
-        const today = new Date();
-        const endDate = new Date(record.endDate);
-        const daysUntilExpiry = differenceInDays(endDate, today);
-
-        if (record.status === 'active' && isBefore(endDate, today)) {
-          record.status = 'expired';
-        }
-
-        // Set reminder flag if approaching expiry
-        if (record.status === 'active' && daysUntilExpiry <= 30 && !record.reminderSent) {
-          updateDoc(doc.ref, { reminderSent: true });
-        }
-
-        dolsData.push(record);
-      });
-      setRecords(dolsData.sort((a, b) => new Date(b.applicationDate).getTime() - new Date(a.applicationDate).getTime()));
-    });
-
-    return () => unsubscribe();
-  }, [currentUser]);
-
   // Calculate achievements
   const achievements = useMemo(() => {
     const activeRecords = records.filter(r => r.status === 'active').length;
@@ -179,35 +146,67 @@ const DolsPage = () => {
       setEditingRecord(record);
       setFormData({
         residentName: record.residentName,
+        site: record.site,
+        scheme: record.scheme,
         status: record.status,
-        applicationDate: record.applicationDate,
-        startDate: record.startDate,
-        endDate: record.endDate,
+        applicationDate: toInputDate(record.applicationDate),
+        startDate: toInputDate(record.startDate),
+        expiryDate: toInputDate(record.expiryDate),
         supervisingBody: record.supervisingBody,
+        supervisingBodyReference: record.supervisingBodyReference,
         assessor: record.assessor,
         notes: record.notes,
         urgencyLevel: record.urgencyLevel,
+        conditions: record.conditions,
       });
     } else {
       setEditingRecord(null);
       setFormData({
         residentName: '',
+        site: userData?.site || userData?.sites?.[0] || '',
+        scheme: 'dols',
         status: 'pending',
         applicationDate: format(new Date(), 'yyyy-MM-dd'),
         startDate: '',
-        endDate: '',
+        expiryDate: '',
         supervisingBody: '',
+        supervisingBodyReference: '',
         assessor: '',
         notes: '',
         urgencyLevel: 'standard',
+        conditions: [],
       });
     }
     setOpen(true);
   };
 
+  // A renewal is a new application that starts from the current authorisation
+  const handleRenew = (record: DolsRecord) => {
+    setEditingRecord(null);
+    setRenewingRecord(record);
+    setFormData({
+      residentName: record.residentName,
+      site: record.site,
+      scheme: record.scheme,
+      status: 'pending',
+      applicationDate: format(new Date(), 'yyyy-MM-dd'),
+      startDate: '',
+      expiryDate: '',
+      supervisingBody: record.supervisingBody,
+      supervisingBodyReference: '',
+      assessor: record.assessor,
+      notes: '',
+      urgencyLevel: record.urgencyLevel,
+      // Conditions carry over but have to be evidenced again
+      conditions: record.conditions.map(c => ({ ...c, status: 'outstanding', dueDate: null })),
+    });
+    setOpen(true);
+  };
+
   const handleClose = () => {
     setOpen(false);
     setEditingRecord(null);
+    setRenewingRecord(null);
     setSelectedFile(null);
   };
 
@@ -222,24 +221,24 @@ const DolsPage = () => {
     if (!currentUser) return;
 
     try {
-      let documentUrl = editingRecord?.documentUrl;
-
-      if (selectedFile) {
-        const storageRef = ref(storage, `dols-documents/${selectedFile.name}`);
-        const snapshot = await uploadBytes(storageRef, selectedFile);
-        documentUrl = await getDownloadURL(snapshot.ref);
-      }
-
-      const dolsData = {
+      const dolsData: DolsFormData = {
         ...formData,
-        documentUrl,
-        reminderSent: editingRecord?.reminderSent || false,
+        applicationDate: fromInputDate(formData.applicationDate) || new Date(),
+        startDate: fromInputDate(formData.startDate),
+        expiryDate: fromInputDate(formData.expiryDate),
       };
 
-      if (editingRecord) {
-        await updateDoc(doc(db, 'dols', editingRecord.id), dolsData);
+      let recordId = editingRecord?.id;
+      if (recordId) {
+        await updateRecord(recordId, dolsData);
+      } else if (renewingRecord) {
+        recordId = await renewRecord(renewingRecord, dolsData);
       } else {
-        await addDoc(collection(db, 'dols'), dolsData);
+        recordId = await addRecord(dolsData);
+      }
+
+      if (selectedFile) {
+        await uploadDocument(recordId, selectedFile);
       }
       handleClose();
     } catch (error) {
@@ -249,7 +248,7 @@ const DolsPage = () => {
 
   const handleDelete = async (recordId: string) => {
     try {
-      await deleteDoc(doc(db, 'dols', recordId));
+      await deleteRecord(recordId);
     } catch (error) {
       console.error('Error deleting DoLS record:', error);
     }
@@ -265,11 +264,24 @@ const DolsPage = () => {
         return 'error';
       case 'rejected':
         return 'error';
+      case 'renewed':
+        return 'info';
       default:
         return 'default';
     }
   };
 
+  const getConditionColor = (status: DolsCondition['status']) => {
+    switch (status) {
+      case 'met':
+        return 'success';
+      case 'not_met':
+        return 'error';
+      default:
+        return 'warning';
+    }
+  };
+
   const getUrgencyColor = (urgency: string) => {
     switch (urgency) {
       case 'critical':
@@ -329,6 +341,24 @@ const DolsPage = () => {
                             {record.residentName}
                           </Typography>
                           <Box>
+                            <Tooltip title="Authorisation history">
+                              <IconButton
+                                size="small"
+                                onClick={() => setTimelineResident(record.residentName)}
+                              >
+                                <TimelineIcon />
+                              </IconButton>
+                            </Tooltip>
+                            {['active', 'expired'].includes(record.status) && !record.renewedById && (
+                              <Tooltip title="Apply for renewal">
+                                <IconButton
+                                  size="small"
+                                  onClick={() => handleRenew(record)}
+                                >
+                                  <RenewIcon />
+                                </IconButton>
+                              </Tooltip>
+                            )}
                             <IconButton 
                               size="small" 
                               onClick={() => handleOpen(record)}
@@ -353,6 +383,11 @@ const DolsPage = () => {
                         </Box>
                         
                         <Box display="flex" gap={1}>
+                          <Chip
+                            label={record.scheme === 'lps' ? 'LPS' : 'DoLS'}
+                            variant="outlined"
+                            size="small"
+                          />
                           <Chip
                             label={record.status}
                             color={getStatusColor(record.status)}
@@ -375,16 +410,16 @@ const DolsPage = () => {
 
                         <Box>
                           <Typography variant="body2" color="textSecondary">
-                            Application Date: {format(new Date(record.applicationDate), 'MMM d, yyyy')}
+                            Application Date: {format(record.applicationDate, 'MMM d, yyyy')}
                           </Typography>
                           {record.startDate && (
                             <Typography variant="body2" color="textSecondary">
-                              Start Date: {format(new Date(record.startDate), 'MMM d, yyyy')}
+                              Start Date: {format(record.startDate, 'MMM d, yyyy')}
                             </Typography>
                           )}
-                          {record.endDate && (
+                          {record.expiryDate && (
                             <Typography variant="body2" color="textSecondary">
-                              End Date: {format(new Date(record.endDate), 'MMM d, yyyy')}
+                              Expiry Date: {format(record.expiryDate, 'MMM d, yyyy')}
                             </Typography>
                           )}
                         </Box>
@@ -393,6 +428,11 @@ const DolsPage = () => {
                           <Typography variant="body2" color="textSecondary">
                             Supervising Body: {record.supervisingBody}
                           </Typography>
+                          {record.supervisingBodyReference && (
+                            <Typography variant="body2" color="textSecondary">
+                              Reference: {record.supervisingBodyReference}
+                            </Typography>
+                          )}
                           <Typography variant="body2" color="textSecondary">
                             Assessor: {record.assessor}
                           </Typography>
@@ -404,30 +444,63 @@ const DolsPage = () => {
                           </Typography>
                         )}
 
-                        {record.documentUrl && (
-                          <Button
-                            startIcon={<AttachmentIcon />}
-                            size="small"
-                            href={record.documentUrl}
-                            target="_blank"
-                            sx={{
-                              transition: 'all 0.3s ease',
-                              transform: hoveredCard === record.id ? 'scale(1.05)' : 'scale(1)',
-                            }}
-                          >
-                            View Document
-                          </Button>
+                        {record.conditions.length > 0 && (
+                          <Box>
+                            <Typography variant="body2" color="textSecondary">
+                              Conditions
+                            </Typography>
+                            {record.conditions.map((condition) => (
+                              <Box key={condition.id} display="flex" alignItems="center" gap={1} mt={0.5}>
+                                <Chip
+                                  label={condition.status.replace('_', ' ')}
+                                  size="small"
+                                  color={getConditionColor(condition.status)}
+                                />
+                                <Typography variant="body2">
+                                  {condition.description}
+                                  {condition.dueDate && ` (due ${format(condition.dueDate, 'MMM d, yyyy')})`}
+                                </Typography>
+                              </Box>
+                            ))}
+                          </Box>
+                        )}
+
+                        {record.documents.length > 0 && (
+                          <Box>
+                            <Typography variant="body2" color="textSecondary">
+                              Documents
+                            </Typography>
+                            {[...record.documents]
+                              .sort((a, b) => b.uploadDate.toMillis() - a.uploadDate.toMillis())
+                              .map((document) => (
+                                <Button
+                                  key={document.url}
+                                  startIcon={<AttachmentIcon />}
+                                  size="small"
+                                  href={document.url}
+                                  target="_blank"
+                                  sx={{
+                                    display: 'flex',
+                                    justifyContent: 'flex-start',
+                                    transition: 'all 0.3s ease',
+                                    transform: hoveredCard === record.id ? 'scale(1.05)' : 'scale(1)',
+                                  }}
+                                >
+                                  {document.name} ({format(document.uploadDate.toDate(), 'MMM d, yyyy')})
+                                </Button>
+                              ))}
+                          </Box>
                         )}
 
-                        {record.status === 'active' && record.endDate && (
+                        {record.status === 'active' && record.expiryDate && (
                           <Fade in>
                             <Alert 
-                              severity={differenceInDays(new Date(record.endDate), new Date()) <= 30 ? 'warning' : 'info'}
+                              severity={differenceInDays(record.expiryDate, new Date()) <= 30 ? 'warning' : 'info'}
                               sx={{ 
-                                animation: differenceInDays(new Date(record.endDate), new Date()) <= 30 ? 'pulse 2s infinite' : 'none',
+                                animation: differenceInDays(record.expiryDate, new Date()) <= 30 ? 'pulse 2s infinite' : 'none',
                               }}
                             >
-                              {differenceInDays(new Date(record.endDate), new Date())} days until expiry
+                              {differenceInDays(record.expiryDate, new Date())} days until expiry
                             </Alert>
                           </Fade>
                         )}
@@ -442,7 +515,13 @@ const DolsPage = () => {
       </Fade>
 
       <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
-        <DialogTitle>{editingRecord ? 'Edit DoLS Record' : 'New DoLS Application'}</DialogTitle>
+        <DialogTitle>
+          {editingRecord
+            ? 'Edit DoLS Record'
+            : renewingRecord
+              ? `Renewal Application — ${renewingRecord.residentName}`
+              : 'New DoLS Application'}
+        </DialogTitle>
         <form onSubmit={handleSubmit}>
           <DialogContent>
             <Grid container spacing={2}>
@@ -456,18 +535,48 @@ const DolsPage = () => {
                 />
               </Grid>
               
+              <Grid item xs={12}>
+                <FormControl fullWidth required>
+                  <InputLabel>Site</InputLabel>
+                  <Select
+                    value={formData.site}
+                    label="Site"
+                    onChange={(e) => setFormData({ ...formData, site: e.target.value })}
+                  >
+                    {(userData?.sites || []).map((site) => (
+                      <MenuItem key={site} value={site}>{site}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+
+              <Grid item xs={12}>
+                <FormControl fullWidth>
+                  <InputLabel>Scheme</InputLabel>
+                  <Select
+                    value={formData.scheme}
+                    label="Scheme"
+                    onChange={(e) => setFormData({ ...formData, scheme: e.target.value as DolsScheme })}
+                  >
+                    <MenuItem value="dols">Deprivation of Liberty Safeguards (DoLS)</MenuItem>
+                    <MenuItem value="lps">Liberty Protection Safeguards (LPS)</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+
               <Grid item xs={12} sm={6}>
                 <FormControl fullWidth>
                   <InputLabel>Status</InputLabel>
                   <Select
                     value={formData.status}
                     label="Status"
-                    onChange={(e) => setFormData({ ...formData, status: e.target.value as any })}
+                    onChange={(e) => setFormData({ ...formData, status: e.target.value as DolsStatus })}
                   >
                     <MenuItem value="pending">Pending</MenuItem>
                     <MenuItem value="active">Active</MenuItem>
                     <MenuItem value="expired">Expired</MenuItem>
                     <MenuItem value="rejected">Rejected</MenuItem>
+                    <MenuItem value="renewed">Renewed</MenuItem>
                   </Select>
                 </FormControl>
               </Grid>
@@ -478,7 +587,7 @@ const DolsPage = () => {
                   <Select
                     value={formData.urgencyLevel}
                     label="Urgency Level"
-                    onChange={(e) => setFormData({ ...formData, urgencyLevel: e.target.value as any })}
+                    onChange={(e) => setFormData({ ...formData, urgencyLevel: e.target.value as DolsUrgency })}
                   >
                     <MenuItem value="standard">Standard</MenuItem>
                     <MenuItem value="urgent">Urgent</MenuItem>
@@ -512,12 +621,12 @@ const DolsPage = () => {
 
               <Grid item xs={12} sm={6}>
                 <TextField
-                  label="End Date"
+                  label="Expiry Date"
                   type="date"
                   fullWidth
                   InputLabelProps={{ shrink: true }}
-                  value={formData.endDate}
-                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  value={formData.expiryDate}
+                  onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
                 />
               </Grid>
 
@@ -530,6 +639,15 @@ const DolsPage = () => {
                 />
               </Grid>
 
+              <Grid item xs={12}>
+                <TextField
+                  label="Supervising Body Reference"
+                  fullWidth
+                  value={formData.supervisingBodyReference}
+                  onChange={(e) => setFormData({ ...formData, supervisingBodyReference: e.target.value })}
+                />
+              </Grid>
+
               <Grid item xs={12}>
                 <TextField
                   label="Assessor"
@@ -550,6 +668,13 @@ const DolsPage = () => {
                 />
               </Grid>
 
+              <Grid item xs={12}>
+                <DolsConditionsEditor
+                  conditions={formData.conditions}
+                  onChange={(conditions) => setFormData({ ...formData, conditions })}
+                />
+              </Grid>
+
               <Grid item xs={12}>
                 <Button
                   variant="outlined"
@@ -592,12 +717,20 @@ const DolsPage = () => {
                 },
               }}
             >
-              {editingRecord ? 'Update' : 'Create'}
+              {editingRecord ? 'Update' : renewingRecord ? 'Submit Renewal' : 'Create'}
             </Button>
           </DialogActions>
         </form>
       </Dialog>
 
+      {timelineResident && (
+        <DolsTimelineDialog
+          open
+          residentName={timelineResident}
+          onClose={() => setTimelineResident(null)}
+        />
+      )}
+
       <style>
         {`
           @keyframes pulse {
@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useLeave } from '../../../contexts/LeaveContext';
+import {
+  DEFAULT_LEAVE_POLICY,
+  LEAVE_ACCRUAL_LABELS,
+  LeaveAccrual,
+  LeaveBlackout,
+  LeavePolicyInput,
+} from '../../../types/leave';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  sites: string[];
+}
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const toInput = ({
+  name,
+  yearStartMonth,
+  yearStartDay,
+  fullTimeHours,
+  partTimeAccrual,
+  carryForwardCap,
+  maxStaffOffPerDay,
+  blackoutPeriods,
+}: LeavePolicyInput): LeavePolicyInput => ({
+  name,
+  yearStartMonth,
+  yearStartDay,
+  fullTimeHours,
+  partTimeAccrual,
+  carryForwardCap,
+  maxStaffOffPerDay: maxStaffOffPerDay ?? null,
+  blackoutPeriods: blackoutPeriods || [],
+});
+
+const LeavePolicyDialog: React.FC<Props> = ({ open, onClose, sites }) => {
+  const { leavePolicies, saveLeavePolicy, deleteLeavePolicy } = useLeave();
+  const [site, setSite] = useState('');
+  const [form, setForm] = useState<LeavePolicyInput>(toInput(DEFAULT_LEAVE_POLICY));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const existing = leavePolicies.find(policy => policy.site === site);
+
+  useEffect(() => {
+    if (!open) return;
+    const fallback = leavePolicies.find(policy => policy.site === '') || DEFAULT_LEAVE_POLICY;
+    setForm(toInput(existing || {
+      ...fallback,
+      name: site ? `${site} policy` : fallback.name,
+    }));
+    setError(null);
+  }, [open, site, existing, leavePolicies]);
+
+  const updateBlackout = (index: number, changes: Partial<LeaveBlackout>) => setForm(prev => ({
+    ...prev,
+    blackoutPeriods: prev.blackoutPeriods.map((period, i) => (i === index ? { ...period, ...changes } : period)),
+  }));
+
+  const handleAddBlackout = () => setForm(prev => ({
+    ...prev,
+    blackoutPeriods: [...prev.blackoutPeriods, { id: `${Date.now()}`, name: '', startDate: '', endDate: '' }],
+  }));
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    // Every month has a 28th, so the year starts on the same date each year
+    if (!(form.yearStartDay >= 1 && form.yearStartDay <= 28)) {
+      setError('The leave year must start between the 1st and the 28th of the month');
+      return;
+    }
+    if (!(form.fullTimeHours > 0)) {
+      setError('Full-time hours must be greater than zero');
+      return;
+    }
+    if (!(form.carryForwardCap >= 0)) {
+      setError('The carry forward cap cannot be negative');
+      return;
+    }
+    if (form.maxStaffOffPerDay !== null && !(form.maxStaffOffPerDay >= 1)) {
+      setError('At least one member of staff must be allowed off each day');
+      return;
+    }
+    if (form.blackoutPeriods.some(period => !period.name.trim() || !period.startDate || !period.endDate)) {
+      setError('Every blackout period needs a name, start and end date');
+      return;
+    }
+    if (form.blackoutPeriods.some(period => period.endDate < period.startDate)) {
+      setError('A blackout period cannot end before it starts');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveLeavePolicy(site, {
+        ...form,
+        name: form.name.trim(),
+        blackoutPeriods: form.blackoutPeriods.map(period => ({ ...period, name: period.name.trim() })),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove the ${site} policy? The site will use the default policy.`)) return;
+    try {
+      await deleteLeavePolicy(site);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove policy');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Leave Policies</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12}>
+            <FormControl fullWidth>
+              <InputLabel>Applies to</InputLabel>
+              <Select value={site} label="Applies to" onChange={(e) => setSite(e.target.value)}>
+                <MenuItem value="">Default (sites without their own policy)</MenuItem>
+                {sites.map(s => (
+                  <MenuItem key={s} value={s}>
+                    {s}{leavePolicies.some(policy => policy.site === s) ? '' : ' (uses default)'}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              label="Policy name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </Grid>
+          <Grid item xs={8} sm={4}>
+            <TextField
+              select
+              fullWidth
+              label="Leave year starts"
+              value={form.yearStartMonth}
+              onChange={(e) => setForm(prev => ({ ...prev, yearStartMonth: Number(e.target.value) }))}
+            >
+              {MONTHS.map((month, index) => (
+                <MenuItem key={month} value={index + 1}>{month}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={4} sm={2}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Day"
+              value={form.yearStartDay}
+              inputProps={{ min: 1, max: 28 }}
+              onChange={(e) => setForm(prev => ({ ...prev, yearStartDay: Number(e.target.value) }))}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Full-time hours per week"
+              helperText="Earns a user's whole annual leave allowance"
+              value={form.fullTimeHours}
+              inputProps={{ min: 1, step: 0.5 }}
+              onChange={(e) => setForm(prev => ({ ...prev, fullTimeHours: Number(e.target.value) }))}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              select
+              fullWidth
+              label="Part-time staff"
+              value={form.partTimeAccrual}
+              onChange={(e) => setForm(prev => ({ ...prev, partTimeAccrual: e.target.value as LeaveAccrual }))}
+            >
+              {Object.entries(LEAVE_ACCRUAL_LABELS).map(([accrual, label]) => (
+                <MenuItem key={accrual} value={accrual}>{label}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Carry forward cap (days)"
+              helperText="Unused days kept into the next year"
+              value={form.carryForwardCap}
+              inputProps={{ min: 0, step: 0.5 }}
+              onChange={(e) => setForm(prev => ({ ...prev, carryForwardCap: Number(e.target.value) }))}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Most staff off per day"
+              helperText="Leave blank for no limit"
+              value={form.maxStaffOffPerDay ?? ''}
+              inputProps={{ min: 1 }}
+              onChange={(e) => setForm(prev => ({
+                ...prev,
+                maxStaffOffPerDay: e.target.value === '' ? null : Number(e.target.value),
+              }))}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="subtitle2">Blackout periods</Typography>
+            <Typography variant="caption" color="text.secondary">
+              No leave can be requested on these dates
+            </Typography>
+          </Grid>
+          {form.blackoutPeriods.map((period, index) => (
+            <React.Fragment key={period.id}>
+              <Grid item xs={12} sm={5}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Name"
+                  placeholder="e.g. Christmas"
+                  value={period.name}
+                  onChange={(e) => updateBlackout(index, { name: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={5} sm={3}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="date"
+                  label="From"
+                  InputLabelProps={{ shrink: true }}
+                  value={period.startDate}
+                  onChange={(e) => updateBlackout(index, { startDate: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={5} sm={3}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="date"
+                  label="To"
+                  InputLabelProps={{ shrink: true }}
+                  value={period.endDate}
+                  onChange={(e) => updateBlackout(index, { endDate: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={2} sm={1}>
+                <IconButton
+                  onClick={() => setForm(prev => ({
+                    ...prev,
+                    blackoutPeriods: prev.blackoutPeriods.filter((_, i) => i !== index),
+                  }))}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Grid>
+            </React.Fragment>
+          ))}
+          <Grid item xs={12}>
+            <Button startIcon={<AddIcon />} onClick={handleAddBlackout}>
+              Add Blackout Period
+            </Button>
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="caption" color="text.secondary">
+              Entitlement is each user's annual leave allowance, prorated by contracted hours and by a
+              start date part way through the year. Balances are recalculated when a policy is saved.
+            </Typography>
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        {site && existing && (
+          <Button color="error" onClick={handleRemove} sx={{ mr: 'auto' }}>
+            Use Default
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Policy'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LeavePolicyDialog;
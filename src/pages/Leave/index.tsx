@@ -25,12 +25,16 @@ import {
   AccessTime as TimeIcon,
   CheckCircle as CheckCircleIcon,
   EmojiEvents as AchievementIcon,
-  Close as CloseIcon
+  Close as CloseIcon,
+  Rule as PolicyIcon
 } from '@mui/icons-material';
 import PageHeader from '../../components/Common/PageHeader';
 import { LeaveRequestForm } from '../../components/Leave/LeaveRequestForm';
 import { LeaveRequestList } from '../../components/Leave/LeaveRequestList';
 import { useLeave } from '../../contexts/LeaveContext';
+import { useAuth } from '../../contexts/AuthContext';
+import useUserData from '../../hooks/useUserData';
+import LeavePolicyDialog from './components/LeavePolicyDialog';
 import { ActionButton } from '../../types';
 import { format, isAfter, isBefore } from 'date-fns';
 
@@ -47,8 +51,11 @@ const StyledCard = styled(Card)(({ theme }) => ({
 
 const LeavePage: React.FC = () => {
   const theme = useTheme();
-  const { leaveEntitlement, leaveRequests, isLoading } = useLeave();
+  const { leaveEntitlement, leaveYear, leaveRequests, isLoading } = useLeave();
+  const { isAdmin } = useAuth();
+  const { users } = useUserData();
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
 
   const stats = useMemo(() => {
@@ -74,9 +81,22 @@ const LeavePage: React.FC = () => {
       color: 'primary',
       variant: 'contained',
       tooltip: 'Create a new leave request'
-    }
+    },
+    ...(isAdmin ? [{
+      label: 'Leave Policies',
+      icon: <PolicyIcon />,
+      onClick: () => setPolicyDialogOpen(true),
+      color: 'primary' as const,
+      variant: 'outlined' as const,
+      tooltip: 'Leave years, part-time accrual and carry forward'
+    }] : [])
   ];
 
+  const sites = useMemo(
+    () => Array.from(new Set(users.map(user => user.site).filter((site): site is string => !!site))),
+    [users]
+  );
+
   const handleFormClose = () => {
     setIsFormOpen(false);
   };
@@ -103,7 +123,7 @@ const LeavePage: React.FC = () => {
                   {leaveEntitlement?.remainingDays ?? 0}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  days remaining
+                  days remaining in {leaveYear.label}
                 </Typography>
                 <LinearProgress
                   variant="determinate"
@@ -267,6 +287,12 @@ const LeavePage: React.FC = () => {
             </DialogContent>
           </Dialog>
 
+          <LeavePolicyDialog
+            open={policyDialogOpen}
+            onClose={() => setPolicyDialogOpen(false)}
+            sites={sites}
+          />
+
           <Fade in={showSuccess}>
             <Alert
               severity="success"
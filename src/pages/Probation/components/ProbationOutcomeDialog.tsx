@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { addWeeks, format, parseISO } from 'date-fns';
+import { User } from '../../../types';
+import { PROBATION_DECISION_LABELS, ProbationDecision } from '../../../types/probation';
+import { recordProbationOutcome } from '../../../services/probationService';
+
+interface Props {
+  user: User;
+  onClose: () => void;
+  onRecorded: (message: string) => void;
+}
+
+// Mounted per starter, so the form starts empty for each one
+const ProbationOutcomeDialog: React.FC<Props> = ({ user, onClose, onRecorded }) => {
+  const [decision, setDecision] = useState<ProbationDecision>('pass');
+  const [reason, setReason] = useState('');
+  const [extendedTo, setExtendedTo] = useState(() => format(addWeeks(
+    user.probationEndDate ? parseISO(user.probationEndDate) : new Date(), 4), 'yyyy-MM-dd'));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!reason.trim()) {
+      setError('Give a reason for the decision');
+      return;
+    }
+    if (decision === 'extend' && extendedTo <= format(new Date(), 'yyyy-MM-dd')) {
+      setError('The new end date must be in the future');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordProbationOutcome({
+        userId: user.id,
+        decision,
+        reason: reason.trim(),
+        extendedTo: decision === 'extend' ? extendedTo : null,
+      });
+      onRecorded(decision === 'extend'
+        ? `${user.name}'s probation extended to ${format(parseISO(extendedTo), 'd MMM yyyy')}`
+        : `${user.name}'s probation recorded as ${PROBATION_DECISION_LABELS[decision].toLowerCase()}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record outcome');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Probation Outcome — {user.name}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            select
+            fullWidth
+            label="Decision"
+            value={decision}
+            onChange={(e) => setDecision(e.target.value as ProbationDecision)}
+          >
+            {Object.entries(PROBATION_DECISION_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>{label}</MenuItem>
+            ))}
+          </TextField>
+          {decision === 'extend' && (
+            <TextField
+              fullWidth
+              type="date"
+              label="Extend to"
+              InputLabelProps={{ shrink: true }}
+              value={extendedTo}
+              onChange={(e) => setExtendedTo(e.target.value)}
+              helperText="A probation review is booked for this date"
+            />
+          )}
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+
+          {!!user.probationOutcomes?.length && (
+            <Box>
+              <Typography variant="subtitle2">Previous decisions</Typography>
+              {user.probationOutcomes.map(outcome => (
+                <Box key={outcome.decidedAt} sx={{ mt: 1 }}>
+                  <Typography variant="body2">
+                    {PROBATION_DECISION_LABELS[outcome.decision]}
+                    {outcome.extendedTo && ` to ${format(parseISO(outcome.extendedTo), 'd MMM yyyy')}`}
+                    {' — '}{outcome.reason}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {outcome.decidedByName}, {format(parseISO(outcome.decidedAt), 'd MMM yyyy')}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          color={decision === 'fail' ? 'error' : 'primary'}
+          onClick={handleSave}
+          disabled={saving}
+        >
+          {saving ? 'Saving...' : 'Record Outcome'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProbationOutcomeDialog;
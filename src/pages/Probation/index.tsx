@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Snackbar,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  CheckCircle as DoneIcon,
+  RadioButtonUnchecked as PendingIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import PageHeader from '../../components/Common/PageHeader';
+import { useSupervision } from '../../contexts/SupervisionContext';
+import { useUsers } from '../../contexts/UserContext';
+import { User } from '../../types';
+import { PROBATION_MILESTONES, PROBATION_STATUS_LABELS } from '../../types/probation';
+import { getProbationStage, getProbationStatus, isNewStarter } from '../../utils/probation';
+import { getStartDate } from '../../utils/supervisionSchedule';
+import ProbationOutcomeDialog from './components/ProbationOutcomeDialog';
+
+const ProbationPage: React.FC = () => {
+  const { supervisions, loading } = useSupervision();
+  const { users, loading: usersLoading } = useUsers();
+  const [deciding, setDeciding] = useState<User | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const starters = useMemo(() => users
+    .filter(user => user.role !== 'admin' && isNewStarter(user))
+    .map(user => ({ user, stage: getProbationStage(user, supervisions) }))
+    .sort((a, b) => {
+      if (a.stage.overdue !== b.stage.overdue) return a.stage.overdue ? -1 : 1;
+      return (a.stage.dueDate?.getTime() ?? Infinity) - (b.stage.dueDate?.getTime() ?? Infinity);
+    }), [users, supervisions]);
+
+  if (loading || usersLoading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <PageHeader
+        title="Probation"
+        subtitle="New starters and where they are in their probation"
+        helpText="Milestone supervisions are booked from each starter's start date. Completing one ticks it off; completing all four passes probation, or a manager can pass, extend or fail it here."
+      />
+
+      {starters.length === 0 ? (
+        <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+          <Typography color="textSecondary">
+            No staff are in probation.
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Staff</TableCell>
+                <TableCell>Started</TableCell>
+                <TableCell>Milestones</TableCell>
+                <TableCell>Stage</TableCell>
+                <TableCell>Due</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {starters.map(({ user, stage }) => {
+                const startDate = getStartDate(user);
+                const status = getProbationStatus(user);
+                return (
+                  <TableRow key={user.id} hover>
+                    <TableCell>
+                      <Typography variant="body2">{user.name}</Typography>
+                      <Typography variant="caption" color="textSecondary">
+                        {user.site || user.sites?.[0] || 'No site'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{startDate ? format(startDate, 'd MMM yyyy') : '—'}</TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5}>
+                        {PROBATION_MILESTONES.map(milestone => (
+                          <Tooltip key={milestone.key} title={milestone.label}>
+                            {user.trainingProgress?.[milestone.key]
+                              ? <DoneIcon fontSize="small" color="success" />
+                              : <PendingIcon fontSize="small" color="disabled" />}
+                          </Tooltip>
+                        ))}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Typography variant="body2">{stage.label}</Typography>
+                        {status === 'extended' && (
+                          <Chip size="small" color="warning" label={PROBATION_STATUS_LABELS.extended} />
+                        )}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>
+                      {stage.dueDate ? (
+                        <Typography variant="body2" color={stage.overdue ? 'error' : 'inherit'}>
+                          {format(stage.dueDate, 'd MMM yyyy')}
+                          {stage.overdue && ' (overdue)'}
+                        </Typography>
+                      ) : '—'}
+                      {stage.session && (
+                        <Typography variant="caption" color="textSecondary" display="block">
+                          Booked {format(stage.session.date, 'd MMM, HH:mm')}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => setDeciding(user)}>
+                        Record Outcome
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      {deciding && (
+        <ProbationOutcomeDialog
+          key={deciding.id}
+          user={deciding}
+          onClose={() => setDeciding(null)}
+          onRecorded={(text) => {
+            setDeciding(null);
+            setMessage(text);
+          }}
+        />
+      )}
+
+      <Snackbar open={!!message} autoHideDuration={6000} onClose={() => setMessage(null)}>
+        <Alert severity="success" onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default ProbationPage;
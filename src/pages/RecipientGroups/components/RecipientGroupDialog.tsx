@@ -0,0 +1,333 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { useCommunication } from '../../../contexts/CommunicationContext';
+import {
+  RECIPIENT_GROUP_RULE_LABELS,
+  RecipientGroup,
+  RecipientGroupInput,
+  RecipientGroupRule,
+  RecipientGroupRuleType,
+} from '../../../types/communication';
+import { ShiftRole } from '../../../types/rota';
+
+interface GroupUser {
+  id: string;
+  name: string;
+  site?: string;
+  sites?: string[];
+}
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  users: GroupUser[];
+  courses: string[];
+  group?: RecipientGroup | null;
+}
+
+const ACCOUNT_ROLES = ['admin', 'manager', 'staff'];
+const SHIFT_ROLES: ShiftRole[] = ['Shift Leader', 'Driver', 'Care Staff'];
+
+const emptyGroup = (): RecipientGroupInput => ({
+  name: '',
+  description: '',
+  type: 'static',
+  memberIds: [],
+  rules: [{ type: 'role', value: 'staff' }],
+  match: 'all',
+});
+
+const RecipientGroupDialog: React.FC<Props> = ({ open, onClose, users, courses, group }) => {
+  const { saveGroup, previewGroup } = useCommunication();
+  const [form, setForm] = useState<RecipientGroupInput>(emptyGroup);
+  const [preview, setPreview] = useState<Array<{ id: string; name: string }> | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(group ? {
+      name: group.name,
+      description: group.description || '',
+      type: group.type,
+      memberIds: group.memberIds,
+      rules: group.rules.length ? group.rules : emptyGroup().rules,
+      match: group.match || 'all',
+    } : emptyGroup());
+    setPreview(null);
+    setError(null);
+  }, [open, group]);
+
+  const sites = useMemo(() => Array.from(new Set(
+    users.flatMap(user => [user.site, ...(user.sites || [])]).filter((site): site is string => !!site)
+  )).sort(), [users]);
+
+  const valueOptions = (type: RecipientGroupRuleType): string[] => {
+    switch (type) {
+      case 'role':
+        return ACCOUNT_ROLES;
+      case 'site':
+        return sites;
+      case 'shiftRole':
+        return SHIFT_ROLES;
+      case 'expiredTraining':
+        return courses;
+      default:
+        return [];
+    }
+  };
+
+  const updateForm = (updates: Partial<RecipientGroupInput>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setPreview(null);
+  };
+
+  const updateRule = (index: number, updates: Partial<RecipientGroupRule>) =>
+    updateForm({ rules: form.rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)) });
+
+  const handleRuleTypeChange = (index: number, type: RecipientGroupRuleType) => {
+    // expiredTraining without a course means any course
+    const defaultValue = type === 'expiredTraining' || type === 'onShiftTomorrow'
+      ? ''
+      : valueOptions(type)[0] || '';
+    updateRule(index, { type, value: defaultValue });
+  };
+
+  const validate = () => {
+    if (!form.name.trim()) return 'Name is required';
+    if (form.type === 'static' && !form.memberIds.length) return 'Add at least one member';
+    if (form.type === 'dynamic') {
+      if (!form.rules.length) return 'Add at least one rule';
+      const incomplete = form.rules.find(rule =>
+        ['role', 'site', 'shiftRole'].includes(rule.type) && !rule.value
+      );
+      if (incomplete) return `Choose a value for "${RECIPIENT_GROUP_RULE_LABELS[incomplete.type]}"`;
+    }
+    return null;
+  };
+
+  const handlePreview = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setPreviewing(true);
+    setError(null);
+    try {
+      setPreview(await previewGroup(form));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview group');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveGroup({
+        ...form,
+        name: form.name.trim(),
+        description: form.description?.trim() || '',
+      }, group?.id);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save group');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{group ? 'Edit Recipient Group' : 'New Recipient Group'}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              label="Name"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <ToggleButtonGroup
+              exclusive
+              fullWidth
+              value={form.type}
+              onChange={(_e, type) => type && updateForm({ type })}
+              sx={{ height: '100%' }}
+            >
+              <ToggleButton value="static">Static list</ToggleButton>
+              <ToggleButton value="dynamic">Dynamic rules</ToggleButton>
+            </ToggleButtonGroup>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              label="Description"
+              value={form.description}
+              onChange={(e) => updateForm({ description: e.target.value })}
+            />
+          </Grid>
+
+          {form.type === 'static' ? (
+            <Grid item xs={12}>
+              <Autocomplete
+                multiple
+                options={users}
+                value={users.filter(user => form.memberIds.includes(user.id))}
+                onChange={(_e, value) => updateForm({ memberIds: value.map(user => user.id) })}
+                getOptionLabel={(option) => option.name}
+                renderInput={(params) => <TextField {...params} label="Members" />}
+              />
+            </Grid>
+          ) : (
+            <>
+              <Grid item xs={12}>
+                <Box display="flex" alignItems="center" gap={2}>
+                  <Typography variant="subtitle2">Include staff who match</Typography>
+                  <Select
+                    size="small"
+                    value={form.match}
+                    onChange={(e) => updateForm({ match: e.target.value as RecipientGroupInput['match'] })}
+                  >
+                    <MenuItem value="all">all rules</MenuItem>
+                    <MenuItem value="any">any rule</MenuItem>
+                  </Select>
+                </Box>
+              </Grid>
+              {form.rules.map((rule, index) => {
+                const options = valueOptions(rule.type);
+                return (
+                  <React.Fragment key={index}>
+                    <Grid item xs={12} sm={5}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>Rule</InputLabel>
+                        <Select
+                          value={rule.type}
+                          label="Rule"
+                          onChange={(e) => handleRuleTypeChange(index, e.target.value as RecipientGroupRuleType)}
+                        >
+                          {Object.entries(RECIPIENT_GROUP_RULE_LABELS).map(([type, label]) => (
+                            <MenuItem key={type} value={type}>{label}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                    <Grid item xs={10} sm={6}>
+                      {rule.type === 'onShiftTomorrow' ? (
+                        <Typography variant="body2" color="textSecondary" sx={{ pt: 1 }}>
+                          Anyone assigned to a rota shift tomorrow
+                        </Typography>
+                      ) : (
+                        <FormControl fullWidth size="small">
+                          <InputLabel>{rule.type === 'expiredTraining' ? 'Course' : 'Value'}</InputLabel>
+                          <Select
+                            value={rule.value || ''}
+                            label={rule.type === 'expiredTraining' ? 'Course' : 'Value'}
+                            onChange={(e) => updateRule(index, { value: e.target.value })}
+                          >
+                            {rule.type === 'expiredTraining' && (
+                              <MenuItem value=""><em>Any course</em></MenuItem>
+                            )}
+                            {options.map(option => (
+                              <MenuItem key={option} value={option}>{option}</MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      )}
+                    </Grid>
+                    <Grid item xs={2} sm={1}>
+                      <IconButton
+                        onClick={() => updateForm({ rules: form.rules.filter((_r, i) => i !== index) })}
+                        disabled={form.rules.length === 1}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Grid>
+                  </React.Fragment>
+                );
+              })}
+              <Grid item xs={12}>
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={() => updateForm({ rules: [...form.rules, { type: 'role', value: 'staff' }] })}
+                >
+                  Add Rule
+                </Button>
+              </Grid>
+            </>
+          )}
+
+          <Grid item xs={12}>
+            <Box display="flex" alignItems="center" gap={2}>
+              <Button variant="outlined" onClick={handlePreview} disabled={previewing}>
+                {previewing ? <CircularProgress size={20} /> : 'Preview Members'}
+              </Button>
+              {preview && (
+                <Typography variant="body2" color="textSecondary">
+                  {preview.length} member(s) right now
+                </Typography>
+              )}
+            </Box>
+            {preview && preview.length > 0 && (
+              <Box sx={{ mt: 1, display: 'flex', flexWrap: 'wrap', gap: 0.5, maxHeight: 160, overflowY: 'auto' }}>
+                {preview.map(member => (
+                  <Chip key={member.id} size="small" label={member.name} />
+                ))}
+              </Box>
+            )}
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Group'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecipientGroupDialog;
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  People as MembersIcon,
+} from '@mui/icons-material';
+import PageHeader from '../../components/Common/PageHeader';
+import { useCommunication } from '../../contexts/CommunicationContext';
+import { useTraining } from '../../contexts/TrainingContext';
+import useData from '../../hooks/useData';
+import {
+  RECIPIENT_GROUP_RULE_LABELS,
+  RecipientGroup,
+  RecipientGroupRule,
+} from '../../types/communication';
+import RecipientGroupDialog from './components/RecipientGroupDialog';
+
+interface GroupUser {
+  id: string;
+  name: string;
+  site?: string;
+  sites?: string[];
+}
+
+const describeRule = (rule: RecipientGroupRule) => {
+  const label = RECIPIENT_GROUP_RULE_LABELS[rule.type];
+  if (rule.type === 'onShiftTomorrow') return label;
+  if (rule.type === 'expiredTraining') return rule.value ? `${label}: ${rule.value}` : label;
+  return `${label}: ${rule.value}`;
+};
+
+const RecipientGroupsPage: React.FC = () => {
+  const { recipientGroups, deleteGroup, previewGroup } = useCommunication();
+  const { trainingRecords } = useTraining();
+  const { data: users = [] } = useData<GroupUser>('users');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<RecipientGroup | null>(null);
+  const [membersFor, setMembersFor] = useState<RecipientGroup | null>(null);
+  const [members, setMembers] = useState<Array<{ id: string; name: string }> | null>(null);
+
+  const courses = useMemo(
+    () => Array.from(new Set(trainingRecords.map(record => record.courseTitle))).sort(),
+    [trainingRecords]
+  );
+
+  const handleOpen = (group?: RecipientGroup) => {
+    setEditing(group || null);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (group: RecipientGroup) => {
+    if (!window.confirm(`Delete the group "${group.name}"? Scheduled messages using it will skip it.`)) return;
+    try {
+      await deleteGroup(group.id);
+    } catch (error) {
+      console.error('Error deleting recipient group:', error);
+    }
+  };
+
+  const handleShowMembers = async (group: RecipientGroup) => {
+    setMembersFor(group);
+    setMembers(null);
+    try {
+      setMembers(await previewGroup(group.id));
+    } catch (error) {
+      console.error('Error loading group members:', error);
+      setMembers([]);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <PageHeader
+        title="Recipient Groups"
+        subtitle="Groups of staff for mass and scheduled messages"
+        helpText="Static groups list their members. Dynamic groups are worked out from their rules each time a message is sent."
+        actions={[
+          {
+            label: 'New Group',
+            icon: <AddIcon />,
+            onClick: () => handleOpen(),
+            variant: 'contained',
+          },
+        ]}
+      />
+
+      {recipientGroups.length === 0 ? (
+        <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+          <Typography color="textSecondary">
+            No recipient groups yet.
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Group</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Membership</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {recipientGroups.map(group => (
+                <TableRow key={group.id} hover>
+                  <TableCell>
+                    <Typography variant="body2">{group.name}</Typography>
+                    {group.description && (
+                      <Typography variant="caption" color="textSecondary">
+                        {group.description}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={group.type}
+                      color={group.type === 'dynamic' ? 'info' : 'default'}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {group.type === 'static' ? (
+                      <Typography variant="body2">{group.memberIds.length} member(s)</Typography>
+                    ) : (
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap alignItems="center">
+                        {group.rules.map((rule, index) => (
+                          <React.Fragment key={index}>
+                            {index > 0 && (
+                              <Typography variant="caption" color="textSecondary">
+                                {group.match === 'any' ? 'or' : 'and'}
+                              </Typography>
+                            )}
+                            <Chip size="small" variant="outlined" label={describeRule(rule)} />
+                          </React.Fragment>
+                        ))}
+                      </Stack>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                      <Tooltip title="Current members">
+                        <IconButton size="small" onClick={() => handleShowMembers(group)}>
+                          <MembersIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => handleOpen(group)}>
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => handleDelete(group)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      <RecipientGroupDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        users={users}
+        courses={courses}
+        group={editing}
+      />
+
+      <Dialog open={!!membersFor} onClose={() => setMembersFor(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{membersFor?.name} — Members</DialogTitle>
+        <DialogContent>
+          {!members ? (
+            <Box display="flex" justifyContent="center" p={2}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : members.length === 0 ? (
+            <Typography color="textSecondary">Nobody is in this group right now.</Typography>
+          ) : (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {members.map(member => (
+                <Chip key={member.id} size="small" label={member.name} />
+              ))}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMembersFor(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RecipientGroupsPage;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { addDays, endOfMonth, format, startOfMonth, startOfWeek } from 'date-fns';
+import { useRotaContext } from '../../../contexts/RotaContext';
+import { useLeave } from '../../../contexts/LeaveContext';
+import { RotaExportFormat, RotaExportLeave, RotaExportOptions, RotaExportPeriod, Staff } from '../../../types/rota';
+import { exportRotaPdf, exportRotaXlsx } from '../../../utils/rotaExport';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  site: string;
+  // Any day in the week being viewed
+  date: Date;
+  staff: Staff[];
+}
+
+const getPeriod = (period: RotaExportPeriod, date: Date) => {
+  if (period === 'month') {
+    return { from: startOfMonth(date), to: endOfMonth(date) };
+  }
+  const from = startOfWeek(date, { weekStartsOn: 1 });
+  return { from, to: addDays(from, 6) };
+};
+
+const ExportRotaDialog: React.FC<Props> = ({ open, onClose, site, date, staff }) => {
+  const { loadSiteRotas } = useRotaContext();
+  const { leaveRequests } = useLeave();
+  const [options, setOptions] = useState<RotaExportOptions>({
+    period: 'week',
+    format: 'pdf',
+    showRoles: true,
+    showLeave: true,
+    showHours: true,
+  });
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { from, to } = getPeriod(options.period, date);
+
+  const update = (changes: Partial<RotaExportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const rotas = await loadSiteRotas(site, from, to);
+      if (!rotas.length) {
+        throw new Error(`There is no ${site} rota for this ${options.period}`);
+      }
+
+      const staffIds = staff.map(member => member.id);
+      const leave: RotaExportLeave[] = [
+        ...staff.flatMap(member => member.leave
+          .filter(item => item.approved)
+          .map(item => ({ userId: member.id, startDate: item.startDate, endDate: item.endDate, leaveType: item.type }))),
+        ...leaveRequests
+          .filter(request => request.status === 'approved' && staffIds.includes(request.userId))
+          .map(({ userId, startDate, endDate, leaveType }) => ({ userId, startDate, endDate, leaveType })),
+      ];
+
+      const data = {
+        site,
+        from: format(from, 'yyyy-MM-dd'),
+        to: format(to, 'yyyy-MM-dd'),
+        rotas,
+        staff,
+        leave,
+      };
+      if (options.format === 'pdf') {
+        exportRotaPdf(data, options);
+      } else {
+        exportRotaXlsx(data, options);
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error exporting rota:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export rota');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Export Rota — {site}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <ToggleButtonGroup
+            exclusive
+            fullWidth
+            size="small"
+            value={options.period}
+            onChange={(_, period: RotaExportPeriod | null) => period && update({ period })}
+          >
+            <ToggleButton value="week">Week</ToggleButton>
+            <ToggleButton value="month">Month</ToggleButton>
+          </ToggleButtonGroup>
+          <Typography variant="body2" color="text.secondary">
+            {format(from, 'd MMM yyyy')} to {format(to, 'd MMM yyyy')}
+          </Typography>
+
+          <ToggleButtonGroup
+            exclusive
+            fullWidth
+            size="small"
+            value={options.format}
+            onChange={(_, value: RotaExportFormat | null) => value && update({ format: value })}
+          >
+            <ToggleButton value="pdf">Printable PDF</ToggleButton>
+            <ToggleButton value="xlsx">Excel</ToggleButton>
+          </ToggleButtonGroup>
+
+          <FormGroup>
+            <FormControlLabel
+              control={<Checkbox checked={options.showRoles} onChange={(e) => update({ showRoles: e.target.checked })} />}
+              label="Mark shift leaders and drivers"
+            />
+            <FormControlLabel
+              control={<Checkbox checked={options.showLeave} onChange={(e) => update({ showLeave: e.target.checked })} />}
+              label="Show approved leave"
+            />
+            <FormControlLabel
+              control={<Checkbox checked={options.showHours} onChange={(e) => update({ showHours: e.target.checked })} />}
+              label="Hours totals per staff member"
+            />
+          </FormGroup>
+
+          {options.format === 'xlsx' && (
+            <Typography variant="caption" color="text.secondary">
+              The spreadsheet uses the same layout as Import Rota, so it can be edited and imported back.
+            </Typography>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleExport} disabled={exporting || !site}>
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportRotaDialog;
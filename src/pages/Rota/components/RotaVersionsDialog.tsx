@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { format, parseISO } from 'date-fns';
+import { Rota, RotaVersion, Staff } from '../../../types/rota';
+import { diffRotaShifts, getShiftLabel, getShiftPatterns } from '../../../utils/rotaUtils';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  rota: Rota;
+  versions: RotaVersion[];
+  staff: Staff[];
+  canPublish: boolean;
+  onPublish: (notes: string) => Promise<void>;
+}
+
+// Compared against published versions by number; 'current' is the rota as it is now
+type Side = number | 'current' | 'none';
+
+const ROTA_STATUS_LABELS: Record<Rota['status'], string> = {
+  draft: 'Draft',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+const formatTime = (value: string) => format(parseISO(value), 'd MMM yyyy HH:mm');
+
+const getSideShifts = (side: Side, rota: Rota, versions: RotaVersion[]) => {
+  if (side === 'current') return rota.shifts;
+  if (side === 'none') return [];
+  return versions.find(version => version.version === side)?.shifts || [];
+};
+
+const RotaVersionsDialog: React.FC<Props> = ({ open, onClose, rota, versions, staff, canPublish, onPublish }) => {
+  const [from, setFrom] = useState<Side>('none');
+  const [to, setTo] = useState<Side>('current');
+  const [notes, setNotes] = useState('');
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const latest = versions[0];
+  const patterns = useMemo(() => getShiftPatterns(rota.configuration), [rota]);
+
+  const latestVersion = latest?.version;
+
+  // Opening, or publishing a new version, compares the latest version with the rota now
+  useEffect(() => {
+    if (!open) return;
+    setFrom(latestVersion ?? 'none');
+    setTo('current');
+    setNotes('');
+    setError(null);
+  }, [open, latestVersion]);
+
+  const diffs = useMemo(
+    () => diffRotaShifts(getSideShifts(from, rota, versions), getSideShifts(to, rota, versions)),
+    [from, to, rota, versions]
+  );
+  const unpublished = useMemo(() => diffRotaShifts(latest?.shifts || [], rota.shifts), [latest, rota]);
+
+  const nameOf = (staffId: string) => staff.find(member => member.id === staffId)?.name || 'Unknown';
+
+  // Acknowledgements for the version being looked at, or the latest one
+  const ackVersion = typeof to === 'number' ? versions.find(version => version.version === to) : latest;
+  const pending = ackVersion ? ackVersion.staffIds.filter(id => !ackVersion.acknowledgements[id]) : [];
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    setError(null);
+    try {
+      await onPublish(notes.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish rota');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const renderSideSelect = (label: string, value: Side, onChange: (side: Side) => void, allowNone: boolean) => (
+    <TextField
+      select
+      fullWidth
+      size="small"
+      label={label}
+      value={String(value)}
+      onChange={(e) => {
+        const next = e.target.value;
+        onChange(next === 'current' || next === 'none' ? next : Number(next));
+      }}
+    >
+      {allowNone && <MenuItem value="none">Nothing (first publish)</MenuItem>}
+      <MenuItem value="current">Current rota</MenuItem>
+      {versions.map(version => (
+        <MenuItem key={version.id} value={String(version.version)}>
+          Version {version.version} — {formatTime(version.publishedAt)}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Publish &amp; Versions — {rota.site}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+            <Chip size="small" label={ROTA_STATUS_LABELS[rota.status]} color={rota.status === 'published' ? 'success' : 'default'} />
+            <Typography variant="body2" color="text.secondary">
+              {latest
+                ? `Version ${latest.version} published ${formatTime(latest.publishedAt)}${latest.publishedByName ? ` by ${latest.publishedByName}` : ''}`
+                : 'Not published yet'}
+            </Typography>
+            {latest && unpublished.length > 0 && (
+              <Chip size="small" color="warning" label={`${unpublished.length} unpublished shift change${unpublished.length === 1 ? '' : 's'}`} />
+            )}
+          </Stack>
+
+          {canPublish && (
+            <Box sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Note to staff (optional)"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+                <Button
+                  variant="contained"
+                  onClick={handlePublish}
+                  disabled={publishing || (!!latest && !unpublished.length)}
+                  sx={{ whiteSpace: 'nowrap' }}
+                >
+                  {publishing ? 'Publishing...' : `Publish Version ${(latest?.version || 0) + 1}`}
+                </Button>
+              </Stack>
+              <Typography variant="caption" color="text.secondary">
+                Each staff member is notified of the shifts they were added to or removed from, and asked to confirm they have seen the rota.
+              </Typography>
+            </Box>
+          )}
+
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={6}>
+              {renderSideSelect('From', from, setFrom, true)}
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              {renderSideSelect('To', to, setTo, false)}
+            </Grid>
+          </Grid>
+
+          {diffs.length ? (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Shift</TableCell>
+                  <TableCell>Added</TableCell>
+                  <TableCell>Removed</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {diffs.map(diff => (
+                  <TableRow key={diff.shiftId}>
+                    <TableCell>{getShiftLabel(diff, patterns)}</TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {diff.added.map(id => <Chip key={id} size="small" color="success" variant="outlined" label={nameOf(id)} />)}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {diff.removed.map(id => <Chip key={id} size="small" color="error" variant="outlined" label={nameOf(id)} />)}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              No one was added to or removed from any shift.
+            </Typography>
+          )}
+
+          {ackVersion && (
+            <Box>
+              <Typography variant="subtitle2">
+                Version {ackVersion.version}: seen by {ackVersion.staffIds.length - pending.length} of {ackVersion.staffIds.length} staff
+              </Typography>
+              {ackVersion.notes && (
+                <Typography variant="body2" color="text.secondary">{ackVersion.notes}</Typography>
+              )}
+              {pending.length > 0 && (
+                <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>Waiting on:</Typography>
+                  {pending.map(id => <Chip key={id} size="small" label={nameOf(id)} />)}
+                </Stack>
+              )}
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RotaVersionsDialog;
@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { SHIFT_TYPE_LABELS, ShiftPattern, ShiftStaffing, ShiftType } from '../../../types/rota';
+import {
+  getPaidHours,
+  getShiftDuration,
+  requirementsToStaffing,
+  staffingToRequirements,
+} from '../../../utils/rotaUtils';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  site: string;
+  patterns: ShiftPattern[];
+  onSave: (patterns: ShiftPattern[]) => Promise<void>;
+}
+
+type PatternForm = Omit<ShiftPattern, 'defaultRequirements' | 'codes'> & { staffing: ShiftStaffing; codes: string };
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+const STAFFING_FIELDS: Array<{ field: keyof ShiftStaffing; label: string }> = [
+  { field: 'total', label: 'Total staff' },
+  { field: 'shiftLeader', label: 'Shift leaders' },
+  { field: 'driver', label: 'Drivers' },
+];
+
+const toForm = ({ defaultRequirements, codes, ...pattern }: ShiftPattern): PatternForm => ({
+  ...pattern,
+  codes: (codes || []).join(', '),
+  staffing: requirementsToStaffing(defaultRequirements),
+});
+
+const toPattern = ({ staffing, codes, ...form }: PatternForm): ShiftPattern => ({
+  ...form,
+  name: form.name.trim(),
+  codes: codes.split(',').map(code => code.trim()).filter(Boolean),
+  defaultRequirements: staffingToRequirements(staffing),
+});
+
+// Readable id from the name; existing shifts refer to patterns by id, so it never changes
+const createPatternId = (name: string, taken: string[]) => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'shift';
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+const ShiftPatternsDialog: React.FC<Props> = ({ open, onClose, site, patterns, onSave }) => {
+  const [forms, setForms] = useState<PatternForm[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForms(patterns.map(toForm));
+    setError(null);
+  }, [open, patterns]);
+
+  const update = (index: number, changes: Partial<PatternForm>) =>
+    setForms(prev => prev.map((form, i) => (i === index ? { ...form, ...changes } : form)));
+
+  const handleAdd = () => {
+    setForms(prev => [...prev, {
+      id: '',
+      name: '',
+      start: '8:00',
+      end: '20:00',
+      type: 'long-day',
+      breaks: [{ minShiftHours: 6, unpaidMinutes: 30 }],
+      sleepIn: false,
+      codes: '',
+      staffing: { total: 1, shiftLeader: 0, driver: 0 },
+    }]);
+  };
+
+  const handleSave = async () => {
+    if (!forms.length) {
+      setError('At least one shift pattern is needed');
+      return;
+    }
+    if (forms.some(form => !form.name.trim())) {
+      setError('Every pattern needs a name');
+      return;
+    }
+    if (forms.some(form => !TIME_PATTERN.test(form.start) || !TIME_PATTERN.test(form.end))) {
+      setError('Start and end times must be in HH:MM format');
+      return;
+    }
+    if (forms.some(form => form.staffing.shiftLeader + form.staffing.driver > form.staffing.total)) {
+      setError('Shift leaders and drivers cannot be more than the total staff');
+      return;
+    }
+
+    const ids = forms.filter(form => form.id).map(form => form.id);
+    const withIds = forms.map(form => {
+      if (form.id) return form;
+      const id = createPatternId(form.name, ids);
+      ids.push(id);
+      return { ...form, id };
+    });
+
+    setSaving(true);
+    try {
+      await onSave(withIds.map(toPattern));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shift patterns');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Shift Patterns — {site}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Changes apply to shifts added from now on. Shifts already on a rota keep their times and paid hours.
+        </Typography>
+        <Stack spacing={2}>
+          {forms.map((form, index) => {
+            const pattern = toPattern(form);
+            const valid = TIME_PATTERN.test(form.start) && TIME_PATTERN.test(form.end);
+            return (
+              <Box key={form.id || `new-${index}`} sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+                <Grid container spacing={2}>
+                  <Grid item xs={12} sm={4}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Name"
+                      value={form.name}
+                      onChange={(e) => update(index, { name: e.target.value })}
+                    />
+                  </Grid>
+                  <Grid item xs={6} sm={2}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Start"
+                      placeholder="HH:MM"
+                      value={form.start}
+                      error={!TIME_PATTERN.test(form.start)}
+                      onChange={(e) => update(index, { start: e.target.value })}
+                    />
+                  </Grid>
+                  <Grid item xs={6} sm={2}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="End"
+                      placeholder="HH:MM"
+                      value={form.end}
+                      error={!TIME_PATTERN.test(form.end)}
+                      onChange={(e) => update(index, { end: e.target.value })}
+                    />
+                  </Grid>
+                  <Grid item xs={10} sm={3}>
+                    <TextField
+                      select
+                      fullWidth
+                      size="small"
+                      label="Type"
+                      value={form.type}
+                      onChange={(e) => update(index, { type: e.target.value as ShiftType })}
+                    >
+                      {Object.entries(SHIFT_TYPE_LABELS).map(([type, label]) => (
+                        <MenuItem key={type} value={type}>{label}</MenuItem>
+                      ))}
+                    </TextField>
+                  </Grid>
+                  <Grid item xs={2} sm={1}>
+                    <Tooltip title="Remove pattern">
+                      <IconButton onClick={() => setForms(prev => prev.filter((_, i) => i !== index))}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </Grid>
+
+                  {STAFFING_FIELDS.map(({ field, label }) => (
+                    <Grid item xs={4} sm={2} key={field}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        type="number"
+                        label={label}
+                        value={form.staffing[field]}
+                        inputProps={{ min: 0 }}
+                        onChange={(e) => update(index, {
+                          staffing: { ...form.staffing, [field]: Math.max(0, Number(e.target.value)) },
+                        })}
+                      />
+                    </Grid>
+                  ))}
+                  <Grid item xs={6} sm={3}>
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={form.sleepIn}
+                          onChange={(e) => update(index, { sleepIn: e.target.checked })}
+                        />
+                      }
+                      label="Sleep-in"
+                    />
+                  </Grid>
+                  <Grid item xs={6} sm={3}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      type="number"
+                      label="Paid hours"
+                      helperText={valid ? `Leave blank to use ${getPaidHours({ ...pattern, paidHours: undefined })}h` : undefined}
+                      value={form.paidHours ?? ''}
+                      inputProps={{ min: 0, step: 0.25 }}
+                      onChange={(e) => update(index, {
+                        paidHours: e.target.value === '' ? undefined : Number(e.target.value),
+                      })}
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={6}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Spreadsheet codes"
+                      placeholder="e.g. E, Early"
+                      helperText="What this shift is called in imported rotas, separated by commas"
+                      value={form.codes}
+                      onChange={(e) => update(index, { codes: e.target.value })}
+                    />
+                  </Grid>
+
+                  <Grid item xs={12}>
+                    <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+                      <Typography variant="body2" color="text.secondary">
+                        Unpaid breaks:
+                      </Typography>
+                      {form.breaks.map((rule, ruleIndex) => (
+                        <Stack key={ruleIndex} direction="row" spacing={1} alignItems="center">
+                          <TextField
+                            size="small"
+                            type="number"
+                            label="Minutes"
+                            value={rule.unpaidMinutes}
+                            inputProps={{ min: 0 }}
+                            sx={{ width: 100 }}
+                            onChange={(e) => update(index, {
+                              breaks: form.breaks.map((r, i) =>
+                                i === ruleIndex ? { ...r, unpaidMinutes: Number(e.target.value) } : r),
+                            })}
+                          />
+                          <TextField
+                            size="small"
+                            type="number"
+                            label="On shifts of (h)"
+                            value={rule.minShiftHours}
+                            inputProps={{ min: 0, step: 0.5 }}
+                            sx={{ width: 130 }}
+                            onChange={(e) => update(index, {
+                              breaks: form.breaks.map((r, i) =>
+                                i === ruleIndex ? { ...r, minShiftHours: Number(e.target.value) } : r),
+                            })}
+                          />
+                          <IconButton
+                            size="small"
+                            onClick={() => update(index, { breaks: form.breaks.filter((_, i) => i !== ruleIndex) })}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Stack>
+                      ))}
+                      <Button
+                        size="small"
+                        startIcon={<AddIcon />}
+                        onClick={() => update(index, { breaks: [...form.breaks, { minShiftHours: 6, unpaidMinutes: 30 }] })}
+                      >
+                        Break rule
+                      </Button>
+                    </Stack>
+                    {valid && (
+                      <Typography variant="caption" color="text.secondary">
+                        {getShiftDuration(form.start, form.end)}h on site, {getPaidHours(pattern)}h paid
+                      </Typography>
+                    )}
+                  </Grid>
+                </Grid>
+              </Box>
+            );
+          })}
+        </Stack>
+        <Button startIcon={<AddIcon />} onClick={handleAdd} sx={{ mt: 2 }}>
+          Add Pattern
+        </Button>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Patterns'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShiftPatternsDialog;
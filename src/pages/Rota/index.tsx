@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   Box,
   useTheme,
@@ -14,13 +14,20 @@ import {
   Button,
   Divider,
   Tooltip,
-  Fab
+  Fab,
+  MenuItem,
+  Alert
 } from '@mui/material';
 import WeeklySchedule from '../../components/Rota/WeeklySchedule';
 import AutoScheduler from '../../components/Rota/AutoScheduler';
 import { ImportDialog } from '../../components/Rota/ImportDialog';
 import StaffList from '../../components/Rota/StaffList';
+import ShiftPatternsDialog from './components/ShiftPatternsDialog';
+import RotaVersionsDialog from './components/RotaVersionsDialog';
+import ExportRotaDialog from './components/ExportRotaDialog';
 import { useRota } from '../../hooks/useRota';
+import { useAuth } from '../../contexts/AuthContext';
+import { getShiftPatterns } from '../../utils/rotaUtils';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 import { Staff, ShiftTime, ShiftRole } from '../../types/rota';
 import MenuIcon from '@mui/icons-material/Menu';
@@ -29,7 +36,6 @@ import SearchIcon from '@mui/icons-material/Search';
 import FilterListIcon from '@mui/icons-material/FilterList';
 import KeyboardIcon from '@mui/icons-material/Keyboard';
 import PeopleIcon from '@mui/icons-material/People';
-import { format, startOfWeek } from 'date-fns';
 
 interface ShiftRequirements {
   total: number;
@@ -54,38 +60,30 @@ const RotaPage: React.FC = () => {
     assignStaff,
     removeStaff,
     generateRota,
-    loadRotaForWeek,
-    createRota
-  } = useRota({ autoLoad: false });
+    currentSite,
+    availableSites,
+    switchSite,
+    shiftPatterns,
+    saveShiftPatterns,
+    rotaVersions,
+    publishRota,
+    acknowledgeRotaVersion
+  } = useRota({ autoLoad: true });
+  const { currentUser, isAdmin, userData } = useAuth();
+  const canManage = isAdmin || userData?.role === 'manager';
 
   const [showAutoScheduler, setShowAutoScheduler] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showShiftPatterns, setShowShiftPatterns] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [acknowledging, setAcknowledging] = useState(false);
   const [draggingStaff, setDraggingStaff] = useState<Staff | null>(null);
-  const [hasInitialized, setHasInitialized] = useState(false);
   const [drawerOpen, setDrawerOpen] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRole, setSelectedRole] = useState<RoleFilter>('All');
   const [paintMode, setPaintMode] = useState(false);
 
-  useEffect(() => {
-    const initializeRota = async () => {
-      if (hasInitialized) return;
-      setHasInitialized(true);
-      await loadRotaForWeek(currentDate);
-      if (!currentRota) {
-        const weekStart = format(
-          startOfWeek(currentDate, { weekStartsOn: 1 }),
-          'yyyy-MM-dd'
-        );
-        await createRota(weekStart);
-      }
-    };
-
-    if (!hasInitialized) {
-      initializeRota();
-    }
-  }, [hasInitialized, currentDate, loadRotaForWeek, createRota, currentRota]);
-
   const { shortcuts } = useKeyboardShortcuts({
     paintMode,
     onPaintModeToggle: () => setPaintMode((prev) => !prev),
@@ -143,6 +141,30 @@ const RotaPage: React.FC = () => {
     }
   }, [draggingStaff]);
 
+  // The latest published version, if it is waiting on this staff member to confirm they've seen it
+  const versionToAcknowledge = useMemo(() => {
+    const latest = rotaVersions[0];
+    const uid = currentUser?.uid;
+    if (!latest || !uid || !latest.staffIds.includes(uid) || latest.acknowledgements[uid]) return null;
+    return latest;
+  }, [rotaVersions, currentUser]);
+
+  const handleAcknowledge = useCallback(async () => {
+    if (!versionToAcknowledge) return;
+    setAcknowledging(true);
+    try {
+      await acknowledgeRotaVersion(versionToAcknowledge.id);
+    } catch (err) {
+      console.error('Error acknowledging rota:', err);
+    } finally {
+      setAcknowledging(false);
+    }
+  }, [versionToAcknowledge, acknowledgeRotaVersion]);
+
+  const handlePublish = useCallback(async (notes: string) => {
+    await publishRota(notes);
+  }, [publishRota]);
+
   const filteredStaff = useMemo(() => {
     return staff.filter(
       (member) =>
@@ -204,6 +226,21 @@ const RotaPage: React.FC = () => {
           zIndex: theme.zIndex.drawer - 2
         }}
       >
+        {versionToAcknowledge && (
+          <Alert
+            severity="info"
+            sx={{ mb: 1 }}
+            action={
+              <Button color="inherit" size="small" onClick={handleAcknowledge} disabled={acknowledging}>
+                I've seen my rota
+              </Button>
+            }
+          >
+            Version {versionToAcknowledge.version} of this rota was published
+            {versionToAcknowledge.notes ? `: ${versionToAcknowledge.notes}` : '.'}
+          </Alert>
+        )}
+
         <WeeklySchedule
           startDate={currentDate}
           rota={currentRota}
@@ -220,12 +257,38 @@ const RotaPage: React.FC = () => {
           open={showAutoScheduler}
           onClose={() => setShowAutoScheduler(false)}
           onGenerate={generateRota}
+          patterns={getShiftPatterns(currentRota.configuration)}
+        />
+
+        <ShiftPatternsDialog
+          open={showShiftPatterns}
+          onClose={() => setShowShiftPatterns(false)}
+          site={currentSite}
+          patterns={shiftPatterns}
+          onSave={saveShiftPatterns}
+        />
+
+        <RotaVersionsDialog
+          open={showVersions}
+          onClose={() => setShowVersions(false)}
+          rota={currentRota}
+          versions={rotaVersions}
+          staff={staff}
+          canPublish={canManage}
+          onPublish={handlePublish}
         />
 
         <ImportDialog
           open={showImportDialog}
           onClose={() => setShowImportDialog(false)}
         />
+        <ExportRotaDialog
+          open={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+          site={currentSite}
+          date={currentDate}
+          staff={staff}
+        />
       </Box>
 
       {/* Staff List Overlay */}
@@ -274,6 +337,23 @@ const RotaPage: React.FC = () => {
             </Stack>
           </Stack>
 
+          {availableSites.length > 1 && (
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Site"
+              value={currentSite}
+              onChange={(e) => switchSite(e.target.value)}
+            >
+              {availableSites.map((site) => (
+                <MenuItem key={site} value={site}>
+                  {site}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+
           <TextField
             fullWidth
             size="small"
@@ -339,6 +419,7 @@ const RotaPage: React.FC = () => {
             </Typography>
             <StaffList
               staff={filteredStaff}
+              site={currentSite}
               onDragStart={handleStaffDragStart}
             />
           </Stack>
@@ -367,6 +448,46 @@ const RotaPage: React.FC = () => {
             >
               Import Rota
             </Button>
+            <Button
+              variant="outlined"
+              onClick={() => setShowExportDialog(true)}
+              fullWidth
+              sx={{
+                fontSize: '0.85rem',
+                textTransform: 'none',
+                borderColor: alpha(theme.palette.text.primary, 0.2)
+              }}
+            >
+              Export Rota
+            </Button>
+            {canManage && (
+              <Button
+                variant="outlined"
+                onClick={() => setShowVersions(true)}
+                fullWidth
+                sx={{
+                  fontSize: '0.85rem',
+                  textTransform: 'none',
+                  borderColor: alpha(theme.palette.text.primary, 0.2)
+                }}
+              >
+                {currentRota.publishedVersion ? `Publish & Versions (v${currentRota.publishedVersion})` : 'Publish Rota'}
+              </Button>
+            )}
+            {canManage && (
+              <Button
+                variant="outlined"
+                onClick={() => setShowShiftPatterns(true)}
+                fullWidth
+                sx={{
+                  fontSize: '0.85rem',
+                  textTransform: 'none',
+                  borderColor: alpha(theme.palette.text.primary, 0.2)
+                }}
+              >
+                Shift Patterns
+              </Button>
+            )}
           </Stack>
         </Stack>
       </Drawer>
@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Rota, Shift, ShiftRole, ShiftSwapType, Staff } from '../../../types/rota';
+import { getOpenRoles, getShiftLabel, getShiftPatterns, getStaffAssignment } from '../../../utils/rotaUtils';
+
+export interface ShiftSwapSubmission {
+  notes: string;
+  role?: ShiftRole;
+  counterpartShift?: Shift;
+  counterpartId?: string;
+}
+
+interface Props {
+  open: boolean;
+  type: ShiftSwapType;
+  rota: Rota | null;
+  shift: Shift | null;
+  staff: Staff[];
+  userId: string;
+  userRoles: ShiftRole[];
+  onClose: () => void;
+  onSubmit: (submission: ShiftSwapSubmission) => Promise<void>;
+}
+
+const TITLES: Record<ShiftSwapType, string> = {
+  offer: 'Offer Shift',
+  swap: 'Propose Swap',
+  claim: 'Claim Shift',
+};
+
+const ShiftSwapDialog: React.FC<Props> = ({
+  open,
+  type,
+  rota,
+  shift,
+  staff,
+  userId,
+  userRoles,
+  onClose,
+  onSubmit,
+}) => {
+  const [notes, setNotes] = useState('');
+  const [role, setRole] = useState<ShiftRole | ''>('');
+  const [swapWith, setSwapWith] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const patterns = useMemo(() => getShiftPatterns(rota?.configuration), [rota]);
+
+  // Colleagues' shifts this week that the user is not already on, keyed "shiftId|staffId"
+  const swapOptions = useMemo(() => {
+    if (!rota || !shift) return [];
+    const today = new Date().toISOString().slice(0, 10);
+    return rota.shifts
+      .filter(s => s.id !== shift.id && s.date.slice(0, 10) >= today && !getStaffAssignment(s, userId))
+      .flatMap(s => s.assignedStaff.map(a => (typeof a === 'string' ? a : a.userId))
+        .filter(id => id !== userId)
+        .map(id => ({
+          key: `${s.id}|${id}`,
+          shift: s,
+          staffId: id,
+          label: `${staff.find(member => member.id === id)?.name || 'Unknown'} — ${getShiftLabel(s, patterns)}`,
+        })));
+  }, [rota, shift, staff, userId, patterns]);
+
+  const claimableRoles = useMemo(
+    () => (shift ? getOpenRoles(shift).filter(r => userRoles.includes(r)) : []),
+    [shift, userRoles]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setNotes('');
+    setSwapWith('');
+    setRole(claimableRoles[0] || '');
+    setError(null);
+  }, [open, claimableRoles]);
+
+  const handleSubmit = async () => {
+    const option = swapOptions.find(o => o.key === swapWith);
+    if (type === 'swap' && !option) {
+      setError('Choose the shift you would like in exchange');
+      return;
+    }
+    if (type === 'claim' && !role) {
+      setError('Choose the role you would fill');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        notes: notes.trim(),
+        role: role || undefined,
+        counterpartShift: option?.shift,
+        counterpartId: option?.staffId,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{TITLES[type]}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          {shift && (
+            <Typography variant="body2">
+              {getShiftLabel(shift, patterns)}
+            </Typography>
+          )}
+
+          {type === 'offer' && (
+            <Typography variant="body2" color="text.secondary">
+              Colleagues at {rota?.site} can take this shift. You stay on it until a manager approves the change.
+            </Typography>
+          )}
+
+          {type === 'swap' && (
+            <TextField
+              select
+              fullWidth
+              label="Swap for"
+              value={swapWith}
+              onChange={(e) => setSwapWith(e.target.value)}
+              helperText={swapOptions.length ? 'Your colleague is asked first, then a manager' : 'No colleagues\' shifts to swap with this week'}
+            >
+              {swapOptions.map(option => (
+                <MenuItem key={option.key} value={option.key}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+          )}
+
+          {type === 'claim' && (
+            <TextField
+              select
+              fullWidth
+              label="Role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as ShiftRole)}
+              helperText={claimableRoles.length ? undefined : 'None of the open roles on this shift match yours'}
+            >
+              {claimableRoles.map(r => (
+                <MenuItem key={r} value={r}>{r}</MenuItem>
+              ))}
+            </TextField>
+          )}
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={saving}>
+          {saving ? 'Sending...' : 'Send Request'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShiftSwapDialog;
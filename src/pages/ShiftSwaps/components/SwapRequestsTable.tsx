@@ -0,0 +1,158 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Warning as WarningIcon } from '@mui/icons-material';
+import { ShiftSwapRequest, ShiftSwapStatus, ShiftSwapType } from '../../../types/rota';
+
+export type SwapRequestAction = 'accept' | 'reject' | 'cancel' | 'check' | 'approve' | 'decline';
+
+interface Props {
+  requests: ShiftSwapRequest[];
+  userId: string;
+  canDecide: boolean;
+  busyId: string | null;
+  onAction: (request: ShiftSwapRequest, action: SwapRequestAction) => void;
+}
+
+const TYPE_LABELS: Record<ShiftSwapType, string> = {
+  offer: 'Offer',
+  swap: 'Swap',
+  claim: 'Claim',
+};
+
+const STATUS_COLORS: Record<ShiftSwapStatus, 'default' | 'info' | 'warning' | 'success' | 'error'> = {
+  open: 'info',
+  proposed: 'info',
+  pending: 'warning',
+  approved: 'success',
+  declined: 'error',
+  cancelled: 'default',
+};
+
+const STATUS_LABELS: Record<ShiftSwapStatus, string> = {
+  open: 'On offer',
+  proposed: 'Awaiting colleague',
+  pending: 'Awaiting manager',
+  approved: 'Approved',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+};
+
+const describe = (request: ShiftSwapRequest) => {
+  switch (request.type) {
+    case 'claim':
+      return `${request.requesterName} to work ${request.shiftLabel} as ${request.role}`;
+    case 'offer':
+      return request.counterpartName
+        ? `${request.counterpartName} to cover ${request.requesterName} on ${request.shiftLabel}`
+        : `${request.requesterName} is offering ${request.shiftLabel}`;
+    case 'swap':
+      return `${request.requesterName} (${request.shiftLabel}) with ${request.counterpartName} (${request.counterpartShiftLabel})`;
+  }
+};
+
+const SwapRequestsTable: React.FC<Props> = ({ requests, userId, canDecide, busyId, onAction }) => {
+  if (!requests.length) {
+    return (
+      <Typography color="text.secondary" sx={{ p: 2 }}>
+        No shift change requests.
+      </Typography>
+    );
+  }
+
+  const actionsFor = (request: ShiftSwapRequest): Array<{ action: SwapRequestAction; label: string }> => {
+    const actions: Array<{ action: SwapRequestAction; label: string }> = [];
+    if (request.status === 'proposed' && request.counterpartId === userId) {
+      actions.push({ action: 'accept', label: 'Accept' }, { action: 'reject', label: 'Turn Down' });
+    }
+    if (canDecide && request.status === 'pending') {
+      actions.push(
+        { action: 'check', label: 'Re-check' },
+        { action: 'approve', label: 'Approve' },
+        { action: 'decline', label: 'Decline' }
+      );
+    }
+    if (request.requesterId === userId && ['open', 'proposed', 'pending'].includes(request.status)) {
+      actions.push({ action: 'cancel', label: 'Cancel' });
+    }
+    return actions;
+  };
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Type</TableCell>
+          <TableCell>Change</TableCell>
+          <TableCell>Status</TableCell>
+          <TableCell>Notes</TableCell>
+          <TableCell align="right">Actions</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {requests.map(request => (
+          <TableRow key={request.id}>
+            <TableCell>{TYPE_LABELS[request.type]}</TableCell>
+            <TableCell>
+              <Typography variant="body2">{describe(request)}</Typography>
+              {request.status === 'pending' && request.issues.length > 0 && (
+                <Stack spacing={0.5} sx={{ mt: 0.5 }}>
+                  {request.issues.map(issue => (
+                    <Box key={issue} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <WarningIcon color="warning" fontSize="inherit" />
+                      <Typography variant="caption" color="warning.main">{issue}</Typography>
+                    </Box>
+                  ))}
+                </Stack>
+              )}
+            </TableCell>
+            <TableCell>
+              <Chip size="small" label={STATUS_LABELS[request.status]} color={STATUS_COLORS[request.status]} />
+            </TableCell>
+            <TableCell>
+              <Typography variant="body2">{request.notes || '-'}</Typography>
+              {request.decisionNotes && (
+                <Typography variant="caption" color="text.secondary">{request.decisionNotes}</Typography>
+              )}
+            </TableCell>
+            <TableCell align="right">
+              <Stack direction="row" spacing={1} justifyContent="flex-end">
+                {actionsFor(request).map(({ action, label }) => (
+                  <Tooltip
+                    key={action}
+                    title={action === 'approve' && request.issues.length ? 'Approval re-checks the rota and is refused while problems remain' : ''}
+                  >
+                    <span>
+                      <Button
+                        size="small"
+                        variant={action === 'approve' || action === 'accept' ? 'contained' : 'text'}
+                        color={action === 'decline' || action === 'reject' ? 'error' : 'primary'}
+                        disabled={busyId === request.id}
+                        onClick={() => onAction(request, action)}
+                      >
+                        {label}
+                      </Button>
+                    </span>
+                  </Tooltip>
+                ))}
+              </Stack>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default SwapRequestsTable;
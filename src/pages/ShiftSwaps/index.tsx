@@ -0,0 +1,331 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Stack,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import {
+  ChevronLeft as PreviousIcon,
+  ChevronRight as NextIcon,
+} from '@mui/icons-material';
+import { addWeeks, format, startOfWeek } from 'date-fns';
+import PageHeader from '../../components/Common/PageHeader';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRotaContext } from '../../contexts/RotaContext';
+import { useShiftSwaps } from '../../contexts/ShiftSwapContext';
+import { Shift, ShiftRole, ShiftSwapRequest, ShiftSwapType } from '../../types/rota';
+import { getOpenRoles, getShiftLabel, getShiftPatterns, getStaffAssignment } from '../../utils/rotaUtils';
+import ShiftSwapDialog, { ShiftSwapSubmission } from './components/ShiftSwapDialog';
+import SwapRequestsTable, { SwapRequestAction } from './components/SwapRequestsTable';
+
+type SwapTab = 'mine' | 'open' | 'requests';
+
+const ShiftSwapsPage: React.FC = () => {
+  const { currentUser, userData, isAdmin } = useAuth();
+  const { currentRota, staff, currentSite, isLoading, loadRotaForWeek } = useRotaContext();
+  const {
+    requests,
+    loading,
+    error: swapError,
+    offerShift,
+    proposeSwap,
+    claimShift,
+    takeOffer,
+    respondToSwap,
+    cancelRequest,
+    checkRequest,
+    approveRequest,
+    declineRequest,
+  } = useShiftSwaps();
+
+  const [weekDate, setWeekDate] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [tab, setTab] = useState<SwapTab>('mine');
+  const [dialog, setDialog] = useState<{ type: ShiftSwapType; shift: Shift } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = currentUser?.uid || '';
+  const canDecide = isAdmin || userData?.role === 'manager';
+  const today = new Date().toISOString().slice(0, 10);
+
+  const userRoles = useMemo<ShiftRole[]>(
+    () => staff.find(member => member.id === userId)?.roles || userData?.roles || [],
+    [staff, userId, userData]
+  );
+
+  useEffect(() => {
+    if (!currentSite) return;
+    loadRotaForWeek(weekDate, currentSite);
+  }, [weekDate, currentSite, loadRotaForWeek]);
+
+  const patterns = useMemo(() => getShiftPatterns(currentRota?.configuration), [currentRota]);
+  const upcomingShifts = useMemo(
+    () => (currentRota?.shifts || [])
+      .filter(shift => shift.date.slice(0, 10) >= today)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)),
+    [currentRota, today]
+  );
+
+  const myShifts = upcomingShifts.filter(shift => getStaffAssignment(shift, userId));
+  const openShifts = upcomingShifts.filter(shift =>
+    (shift.status === 'Unfilled' || shift.status === 'Partially Staffed') &&
+    !getStaffAssignment(shift, userId) &&
+    getOpenRoles(shift).some(role => userRoles.includes(role))
+  );
+  const offers = requests.filter(request =>
+    request.type === 'offer' &&
+    request.status === 'open' &&
+    request.requesterId !== userId &&
+    request.shiftDate >= today
+  );
+
+  const activeRequestFor = (shiftId: string) => requests.find(request =>
+    request.shiftId === shiftId &&
+    request.requesterId === userId &&
+    ['open', 'proposed', 'pending'].includes(request.status)
+  );
+
+  const visibleRequests = canDecide
+    ? requests
+    : requests.filter(request => request.requesterId === userId || request.counterpartId === userId);
+  const needsAction = requests.filter(request =>
+    (request.status === 'proposed' && request.counterpartId === userId) ||
+    (canDecide && request.status === 'pending')
+  ).length;
+
+  const handleSubmit = async ({ notes, role, counterpartShift, counterpartId }: ShiftSwapSubmission) => {
+    if (!dialog || !currentRota) return;
+    if (dialog.type === 'offer') {
+      await offerShift(currentRota, dialog.shift, notes);
+    } else if (dialog.type === 'swap' && counterpartShift && counterpartId) {
+      await proposeSwap(currentRota, dialog.shift, counterpartShift, counterpartId, notes);
+    } else if (dialog.type === 'claim' && role) {
+      await claimShift(currentRota, dialog.shift, role, notes);
+    }
+    setTab('requests');
+  };
+
+  const handleTake = async (request: ShiftSwapRequest) => {
+    setBusyId(request.id);
+    try {
+      await takeOffer(request.id);
+      setTab('requests');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to take shift');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAction = async (request: ShiftSwapRequest, action: SwapRequestAction) => {
+    let notes = '';
+    if (action === 'decline' || action === 'reject') {
+      const reason = window.prompt('Reason (optional)');
+      if (reason === null) return;
+      notes = reason.trim();
+    }
+
+    setBusyId(request.id);
+    setError(null);
+    try {
+      switch (action) {
+        case 'accept':
+          await respondToSwap(request.id, true);
+          break;
+        case 'reject':
+          await respondToSwap(request.id, false, notes);
+          break;
+        case 'cancel':
+          await cancelRequest(request.id);
+          break;
+        case 'check':
+          await checkRequest(request.id);
+          break;
+        case 'approve':
+          await approveRequest(request.id);
+          break;
+        case 'decline':
+          await declineRequest(request.id, notes);
+          break;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderShiftRows = (shifts: Shift[], renderActions: (shift: Shift) => React.ReactNode) => (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Shift</TableCell>
+          <TableCell>Status</TableCell>
+          <TableCell align="right">Actions</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {shifts.map(shift => (
+          <TableRow key={shift.id}>
+            <TableCell>{getShiftLabel(shift, patterns)}</TableCell>
+            <TableCell>
+              <Chip size="small" label={shift.status} />
+            </TableCell>
+            <TableCell align="right">{renderActions(shift)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <PageHeader
+        title="Shift Swaps"
+        subtitle={currentSite ? `Offer, swap and pick up shifts at ${currentSite}` : 'Offer, swap and pick up shifts'}
+        helpText="Every change is checked against the rota rules (role, rest between shifts, hours and other sites) and only goes on the rota once a manager approves it."
+      />
+
+      {(error || swapError) && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error || swapError}
+        </Alert>
+      )}
+
+      <Paper sx={{ mb: 2, p: 1 }}>
+        <Stack direction="row" alignItems="center" spacing={1}>
+          <IconButton onClick={() => setWeekDate(prev => addWeeks(prev, -1))}>
+            <PreviousIcon />
+          </IconButton>
+          <Typography variant="subtitle1">
+            Week of {format(weekDate, 'd MMM yyyy')}
+          </Typography>
+          <IconButton onClick={() => setWeekDate(prev => addWeeks(prev, 1))}>
+            <NextIcon />
+          </IconButton>
+        </Stack>
+      </Paper>
+
+      <Paper>
+        <Tabs value={tab} onChange={(_, value: SwapTab) => setTab(value)} sx={{ borderBottom: 1, borderColor: 'divider' }}>
+          <Tab value="mine" label="My Shifts" />
+          <Tab value="open" label="Open Shifts" />
+          <Tab
+            value="requests"
+            label={
+              <Badge badgeContent={needsAction} color="error">
+                <Box sx={{ pr: needsAction ? 1.5 : 0 }}>Requests</Box>
+              </Badge>
+            }
+          />
+        </Tabs>
+
+        {(isLoading || loading) ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ p: 1 }}>
+            {tab === 'mine' && (
+              !currentRota ? (
+                <Typography color="text.secondary" sx={{ p: 2 }}>No rota has been made for this week yet.</Typography>
+              ) : !myShifts.length ? (
+                <Typography color="text.secondary" sx={{ p: 2 }}>You have no upcoming shifts this week.</Typography>
+              ) : renderShiftRows(myShifts, shift => {
+                const active = activeRequestFor(shift.id);
+                if (active) return <Chip size="small" color="info" label="Change requested" />;
+                return (
+                  <Stack direction="row" spacing={1} justifyContent="flex-end">
+                    <Button size="small" onClick={() => setDialog({ type: 'offer', shift })}>Offer</Button>
+                    <Button size="small" onClick={() => setDialog({ type: 'swap', shift })}>Swap</Button>
+                  </Stack>
+                );
+              })
+            )}
+
+            {tab === 'open' && (
+              <Stack spacing={2}>
+                <Box>
+                  <Typography variant="subtitle2" sx={{ p: 1 }}>Offered by colleagues</Typography>
+                  {offers.length ? (
+                    <Table size="small">
+                      <TableBody>
+                        {offers.map(request => (
+                          <TableRow key={request.id}>
+                            <TableCell>{request.shiftLabel}</TableCell>
+                            <TableCell>{request.requesterName} ({request.role})</TableCell>
+                            <TableCell>{request.notes}</TableCell>
+                            <TableCell align="right">
+                              <Button
+                                size="small"
+                                variant="contained"
+                                disabled={busyId === request.id}
+                                onClick={() => handleTake(request)}
+                              >
+                                Take Shift
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <Typography color="text.secondary" sx={{ px: 1 }}>No shifts on offer.</Typography>
+                  )}
+                </Box>
+                <Box>
+                  <Typography variant="subtitle2" sx={{ p: 1 }}>Short-staffed shifts this week</Typography>
+                  {openShifts.length ? renderShiftRows(openShifts, shift => (
+                    activeRequestFor(shift.id)
+                      ? <Chip size="small" color="info" label="Claim requested" />
+                      : <Button size="small" onClick={() => setDialog({ type: 'claim', shift })}>Claim</Button>
+                  )) : (
+                    <Typography color="text.secondary" sx={{ px: 1 }}>No open shifts you can fill.</Typography>
+                  )}
+                </Box>
+              </Stack>
+            )}
+
+            {tab === 'requests' && (
+              <SwapRequestsTable
+                requests={visibleRequests}
+                userId={userId}
+                canDecide={canDecide}
+                busyId={busyId}
+                onAction={handleAction}
+              />
+            )}
+          </Box>
+        )}
+      </Paper>
+
+      <ShiftSwapDialog
+        open={!!dialog}
+        type={dialog?.type || 'offer'}
+        rota={currentRota}
+        shift={dialog?.shift || null}
+        staff={staff}
+        userId={userId}
+        userRoles={userRoles}
+        onClose={() => setDialog(null)}
+        onSubmit={handleSubmit}
+      />
+    </Box>
+  );
+};
+
+export default ShiftSwapsPage;
@@ -9,7 +9,7 @@ import {
   MenuItem,
   Button,
 } from '@mui/material';
-import { Add as AddIcon, LocationOn as SiteIcon } from '@mui/icons-material';
+import { Add as AddIcon, LocationOn as SiteIcon, Rule as PolicyIcon } from '@mui/icons-material';
 import { useAuth } from '../../contexts/AuthContext';
 import { useSickness } from '../../contexts/SicknessContext';
 import useUserData from '../../hooks/useUserData';
@@ -18,6 +18,8 @@ import SicknessMeetingDialog from './components/SicknessMeetingDialog';
 import SicknessCard from './components/SicknessCard';
 import SicknessStats from './components/SicknessStats';
 import SicknessTabs from './components/SicknessTabs';
+import ReturnToWorkDialog from './components/ReturnToWorkDialog';
+import AbsencePolicyDialog from './components/AbsencePolicyDialog';
 import { SicknessRecord } from '../../types/sickness';
 
 const AdminSicknessPage = () => {
@@ -29,6 +31,11 @@ const AdminSicknessPage = () => {
   const [meetingDialogOpen, setMeetingDialogOpen] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<SicknessRecord | undefined>(undefined);
   const [editMode, setEditMode] = useState(false);
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
+  const [interviewRecordId, setInterviewRecordId] = useState<string | null>(null);
+
+  // Follow the live record so a saved draft shows when the dialog is reopened
+  const interviewRecord = sicknessRecords.find(record => record.id === interviewRecordId);
 
   // Get list of unique sites
   const sites = useMemo(() => {
@@ -122,13 +129,22 @@ const AdminSicknessPage = () => {
             </Select>
           </FormControl>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => setRecordDialogOpen(true)}
-        >
-          Add Record
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<PolicyIcon />}
+            onClick={() => setPolicyDialogOpen(true)}
+          >
+            Absence Policies
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setRecordDialogOpen(true)}
+          >
+            Add Record
+          </Button>
+        </Box>
       </Box>
 
       <SicknessStats records={filteredRecords} />
@@ -140,6 +156,7 @@ const AdminSicknessPage = () => {
         onAddNotes={handleAddNotes}
         onEdit={handleEdit}
         onUploadForm={handleUploadForm}
+        onReturnToWork={(record) => setInterviewRecordId(record.id)}
         onComplete={handleComplete}
       />
 
@@ -151,6 +168,20 @@ const AdminSicknessPage = () => {
         record={editMode ? selectedRecord : undefined}
       />
 
+      <AbsencePolicyDialog
+        open={policyDialogOpen}
+        onClose={() => setPolicyDialogOpen(false)}
+        sites={sites.filter(site => site !== 'all')}
+      />
+
+      {interviewRecord && (
+        <ReturnToWorkDialog
+          open
+          onClose={() => setInterviewRecordId(null)}
+          record={interviewRecord}
+        />
+      )}
+
       {/* Meeting Dialog */}
       {selectedRecord && (
         <SicknessMeetingDialog
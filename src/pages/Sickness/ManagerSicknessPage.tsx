@@ -17,6 +17,7 @@ import SicknessMeetingDialog from './components/SicknessMeetingDialog';
 import SicknessCard from './components/SicknessCard';
 import SicknessStats from './components/SicknessStats';
 import SicknessTabs from './components/SicknessTabs';
+import ReturnToWorkDialog from './components/ReturnToWorkDialog';
 
 const ManagerSicknessPage = () => {
   const { userData, isAdmin } = useAuth();
@@ -26,6 +27,10 @@ const ManagerSicknessPage = () => {
   const [meetingDialogOpen, setMeetingDialogOpen] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<any>(null);
   const [selectedSite, setSelectedSite] = useState<string>('');
+  const [interviewRecordId, setInterviewRecordId] = useState<string | null>(null);
+
+  // Follow the live record so a saved draft shows when the dialog is reopened
+  const interviewRecord = sicknessRecords.find(record => record.id === interviewRecordId);
 
   // Initialize selected site
   React.useEffect(() => {
@@ -121,6 +126,7 @@ const ManagerSicknessPage = () => {
         records={filteredRecords}
         onScheduleMeeting={handleScheduleMeeting}
         onAddNotes={handleAddNotes}
+        onReturnToWork={(record) => setInterviewRecordId(record.id)}
       />
 
       <SicknessRecordDialog
@@ -129,6 +135,14 @@ const ManagerSicknessPage = () => {
         selectedSite={selectedSite}
       />
 
+      {interviewRecord && (
+        <ReturnToWorkDialog
+          open
+          onClose={() => setInterviewRecordId(null)}
+          record={interviewRecord}
+        />
+      )}
+
       {selectedRecord && (
         <SicknessMeetingDialog
           open={meetingDialogOpen}
@@ -1,18 +1,25 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Box,
+  Button,
   Typography,
   Alert,
 } from '@mui/material';
+import { format } from 'date-fns';
 import { useAuth } from '../../contexts/AuthContext';
 import { useSickness } from '../../contexts/SicknessContext';
 import SicknessCard from './components/SicknessCard';
 import SicknessStats from './components/SicknessStats';
 import SicknessTabs from './components/SicknessTabs';
+import ReturnToWorkSignDialog from './components/ReturnToWorkSignDialog';
+import { SicknessRecord } from '../../types/sickness';
+
+const toDate = (value: SicknessRecord['startDate']) => (value instanceof Date ? value : value.toDate());
 
 const StaffSicknessPage = () => {
   const { currentUser, userData } = useAuth();
   const { sicknessRecords, getTriggerStatus } = useSickness();
+  const [signingId, setSigningId] = useState<string | null>(null);
 
   // Filter records for current user
   const personalRecords = useMemo(() => {
@@ -20,6 +27,15 @@ const StaffSicknessPage = () => {
     return sicknessRecords.filter(record => record.staffId === currentUser.uid);
   }, [sicknessRecords, currentUser]);
 
+  // Interviews the manager has saved that still need the employee's signature
+  const awaitingSignature = useMemo(() => personalRecords.filter(record =>
+    record.returnToWorkInterview &&
+    !record.returnToWorkInterview.completedAt &&
+    !record.returnToWorkInterview.employeeSignOff
+  ), [personalRecords]);
+
+  const signingRecord = personalRecords.find(record => record.id === signingId);
+
   // Get trigger status
   const triggerStatus = useMemo(() => {
     if (!currentUser) return null;
@@ -37,19 +53,45 @@ const StaffSicknessPage = () => {
           severity="warning" 
           sx={{ mb: 3 }}
         >
-          You are nearing sickness trigger points:
+          You are nearing sickness trigger points in the last {triggerStatus.policy.windowMonths} months:
           <br />
-          • {triggerStatus.occurrences} occurrences this year (threshold: 4)
+          • Bradford Factor {triggerStatus.bradfordScore} (trigger: {triggerStatus.policy.bradfordTrigger})
           <br />
-          • {triggerStatus.totalDays} total days (threshold: 10)
+          • {triggerStatus.occurrences} occurrences (threshold: {triggerStatus.policy.maxOccurrences})
+          <br />
+          • {triggerStatus.totalDays} total days (threshold: {triggerStatus.policy.maxDays})
         </Alert>
       )}
 
+      {awaitingSignature.map(record => (
+        <Alert
+          key={record.id}
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={() => setSigningId(record.id)}>
+              Review and sign
+            </Button>
+          }
+        >
+          Your return to work interview for the absence from {format(toDate(record.startDate), 'PPP')} is ready to sign
+        </Alert>
+      ))}
+
       <SicknessStats records={personalRecords} />
       
       <SicknessTabs 
         records={personalRecords}
       />
+
+      {signingRecord && (
+        <ReturnToWorkSignDialog
+          key={signingRecord.id}
+          open
+          onClose={() => setSigningId(null)}
+          record={signingRecord}
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useSickness } from '../../../contexts/SicknessContext';
+import { AbsencePolicyInput, DEFAULT_ABSENCE_POLICY } from '../../../types/sickness';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  sites: string[];
+}
+
+type NumberField = 'windowMonths' | 'bradfordWarning' | 'bradfordTrigger' | 'maxOccurrences' | 'maxDays';
+
+const NUMBER_FIELDS: Array<{ field: NumberField; label: string; helperText?: string }> = [
+  { field: 'windowMonths', label: 'Rolling window (months)' },
+  { field: 'bradfordWarning', label: 'Bradford warning score', helperText: 'Shown as nearing trigger' },
+  { field: 'bradfordTrigger', label: 'Bradford trigger score' },
+  { field: 'maxOccurrences', label: 'Trigger occurrences', helperText: 'Reached at this many spells' },
+  { field: 'maxDays', label: 'Trigger days', helperText: 'Reached when exceeded' },
+];
+
+const toInput = ({ name, windowMonths, bradfordWarning, bradfordTrigger, maxOccurrences, maxDays, unpaidMaxDays }: AbsencePolicyInput) =>
+  ({ name, windowMonths, bradfordWarning, bradfordTrigger, maxOccurrences, maxDays, unpaidMaxDays });
+
+const AbsencePolicyDialog: React.FC<Props> = ({ open, onClose, sites }) => {
+  const { absencePolicies, saveAbsencePolicy, deleteAbsencePolicy } = useSickness();
+  const [site, setSite] = useState('');
+  const [form, setForm] = useState<AbsencePolicyInput>(toInput(DEFAULT_ABSENCE_POLICY));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const existing = absencePolicies.find(policy => policy.site === site);
+
+  useEffect(() => {
+    if (!open) return;
+    const fallback = absencePolicies.find(policy => policy.site === '') || DEFAULT_ABSENCE_POLICY;
+    setForm(toInput(existing || {
+      ...fallback,
+      name: site ? `${site} policy` : fallback.name,
+    }));
+    setError(null);
+  }, [open, site, existing, absencePolicies]);
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (NUMBER_FIELDS.some(({ field }) => !(form[field] > 0))) {
+      setError('All thresholds must be greater than zero');
+      return;
+    }
+    if (form.bradfordWarning > form.bradfordTrigger) {
+      setError('The warning score must not be above the trigger score');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveAbsencePolicy(site, { ...form, name: form.name.trim() });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove the ${site} policy? The site will use the default policy.`)) return;
+    try {
+      await deleteAbsencePolicy(site);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove policy');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Absence Policies</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12}>
+            <FormControl fullWidth>
+              <InputLabel>Applies to</InputLabel>
+              <Select value={site} label="Applies to" onChange={(e) => setSite(e.target.value)}>
+                <MenuItem value="">Default (sites without their own policy)</MenuItem>
+                {sites.map(s => (
+                  <MenuItem key={s} value={s}>
+                    {s}{absencePolicies.some(policy => policy.site === s) ? '' : ' (uses default)'}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              label="Policy name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </Grid>
+          {NUMBER_FIELDS.map(({ field, label, helperText }) => (
+            <Grid item xs={12} sm={6} key={field}>
+              <TextField
+                fullWidth
+                type="number"
+                label={label}
+                helperText={helperText}
+                value={form[field]}
+                inputProps={{ min: 1 }}
+                onChange={(e) => setForm(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+              />
+            </Grid>
+          ))}
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Unpaid leave limit (days)"
+              helperText="Leave blank for no limit"
+              value={form.unpaidMaxDays ?? ''}
+              inputProps={{ min: 0 }}
+              onChange={(e) => setForm(prev => ({
+                ...prev,
+                unpaidMaxDays: e.target.value === '' ? null : Number(e.target.value),
+              }))}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="caption" color="text.secondary">
+              The Bradford Factor is spells² × days of sickness in the window. Authorised unpaid
+              leave is not part of the score and only counts towards its own limit.
+            </Typography>
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        {site && existing && (
+          <Button color="error" onClick={handleRemove} sx={{ mr: 'auto' }}>
+            Use Default
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Policy'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AbsencePolicyDialog;
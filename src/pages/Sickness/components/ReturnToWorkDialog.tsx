@@ -0,0 +1,440 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useSickness } from '../../../contexts/SicknessContext';
+import {
+  FitNoteStatus,
+  InterviewSignOff,
+  RETURN_TO_WORK_QUESTIONS,
+  ReturnToWorkInterview,
+  SicknessRecord,
+} from '../../../types/sickness';
+import { exportReturnToWorkPdf } from '../../../utils/returnToWorkPdf';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  record: SicknessRecord;
+}
+
+const toDate = (value: Date | Timestamp | null | undefined): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  return value.toDate();
+};
+
+const toSignOff = (signOff: InterviewSignOff | null): InterviewSignOff | null =>
+  signOff ? { name: signOff.name, signedAt: toDate(signOff.signedAt) || new Date() } : null;
+
+// Firestore hands back Timestamps; the form works with Dates throughout
+const toFormInterview = (interview: ReturnToWorkInterview): ReturnToWorkInterview => ({
+  ...interview,
+  interviewDate: toDate(interview.interviewDate) || new Date(),
+  firstDayBack: toDate(interview.firstDayBack) || new Date(),
+  fitNote: {
+    ...interview.fitNote,
+    dateFrom: toDate(interview.fitNote.dateFrom),
+    dateTo: toDate(interview.fitNote.dateTo),
+  },
+  adjustments: interview.adjustments.map(adjustment => ({
+    ...adjustment,
+    reviewDate: toDate(adjustment.reviewDate),
+  })),
+  employeeSignOff: toSignOff(interview.employeeSignOff),
+  managerSignOff: toSignOff(interview.managerSignOff),
+});
+
+const ReturnToWorkDialog: React.FC<Props> = ({ open, onClose, record }) => {
+  const { currentUser, userData } = useAuth();
+  const { sicknessRecords, saveReturnToWorkInterview, completeReturnToWorkInterview } = useSickness();
+  // Mounted per record, so the form starts from the saved draft (or a blank one) and
+  // isn't reset by later snapshots of the same record
+  const [form, setForm] = useState<ReturnToWorkInterview>(() =>
+    record.returnToWorkInterview ? toFormInterview(record.returnToWorkInterview) : {
+      interviewDate: new Date(),
+      firstDayBack: toDate(record.endDate) || new Date(),
+      conductedBy: currentUser?.uid || '',
+      conductedByName: userData?.name || '',
+      answers: { reason: record.reason },
+      fitNote: {
+        provided: false,
+        status: null,
+        dateFrom: null,
+        dateTo: null,
+        issuedBy: '',
+        recommendations: '',
+      },
+      adjustments: [],
+      employeeSignOff: null,
+      managerSignOff: null,
+      completedAt: null,
+    }
+  );
+  const [managerName, setManagerName] = useState(userData?.name || '');
+  const [contentChanged, setContentChanged] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCompleted = !!record.returnToWorkInterview?.completedAt;
+
+  // The employee signs the saved draft from their own page, possibly while this
+  // dialog is open, so their signature is taken from the latest copy of the record
+  const savedInterview = (sicknessRecords.find(r => r.id === record.id) || record).returnToWorkInterview;
+  const employeeSignOff = contentChanged ? null : toSignOff(savedInterview?.employeeSignOff || null);
+
+  // Any change to what was agreed invalidates earlier signatures
+  const updateContent = (updates: Partial<ReturnToWorkInterview>) => {
+    setContentChanged(true);
+    setForm(prev => ({ ...prev, ...updates, employeeSignOff: null, managerSignOff: null }));
+  };
+
+  const updateFitNote = (updates: Partial<ReturnToWorkInterview['fitNote']>) =>
+    updateContent({ fitNote: { ...form.fitNote, ...updates } });
+
+  const updateAdjustment = (index: number, updates: Partial<ReturnToWorkInterview['adjustments'][number]>) =>
+    updateContent({
+      adjustments: form.adjustments.map((adjustment, i) => (i === index ? { ...adjustment, ...updates } : adjustment)),
+    });
+
+  const handleSign = () => {
+    const name = managerName.trim();
+    if (!name) {
+      setError('Enter a name to sign');
+      return;
+    }
+    setForm(prev => ({ ...prev, managerSignOff: { name, signedAt: new Date() } }));
+  };
+
+  const validate = () => {
+    if (!form.conductedByName.trim()) return 'Enter who conducted the interview';
+    if (form.fitNote.provided && !form.fitNote.status) return 'Choose the fit note status';
+    if (form.adjustments.some(adjustment => !adjustment.description.trim())) return 'Describe each adjustment or remove it';
+    return null;
+  };
+
+  const handleSave = async (complete: boolean) => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (complete && (!employeeSignOff || !form.managerSignOff)) {
+      setError('Both the employee and the manager must sign before completing');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const interview = { ...form, employeeSignOff };
+      if (complete) {
+        await completeReturnToWorkInterview(record, interview);
+      } else {
+        await saveReturnToWorkInterview(record.id, interview);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save interview');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSignature = (signOff: InterviewSignOff) => (
+    <Typography variant="body2">
+      Signed by {signOff.name} on {format(toDate(signOff.signedAt) || new Date(), 'PPp')}
+    </Typography>
+  );
+
+  const renderEmployeeSignOff = () => (
+    <Grid item xs={12} sm={6}>
+      <Typography variant="subtitle2" gutterBottom>Employee</Typography>
+      {employeeSignOff ? renderSignature(employeeSignOff) : (
+        <Typography variant="body2" color="text.secondary">
+          {record.staffName} signs from their own Sickness page once the draft is saved
+        </Typography>
+      )}
+    </Grid>
+  );
+
+  const renderManagerSignOff = () => (
+    <Grid item xs={12} sm={6}>
+      <Typography variant="subtitle2" gutterBottom>Manager</Typography>
+      {form.managerSignOff ? (
+        <Stack direction="row" spacing={1} alignItems="center">
+          {renderSignature(form.managerSignOff)}
+          {!isCompleted && (
+            <Button size="small" onClick={() => setForm(prev => ({ ...prev, managerSignOff: null }))}>
+              Clear
+            </Button>
+          )}
+        </Stack>
+      ) : (
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            fullWidth
+            label="Full name"
+            value={managerName}
+            onChange={(e) => setManagerName(e.target.value)}
+            disabled={isCompleted}
+          />
+          <Button variant="outlined" onClick={handleSign} disabled={isCompleted}>
+            Sign
+          </Button>
+        </Stack>
+      )}
+    </Grid>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Return to Work Interview - {record.staffName}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {isCompleted && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Completed on {format(toDate(record.returnToWorkInterview?.completedAt) || new Date(), 'PPP')}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} sm={4}>
+            <DatePicker
+              label="Interview date"
+              value={toDate(form.interviewDate)}
+              onChange={(date) => date && updateContent({ interviewDate: date })}
+              disabled={isCompleted}
+              sx={{ width: '100%' }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <DatePicker
+              label="First day back"
+              value={toDate(form.firstDayBack)}
+              onChange={(date) => date && updateContent({ firstDayBack: date })}
+              disabled={isCompleted}
+              sx={{ width: '100%' }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              label="Conducted by"
+              value={form.conductedByName}
+              onChange={(e) => updateContent({ conductedByName: e.target.value })}
+              disabled={isCompleted}
+            />
+          </Grid>
+
+          <Grid item xs={12}>
+            <Divider textAlign="left">Interview</Divider>
+          </Grid>
+          {RETURN_TO_WORK_QUESTIONS.map(question => (
+            <Grid item xs={12} key={question.id}>
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                label={question.label}
+                value={form.answers[question.id] || ''}
+                onChange={(e) => updateContent({ answers: { ...form.answers, [question.id]: e.target.value } })}
+                disabled={isCompleted}
+              />
+            </Grid>
+          ))}
+
+          <Grid item xs={12}>
+            <Divider textAlign="left">Fit Note</Divider>
+          </Grid>
+          <Grid item xs={12}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={form.fitNote.provided}
+                  onChange={(e) => updateFitNote({ provided: e.target.checked })}
+                  disabled={isCompleted}
+                />
+              }
+              label="A fit note was provided"
+            />
+          </Grid>
+          {form.fitNote.provided && (
+            <>
+              <Grid item xs={12} sm={4}>
+                <FormControl fullWidth>
+                  <InputLabel>Status</InputLabel>
+                  <Select
+                    value={form.fitNote.status || ''}
+                    label="Status"
+                    onChange={(e) => updateFitNote({ status: e.target.value as FitNoteStatus })}
+                    disabled={isCompleted}
+                  >
+                    <MenuItem value="not_fit">Not fit for work</MenuItem>
+                    <MenuItem value="may_be_fit">May be fit for work</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <DatePicker
+                  label="From"
+                  value={toDate(form.fitNote.dateFrom)}
+                  onChange={(date) => updateFitNote({ dateFrom: date })}
+                  disabled={isCompleted}
+                  sx={{ width: '100%' }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <DatePicker
+                  label="To"
+                  value={toDate(form.fitNote.dateTo)}
+                  onChange={(date) => updateFitNote({ dateTo: date })}
+                  disabled={isCompleted}
+                  sx={{ width: '100%' }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  label="Issued by"
+                  value={form.fitNote.issuedBy}
+                  onChange={(e) => updateFitNote({ issuedBy: e.target.value })}
+                  disabled={isCompleted}
+                />
+              </Grid>
+              <Grid item xs={12} sm={8}>
+                <TextField
+                  fullWidth
+                  label="Recommendations"
+                  value={form.fitNote.recommendations}
+                  onChange={(e) => updateFitNote({ recommendations: e.target.value })}
+                  disabled={isCompleted}
+                />
+              </Grid>
+            </>
+          )}
+
+          <Grid item xs={12}>
+            <Divider textAlign="left">Agreed Adjustments</Divider>
+          </Grid>
+          {form.adjustments.map((adjustment, index) => (
+            <React.Fragment key={index}>
+              <Grid item xs={12} sm={7}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Adjustment"
+                  value={adjustment.description}
+                  onChange={(e) => updateAdjustment(index, { description: e.target.value })}
+                  disabled={isCompleted}
+                />
+              </Grid>
+              <Grid item xs={10} sm={4}>
+                <DatePicker
+                  label="Review by"
+                  value={toDate(adjustment.reviewDate)}
+                  onChange={(date) => updateAdjustment(index, { reviewDate: date })}
+                  disabled={isCompleted}
+                  slotProps={{ textField: { size: 'small', fullWidth: true } }}
+                />
+              </Grid>
+              <Grid item xs={2} sm={1}>
+                <IconButton
+                  onClick={() => updateContent({ adjustments: form.adjustments.filter((_a, i) => i !== index) })}
+                  disabled={isCompleted}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Grid>
+            </React.Fragment>
+          ))}
+          <Grid item xs={12}>
+            {form.adjustments.length === 0 && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                No adjustments agreed.
+              </Typography>
+            )}
+            {!isCompleted && (
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => updateContent({ adjustments: [...form.adjustments, { description: '', reviewDate: null }] })}
+              >
+                Add Adjustment
+              </Button>
+            )}
+          </Grid>
+
+          <Grid item xs={12}>
+            <Divider textAlign="left">Sign-off</Divider>
+          </Grid>
+          {renderEmployeeSignOff()}
+          {renderManagerSignOff()}
+          {!isCompleted && (
+            <Grid item xs={12}>
+              <Typography variant="caption" color="text.secondary">
+                Sign and save the draft, then the employee reads and signs it before you complete it.
+                Changing any answer clears both signatures.
+              </Typography>
+            </Grid>
+          )}
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        {record.returnToWorkInterview && (
+          <Box sx={{ mr: 'auto' }}>
+            <Button
+              startIcon={<PdfIcon />}
+              onClick={() => record.returnToWorkInterview && exportReturnToWorkPdf(record, record.returnToWorkInterview)}
+            >
+              Export PDF
+            </Button>
+          </Box>
+        )}
+        <Button onClick={onClose}>{isCompleted ? 'Close' : 'Cancel'}</Button>
+        {!isCompleted && (
+          <>
+            <Button onClick={() => handleSave(false)} disabled={saving}>
+              Save Draft
+            </Button>
+            <Button variant="contained" onClick={() => handleSave(true)} disabled={saving}>
+              {saving ? 'Saving...' : 'Complete Interview'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReturnToWorkDialog;
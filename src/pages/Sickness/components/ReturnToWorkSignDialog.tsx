@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { useSickness } from '../../../contexts/SicknessContext';
+import { FitNoteStatus, RETURN_TO_WORK_QUESTIONS, SicknessRecord } from '../../../types/sickness';
+import { exportReturnToWorkPdf } from '../../../utils/returnToWorkPdf';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  record: SicknessRecord;
+}
+
+const toDate = (value: Date | Timestamp | null | undefined): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  return value.toDate();
+};
+
+const formatDate = (value: Date | Timestamp | null | undefined) => {
+  const date = toDate(value);
+  return date ? format(date, 'PPP') : '-';
+};
+
+const FIT_NOTE_LABELS: Record<FitNoteStatus, string> = {
+  not_fit: 'Not fit for work',
+  may_be_fit: 'May be fit for work',
+};
+
+// The employee's read-only copy of their return-to-work interview, where they
+// add their own signature once their manager has saved it
+const ReturnToWorkSignDialog: React.FC<Props> = ({ open, onClose, record }) => {
+  const { signReturnToWorkInterview } = useSickness();
+  const [name, setName] = useState(record.staffName);
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const interview = record.returnToWorkInterview;
+  if (!interview) return null;
+
+  const handleSign = async () => {
+    if (!name.trim()) {
+      setError('Enter your full name to sign');
+      return;
+    }
+
+    setSigning(true);
+    try {
+      await signReturnToWorkInterview(record, name);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign interview');
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const canSign = !interview.employeeSignOff && !interview.completedAt;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Your Return to Work Interview</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            Interview on {formatDate(interview.interviewDate)} with {interview.conductedByName || 'your manager'},
+            back at work from {formatDate(interview.firstDayBack)}.
+          </Typography>
+
+          <Divider textAlign="left">Interview</Divider>
+          {RETURN_TO_WORK_QUESTIONS.map(question => (
+            <Box key={question.id}>
+              <Typography variant="subtitle2">{question.label}</Typography>
+              <Typography variant="body2">{interview.answers[question.id] || '-'}</Typography>
+            </Box>
+          ))}
+
+          <Divider textAlign="left">Fit Note</Divider>
+          {interview.fitNote.provided ? (
+            <Typography variant="body2">
+              {interview.fitNote.status ? FIT_NOTE_LABELS[interview.fitNote.status] : 'Provided'}
+              {' '}from {formatDate(interview.fitNote.dateFrom)} to {formatDate(interview.fitNote.dateTo)}
+              {interview.fitNote.recommendations && ` — ${interview.fitNote.recommendations}`}
+            </Typography>
+          ) : (
+            <Typography variant="body2" color="text.secondary">No fit note provided.</Typography>
+          )}
+
+          <Divider textAlign="left">Agreed Adjustments</Divider>
+          {interview.adjustments.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No adjustments agreed.</Typography>
+          ) : interview.adjustments.map((adjustment, index) => (
+            <Typography variant="body2" key={index}>
+              {adjustment.description}
+              {adjustment.reviewDate && ` (review by ${formatDate(adjustment.reviewDate)})`}
+            </Typography>
+          ))}
+
+          <Divider textAlign="left">Sign-off</Divider>
+          {interview.managerSignOff && (
+            <Typography variant="body2">
+              Manager: signed by {interview.managerSignOff.name} on {formatDate(interview.managerSignOff.signedAt)}
+            </Typography>
+          )}
+          {interview.employeeSignOff ? (
+            <Typography variant="body2">
+              You signed as {interview.employeeSignOff.name} on {formatDate(interview.employeeSignOff.signedAt)}
+            </Typography>
+          ) : canSign && (
+            <>
+              <Typography variant="body2" color="text.secondary">
+                Signing confirms this is a fair record of your interview. If anything is wrong, speak to your
+                manager before you sign.
+              </Typography>
+              <Stack direction="row" spacing={1}>
+                <TextField
+                  size="small"
+                  fullWidth
+                  label="Your full name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <Button variant="contained" onClick={handleSign} disabled={signing}>
+                  {signing ? 'Signing...' : 'Sign'}
+                </Button>
+              </Stack>
+            </>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Box sx={{ mr: 'auto' }}>
+          <Button startIcon={<PdfIcon />} onClick={() => exportReturnToWorkPdf(record, interview)}>
+            Export PDF
+          </Button>
+        </Box>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReturnToWorkSignDialog;
@@ -28,6 +28,7 @@ import {
   Done as DoneIcon,
   Flag as FlagIcon,
   EventBusy as UnpaidLeaveIcon,
+  Assignment as InterviewIcon,
 } from '@mui/icons-material';
 import { format, differenceInDays } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
@@ -35,6 +36,7 @@ import { alpha, useTheme } from '@mui/material/styles';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useSickness } from '../../../contexts/SicknessContext';
 import { SicknessRecord } from '../../../types/sickness';
+import { describeTriggerStatus, TRIGGER_REASON_LABELS } from '../../../utils/absenceScoring';
 
 interface Props {
   record: SicknessRecord;
@@ -42,6 +44,7 @@ interface Props {
   onAddNotes?: (record: SicknessRecord) => void;
   onEdit?: (record: SicknessRecord) => void;
   onUploadForm?: (record: SicknessRecord) => void;
+  onReturnToWork?: (record: SicknessRecord) => void;
   onComplete?: (record: SicknessRecord) => void;
 }
 
@@ -62,6 +65,7 @@ const SicknessCard: React.FC<Props> = ({
   onAddNotes,
   onEdit,
   onUploadForm,
+  onReturnToWork,
   onComplete,
 }) => {
   const theme = useTheme();
@@ -98,9 +102,11 @@ const SicknessCard: React.FC<Props> = ({
 
   const getTriggerProgress = () => {
     if (!recordStats) return 0;
-    const daysProgress = Math.min((recordStats.totalDays / 10) * 100, 100);
-    const occurrencesProgress = Math.min((recordStats.occurrences / 4) * 100, 100);
-    return Math.max(daysProgress, occurrencesProgress);
+    const { policy } = recordStats;
+    const bradfordProgress = Math.min((recordStats.bradfordScore / policy.bradfordTrigger) * 100, 100);
+    const daysProgress = Math.min((recordStats.totalDays / policy.maxDays) * 100, 100);
+    const occurrencesProgress = Math.min((recordStats.occurrences / policy.maxOccurrences) * 100, 100);
+    return Math.max(bradfordProgress, daysProgress, occurrencesProgress);
   };
 
   return (
@@ -141,20 +147,25 @@ const SicknessCard: React.FC<Props> = ({
                 size="small"
                 sx={{ flex: 1 }}
               />
-              <LinearProgress
-                variant="determinate"
-                value={getTriggerProgress()}
-                color={recordStats?.hasReachedTrigger ? "error" : recordStats?.isNearingTrigger ? "warning" : "primary"}
-                sx={{ 
-                  flex: 2,
-                  height: 24,
-                  borderRadius: 12,
-                  bgcolor: alpha(theme.palette.grey[500], 0.1),
-                  '& .MuiLinearProgress-bar': {
+              <Tooltip
+                title={`Bradford Factor ${recordStats.bradfordScore} · ${recordStats.policy.name}, rolling ${recordStats.policy.windowMonths} months`}
+                TransitionComponent={Zoom}
+              >
+                <LinearProgress
+                  variant="determinate"
+                  value={getTriggerProgress()}
+                  color={recordStats?.hasReachedTrigger ? "error" : recordStats?.isNearingTrigger ? "warning" : "primary"}
+                  sx={{ 
+                    flex: 2,
+                    height: 24,
                     borderRadius: 12,
-                  }
-                }}
-              />
+                    bgcolor: alpha(theme.palette.grey[500], 0.1),
+                    '& .MuiLinearProgress-bar': {
+                      borderRadius: 12,
+                    }
+                  }}
+                />
+              </Tooltip>
             </>
           )}
         </Box>
@@ -230,6 +241,12 @@ const SicknessCard: React.FC<Props> = ({
               >
                 Duration: {duration} days
               </Typography>
+              {record.type === 'sickness' && (
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  Bradford Factor: <strong>{recordStats.bradfordScore}</strong>
+                  {' '}({recordStats.occurrences} spell(s), {recordStats.totalDays} day(s) in the last {recordStats.policy.windowMonths} months)
+                </Typography>
+              )}
             </Box>
 
             {/* Notes */}
@@ -262,10 +279,15 @@ const SicknessCard: React.FC<Props> = ({
                 <Typography variant="subtitle2" gutterBottom>
                   {recordStats.hasReachedTrigger ? 'Trigger Points Reached:' : 'Nearing Trigger Points:'}
                 </Typography>
-                <Typography variant="body2">
-                  • {recordStats.occurrences}/4 occurrences
-                  <br />
-                  • {recordStats.totalDays}/10 days
+                <Typography variant="body2" component="div">
+                  {describeTriggerStatus(recordStats).map(line => (
+                    <div key={line}>• {line}</div>
+                  ))}
+                </Typography>
+                <Typography variant="caption" display="block" sx={{ mt: 0.5 }}>
+                  Policy: {recordStats.policy.name}
+                  {recordStats.hasReachedTrigger &&
+                    ` · triggered by ${recordStats.triggeredBy.map(reason => TRIGGER_REASON_LABELS[reason]).join(', ')}`}
                 </Typography>
                 {recordStats.hasReachedTrigger && record.step === 0 && (
                   <Typography variant="body2" sx={{ mt: 1, fontWeight: 'bold' }}>
@@ -275,6 +297,16 @@ const SicknessCard: React.FC<Props> = ({
               </Alert>
             )}
 
+            {/* Unpaid leave is checked against its own limit, outside the Bradford score */}
+            {record.type === 'authorised_unpaid' && recordStats.unpaid.hasReachedTrigger && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                <Typography variant="body2">
+                  {recordStats.unpaid.totalDays} days of unpaid leave in the last {recordStats.policy.windowMonths} months
+                  {' '}(limit {recordStats.policy.unpaidMaxDays} under {recordStats.policy.name})
+                </Typography>
+              </Alert>
+            )}
+
             {/* Review Date */}
             {record.status === 'review' && record.reviewDate && (
               <Alert 
@@ -319,6 +351,16 @@ const SicknessCard: React.FC<Props> = ({
                       Return to Work Form
                     </Button>
                   )}
+                  {record.type === 'sickness' && onReturnToWork && (
+                    <Button
+                      startIcon={<InterviewIcon />}
+                      onClick={() => onReturnToWork(record)}
+                      color={record.returnToWorkInterview?.completedAt ? 'success' : 'primary'}
+                      sx={{ flex: 1 }}
+                    >
+                      {record.returnToWorkInterview?.completedAt ? 'View Interview' : 'RTW Interview'}
+                    </Button>
+                  )}
                 </ButtonGroup>
 
                 {/* Status-based Actions */}
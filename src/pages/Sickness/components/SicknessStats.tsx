@@ -27,7 +27,9 @@ import {
 } from '@mui/icons-material';
 import { alpha, useTheme } from '@mui/material/styles';
 import { Timestamp } from 'firebase/firestore';
-import { format, subDays, isAfter } from 'date-fns';
+import { subDays, isAfter } from 'date-fns';
+import { useSickness } from '../../../contexts/SicknessContext';
+import { TRIGGER_REASON_LABELS } from '../../../utils/absenceScoring';
 
 interface Props {
   records: Array<{
@@ -49,6 +51,17 @@ const toDate = (value: Date | Timestamp | null | undefined): Date => {
 
 const SicknessStats: React.FC<Props> = ({ records }) => {
   const theme = useTheme();
+  const { getTriggerStatus } = useSickness();
+
+  // Everyone in these records scored against their site's policy, highest first
+  const bradfordScores = useMemo(() => {
+    const staff = new Map<string, string>();
+    records.forEach(record => staff.set(record.staffId, record.staffName));
+    return Array.from(staff.entries())
+      .map(([staffId, staffName]) => ({ staffId, staffName, status: getTriggerStatus(staffId) }))
+      .filter(({ status }) => status.bradfordScore > 0 || status.unpaid.hasReachedTrigger)
+      .sort((a, b) => b.status.bradfordScore - a.status.bradfordScore);
+  }, [records, getTriggerStatus]);
 
   const stats = useMemo(() => {
     const today = new Date();
@@ -345,6 +358,62 @@ const SicknessStats: React.FC<Props> = ({ records }) => {
           </List>
         </Paper>
       </Grid>
+
+      {/* Bradford Factor */}
+      <Grid item xs={12}>
+        <Paper
+          elevation={3}
+          sx={{
+            p: 2,
+            bgcolor: alpha(theme.palette.background.paper, 0.7),
+            border: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
+          }}
+        >
+          <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <AssessmentIcon color="primary" />
+            Bradford Factor
+          </Typography>
+          <Divider sx={{ my: 1 }} />
+          {bradfordScores.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No sickness absence in the current scoring windows.
+            </Typography>
+          ) : (
+            <List dense>
+              {bradfordScores.map(({ staffId, staffName, status }) => (
+                <ListItem key={staffId}>
+                  <ListItemIcon>
+                    <PersonIcon
+                      color={status.hasReachedTrigger ? 'error' : status.isNearingTrigger ? 'warning' : 'action'}
+                    />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${staffName} — ${status.bradfordScore}`}
+                    secondary={
+                      `${status.occurrences} spell(s), ${status.totalDays} day(s) in ${status.policy.windowMonths} months · ` +
+                      `${status.policy.name} (trigger ${status.policy.bradfordTrigger})` +
+                      (status.unpaid.totalDays > 0 ? ` · ${status.unpaid.totalDays} unpaid day(s)` : '')
+                    }
+                  />
+                  <Stack direction="row" spacing={0.5}>
+                    {status.triggeredBy.map(reason => (
+                      <Chip key={reason} size="small" color="error" label={TRIGGER_REASON_LABELS[reason]} />
+                    ))}
+                    {status.isNearingTrigger && (
+                      <Chip size="small" color="warning" label="Nearing trigger" />
+                    )}
+                    {status.unpaid.hasReachedTrigger && (
+                      <Tooltip title={`Over the ${status.policy.unpaidMaxDays}-day unpaid leave limit`} TransitionComponent={Zoom}>
+                        <Chip size="small" color="info" label="Unpaid limit" />
+                      </Tooltip>
+                    )}
+                  </Stack>
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </Paper>
+      </Grid>
     </Grid>
   );
 };
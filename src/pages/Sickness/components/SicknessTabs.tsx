@@ -39,6 +39,7 @@ interface Props {
   onAddNotes?: (record: SicknessRecord) => void;
   onEdit?: (record: SicknessRecord) => void;
   onUploadForm?: (record: SicknessRecord) => void;
+  onReturnToWork?: (record: SicknessRecord) => void;
   onComplete?: (record: SicknessRecord) => void;
 }
 
@@ -55,6 +56,7 @@ const SicknessTabs: React.FC<Props> = ({
   onAddNotes,
   onEdit,
   onUploadForm,
+  onReturnToWork,
   onComplete,
 }) => {
   const [activeTab, setActiveTab] = useState(0);
@@ -220,6 +222,7 @@ const SicknessTabs: React.FC<Props> = ({
                     onAddNotes={onAddNotes}
                     onEdit={onEdit}
                     onUploadForm={onUploadForm}
+                    onReturnToWork={onReturnToWork}
                     onComplete={onComplete}
                   />
                 </Grid>
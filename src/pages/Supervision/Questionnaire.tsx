@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Paper,
+  Rating,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Lock as LockIcon, Send as SendIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import PageHeader from '../../components/Common/PageHeader';
+import { QuestionnaireAnswers, useSupervision } from '../../contexts/SupervisionContext';
+import { SUPERVISION_TYPE_LABELS } from '../../utils/supervisionSchedule';
+
+type ListField = 'topics' | 'concerns' | 'suggestions';
+
+const LIST_FIELDS: Array<{ field: ListField; label: string; placeholder: string; color: 'default' | 'error' | 'success' }> = [
+  { field: 'topics', label: 'What would you like to talk about?', placeholder: 'Add a topic', color: 'default' },
+  { field: 'concerns', label: 'Is anything worrying you?', placeholder: 'Add a concern', color: 'error' },
+  { field: 'suggestions', label: 'What could we do better?', placeholder: 'Add a suggestion', color: 'success' },
+];
+
+const EMPTY_ANSWERS: QuestionnaireAnswers = {
+  topics: [],
+  concerns: [],
+  suggestions: [],
+  comments: '',
+  rating: 0,
+  isConfidential: false,
+};
+
+// Filled in by the supervisee before their supervision, from the link in their notification
+const SupervisionQuestionnaire: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { supervisions, loading, submitQuestionnaire, hasSubmittedQuestionnaire } = useSupervision();
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>(EMPTY_ANSWERS);
+  const [drafts, setDrafts] = useState<Record<ListField, string>>({ topics: '', concerns: '', suggestions: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  // Null until we know whether one was sent before
+  const [alreadySent, setAlreadySent] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const supervision = supervisions.find(s => s.id === id);
+  const supervisionId = supervision?.id;
+
+  useEffect(() => {
+    if (!supervisionId) return;
+
+    let cancelled = false;
+    hasSubmittedQuestionnaire(supervisionId)
+      .then(sent => {
+        if (!cancelled) setAlreadySent(sent);
+      })
+      .catch(() => {
+        // Let them try; a second questionnaire is refused when it is sent
+        if (!cancelled) setAlreadySent(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [supervisionId, hasSubmittedQuestionnaire]);
+
+  const handleAdd = (field: ListField) => {
+    const value = drafts[field].trim();
+    if (!value) return;
+    setAnswers(prev => ({ ...prev, [field]: [...prev[field], value] }));
+    setDrafts(prev => ({ ...prev, [field]: '' }));
+  };
+
+  const handleSubmit = async () => {
+    if (!supervision) return;
+    if (!answers.rating) {
+      setError('Give a rating for how things are going');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await submitQuestionnaire(supervision.id, {
+        ...answers,
+        // Anything still typed in a box counts as added
+        topics: [...answers.topics, drafts.topics.trim()].filter(Boolean),
+        concerns: [...answers.concerns, drafts.concerns.trim()].filter(Boolean),
+        suggestions: [...answers.suggestions, drafts.suggestions.trim()].filter(Boolean),
+        comments: answers.comments.trim(),
+      });
+      setSubmitted(true);
+    } catch (err) {
+      console.error('Error submitting questionnaire:', err);
+      setError('Failed to send your questionnaire. If you have already sent one for this supervision it cannot be changed.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || (supervision && alreadySent === null)) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const renderMessage = (message: string) => (
+    <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+      <Typography color="textSecondary" gutterBottom>{message}</Typography>
+      <Button onClick={() => navigate('/')}>Back to Dashboard</Button>
+    </Paper>
+  );
+
+  return (
+    <Box sx={{ p: 3, maxWidth: 800, mx: 'auto' }}>
+      <PageHeader
+        title="Supervision Questionnaire"
+        subtitle={supervision
+          ? `${SUPERVISION_TYPE_LABELS[supervision.type]} on ${format(supervision.date, 'PPP p')}`
+          : undefined}
+        helpText="Your answers help your supervisor prepare. Confidential answers are never shown with your name; managers only see them counted together with everyone else's at your site."
+      />
+
+      {!supervision && renderMessage('This supervision could not be found.')}
+      {supervision && (submitted || alreadySent) &&
+        renderMessage('Thank you, your questionnaire has been sent.')}
+      {supervision && !submitted && !alreadySent &&
+        supervision.status !== 'scheduled' &&
+        renderMessage('This supervision is no longer taking questionnaires.')}
+
+      {supervision && !submitted && !alreadySent && supervision.status === 'scheduled' && (
+        <Paper variant="outlined" sx={{ p: 3 }}>
+          <Stack spacing={3}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <Box>
+              <Typography variant="subtitle1" gutterBottom>How are things going at work?</Typography>
+              <Rating
+                size="large"
+                value={answers.rating || null}
+                onChange={(_, value) => setAnswers(prev => ({ ...prev, rating: value || 0 }))}
+              />
+            </Box>
+
+            {LIST_FIELDS.map(({ field, label, placeholder, color }) => (
+              <Box key={field}>
+                <Typography variant="subtitle1" gutterBottom>{label}</Typography>
+                {answers[field].length > 0 && (
+                  <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mb: 1 }}>
+                    {answers[field].map((item, index) => (
+                      <Chip
+                        key={`${item}-${index}`}
+                        label={item}
+                        color={color}
+                        onDelete={() => setAnswers(prev => ({
+                          ...prev,
+                          [field]: prev[field].filter((_, i) => i !== index),
+                        }))}
+                      />
+                    ))}
+                  </Stack>
+                )}
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    placeholder={placeholder}
+                    value={drafts[field]}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [field]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleAdd(field);
+                      }
+                    }}
+                  />
+                  <Button variant="outlined" startIcon={<AddIcon />} onClick={() => handleAdd(field)}>
+                    Add
+                  </Button>
+                </Box>
+              </Box>
+            ))}
+
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label="Anything else"
+              value={answers.comments}
+              onChange={(e) => setAnswers(prev => ({ ...prev, comments: e.target.value }))}
+            />
+
+            <Box>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={answers.isConfidential}
+                    onChange={(e) => setAnswers(prev => ({ ...prev, isConfidential: e.target.checked }))}
+                  />
+                }
+                label={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <LockIcon fontSize="small" />
+                    <Typography>Keep my answers confidential</Typography>
+                  </Box>
+                }
+              />
+              <Typography variant="caption" color="text.secondary" display="block">
+                {answers.isConfidential
+                  ? 'Your supervisor will not see these answers. They are only counted in site-wide feedback.'
+                  : 'Site managers can read these answers, with your name, alongside other staff feedback.'}
+              </Typography>
+            </Box>
+
+            <Button
+              variant="contained"
+              startIcon={<SendIcon />}
+              onClick={handleSubmit}
+              disabled={submitting}
+            >
+              {submitting ? 'Sending...' : 'Send Questionnaire'}
+            </Button>
+          </Stack>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default SupervisionQuestionnaire;
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Grid,
+  MenuItem,
+  Rating,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { getSupervisionFeedbackSummary } from '../../../services/supervisionService';
+import { SupervisionFeedbackSummary } from '../../../types/supervision';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  sites: string[];
+  // Admins can look across every site at once
+  allowAllSites: boolean;
+}
+
+const PERIOD_OPTIONS = [2, 4, 8];
+
+const SupervisionFeedbackDialog: React.FC<Props> = ({ open, onClose, sites, allowAllSites }) => {
+  const [site, setSite] = useState(allowAllSites ? '' : sites[0] || '');
+  const [quarters, setQuarters] = useState(4);
+  const [summary, setSummary] = useState<SupervisionFeedbackSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || (!site && !allowAllSites)) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getSupervisionFeedbackSummary(site, quarters)
+      .then(result => {
+        if (!cancelled) setSummary(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load feedback');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, site, quarters, allowAllSites]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Supervision Feedback</DialogTitle>
+      <DialogContent>
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} sm={6}>
+            <TextField select fullWidth label="Site" value={site} onChange={(e) => setSite(e.target.value)}>
+              {allowAllSites && <MenuItem value="">All sites</MenuItem>}
+              {sites.map(s => (
+                <MenuItem key={s} value={s}>{s}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              select
+              fullWidth
+              label="Period"
+              value={quarters}
+              onChange={(e) => setQuarters(Number(e.target.value))}
+            >
+              {PERIOD_OPTIONS.map(option => (
+                <MenuItem key={option} value={option}>Last {option} quarters</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+        </Grid>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading && (
+          <Box display="flex" justifyContent="center" sx={{ py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {!loading && summary && (
+          <Stack spacing={3} sx={{ mt: 3 }}>
+            <Box>
+              <Typography variant="subtitle2">Rating and concerns by quarter</Typography>
+              <Typography variant="caption" color="text.secondary" display="block" gutterBottom>
+                Includes confidential answers. Quarters are shown once they have ended, and only with at
+                least {summary.minimumResponses} answers, so nobody&apos;s confidential answer can be picked out.
+              </Typography>
+              {summary.periods.map(period => (
+                <Box key={period.period} sx={{ mb: 1.5 }}>
+                  <Grid container spacing={2} alignItems="center">
+                    <Grid item xs={3}>
+                      <Typography variant="body2">{period.period.replace('-', ' ')}</Typography>
+                    </Grid>
+                    <Grid item xs={6}>
+                      {period.averageRating !== null ? (
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Rating value={period.averageRating} precision={0.1} size="small" readOnly />
+                          <Typography variant="body2">{period.averageRating}</Typography>
+                        </Stack>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">Too few answers</Typography>
+                      )}
+                    </Grid>
+                    <Grid item xs={3}>
+                      {period.responses !== null && (
+                        <Typography variant="caption" color="text.secondary">
+                          {period.responses} questionnaire{period.responses === 1 ? '' : 's'}
+                        </Typography>
+                      )}
+                    </Grid>
+                  </Grid>
+                  {period.themes.length > 0 && (
+                    <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+                      {period.themes.map(({ theme, count }) => (
+                        <Chip
+                          key={theme}
+                          size="small"
+                          label={`${theme} (${count})`}
+                          color={count > 1 ? 'warning' : 'default'}
+                        />
+                      ))}
+                    </Stack>
+                  )}
+                </Box>
+              ))}
+            </Box>
+
+            <Divider />
+
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>Shared feedback</Typography>
+              {summary.feedback.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  No staff have shared their answers in this period.
+                </Typography>
+              )}
+              {summary.feedback.map(item => (
+                <Box key={item.id} sx={{ mb: 2 }}>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Typography variant="body2" fontWeight="bold">{item.staffName || 'Staff member'}</Typography>
+                    <Rating value={item.rating} size="small" readOnly />
+                    <Typography variant="caption" color="text.secondary">
+                      {format(item.submittedAt, 'd MMM yyyy')}
+                    </Typography>
+                  </Stack>
+                  {item.topics.length + item.concerns.length + item.suggestions.length > 0 && (
+                    <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+                      {item.topics.map(text => <Chip key={`t-${text}`} size="small" label={text} />)}
+                      {item.concerns.map(text => <Chip key={`c-${text}`} size="small" color="error" label={text} />)}
+                      {item.suggestions.map(text => <Chip key={`s-${text}`} size="small" color="success" label={text} />)}
+                    </Stack>
+                  )}
+                  {item.comments && (
+                    <Typography variant="body2" sx={{ mt: 0.5 }}>{item.comments}</Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SupervisionFeedbackDialog;
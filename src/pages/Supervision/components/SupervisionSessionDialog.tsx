@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Grid,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { addDays, format, parseISO } from 'date-fns';
+import { useSupervision } from '../../../contexts/SupervisionContext';
+import { useUsers } from '../../../contexts/UserContext';
+import { Supervision } from '../../../types';
+import {
+  SUPERVISION_ACTION_STATUS_LABELS,
+  SupervisionActionPoint,
+  SupervisionActionStatus,
+  SupervisionAgendaItem,
+} from '../../../types/supervision';
+import { getOpenActionPoints } from '../../../utils/supervisionActionPoints';
+
+interface Props {
+  supervision: Supervision;
+  onClose: () => void;
+  onRecorded: (supervision: Supervision) => void;
+}
+
+// Mounted per session, so the form starts from the agenda and carried points as they were on opening
+const SupervisionSessionDialog: React.FC<Props> = ({ supervision, onClose, onRecorded }) => {
+  const { supervisions, getSupervisionTemplate, recordSession } = useSupervision();
+  const { users } = useUsers();
+  const [template] = useState(() => getSupervisionTemplate(supervision.site));
+  const [previous] = useState(() => getOpenActionPoints(supervisions, supervision.staffId));
+  const [agenda, setAgenda] = useState<SupervisionAgendaItem[]>(() => template.sections.map(section => ({
+    sectionId: section.id,
+    title: section.title,
+    notes: supervision.agenda?.find(item => item.sectionId === section.id)?.notes || '',
+  })));
+  const [carried, setCarried] = useState<SupervisionActionPoint[]>(previous.actionPoints);
+  const [actionPoints, setActionPoints] = useState<SupervisionActionPoint[]>([]);
+  const [notes, setNotes] = useState(supervision.notes || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Anyone at the site can own an action point, not just the two people in the room
+  const owners = useMemo(() => users.filter(user =>
+    user.id === supervision.staffId ||
+    user.id === supervision.supervisorId ||
+    (!!supervision.site && (user.site === supervision.site || user.sites?.includes(supervision.site)))
+  ), [users, supervision]);
+
+  const getOwnerName = (ownerId: string) => users.find(user => user.id === ownerId)?.name || '';
+
+  const handleAddActionPoint = () => setActionPoints(prev => [...prev, {
+    id: `${Date.now()}`,
+    description: '',
+    ownerId: supervision.staffId,
+    ownerName: supervision.staffName || '',
+    dueDate: format(addDays(supervision.date, 14), 'yyyy-MM-dd'),
+    status: 'open',
+    raisedIn: null,
+    completedAt: null,
+  }]);
+
+  const updateActionPoint = (index: number, changes: Partial<SupervisionActionPoint>) =>
+    setActionPoints(prev => prev.map((point, i) => (i === index ? { ...point, ...changes } : point)));
+
+  const handleSave = async () => {
+    if (actionPoints.some(point => !point.description.trim() || !point.ownerId || !point.dueDate)) {
+      setError('Every action point needs a description, an owner and a due date');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordSession(supervision.id, {
+        notes: notes.trim(),
+        agenda: agenda.map(item => ({ ...item, notes: item.notes.trim() })),
+        actionPoints: [
+          ...carried,
+          ...actionPoints.map(point => ({ ...point, description: point.description.trim() })),
+        ],
+      });
+      onRecorded(supervision);
+    } catch (err) {
+      console.error('Error recording supervision:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record supervision');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Record Supervision — {supervision.staffName}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={3} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {format(supervision.date, 'PPP p')} with {supervision.supervisor || 'supervisor'} · {template.name}
+          </Typography>
+
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {carried.length > 0 && previous.from && (
+            <Box>
+              <Typography variant="subtitle1">Action points from last supervision</Typography>
+              <Typography variant="caption" color="text.secondary">
+                Agreed on {format(previous.from.date, 'PPP')}; open points carry into the next session
+              </Typography>
+              {carried.map((point, index) => (
+                <Grid container spacing={2} key={point.id} alignItems="center" sx={{ mt: 0 }}>
+                  <Grid item xs={12} sm={6}>
+                    <Typography variant="body2">{point.description}</Typography>
+                    <Typography variant="caption" color={point.dueDate < format(new Date(), 'yyyy-MM-dd') ? 'error' : 'text.secondary'}>
+                      {point.ownerName}, due {format(parseISO(point.dueDate), 'd MMM yyyy')}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} sm={6}>
+                    <TextField
+                      select
+                      fullWidth
+                      size="small"
+                      label="Status"
+                      value={point.status}
+                      onChange={(e) => setCarried(prev => prev.map((p, i) =>
+                        (i === index ? { ...p, status: e.target.value as SupervisionActionStatus } : p)))}
+                    >
+                      {Object.entries(SUPERVISION_ACTION_STATUS_LABELS).map(([status, label]) => (
+                        <MenuItem key={status} value={status}>{label}</MenuItem>
+                      ))}
+                    </TextField>
+                  </Grid>
+                </Grid>
+              ))}
+            </Box>
+          )}
+
+          {agenda.map((item, index) => {
+            const section = template.sections.find(s => s.id === item.sectionId);
+            return (
+              <Box key={item.sectionId}>
+                <Typography variant="subtitle1">{item.title}</Typography>
+                {section?.prompts.map(prompt => (
+                  <Typography key={prompt} variant="caption" color="text.secondary" display="block">
+                    {prompt}
+                  </Typography>
+                ))}
+                <TextField
+                  fullWidth
+                  multiline
+                  minRows={2}
+                  sx={{ mt: 1 }}
+                  value={item.notes}
+                  onChange={(e) => setAgenda(prev => prev.map((a, i) =>
+                    (i === index ? { ...a, notes: e.target.value } : a)))}
+                />
+              </Box>
+            );
+          })}
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1">New action points</Typography>
+            {actionPoints.map((point, index) => (
+              <Grid container spacing={2} key={point.id} sx={{ mt: 0 }}>
+                <Grid item xs={12} sm={5}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Action"
+                    value={point.description}
+                    onChange={(e) => updateActionPoint(index, { description: e.target.value })}
+                  />
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <TextField
+                    select
+                    fullWidth
+                    size="small"
+                    label="Owner"
+                    value={point.ownerId}
+                    onChange={(e) => updateActionPoint(index, {
+                      ownerId: e.target.value,
+                      ownerName: getOwnerName(e.target.value),
+                    })}
+                  >
+                    {owners.map(user => (
+                      <MenuItem key={user.id} value={user.id}>{user.name}</MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+                <Grid item xs={5} sm={3}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="date"
+                    label="Due"
+                    InputLabelProps={{ shrink: true }}
+                    value={point.dueDate}
+                    onChange={(e) => updateActionPoint(index, { dueDate: e.target.value })}
+                  />
+                </Grid>
+                <Grid item xs={1}>
+                  <IconButton onClick={() => setActionPoints(prev => prev.filter((_, i) => i !== index))}>
+                    <DeleteIcon />
+                  </IconButton>
+                </Grid>
+              </Grid>
+            ))}
+            <Button startIcon={<AddIcon />} onClick={handleAddActionPoint} sx={{ mt: 1 }}>
+              Add Action Point
+            </Button>
+          </Box>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Other notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Record Supervision'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SupervisionSessionDialog;
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useSupervision } from '../../../contexts/SupervisionContext';
+import {
+  DEFAULT_SUPERVISION_TEMPLATE,
+  SupervisionAgendaSection,
+  SupervisionTemplateInput,
+} from '../../../types/supervision';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  sites: string[];
+}
+
+const toInput = ({ name, sections }: SupervisionTemplateInput): SupervisionTemplateInput => ({
+  name,
+  sections,
+});
+
+const SupervisionTemplateDialog: React.FC<Props> = ({ open, onClose, sites }) => {
+  const { supervisionTemplates, saveSupervisionTemplate, deleteSupervisionTemplate } = useSupervision();
+  const [site, setSite] = useState('');
+  const [form, setForm] = useState<SupervisionTemplateInput>(toInput(DEFAULT_SUPERVISION_TEMPLATE));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const existing = supervisionTemplates.find(template => template.site === site);
+
+  useEffect(() => {
+    if (!open) return;
+    const fallback = supervisionTemplates.find(template => template.site === '') || DEFAULT_SUPERVISION_TEMPLATE;
+    setForm(toInput(existing || {
+      ...fallback,
+      name: site ? `${site} agenda` : fallback.name,
+    }));
+    setError(null);
+  }, [open, site, existing, supervisionTemplates]);
+
+  const updateSection = (index: number, changes: Partial<SupervisionAgendaSection>) => setForm(prev => ({
+    ...prev,
+    sections: prev.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)),
+  }));
+
+  const handleAddSection = () => setForm(prev => ({
+    ...prev,
+    sections: [...prev.sections, { id: `${Date.now()}`, title: '', prompts: [] }],
+  }));
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (!form.sections.length) {
+      setError('The agenda needs at least one section');
+      return;
+    }
+    if (form.sections.some(section => !section.title.trim())) {
+      setError('Every section needs a title');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveSupervisionTemplate(site, {
+        name: form.name.trim(),
+        sections: form.sections.map(section => ({
+          ...section,
+          title: section.title.trim(),
+          prompts: section.prompts.map(prompt => prompt.trim()).filter(Boolean),
+        })),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save agenda');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove the ${site} agenda? The site will use the default agenda.`)) return;
+    try {
+      await deleteSupervisionTemplate(site);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove agenda');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Supervision Agendas</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12}>
+            <FormControl fullWidth>
+              <InputLabel>Applies to</InputLabel>
+              <Select value={site} label="Applies to" onChange={(e) => setSite(e.target.value)}>
+                <MenuItem value="">Default (sites without their own agenda)</MenuItem>
+                {sites.map(s => (
+                  <MenuItem key={s} value={s}>
+                    {s}{supervisionTemplates.some(template => template.site === s) ? '' : ' (uses default)'}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              label="Agenda name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </Grid>
+          {form.sections.map((section, index) => (
+            <React.Fragment key={section.id}>
+              <Grid item xs={10} sm={11}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Section"
+                  placeholder="e.g. Wellbeing"
+                  value={section.title}
+                  onChange={(e) => updateSection(index, { title: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={2} sm={1}>
+                <IconButton
+                  onClick={() => setForm(prev => ({
+                    ...prev,
+                    sections: prev.sections.filter((_, i) => i !== index),
+                  }))}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  multiline
+                  size="small"
+                  label="Prompts"
+                  helperText="One question per line"
+                  value={section.prompts.join('\n')}
+                  onChange={(e) => updateSection(index, { prompts: e.target.value.split('\n') })}
+                />
+              </Grid>
+            </React.Fragment>
+          ))}
+          <Grid item xs={12}>
+            <Button startIcon={<AddIcon />} onClick={handleAddSection}>
+              Add Section
+            </Button>
+          </Grid>
+          <Grid item xs={12}>
+            <Typography variant="caption" color="text.secondary">
+              Supervisions are written up under these sections. Open action points from the last
+              session are added to the agenda automatically.
+            </Typography>
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        {site && existing && (
+          <Button color="error" onClick={handleRemove} sx={{ mr: 'auto' }}>
+            Use Default
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Agenda'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SupervisionTemplateDialog;
@@ -38,126 +38,102 @@ import {
   Email as EmailIcon,
   EmojiEvents as TrophyIcon,
   Star as StarIcon,
+  ListAlt as AgendaIcon,
+  Feedback as FeedbackIcon,
 } from '@mui/icons-material';
-import { useTraining } from '../../contexts/TrainingContext';
-import { TrainingRecord } from '../../types';
-import { format, differenceInDays, addDays, isAfter, isBefore, startOfDay } from 'date-fns';
-import { SUPERVISION_COURSES } from '../../utils/excelParser';
-import { createNotification, scheduleSupervsion } from '../../utils/notifications';
-import { addDoc, collection, Timestamp } from 'firebase/firestore';
-import { db } from '../../firebase/config';
+import { useSupervision } from '../../contexts/SupervisionContext';
+import { useUsers } from '../../contexts/UserContext';
+import { StaffSupervisionSchedule, Supervision } from '../../types';
+import { format, differenceInDays, addDays, isBefore, startOfDay } from 'date-fns';
+import { getStaffSupervisionSchedule, SUPERVISION_TYPE_LABELS } from '../../utils/supervisionSchedule';
+import { getOpenActionPoints } from '../../utils/supervisionActionPoints';
+import SupervisionSessionDialog from './components/SupervisionSessionDialog';
+import SupervisionTemplateDialog from './components/SupervisionTemplateDialog';
+import SupervisionFeedbackDialog from './components/SupervisionFeedbackDialog';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTheme } from '@mui/material/styles';
 
 interface ScheduleDialogData {
   staffId: string;
-  staffName: string;
-  courseTitle: string;
+  type: Supervision['type'];
   date: string;
   time: string;
   location: string;
   notes: string;
-  sendQuestionnaire: boolean;
 }
 
-const toDate = (value: any): Date => {
-  if (!value) return new Date();
-  if (value instanceof Date) return value;
-  if (typeof value === 'object' && 'toDate' in value) {
-    return value.toDate();
-  }
-  return new Date(value);
+const EMPTY_SCHEDULE: ScheduleDialogData = {
+  staffId: '',
+  type: 'supervision',
+  date: '',
+  time: '',
+  location: '',
+  notes: '',
 };
 
 const SupervisionPage: React.FC = () => {
   const theme = useTheme();
-  const { trainingRecords, loading, updateTrainingRecord } = useTraining();
-  const { currentUser } = useAuth();
+  const { supervisions, loading, createSupervision } = useSupervision();
+  const { users, loading: usersLoading } = useUsers();
+  const { currentUser, userData, isAdmin } = useAuth();
   const [activeTab, setActiveTab] = useState(0);
   const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
   const [newSupervisionDialogOpen, setNewSupervisionDialogOpen] = useState(false);
-  const [selectedRecord, setSelectedRecord] = useState<TrainingRecord | null>(null);
-  const [scheduleData, setScheduleData] = useState<ScheduleDialogData>({
-    staffId: '',
-    staffName: '',
-    courseTitle: SUPERVISION_COURSES[0],
-    date: '',
-    time: '',
-    location: '',
-    notes: '',
-    sendQuestionnaire: true,
-  });
+  const [scheduleData, setScheduleData] = useState<ScheduleDialogData>(EMPTY_SCHEDULE);
+  const [sessionToRecord, setSessionToRecord] = useState<Supervision | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [feedbackDialogOpen, setFeedbackDialogOpen] = useState(false);
   const [snackbar, setSnackbar] = useState({
     open: false,
     message: '',
     severity: 'success' as 'success' | 'error',
   });
 
-  // Filter records to only show supervision courses
-  const supervisionRecords = useMemo(() => 
-    trainingRecords.filter((record: TrainingRecord) => 
-      SUPERVISION_COURSES.includes(record.courseTitle)
-    ),
-    [trainingRecords]
+  // Admins are not supervised; everyone else has a place in the cycle
+  const schedules = useMemo(() =>
+    users
+      .filter(user => user.role !== 'admin')
+      .map(user => getStaffSupervisionSchedule(user, supervisions)),
+    [users, supervisions]
   );
 
-  // Organize records by status and date
+  const sites = useMemo(
+    () => Array.from(new Set(users.map(user => user.site).filter((site): site is string => !!site))),
+    [users]
+  );
+
+  // Organize staff by when their next supervision is due
   const organizedRecords = useMemo(() => {
     const today = startOfDay(new Date());
     const thirtyDaysFromNow = addDays(today, 30);
+    const byDueDate = (a: StaffSupervisionSchedule, b: StaffSupervisionSchedule) =>
+      a.nextDueDate.getTime() - b.nextDueDate.getTime();
 
-    // First identify manually scheduled records
-    const scheduled = supervisionRecords.filter(record => {
-      // Only consider records that have been manually scheduled through UI
-      return record.isManuallyScheduled === true && 
-             record.completionDate && 
-             isAfter(toDate(record.completionDate), today);
-    }).sort((a, b) => {
-      const dateA = toDate(a.completionDate);
-      const dateB = toDate(b.completionDate);
-      return dateA.getTime() - dateB.getTime();
-    });
+    // Booked sessions are shown on their own, whenever they fall
+    const scheduled = schedules
+      .filter(schedule => schedule.nextScheduled)
+      .sort((a, b) => a.nextScheduled!.date.getTime() - b.nextScheduled!.date.getTime());
 
-    // Get IDs of scheduled records to exclude them
-    const scheduledIds = new Set(scheduled.map(r => r.id));
+    const unscheduled = schedules.filter(schedule => !schedule.nextScheduled);
 
-    // Get all unscheduled records (excluding any that are manually scheduled)
-    const unscheduledRecords = supervisionRecords.filter(record => 
-      !scheduledIds.has(record.id) && record.isManuallyScheduled !== true
-    );
-
-    // Process expired records (only from unscheduled records)
-    const expired = unscheduledRecords.filter(record => {
-      if (!record.expiryDate) return false;
-      const expiryDate = toDate(record.expiryDate);
-      return isBefore(expiryDate, today);
-    }).sort((a, b) => {
-      const dateA = toDate(a.expiryDate);
-      const dateB = toDate(b.expiryDate);
-      return dateA.getTime() - dateB.getTime();
-    });
+    const expired = unscheduled
+      .filter(schedule => isBefore(schedule.nextDueDate, today))
+      .sort(byDueDate);
 
-    // Get upcoming records (only from unscheduled records)
-    const upcoming = unscheduledRecords.filter(record => {
-      if (!record.expiryDate) return false;
-      const expiryDate = toDate(record.expiryDate);
-      return isAfter(expiryDate, today) && isBefore(expiryDate, thirtyDaysFromNow);
-    }).sort((a, b) => {
-      const dateA = toDate(a.expiryDate);
-      const dateB = toDate(b.expiryDate);
-      return dateA.getTime() - dateB.getTime();
-    });
+    const upcoming = unscheduled
+      .filter(schedule => !isBefore(schedule.nextDueDate, today) && isBefore(schedule.nextDueDate, thirtyDaysFromNow))
+      .sort(byDueDate);
 
     return { expired, upcoming, scheduled };
-  }, [supervisionRecords]);
+  }, [schedules]);
 
   // Calculate progress percentage
   const progressPercentage = useMemo(() => {
-    if (supervisionRecords.length === 0) return 100;
-    const totalRecords = supervisionRecords.length;
+    if (schedules.length === 0) return 100;
+    const totalRecords = schedules.length;
     const expiredRecords = organizedRecords.expired.length;
     return Math.round(((totalRecords - expiredRecords) / totalRecords) * 100);
-  }, [supervisionRecords, organizedRecords]);
+  }, [schedules, organizedRecords]);
 
   // Calculate achievements
   const achievements = useMemo(() => {
@@ -175,132 +151,74 @@ const SupervisionPage: React.FC = () => {
   }, [organizedRecords, progressPercentage]);
 
   const handleNewSupervision = () => {
-    setScheduleData({
-      staffId: '',
-      staffName: '',
-      courseTitle: SUPERVISION_COURSES[0],
-      date: '',
-      time: '',
-      location: '',
-      notes: '',
-      sendQuestionnaire: true,
-    });
+    setScheduleData(EMPTY_SCHEDULE);
     setNewSupervisionDialogOpen(true);
   };
 
-  const handleSchedule = async (record: TrainingRecord) => {
-    setSelectedRecord(record);
+  const handleSchedule = (schedule: StaffSupervisionSchedule) => {
     setScheduleData({
-      staffId: record.staffId || '',
-      staffName: record.staffName,
-      courseTitle: record.courseTitle,
-      date: '',
-      time: '',
-      location: '',
-      notes: '',
-      sendQuestionnaire: true,
+      ...EMPTY_SCHEDULE,
+      staffId: schedule.staffId,
+      type: schedule.lastCompleted?.type || 'supervision',
     });
     setScheduleDialogOpen(true);
   };
 
   const handleScheduleSubmit = async () => {
-    if (!selectedRecord || !currentUser) return;
-
-    try {
-      const scheduledDate = new Date(`${scheduleData.date}T${scheduleData.time}`);
-      
-      // Wait for both operations to complete
-      await Promise.all([
-        scheduleSupervsion(
-          selectedRecord.staffId,
-          currentUser.uid,
-          scheduledDate,
-          scheduleData.sendQuestionnaire
-        ),
-        updateTrainingRecord(selectedRecord.id, {
-          status: 'valid',
-          completionDate: scheduledDate,
-          expiryDate: addDays(scheduledDate, 90),
-          notes: scheduleData.notes,
-          location: scheduleData.location,
-          isManuallyScheduled: true,
-        })
-      ]);
-
-      // Add a small delay to ensure Firebase data is updated
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      setSnackbar({
-        open: true,
-        message: 'Supervision scheduled successfully! Reminders have been set.',
-        severity: 'success',
-      });
+    if (!currentUser) return;
 
-      setScheduleDialogOpen(false);
-      setSelectedRecord(null);
-      setActiveTab(2); // Switch to Scheduled tab
-    } catch (error) {
-      console.error('Error scheduling supervision:', error);
+    const staff = users.find(user => user.id === scheduleData.staffId);
+    if (!staff || !scheduleData.date || !scheduleData.time) {
       setSnackbar({
         open: true,
-        message: 'Error scheduling supervision. Please try again.',
+        message: 'Choose a member of staff, a date and a time.',
         severity: 'error',
       });
+      return;
     }
-  };
-
-  const handleNewSupervisionSubmit = async () => {
-    if (!currentUser) return;
 
     try {
-      const scheduledDate = new Date(`${scheduleData.date}T${scheduleData.time}`);
-      
-      // Create the supervision record
-      const supervisionRef = await addDoc(collection(db, 'training'), {
-        staffId: scheduleData.staffId,
-        staffName: scheduleData.staffName,
-        courseTitle: scheduleData.courseTitle,
-        status: 'valid',
-        recordType: 'supervision',
-        completionDate: Timestamp.fromDate(scheduledDate),
-        expiryDate: Timestamp.fromDate(addDays(scheduledDate, 90)),
+      await createSupervision({
+        staffId: staff.id,
+        staffName: staff.name,
+        supervisorId: currentUser.uid,
+        supervisor: userData?.name || '',
+        date: new Date(`${scheduleData.date}T${scheduleData.time}`),
+        type: scheduleData.type,
+        status: 'scheduled',
         notes: scheduleData.notes,
         location: scheduleData.location,
-        isManuallyScheduled: true,
-        createdAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
-        createdBy: currentUser.uid,
+        site: staff.site || '',
       });
 
-      // Schedule the supervision
-      await scheduleSupervsion(
-        scheduleData.staffId,
-        currentUser.uid,
-        scheduledDate,
-        scheduleData.sendQuestionnaire
-      );
-
-      // Add a small delay to ensure Firebase data is updated
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
       setSnackbar({
         open: true,
-        message: 'New supervision created and scheduled successfully!',
+        message: 'Supervision scheduled successfully! Reminders have been set.',
         severity: 'success',
       });
 
+      setScheduleDialogOpen(false);
       setNewSupervisionDialogOpen(false);
       setActiveTab(2); // Switch to Scheduled tab
     } catch (error) {
-      console.error('Error creating new supervision:', error);
+      console.error('Error scheduling supervision:', error);
       setSnackbar({
         open: true,
-        message: 'Error creating supervision. Please try again.',
+        message: 'Error scheduling supervision. Please try again.',
         severity: 'error',
       });
     }
   };
 
+  const handleRecorded = (supervision: Supervision) => {
+    setSessionToRecord(null);
+    setSnackbar({
+      open: true,
+      message: `Supervision with ${supervision.staffName} recorded.`,
+      severity: 'success',
+    });
+  };
+
   const renderAchievements = () => (
     <Fade in timeout={1000}>
       <Box sx={{ mb: 2, display: 'flex', gap: 2, justifyContent: 'center' }}>
@@ -386,13 +304,12 @@ const SupervisionPage: React.FC = () => {
     </Box>
   );
 
-  const renderSupervisionCard = (record: TrainingRecord) => {
-    const isScheduled = record.isManuallyScheduled === true && 
-                       record.completionDate && 
-                       isAfter(toDate(record.completionDate), startOfDay(new Date()));
+  const renderSupervisionCard = (schedule: StaffSupervisionSchedule) => {
+    const session = schedule.nextScheduled;
+    const isScheduled = !!session;
     const today = startOfDay(new Date());
-    const expiryDate = toDate(record.expiryDate);
-    const daysUntilExpiry = differenceInDays(expiryDate, today);
+    const daysUntilDue = differenceInDays(schedule.nextDueDate, today);
+    const openActionPoints = getOpenActionPoints(supervisions, schedule.staffId).actionPoints.length;
     
     return (
       <Zoom in timeout={300}>
@@ -427,10 +344,10 @@ const SupervisionPage: React.FC = () => {
                 }}
               >
                 <SupervisionIcon 
-                  color={isScheduled ? 'info' : daysUntilExpiry <= 0 ? 'error' : 'warning'} 
+                  color={isScheduled ? 'info' : daysUntilDue < 0 ? 'error' : 'warning'} 
                 />
                 <Typography variant="h6" sx={{ flexGrow: 1 }}>
-                  {record.staffName}
+                  {schedule.staffName}
                 </Typography>
                 {isScheduled && (
                   <Tooltip title="Scheduled" TransitionComponent={Zoom}>
@@ -440,27 +357,36 @@ const SupervisionPage: React.FC = () => {
               </Box>
 
               <Typography variant="body1" color="textSecondary">
-                {record.courseTitle}
+                {session ? SUPERVISION_TYPE_LABELS[session.type] : `Every ${schedule.frequencyWeeks} weeks`}
+                {schedule.site ? ` · ${schedule.site}` : ''}
               </Typography>
 
               <Box>
-                {isScheduled ? (
+                {session ? (
                   <Fade in timeout={500}>
                     <Box>
                       <Typography variant="body2" color="textSecondary" gutterBottom>
-                        Scheduled for: {format(toDate(record.completionDate), 'PPP')}
+                        Scheduled for: {format(session.date, 'PPP p')}
                       </Typography>
                       <Typography variant="body2" color="info">
-                        {record.location || 'Location not specified'}
+                        {session.location || 'Location not specified'}
                       </Typography>
+                      {openActionPoints > 0 && (
+                        <Typography variant="body2" color="textSecondary">
+                          {openActionPoints} open action point{openActionPoints === 1 ? '' : 's'} to review
+                        </Typography>
+                      )}
                     </Box>
                   </Fade>
                 ) : (
                   <Box>
                     <Typography variant="body2" color="textSecondary" gutterBottom>
-                      Due: {format(expiryDate, 'PPP')}
+                      Due: {format(schedule.nextDueDate, 'PPP')}
+                    </Typography>
+                    <Typography variant="body2" color="textSecondary" gutterBottom>
+                      Last supervision: {schedule.lastCompleted ? format(schedule.lastCompleted.date, 'PPP') : 'None recorded'}
                     </Typography>
-                    {daysUntilExpiry <= 0 && (
+                    {daysUntilDue < 0 && (
                       <Typography 
                         variant="body2" 
                         color="error"
@@ -469,19 +395,29 @@ const SupervisionPage: React.FC = () => {
                           animation: 'pulse 2s infinite',
                         }}
                       >
-                        Overdue by {Math.abs(daysUntilExpiry)} days
+                        Overdue by {Math.abs(daysUntilDue)} days
                       </Typography>
                     )}
                   </Box>
                 )}
               </Box>
 
-              {!isScheduled && (
+              {session ? (
+                <Button
+                  variant="outlined"
+                  color="success"
+                  startIcon={<CheckCircleIcon />}
+                  onClick={() => setSessionToRecord(session)}
+                  fullWidth
+                >
+                  Record Supervision
+                </Button>
+              ) : (
                 <Button
                   variant="contained"
-                  color={daysUntilExpiry <= 0 ? 'error' : 'warning'}
+                  color={daysUntilDue < 0 ? 'error' : 'warning'}
                   startIcon={<CalendarIcon />}
-                  onClick={() => handleSchedule(record)}
+                  onClick={() => handleSchedule(schedule)}
                   fullWidth
                   sx={{
                     transition: 'all 0.3s ease',
@@ -503,40 +439,45 @@ const SupervisionPage: React.FC = () => {
   const renderScheduleDialog = (isNew: boolean) => {
     const open = isNew ? newSupervisionDialogOpen : scheduleDialogOpen;
     const handleClose = () => isNew ? setNewSupervisionDialogOpen(false) : setScheduleDialogOpen(false);
-    const handleSubmit = isNew ? handleNewSupervisionSubmit : handleScheduleSubmit;
+    const staffName = users.find(user => user.id === scheduleData.staffId)?.name;
 
     return (
       <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
         <DialogTitle>
-          {isNew ? 'Schedule New Supervision' : 'Schedule Supervision'}
+          {isNew ? 'Schedule New Supervision' : `Schedule Supervision${staffName ? ` — ${staffName}` : ''}`}
         </DialogTitle>
         <DialogContent>
           <Stack spacing={3} sx={{ mt: 2 }}>
-            {isNew && (
-              <TextField
-                label="Staff Name"
-                value={scheduleData.staffName}
-                onChange={(e) => setScheduleData({ ...scheduleData, staffName: e.target.value })}
-                fullWidth
-                required
-              />
-            )}
             {isNew && (
               <TextField
                 select
-                label="Supervision Type"
-                value={scheduleData.courseTitle}
-                onChange={(e) => setScheduleData({ ...scheduleData, courseTitle: e.target.value })}
+                label="Staff Member"
+                value={scheduleData.staffId}
+                onChange={(e) => setScheduleData({ ...scheduleData, staffId: e.target.value })}
                 fullWidth
                 required
               >
-                {SUPERVISION_COURSES.map((course) => (
-                  <MenuItem key={course} value={course}>
-                    {course}
+                {schedules.map((schedule) => (
+                  <MenuItem key={schedule.staffId} value={schedule.staffId}>
+                    {schedule.staffName}
                   </MenuItem>
                 ))}
               </TextField>
             )}
+            <TextField
+              select
+              label="Supervision Type"
+              value={scheduleData.type}
+              onChange={(e) => setScheduleData({ ...scheduleData, type: e.target.value as Supervision['type'] })}
+              fullWidth
+              required
+            >
+              {Object.entries(SUPERVISION_TYPE_LABELS).map(([type, label]) => (
+                <MenuItem key={type} value={type}>
+                  {label}
+                </MenuItem>
+              ))}
+            </TextField>
             <TextField
               type="date"
               label="Date"
@@ -574,7 +515,7 @@ const SupervisionPage: React.FC = () => {
         </DialogContent>
         <DialogActions>
           <Button onClick={handleClose}>Cancel</Button>
-          <Button onClick={handleSubmit} variant="contained" color="primary">
+          <Button onClick={handleScheduleSubmit} variant="contained" color="primary">
             Schedule
           </Button>
         </DialogActions>
@@ -584,14 +525,14 @@ const SupervisionPage: React.FC = () => {
 
   const renderContent = () => {
     switch (activeTab) {
-      case 0: // Expired
+      case 0: // Overdue
         return (
           <Box>
             {organizedRecords.expired.length > 0 ? (
               <Grid container spacing={3}>
-                {organizedRecords.expired.map(record => (
-                  <Grid item xs={12} sm={6} md={4} key={record.id}>
-                    {renderSupervisionCard(record)}
+                {organizedRecords.expired.map(schedule => (
+                  <Grid item xs={12} sm={6} md={4} key={schedule.staffId}>
+                    {renderSupervisionCard(schedule)}
                   </Grid>
                 ))}
               </Grid>
@@ -607,7 +548,7 @@ const SupervisionPage: React.FC = () => {
               >
                 <CheckCircleIcon sx={{ fontSize: 60, color: 'success.main' }} />
                 <Typography color="success.main" variant="h6">
-                  No expired supervisions! 🎉
+                  No overdue supervisions! 🎉
                 </Typography>
               </Box>
             )}
@@ -619,9 +560,9 @@ const SupervisionPage: React.FC = () => {
           <Box>
             {organizedRecords.upcoming.length > 0 ? (
               <Grid container spacing={3}>
-                {organizedRecords.upcoming.map(record => (
-                  <Grid item xs={12} sm={6} md={4} key={record.id}>
-                    {renderSupervisionCard(record)}
+                {organizedRecords.upcoming.map(schedule => (
+                  <Grid item xs={12} sm={6} md={4} key={schedule.staffId}>
+                    {renderSupervisionCard(schedule)}
                   </Grid>
                 ))}
               </Grid>
@@ -649,9 +590,9 @@ const SupervisionPage: React.FC = () => {
           <Box>
             {organizedRecords.scheduled.length > 0 ? (
               <Grid container spacing={3}>
-                {organizedRecords.scheduled.map(record => (
-                  <Grid item xs={12} sm={6} md={4} key={record.id}>
-                    {renderSupervisionCard(record)}
+                {organizedRecords.scheduled.map(schedule => (
+                  <Grid item xs={12} sm={6} md={4} key={schedule.staffId}>
+                    {renderSupervisionCard(schedule)}
                   </Grid>
                 ))}
               </Grid>
@@ -693,7 +634,7 @@ const SupervisionPage: React.FC = () => {
     }
   };
 
-  if (loading) {
+  if (loading || usersLoading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
         <CircularProgress />
@@ -750,20 +691,40 @@ const SupervisionPage: React.FC = () => {
                 </Box>
               </Box>
             </Box>
-            <Button
-              variant="contained"
-              color="primary"
-              startIcon={<AddIcon />}
-              onClick={handleNewSupervision}
-              sx={{
-                transition: 'all 0.3s ease',
-                '&:hover': {
-                  transform: 'scale(1.05)',
-                },
-              }}
-            >
-              Schedule New
-            </Button>
+            <Stack direction="row" spacing={2}>
+              <Button
+                variant="outlined"
+                color="primary"
+                startIcon={<FeedbackIcon />}
+                onClick={() => setFeedbackDialogOpen(true)}
+              >
+                Feedback
+              </Button>
+              {isAdmin && (
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<AgendaIcon />}
+                  onClick={() => setTemplateDialogOpen(true)}
+                >
+                  Agendas
+                </Button>
+              )}
+              <Button
+                variant="contained"
+                color="primary"
+                startIcon={<AddIcon />}
+                onClick={handleNewSupervision}
+                sx={{
+                  transition: 'all 0.3s ease',
+                  '&:hover': {
+                    transform: 'scale(1.05)',
+                  },
+                }}
+              >
+                Schedule New
+              </Button>
+            </Stack>
           </Box>
 
           {renderAchievements()}
@@ -785,7 +746,7 @@ const SupervisionPage: React.FC = () => {
             <Tab 
               label={
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                  <Typography>Expired</Typography>
+                  <Typography>Overdue</Typography>
                   {organizedRecords.expired.length > 0 && (
                     <Chip 
                       label={organizedRecords.expired.length} 
@@ -838,6 +799,25 @@ const SupervisionPage: React.FC = () => {
       {/* Dialogs */}
       {renderScheduleDialog(false)} {/* Schedule existing supervision */}
       {renderScheduleDialog(true)}  {/* Create new supervision */}
+      {sessionToRecord && (
+        <SupervisionSessionDialog
+          key={sessionToRecord.id}
+          supervision={sessionToRecord}
+          onClose={() => setSessionToRecord(null)}
+          onRecorded={handleRecorded}
+        />
+      )}
+      <SupervisionTemplateDialog
+        open={templateDialogOpen}
+        onClose={() => setTemplateDialogOpen(false)}
+        sites={sites}
+      />
+      <SupervisionFeedbackDialog
+        open={feedbackDialogOpen}
+        onClose={() => setFeedbackDialogOpen(false)}
+        sites={isAdmin ? sites : userData?.sites || []}
+        allowAllSites={isAdmin}
+      />
 
       {/* Snackbar for feedback */}
       <Snackbar
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Grid,
+  InputAdornment,
+  MenuItem,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Download as DownloadIcon, Search as SearchIcon } from '@mui/icons-material';
+import { alpha, useTheme } from '@mui/material/styles';
+import { format } from 'date-fns';
+import { useUsers } from '../../../contexts/UserContext';
+import { TrainingRecord } from '../../../types';
+import { ShiftRole } from '../../../types/rota';
+import {
+  TRAINING_MATRIX_GROUP_LABELS,
+  TRAINING_MATRIX_STATUS_LABELS,
+  TrainingMatrixCell,
+  TrainingMatrixCourseGroup,
+  TrainingMatrixStatus,
+} from '../../../types/training';
+import {
+  TRAINING_MATRIX_COURSES,
+  buildTrainingMatrix,
+  formatMatrixCell,
+  getUserSite,
+} from '../../../utils/trainingMatrix';
+import { exportTrainingMatrixXlsx } from '../../../utils/trainingMatrixExport';
+
+interface Props {
+  records: TrainingRecord[];
+}
+
+const SHIFT_ROLES: ShiftRole[] = ['Care Staff', 'Shift Leader', 'Driver'];
+
+const STAFF_COLUMN_WIDTH = 200;
+
+const TrainingMatrix: React.FC<Props> = ({ records }) => {
+  const theme = useTheme();
+  const { users } = useUsers();
+  const [site, setSite] = useState('');
+  const [role, setRole] = useState('');
+  const [group, setGroup] = useState<TrainingMatrixCourseGroup | ''>('');
+  const [search, setSearch] = useState('');
+
+  const statusColors: Record<TrainingMatrixStatus, string> = {
+    valid: theme.palette.success.main,
+    expiring: theme.palette.warning.main,
+    expired: theme.palette.error.main,
+    missing: theme.palette.grey[500],
+  };
+
+  const staff = useMemo(() => users.filter(user => user.role !== 'admin'), [users]);
+
+  const sites = useMemo(
+    () => Array.from(new Set(staff.map(getUserSite).filter(Boolean))).sort(),
+    [staff]
+  );
+
+  const courses = useMemo(
+    () => TRAINING_MATRIX_COURSES.filter(course => !group || course.group === group),
+    [group]
+  );
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const shown = staff.filter(user =>
+      (!site || getUserSite(user) === site) &&
+      (!role || (role === 'manager' ? user.role === 'manager' : user.roles?.includes(role as ShiftRole))) &&
+      (!query || user.name.toLowerCase().includes(query))
+    );
+    return buildTrainingMatrix(shown, records, courses);
+  }, [staff, records, courses, site, role, search]);
+
+  const renderCell = (cell: TrainingMatrixCell) => {
+    const color = statusColors[cell.status];
+    const title = cell.record
+      ? [
+        TRAINING_MATRIX_STATUS_LABELS[cell.status],
+        cell.record.completionDate && `Completed ${format(cell.record.completionDate, 'd MMM yyyy')}`,
+        cell.daysToExpiry !== null && `Expires ${format(cell.record.expiryDate, 'd MMM yyyy')}`,
+      ].filter(Boolean).join(' · ')
+      : 'No record for this course';
+
+    return (
+      <Box
+        title={title}
+        sx={{
+          px: 0.5,
+          py: 0.25,
+          borderRadius: 1,
+          textAlign: 'center',
+          fontSize: 12,
+          whiteSpace: 'nowrap',
+          bgcolor: alpha(color, cell.status === 'missing' ? 0.08 : 0.2),
+          color: cell.status === 'valid' ? 'text.primary' : color,
+          fontWeight: cell.status === 'valid' ? 'normal' : 'bold',
+          border: cell.status === 'missing' ? `1px dashed ${color}` : 'none',
+        }}
+      >
+        {cell.status === 'missing' ? '—' : formatMatrixCell(cell)}
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      <Grid container spacing={2} sx={{ mb: 2 }} alignItems="center">
+        <Grid item xs={12} sm={6} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            placeholder="Search staff"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            }}
+          />
+        </Grid>
+        <Grid item xs={6} sm={3} md={2}>
+          <TextField select fullWidth size="small" label="Site" value={site} onChange={(e) => setSite(e.target.value)}>
+            <MenuItem value="">All sites</MenuItem>
+            {sites.map(s => (
+              <MenuItem key={s} value={s}>{s}</MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={6} sm={3} md={2}>
+          <TextField select fullWidth size="small" label="Role" value={role} onChange={(e) => setRole(e.target.value)}>
+            <MenuItem value="">All roles</MenuItem>
+            <MenuItem value="manager">Managers</MenuItem>
+            {SHIFT_ROLES.map(r => (
+              <MenuItem key={r} value={r}>{r}</MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={6} sm={3} md={2}>
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Courses"
+            value={group}
+            onChange={(e) => setGroup(e.target.value as TrainingMatrixCourseGroup | '')}
+          >
+            <MenuItem value="">All courses</MenuItem>
+            {Object.entries(TRAINING_MATRIX_GROUP_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>{label}</MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={6} sm={3} md={3} sx={{ textAlign: 'right' }}>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            disabled={!rows.length}
+            onClick={() => exportTrainingMatrixXlsx(rows, courses, site || 'all-sites')}
+          >
+            Export XLSX
+          </Button>
+        </Grid>
+      </Grid>
+
+      <Stack direction="row" spacing={2} sx={{ mb: 1 }} flexWrap="wrap" useFlexGap>
+        {(Object.keys(TRAINING_MATRIX_STATUS_LABELS) as TrainingMatrixStatus[]).map(status => (
+          <Stack key={status} direction="row" spacing={0.5} alignItems="center">
+            <Box
+              sx={{
+                width: 14,
+                height: 14,
+                borderRadius: 0.5,
+                bgcolor: alpha(statusColors[status], 0.3),
+                border: status === 'missing' ? `1px dashed ${statusColors[status]}` : 'none',
+              }}
+            />
+            <Typography variant="caption">{TRAINING_MATRIX_STATUS_LABELS[status]}</Typography>
+          </Stack>
+        ))}
+        <Typography variant="caption" color="text.secondary">
+          Cells show days until expiry
+        </Typography>
+      </Stack>
+
+      {rows.length === 0 ? (
+        <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+          <Typography color="textSecondary">No staff match these filters.</Typography>
+        </Paper>
+      ) : (
+        <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: '70vh' }}>
+          <Table stickyHeader size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell
+                  sx={{
+                    left: 0,
+                    zIndex: 3,
+                    minWidth: STAFF_COLUMN_WIDTH,
+                    verticalAlign: 'bottom',
+                  }}
+                >
+                  Staff ({rows.length})
+                </TableCell>
+                {courses.map(course => (
+                  <TableCell key={course.title} sx={{ verticalAlign: 'bottom', px: 0.5 }}>
+                    <Box
+                      title={`${course.title} (${TRAINING_MATRIX_GROUP_LABELS[course.group]})`}
+                      sx={{
+                        writingMode: 'vertical-rl',
+                        transform: 'rotate(180deg)',
+                        maxHeight: 180,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                        fontSize: 12,
+                        mx: 'auto',
+                      }}
+                    >
+                      {course.title}
+                    </Box>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.staffId} hover>
+                  <TableCell
+                    sx={{
+                      position: 'sticky',
+                      left: 0,
+                      zIndex: 1,
+                      bgcolor: 'background.paper',
+                      minWidth: STAFF_COLUMN_WIDTH,
+                    }}
+                  >
+                    <Typography variant="body2" noWrap>{row.staffName}</Typography>
+                    <Typography variant="caption" color="textSecondary">{row.site || 'No site'}</Typography>
+                  </TableCell>
+                  {courses.map(course => (
+                    <TableCell key={course.title} sx={{ px: 0.5 }}>
+                      {renderCell(row.cells[course.title])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default TrainingMatrix;
@@ -39,6 +39,7 @@ import { TRAINING_COURSES } from '../../utils/courseConstants'
 import PointsBadge from '../../components/Gamification/PointsBadge'
 import GamificationDialog from '../../components/Gamification/GamificationDialog'
 import TrainingUploadDialog from '../../components/Training/TrainingUploadDialog'
+import TrainingMatrix from './components/TrainingMatrix'
 
 const Training: React.FC = () => {
   const navigate = useNavigate()
@@ -51,6 +52,7 @@ const Training: React.FC = () => {
   const [gamificationDialogOpen, setGamificationDialogOpen] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [hoveredCard, setHoveredCard] = useState<string | null>(null)
+  const canViewMatrix = isAdmin || isSiteManager
 
   // Filter records based on user role
   const filteredRecords = useMemo(() => {
@@ -423,6 +425,9 @@ const Training: React.FC = () => {
           </Box>
         )
 
+      case 3: // Matrix
+        return <TrainingMatrix records={filteredRecords} />
+
       default:
         return null
     }
@@ -437,7 +442,7 @@ const Training: React.FC = () => {
   }
 
   return (
-    <Box sx={{ p: 3, maxWidth: 1200, mx: 'auto' }}>
+    <Box sx={{ p: 3, maxWidth: activeTab === 3 ? 'none' : 1200, mx: 'auto' }}>
       <Fade in timeout={800}>
         <Box sx={{ mb: 4 }}>
           <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -579,6 +584,7 @@ const Training: React.FC = () => {
                 </Box>
               }
             />
+            {canViewMatrix && <Tab label={<Typography>Matrix</Typography>} />}
           </Tabs>
         </Box>
       </Fade>
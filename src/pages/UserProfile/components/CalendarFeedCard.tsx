@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  ContentCopy as CopyIcon,
+  Download as DownloadIcon,
+  Link as LinkIcon,
+  LinkOff as RevokeIcon,
+} from '@mui/icons-material';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { db } from '../../../firebase/config';
+import { useAuth } from '../../../contexts/AuthContext';
+import { CalendarToken } from '../../../types';
+import { formatDateTime } from '../../../utils/dateUtils';
+import {
+  createCalendarLink,
+  downloadCalendar,
+  revokeCalendarLink,
+  toWebcalUrl,
+} from '../../../services/calendarService';
+
+const CalendarFeedCard: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [tokens, setTokens] = useState<CalendarToken[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const tokensQuery = query(
+      collection(db, 'calendarTokens'),
+      where('userId', '==', currentUser.uid),
+      where('revoked', '==', false)
+    );
+    const unsubscribe = onSnapshot(
+      tokensQuery,
+      (snapshot) => {
+        setTokens(snapshot.docs
+          .map(tokenDoc => ({ ...(tokenDoc.data() as CalendarToken), id: tokenDoc.id }))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+      },
+      (err) => {
+        console.error('Error fetching calendar links:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async (token: CalendarToken) => {
+    await navigator.clipboard.writeText(toWebcalUrl(token.url));
+    setCopied(token.id);
+  };
+
+  const handleRevoke = (token: CalendarToken) => {
+    if (!window.confirm('Revoke this link? Calendars subscribed with it will stop updating.')) return;
+    run(() => revokeCalendarLink(token.id), 'Failed to revoke calendar link');
+  };
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Calendar
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Add your published shifts and approved leave to your phone's calendar. Subscribed calendars pick up
+          rota changes the next time they sync.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            disabled={busy}
+            onClick={() => run(downloadCalendar, 'Failed to download calendar')}
+          >
+            Download .ics
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<LinkIcon />}
+            disabled={busy}
+            onClick={() => run(createCalendarLink, 'Failed to create calendar link')}
+          >
+            Create Subscription Link
+          </Button>
+        </Stack>
+
+        {tokens.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Divider />
+            <List dense>
+              {tokens.map(token => (
+                <ListItem
+                  key={token.id}
+                  secondaryAction={
+                    <Stack direction="row" spacing={1}>
+                      <Tooltip title={copied === token.id ? 'Copied' : 'Copy link'}>
+                        <IconButton edge="end" onClick={() => handleCopy(token)}>
+                          <CopyIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Revoke link">
+                        <IconButton edge="end" color="error" disabled={busy} onClick={() => handleRevoke(token)}>
+                          <RevokeIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </Stack>
+                  }
+                >
+                  <ListItemText
+                    primary={`Created ${formatDateTime(token.createdAt)}`}
+                    secondary={token.lastUsedAt ? `Last synced ${formatDateTime(token.lastUsedAt)}` : 'Not synced yet'}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            <Typography variant="caption" color="text.secondary">
+              Anyone with a link can see your shifts. Revoke any link you no longer use or may have shared.
+            </Typography>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedCard;
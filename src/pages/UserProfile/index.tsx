@@ -15,6 +15,7 @@ import {
 import { Person as PersonIcon } from '@mui/icons-material';
 import { useAuth } from '../../contexts/AuthContext';
 import { formatDateTime } from '../../utils/dateUtils';
+import CalendarFeedCard from './components/CalendarFeedCard';
 
 const UserProfile = () => {
   const { currentUser } = useAuth();
@@ -110,6 +111,8 @@ const UserProfile = () => {
             </CardContent>
           </Card>
 
+          <CalendarFeedCard />
+
           <Card sx={{ mt: 3 }}>
             <CardContent>
               <Typography variant="h6" gutterBottom>
@@ -0,0 +1,49 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+
+// Downloads the signed-in user's published shifts and approved leave as an .ics file
+export const downloadCalendar = async () => {
+  const functions = getFunctions();
+  const exportCalendarFn = httpsCallable<void, { ics: string }>(functions, 'exportCalendar');
+
+  try {
+    const result = await exportCalendarFn();
+    const blob = new Blob([result.data.ics], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'my-rota.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error exporting calendar:', error);
+    throw error;
+  }
+};
+
+export const createCalendarLink = async () => {
+  const functions = getFunctions();
+  const createCalendarTokenFn = httpsCallable<void, { id: string; url: string }>(functions, 'createCalendarToken');
+
+  try {
+    const result = await createCalendarTokenFn();
+    return result.data;
+  } catch (error) {
+    console.error('Error creating calendar link:', error);
+    throw error;
+  }
+};
+
+export const revokeCalendarLink = async (tokenId: string) => {
+  const functions = getFunctions();
+  const revokeCalendarTokenFn = httpsCallable<{ tokenId: string }, { success: boolean }>(functions, 'revokeCalendarToken');
+
+  try {
+    await revokeCalendarTokenFn({ tokenId });
+  } catch (error) {
+    console.error('Error revoking calendar link:', error);
+    throw error;
+  }
+};
+
+// Calendar apps subscribe more readily to webcal:// links
+export const toWebcalUrl = (url: string) => url.replace(/^https?:\/\//, 'webcal://');
@@ -0,0 +1,21 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { LeaveAvailability } from '../types/leave';
+
+type LeaveRuleCheck = Omit<LeaveAvailability, 'isAvailable'>;
+
+// Team limits, blackouts and rota shifts across every week and site the leave touches
+export const checkLeaveRules = async (startDate: string, endDate: string, userId?: string) => {
+  const functions = getFunctions();
+  const checkLeaveAvailabilityFn = httpsCallable<
+    { userId?: string; startDate: string; endDate: string },
+    LeaveRuleCheck
+  >(functions, 'checkLeaveAvailability');
+
+  try {
+    const result = await checkLeaveAvailabilityFn({ userId, startDate, endDate });
+    return result.data;
+  } catch (error) {
+    console.error('Error checking leave rules:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,27 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { ProbationDecision, ProbationStatus } from '../types/probation';
+
+interface ProbationOutcomeRequest {
+  userId: string;
+  decision: ProbationDecision;
+  reason: string;
+  // 'yyyy-MM-dd', required when extending
+  extendedTo?: string | null;
+}
+
+// Passing or failing cancels the probation sessions still booked; extending books a review on the new end date
+export const recordProbationOutcome = async (request: ProbationOutcomeRequest) => {
+  const functions = getFunctions();
+  const recordProbationOutcomeFn = httpsCallable<
+    ProbationOutcomeRequest,
+    { probationStatus: ProbationStatus }
+  >(functions, 'recordProbationOutcome');
+
+  try {
+    const result = await recordProbationOutcomeFn(request);
+    return result.data;
+  } catch (error) {
+    console.error('Error recording probation outcome:', error);
+    throw error;
+  }
+};
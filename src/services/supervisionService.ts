@@ -0,0 +1,30 @@
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { SupervisionFeedback } from '../types';
+import { SupervisionFeedbackSummary } from '../types/supervision';
+
+type FeedbackSummaryResponse = Omit<SupervisionFeedbackSummary, 'feedback'> & {
+  feedback: Array<Omit<SupervisionFeedback, 'submittedAt'> & { submittedAt: string }>;
+};
+
+// Pass an empty site for every site (admins only)
+export const getSupervisionFeedbackSummary = async (
+  site: string,
+  quarters: number
+): Promise<SupervisionFeedbackSummary> => {
+  const functions = getFunctions();
+  const getSummaryFn = httpsCallable<
+    { site: string; quarters: number },
+    FeedbackSummaryResponse
+  >(functions, 'getSupervisionFeedbackSummary');
+
+  try {
+    const result = await getSummaryFn({ site, quarters });
+    return {
+      ...result.data,
+      feedback: result.data.feedback.map(item => ({ ...item, submittedAt: new Date(item.submittedAt) })),
+    };
+  } catch (error) {
+    console.error('Error loading supervision feedback:', error);
+    throw error;
+  }
+};
@@ -51,3 +51,113 @@ export const DEFAULT_TAGS = [
 ];
 
 export type AIEnhancementType = 'summarize' | 'improve';
+
+export type MessageType = 'email' | 'sms' | 'both';
+export type RecurrenceFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+export type ScheduledMessageStatus = 'active' | 'paused' | 'completed';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Every N days/weeks/months
+  interval: number;
+  // Local wall-clock time, HH:mm
+  time: string;
+  // 0 (Sunday) - 6, weekly only
+  daysOfWeek?: number[];
+  // 1-31, monthly only; clamped to the last day of shorter months
+  dayOfMonth?: number;
+  // yyyy-MM-dd in `timeZone`
+  startDate: string;
+  endDate?: string | null;
+  timeZone: string;
+}
+
+export interface ScheduledMessage {
+  id: string;
+  type: MessageType;
+  subject: string;
+  message: string;
+  recipients: string[];
+  recipientGroups?: string[];
+  template?: string;
+  variables?: Record<string, string>;
+  recurrence: RecurrenceRule;
+  status: ScheduledMessageStatus;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  runCount: number;
+  site: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ScheduledMessageInput = Pick<
+  ScheduledMessage,
+  'type' | 'subject' | 'message' | 'recipients' | 'recipientGroups' | 'recurrence'
+>;
+
+export interface ScheduledMessageSendLog {
+  id: string;
+  userId: string;
+  userName: string;
+  runAt: Date;
+  deliveries: Array<{
+    channel: 'email' | 'sms' | 'inApp';
+    status: 'queued' | 'sent' | 'failed' | 'skipped';
+    deliveryId: string;
+    error?: string;
+  }>;
+  createdAt: Date;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  site: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MessageTemplateInput = Pick<MessageTemplate, 'name' | 'subject' | 'body'>;
+
+export type RecipientGroupType = 'static' | 'dynamic';
+export type RecipientGroupRuleType = 'role' | 'site' | 'shiftRole' | 'expiredTraining' | 'onShiftTomorrow';
+
+export interface RecipientGroupRule {
+  type: RecipientGroupRuleType;
+  // role: 'admin' | 'manager' | 'staff'; site: site name; shiftRole: ShiftRole.
+  // Optional for expiredTraining (course title) and unused for onShiftTomorrow.
+  value?: string;
+}
+
+export interface RecipientGroup {
+  id: string;
+  name: string;
+  description?: string;
+  type: RecipientGroupType;
+  // Static groups only
+  memberIds: string[];
+  // Dynamic groups only; members match all rules, or any rule when match is 'any'
+  rules: RecipientGroupRule[];
+  match: 'all' | 'any';
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RecipientGroupInput = Pick<
+  RecipientGroup,
+  'name' | 'description' | 'type' | 'memberIds' | 'rules' | 'match'
+>;
+
+export const RECIPIENT_GROUP_RULE_LABELS: Record<RecipientGroupRuleType, string> = {
+  role: 'Account role',
+  site: 'Site',
+  shiftRole: 'Shift role',
+  expiredTraining: 'Has expired training',
+  onShiftTomorrow: 'On shift tomorrow',
+};
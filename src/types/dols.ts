@@ -0,0 +1,107 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * DoLS (Deprivation of Liberty Safeguards) schema.
+ *
+ * This is the shape of documents in the `dols` collection. The backend reads
+ * the same fields in `functions/src/types/dols.ts`; keep the two in sync.
+ */
+
+export type DolsStatus = 'pending' | 'active' | 'expired' | 'rejected' | 'renewed';
+export type DolsUrgency = 'standard' | 'urgent' | 'critical';
+// Authorisations granted under LPS (Liberty Protection Safeguards) carry the same conditions
+export type DolsScheme = 'dols' | 'lps';
+export type DolsConditionStatus = 'outstanding' | 'met' | 'not_met';
+
+// Condition attached to an authorisation by the supervising body
+export interface DolsConditionData {
+  id: string;
+  description: string;
+  status: DolsConditionStatus;
+  dueDate: Timestamp | null;
+  notes: string;
+}
+
+export interface DolsCondition extends Omit<DolsConditionData, 'dueDate'> {
+  dueDate: Date | null;
+}
+
+export interface DolsDocument {
+  url: string;
+  name: string;
+  uploadDate: Timestamp;
+  uploadedBy?: string;
+}
+
+// Raw Firestore document
+export interface DolsRecordData {
+  residentName: string;
+  site: string;
+  managerId: string;
+  scheme: DolsScheme;
+  status: DolsStatus;
+  urgencyLevel: DolsUrgency;
+  applicationDate: Timestamp;
+  startDate: Timestamp | null;
+  expiryDate: Timestamp | null;
+  supervisingBody: string;
+  supervisingBodyReference: string;
+  assessor: string;
+  notes: string;
+  conditions: DolsConditionData[];
+  documents: DolsDocument[];
+  // Advanced by checkExpiringDoLS; the UI only resets it when the expiry date changes
+  remindersSent: number;
+  lastReminderDate: Timestamp | null;
+  // Renewal chain: each renewal points back at the authorisation it replaces
+  previousAuthorisationId: string | null;
+  renewedById: string | null;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Record as used by the UI, with dates converted
+export interface DolsRecord extends Omit<
+  DolsRecordData,
+  'applicationDate' | 'startDate' | 'expiryDate' | 'lastReminderDate' | 'createdAt' | 'updatedAt' | 'conditions'
+> {
+  id: string;
+  conditions: DolsCondition[];
+  applicationDate: Date;
+  startDate: Date | null;
+  expiryDate: Date | null;
+  lastReminderDate: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DolsFormData {
+  residentName: string;
+  site: string;
+  scheme: DolsScheme;
+  status: DolsStatus;
+  urgencyLevel: DolsUrgency;
+  applicationDate: Date;
+  startDate: Date | null;
+  expiryDate: Date | null;
+  supervisingBody: string;
+  supervisingBodyReference: string;
+  assessor: string;
+  notes: string;
+  conditions: DolsCondition[];
+}
+
+export interface DolsContextType {
+  records: DolsRecord[];
+  loading: boolean;
+  error: string | null;
+  addRecord: (data: DolsFormData) => Promise<string>;
+  updateRecord: (id: string, updates: Partial<DolsFormData>) => Promise<void>;
+  deleteRecord: (id: string) => Promise<void>;
+  uploadDocument: (recordId: string, file: File) => Promise<void>;
+  renewRecord: (record: DolsRecord, data: DolsFormData) => Promise<string>;
+  getRenewalChain: (recordId: string) => DolsRecord[];
+  getResidentHistory: (residentName: string) => DolsRecord[];
+  createRenewalTask: (record: DolsRecord) => Promise<void>;
+}
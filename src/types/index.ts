@@ -1,5 +1,7 @@
 import { Timestamp, FieldValue } from 'firebase/firestore';
 import { ShiftRole, ShiftTime, StaffPreferences, StaffPerformanceMetrics } from './rota';
+import { SupervisionActionPoint, SupervisionAgendaItem } from './supervision';
+import { ProbationMilestone, ProbationOutcome, ProbationStatus } from './probation';
 
 export interface TrainingRecord {
   id: string;
@@ -69,13 +71,11 @@ export interface User {
   site?: string;
   departmentId: string;
   managerId?: string;
-  probationStatus: 'pending' | 'completed' | 'failed';
-  trainingProgress: {
-    week1Review: boolean;
-    week4Supervision: boolean;
-    week8Review: boolean;
-    week12Supervision: boolean;
-  };
+  probationStatus: ProbationStatus;
+  // 'yyyy-MM-dd'; set from startDate and moved when probation is extended
+  probationEndDate?: string | null;
+  probationOutcomes?: ProbationOutcome[];
+  trainingProgress: Record<ProbationMilestone, boolean>;
   notificationPreferences: {
     email: boolean;
     sms: boolean;
@@ -96,6 +96,8 @@ export interface User {
   contractedHours: number;
   annualLeave: number;
   sickness: number;
+  // Weeks between supervisions; unset uses the default frequency
+  supervisionFrequencyWeeks?: number | null;
   preferences: StaffPreferences;
   performanceMetrics: StaffPerformanceMetrics;
   startDate?: Date | Timestamp | FieldValue;
@@ -157,7 +159,7 @@ export interface NewUserData {
   updatedAt?: Date | Timestamp | FieldValue;
   lastLogin?: Date | Timestamp | FieldValue;
   authCreated?: boolean;
-  probationStatus?: 'pending' | 'completed' | 'failed';
+  probationStatus?: ProbationStatus;
   trainingProgress?: {
     week1Review: boolean;
     week4Supervision: boolean;
@@ -208,7 +210,7 @@ export interface Task {
   dueDate: Date;
   priority: 'low' | 'medium' | 'high';
   status: 'pending' | 'in_progress' | 'completed';
-  category: 'training' | 'supervision' | 'compliance' | 'general' | 'sickness';
+  category: 'training' | 'supervision' | 'compliance' | 'general' | 'sickness' | 'dols';
   assignedTo?: string;
   assignedBy?: string;
   relatedRecordType?: string;
@@ -219,6 +221,17 @@ export interface Task {
   site?: string;
 }
 
+// A private calendar subscription link; the id is the secret token in the URL
+export interface CalendarToken {
+  id: string;
+  userId: string;
+  url: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revoked: boolean;
+  revokedAt: string | null;
+}
+
 export interface Notification {
   id: string;
   userId: string;
@@ -246,14 +259,30 @@ export interface Supervision {
   type: 'supervision' | 'appraisal' | 'probation' | 'induction';
   status: 'scheduled' | 'completed' | 'cancelled' | 'overdue';
   notes?: string;
-  topics?: string[];
-  concerns?: string[];
-  actionPoints?: string[];
+  location?: string;
+  agenda?: SupervisionAgendaItem[];
+  actionPoints?: SupervisionActionPoint[];
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
   notificationSchedule?: any;
   site?: string;
+  // Set by functions once the supervisee has shared their questionnaire; never
+  // set for confidential ones
+  questionnaireCompleted?: boolean;
+  // Set on sessions booked by the probation pipeline
+  probationMilestone?: ProbationMilestone | 'extension' | null;
+}
+
+// Where a member of staff is in their supervision cycle
+export interface StaffSupervisionSchedule {
+  staffId: string;
+  staffName: string;
+  site?: string;
+  frequencyWeeks: number;
+  lastCompleted: Supervision | null;
+  nextScheduled: Supervision | null;
+  nextDueDate: Date;
 }
 
 export interface SupervisionFeedback {
@@ -261,6 +290,7 @@ export interface SupervisionFeedback {
   supervisionId: string;
   staffId: string;
   staffName?: string;
+  site?: string;
   topics: string[];
   concerns: string[];
   suggestions: string[];
@@ -1,3 +1,6 @@
+import { Timestamp } from 'firebase/firestore';
+import { ShiftRole } from './rota';
+
 export type LeaveStatus = 'pending' | 'approved' | 'declined' | 'cancelled';
 export type LeaveType = 'Annual Leave' | 'Unpaid Leave' | 'Emergency Leave';
 
@@ -18,14 +21,84 @@ export interface LeaveRequest {
   updatedAt?: string;
 }
 
+// Dates no leave can be booked for, e.g. Christmas
+export interface LeaveBlackout {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+// How staff on fewer than full-time hours build up leave
+export type LeaveAccrual = 'contract' | 'hours';
+
+/**
+ * Leave year and entitlement rules for a site. `site: ''` is the default used by
+ * sites without their own policy. Stored in `leavePolicies`, keyed by site (or
+ * 'default'); functions work out every balance from it.
+ */
+export interface LeavePolicy {
+  id: string;
+  site: string;
+  name: string;
+  // First day of the leave year, e.g. 4 and 1 for April–March
+  yearStartMonth: number;
+  yearStartDay: number;
+  // Weekly hours that earn a user's full `annualLeave` allowance
+  fullTimeHours: number;
+  partTimeAccrual: LeaveAccrual;
+  // Most unused days that move into the next leave year
+  carryForwardCap: number;
+  // Most staff at the site on approved leave on any one day; no limit when null
+  maxStaffOffPerDay: number | null;
+  blackoutPeriods: LeaveBlackout[];
+  updatedAt?: Date | Timestamp;
+  updatedBy?: string;
+}
+
+export type LeavePolicyInput = Omit<LeavePolicy, 'id' | 'site' | 'updatedAt' | 'updatedBy'>;
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  id: 'default',
+  site: '',
+  name: 'Default policy',
+  yearStartMonth: 4,
+  yearStartDay: 1,
+  fullTimeHours: 37.5,
+  partTimeAccrual: 'hours',
+  carryForwardCap: 5,
+  maxStaffOffPerDay: 2,
+  blackoutPeriods: [],
+};
+
+export const LEAVE_ACCRUAL_LABELS: Record<LeaveAccrual, string> = {
+  contract: 'Prorated from contracted hours',
+  hours: 'Earned from hours worked on the rota',
+};
+
+/**
+ * A user's leave balance for the current leave year. Written only by functions,
+ * which recompute it when leave is approved or cancelled and roll it over at
+ * the end of the year.
+ */
 export interface LeaveEntitlement {
   id: string;
   userId: string;
   site: string;
   leaveYear: string;  // "2023-2024"
-  totalEntitlement: number;  // 32 days
+  // Full year's entitlement, prorated for hours and start date, plus carry forward
+  totalEntitlement: number;
   remainingDays: number;
   carryForwardDays: number;
+  // Missing on entitlements set before leave years were configurable
+  yearStart?: string;
+  yearEnd?: string;
+  accrual?: LeaveAccrual;
+  contractedHours?: number;
+  // Earned so far, including carry forward; the full entitlement unless accruing by hours
+  accruedDays?: number;
+  usedDays?: number;
+  hoursWorked?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -36,12 +109,33 @@ export interface TeamCalendarEntry {
   type: LeaveType;
 }
 
+export type LeaveConflictType = 'team-limit' | 'role-coverage' | 'shift-assigned' | 'balance' | 'leave-year' | 'blackout';
+
+// Conflicts that stop leave being requested; the rest are for the approving manager to weigh up
+export const BLOCKING_LEAVE_CONFLICTS: LeaveConflictType[] = ['balance', 'leave-year', 'blackout', 'team-limit'];
+
+// A rota shift the person is on during the leave, from any week or site
+export interface LeaveAffectedShift {
+  rotaId: string;
+  site: string;
+  shiftId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  role: ShiftRole;
+  // Set when taking them off leaves fewer Shift Leaders or Drivers than the shift needs
+  shortfall: { role: ShiftRole; required: number; remaining: number } | null;
+}
+
 export interface LeaveAvailability {
   isAvailable: boolean;
   conflicts: {
-    type: 'team-limit' | 'role-coverage' | 'shift-assigned' | 'balance' | 'leave-year';
+    type: LeaveConflictType;
     message: string;
+    // The days a team limit or shortfall falls on
+    dates?: string[];
   }[];
+  affectedShifts: LeaveAffectedShift[];
 }
 
 export interface LeaveStats {
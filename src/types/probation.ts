@@ -0,0 +1,59 @@
+import { Supervision } from './index';
+
+// Keys of `User.trainingProgress`; each is set when its supervision is completed
+export type ProbationMilestone = 'week1Review' | 'week4Supervision' | 'week8Review' | 'week12Supervision';
+
+export type ProbationStatus = 'pending' | 'extended' | 'completed' | 'failed';
+
+export type ProbationDecision = 'pass' | 'extend' | 'fail';
+
+export interface ProbationMilestoneDefinition {
+  key: ProbationMilestone;
+  label: string;
+  week: number;
+  type: Supervision['type'];
+}
+
+// Functions book these supervisions from a new starter's start date
+export const PROBATION_MILESTONES: ProbationMilestoneDefinition[] = [
+  { key: 'week1Review', label: 'Week 1 Review', week: 1, type: 'probation' },
+  { key: 'week4Supervision', label: 'Week 4 Supervision', week: 4, type: 'supervision' },
+  { key: 'week8Review', label: 'Week 8 Review', week: 8, type: 'probation' },
+  { key: 'week12Supervision', label: 'Week 12 Supervision', week: 12, type: 'supervision' },
+];
+
+export const PROBATION_WEEKS = 12;
+
+export interface ProbationOutcome {
+  decision: ProbationDecision;
+  reason: string;
+  // New end date ('yyyy-MM-dd') when probation is extended
+  extendedTo: string | null;
+  decidedBy: string;
+  decidedByName: string;
+  decidedAt: string;
+}
+
+export const PROBATION_STATUS_LABELS: Record<ProbationStatus, string> = {
+  pending: 'In probation',
+  extended: 'Extended',
+  completed: 'Passed',
+  failed: 'Failed',
+};
+
+export const PROBATION_DECISION_LABELS: Record<ProbationDecision, string> = {
+  pass: 'Pass',
+  extend: 'Extend',
+  fail: 'Fail',
+};
+
+export type ProbationStageKind = ProbationMilestone | 'extension' | 'decision' | 'completed' | 'failed';
+
+// Where a new starter is in their probation, for the probation board
+export interface ProbationStage {
+  kind: ProbationStageKind;
+  label: string;
+  dueDate: Date | null;
+  overdue: boolean;
+  session: Supervision | null;
+}
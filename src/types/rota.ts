@@ -1,7 +1,9 @@
 import { User } from './index';
 
-export type ShiftTime = '7:30-14:30' | '14:30-21:30' | '21:30-7:30';
-export type ShiftType = 'morning' | 'afternoon' | 'night';
+// Id of a shift pattern. The original three patterns keep their time-range
+// ids so shifts saved before patterns were configurable still resolve.
+export type ShiftTime = string;
+export type ShiftType = 'morning' | 'afternoon' | 'night' | 'long-day' | 'twilight' | 'sleep-in';
 export type ShiftRole = 'Driver' | 'Shift Leader' | 'Care Staff';
 export type ShiftStatus = 'Unfilled' | 'Partially Staffed' | 'Fully Staffed' | 'Conflict';
 export type LeaveType = 'Annual' | 'Sick' | 'Maternity' | 'Training' | 'Other';
@@ -32,12 +34,92 @@ export interface ShiftTemplate {
   };
 }
 
-export const SHIFT_TIME_DETAILS: Record<ShiftTime, ShiftTimeDetails> = {
-  '7:30-14:30': { start: '7:30', end: '14:30', type: 'morning' },
-  '14:30-21:30': { start: '14:30', end: '21:30', type: 'afternoon' },
-  '21:30-7:30': { start: '21:30', end: '7:30', type: 'night' }
+// Unpaid break taken on shifts of at least `minShiftHours`
+export interface ShiftBreakRule {
+  minShiftHours: number;
+  unpaidMinutes: number;
+}
+
+/**
+ * A site's definition of a shift. Stored in `shiftPatterns`, one document per
+ * site, and copied onto each rota's configuration when the rota is created.
+ */
+export interface ShiftPattern {
+  id: ShiftTime;
+  name: string;
+  start: string;
+  end: string;
+  type: ShiftType;
+  // The longest rule the shift qualifies for applies
+  breaks: ShiftBreakRule[];
+  // Fixed paid hours in place of the break rules, e.g. a sleep-in allowance
+  paidHours?: number;
+  sleepIn: boolean;
+  defaultRequirements: ShiftRequirementWithRoles[];
+  // What the shift is called in spreadsheet rotas, e.g. 'E' or 'Early'
+  codes?: string[];
+}
+
+export const SHIFT_TYPE_LABELS: Record<ShiftType, string> = {
+  'morning': 'Morning',
+  'afternoon': 'Afternoon',
+  'night': 'Night',
+  'long-day': 'Long day',
+  'twilight': 'Twilight',
+  'sleep-in': 'Sleep-in',
 };
 
+export const DEFAULT_SHIFT_PATTERNS: ShiftPattern[] = [
+  {
+    id: '7:30-14:30',
+    name: 'Early',
+    start: '7:30',
+    end: '14:30',
+    type: 'morning',
+    breaks: [],
+    sleepIn: false,
+    defaultRequirements: [
+      { role: 'Shift Leader', count: 1 },
+      { role: 'Driver', count: 1 },
+      { role: 'Care Staff', count: 3 }
+    ]
+  },
+  {
+    id: '14:30-21:30',
+    name: 'Late',
+    start: '14:30',
+    end: '21:30',
+    type: 'afternoon',
+    breaks: [],
+    sleepIn: false,
+    defaultRequirements: [
+      { role: 'Shift Leader', count: 1 },
+      { role: 'Care Staff', count: 3 }
+    ]
+  },
+  {
+    id: '21:30-7:30',
+    name: 'Night',
+    start: '21:30',
+    end: '7:30',
+    type: 'night',
+    breaks: [],
+    sleepIn: false,
+    defaultRequirements: [
+      { role: 'Shift Leader', count: 1 },
+      { role: 'Care Staff', count: 1 }
+    ]
+  }
+];
+
+export interface SiteShiftPatterns {
+  id: string;
+  site: string;
+  patterns: ShiftPattern[];
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
 export interface ShiftAssignment {
   userId: string;
   role: ShiftRole;
@@ -63,6 +145,9 @@ export interface Shift {
   status: ShiftStatus;
   complianceStatus?: ComplianceLevel;
   trainingRequired?: string[];
+  // Copied from the pattern when the shift is created; missing on older shifts
+  paidHours?: number;
+  sleepIn?: boolean;
 }
 
 export interface StaffLeave {
@@ -118,6 +203,9 @@ export interface Staff {
   id: string;
   name: string;
   email: string;
+  // Home site, plus any other homes they can be borrowed by
+  site?: string;
+  sites?: string[];
   roles: ShiftRole[];
   contractedHours: number;
   preferences: StaffPreferences;
@@ -134,10 +222,9 @@ export interface Staff {
 }
 
 export interface RotaConfiguration {
-  shiftPatterns: {
-    time: ShiftTime;
-    defaultRequirements: ShiftRequirementWithRoles[];
-  }[];
+  // Older rotas hold only `{ time, defaultRequirements }`; read them through
+  // getShiftPatterns
+  shiftPatterns: ShiftPattern[];
   staffingRules: {
     minStaffPerShift: number;
     maxConsecutiveDays: number;
@@ -145,26 +232,17 @@ export interface RotaConfiguration {
   };
 }
 
-export interface WeeklyShiftRequirements {
-  morning: {
-    total: number;
-    shiftLeader: number;
-    driver: number;
-  };
-  afternoon: {
-    total: number;
-    shiftLeader: number;
-    driver: number;
-  };
-  night: {
-    total: number;
-    shiftLeader: number;
-    driver: number;
-  };
+// Staff needed on one shift pattern, as set in the Auto Scheduler
+export interface ShiftStaffing {
+  total: number;
+  shiftLeader: number;
+  driver: number;
 }
 
 export interface Rota {
   id: string;
+  // Missing only on rotas created before rotas were kept per site
+  site?: string;
   startDate: string;
   endDate: string;
   shifts: Shift[];
@@ -175,6 +253,41 @@ export interface Rota {
   updatedAt: string;
   lastModified: string;
   modifiedBy: string;
+  deleted?: boolean;
+  // Set on a site-less rota once a site has taken it over
+  migratedTo?: string;
+  // The latest version staff have been sent; edits after it stay unpublished until the next
+  publishedVersion?: number;
+  publishedAt?: string;
+}
+
+// A published rota, frozen as staff were sent it
+export interface RotaVersion {
+  id: string;
+  rotaId: string;
+  site: string;
+  startDate: string;
+  version: number;
+  shifts: Shift[];
+  notes: string;
+  publishedAt: string;
+  publishedBy: string;
+  publishedByName: string;
+  // Staff on this version's shifts or taken off since the last version; they are asked to acknowledge it
+  staffIds: string[];
+  // When each staff member confirmed they had seen their rota
+  acknowledgements: Record<string, string>;
+}
+
+// Who was put on or taken off one shift between two versions
+export interface RotaShiftDiff {
+  shiftId: string;
+  date: string;
+  time: ShiftTime;
+  startTime: string;
+  endTime: string;
+  added: string[];
+  removed: string[];
 }
 
 export interface RotaValidationError {
@@ -228,8 +341,12 @@ export interface AISchedulerOptions {
   considerTrainingStatus: boolean;
   considerPerformanceMetrics: boolean;
   allowPartialFill: boolean;
+  // Local search moves the optimiser tries after building its first rota
   maxIterations: number;
-  shiftRequirements: WeeklyShiftRequirements;
+  // Same seed, staff and settings always give the same rota
+  seed?: number;
+  // Keyed by pattern id; patterns left out use their default requirements
+  shiftRequirements: Partial<Record<ShiftTime, ShiftStaffing>>;
   staff: Staff[];
   weightings?: {
     trainingCompliance?: number;
@@ -239,6 +356,106 @@ export interface AISchedulerOptions {
   };
 }
 
+// Hard constraints the optimiser never breaks
+export type RotaConstraint =
+  | 'role'
+  | 'leave'
+  | 'unavailable'
+  | 'double-booked'
+  | 'rest-period'
+  | 'contracted-hours'
+  | 'consecutive-days';
+
+export const ROTA_CONSTRAINT_LABELS: Record<RotaConstraint, string> = {
+  'role': 'without the role',
+  'leave': 'on leave',
+  'unavailable': 'unavailable',
+  'double-booked': 'already on this shift',
+  'rest-period': 'short of rest between shifts',
+  'contracted-hours': 'at contracted hours',
+  'consecutive-days': 'at the consecutive day limit',
+};
+
+// A shift a staff member already works on another site's rota
+export interface StaffCommitment {
+  staffId: string;
+  site: string;
+  date: string;
+  time: ShiftTime;
+  startTime: string;
+  endTime: string;
+  // Paid hours, counted towards contracted hours
+  hours: number;
+}
+
+/**
+ * A role on a shift the optimiser could not fill, with how many staff each
+ * hard constraint ruled out.
+ */
+export interface UnmetRequirement {
+  shiftId: string;
+  date: string;
+  time: ShiftTime;
+  role: ShiftRole;
+  missing: number;
+  blockedBy: Partial<Record<RotaConstraint, number>>;
+  message: string;
+}
+
+export interface RotaOptimiserResult {
+  rota: Rota;
+  unmet: UnmetRequirement[];
+  // Total soft cost of preferences not met; lower is better
+  preferenceCost: number;
+  seed: number;
+}
+
+// A change to who works a shift: someone taken off, someone put on, or both
+export interface ShiftChange {
+  shiftId: string;
+  removeStaffId?: string;
+  assign?: ShiftAssignment;
+}
+
+// Shift swaps and open shifts. Staff raise them; a manager approves before the rota changes.
+export type ShiftSwapType = 'offer' | 'swap' | 'claim';
+
+// offer: open -> pending once a colleague takes it; swap: proposed -> pending
+// once the colleague accepts; claim: pending straight away
+export type ShiftSwapStatus = 'open' | 'proposed' | 'pending' | 'approved' | 'declined' | 'cancelled';
+
+export interface ShiftSwapRequest {
+  id: string;
+  type: ShiftSwapType;
+  status: ShiftSwapStatus;
+  site: string;
+  rotaId: string;
+  weekStart: string;
+  shiftId: string;
+  shiftDate: string;
+  shiftLabel: string;
+  // The requester's role on the shift they give up, or the role they claim
+  role: ShiftRole;
+  requesterId: string;
+  requesterName: string;
+  // Who takes an offered shift, or the colleague asked to swap
+  counterpartId: string | null;
+  counterpartName: string | null;
+  // The colleague's shift in a swap, on the same rota
+  counterpartShiftId: string | null;
+  counterpartShiftDate: string | null;
+  counterpartShiftLabel: string | null;
+  counterpartRole: ShiftRole | null;
+  notes: string;
+  // Rota rule problems found the last time the request was checked
+  issues: string[];
+  createdAt: string;
+  updatedAt: string;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  decisionNotes: string;
+}
+
 export interface AIShiftSuggestion {
   shiftId: string;
   suggestedStaff: StaffSuggestion[];
@@ -286,31 +503,69 @@ export interface RotaImportData {
   }[];
 }
 
+// A rota grid read from a spreadsheet: staff down the side, dates across
+export interface RotaSpreadsheetRow {
+  name: string;
+  // Shift code for each date (yyyy-MM-dd); blank cells are left out
+  cells: Record<string, string>;
+}
+
+export interface RotaSpreadsheet {
+  dates: string[];
+  rows: RotaSpreadsheetRow[];
+}
+
+// Upper-cased shift code to the pattern it means; null means not working
+export type ShiftCodeMap = Record<string, ShiftTime | null>;
+
+export interface StaffNameMatch {
+  staffId: string | null;
+  score: number;
+  // Close matches, best first, when the name could not be matched on its own
+  suggestions: string[];
+}
+
+export interface RotaSpreadsheetImport {
+  changes: ShiftChange[];
+  unknownCodes: Array<{ code: string; count: number }>;
+  // Dates in the sheet that fall outside the rota's week
+  outsideDates: string[];
+  // A code maps to a pattern with no shift on the rota that day
+  missingShifts: Array<{ date: string; time: ShiftTime }>;
+}
+
+export type RotaExportPeriod = 'week' | 'month';
+export type RotaExportFormat = 'pdf' | 'xlsx';
+
+export interface RotaExportOptions {
+  period: RotaExportPeriod;
+  format: RotaExportFormat;
+  // Shift Leader and Driver markers next to names
+  showRoles: boolean;
+  showLeave: boolean;
+  showHours: boolean;
+}
+
+// Approved leave to show on an export, from the staff record or a leave request
+export interface RotaExportLeave {
+  userId: string;
+  startDate: string;
+  endDate: string;
+  leaveType: string;
+}
+
+export interface RotaExportData {
+  site: string;
+  // First and last day covered, yyyy-MM-dd
+  from: string;
+  to: string;
+  rotas: Rota[];
+  staff: Staff[];
+  leave: RotaExportLeave[];
+}
+
 export const defaultRotaConfiguration: RotaConfiguration = {
-  shiftPatterns: [
-    {
-      time: '7:30-14:30',
-      defaultRequirements: [
-        { role: 'Shift Leader', count: 1 },
-        { role: 'Driver', count: 1 },
-        { role: 'Care Staff', count: 3 }
-      ]
-    },
-    {
-      time: '14:30-21:30',
-      defaultRequirements: [
-        { role: 'Shift Leader', count: 1 },
-        { role: 'Care Staff', count: 3 }
-      ]
-    },
-    {
-      time: '21:30-7:30',
-      defaultRequirements: [
-        { role: 'Shift Leader', count: 1 },
-        { role: 'Care Staff', count: 1 }
-      ]
-    }
-  ],
+  shiftPatterns: DEFAULT_SHIFT_PATTERNS,
   staffingRules: {
     minStaffPerShift: 2,
     maxConsecutiveDays: 5,
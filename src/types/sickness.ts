@@ -15,6 +15,7 @@ export interface SicknessRecord {
   step: 0 | 1 | 2 | 3;  // 0 = No steps, 1 = Record Created, 2 = Review Meeting, 3 = Case Resolved
   returnToWorkDate?: Date | Timestamp;
   returnToWorkFormUrl?: string;
+  returnToWorkInterview?: ReturnToWorkInterview;
   tasks?: string[];
   reviewDate?: Date | Timestamp;
   reviewNotes?: string;
@@ -25,17 +26,122 @@ export interface SicknessRecord {
   isArchived?: boolean;
 }
 
+export interface ReturnToWorkQuestion {
+  id: string;
+  label: string;
+}
+
+export const RETURN_TO_WORK_QUESTIONS: ReturnToWorkQuestion[] = [
+  { id: 'reason', label: 'What was the reason for the absence?' },
+  { id: 'medicalAdvice', label: 'Did you see a GP or other medical professional?' },
+  { id: 'fitToReturn', label: 'Do you feel fit to return to your full duties?' },
+  { id: 'workRelated', label: 'Was the absence caused or made worse by work?' },
+  { id: 'ongoing', label: 'Is there an ongoing condition or further treatment planned?' },
+  { id: 'support', label: 'Is there any support we can offer?' },
+  { id: 'reporting', label: 'Was the absence reported in line with the absence procedure?' },
+];
+
+export type FitNoteStatus = 'not_fit' | 'may_be_fit';
+
+export interface FitNote {
+  provided: boolean;
+  status: FitNoteStatus | null;
+  dateFrom: Date | Timestamp | null;
+  dateTo: Date | Timestamp | null;
+  issuedBy: string;
+  recommendations: string;
+}
+
+export interface AgreedAdjustment {
+  description: string;
+  reviewDate: Date | Timestamp | null;
+}
+
+export interface InterviewSignOff {
+  name: string;
+  signedAt: Date | Timestamp;
+  // The employee signs from their own Sickness page, so theirs records who signed
+  userId?: string;
+}
+
+/**
+ * Structured return-to-work interview, stored on the sickness record. Saved as
+ * a draft until both the employee and the manager have signed it off; the
+ * employee signs the saved draft themselves with `signReturnToWorkInterview`.
+ */
+export interface ReturnToWorkInterview {
+  interviewDate: Date | Timestamp;
+  firstDayBack: Date | Timestamp;
+  conductedBy: string;
+  conductedByName: string;
+  // Keyed by ReturnToWorkQuestion id
+  answers: Record<string, string>;
+  fitNote: FitNote;
+  adjustments: AgreedAdjustment[];
+  employeeSignOff: InterviewSignOff | null;
+  managerSignOff: InterviewSignOff | null;
+  completedAt: Date | Timestamp | null;
+}
+
 export interface SicknessPattern {
   type: string;
   description: string;
 }
 
+/**
+ * Absence policy for a site. `site: ''` is the default used by sites without
+ * their own policy. Stored in `absencePolicies`, keyed by site (or 'default').
+ */
+export interface AbsencePolicy {
+  id: string;
+  site: string;
+  name: string;
+  // Rolling window the score and counts cover
+  windowMonths: number;
+  // Bradford Factor: spells² × days
+  bradfordWarning: number;
+  bradfordTrigger: number;
+  maxOccurrences: number;
+  maxDays: number;
+  // authorised_unpaid is never part of the Bradford score; it triggers on its own
+  // day count, or never when null
+  unpaidMaxDays: number | null;
+  updatedAt?: Date | Timestamp;
+  updatedBy?: string;
+}
+
+export type AbsencePolicyInput = Omit<AbsencePolicy, 'id' | 'site' | 'updatedAt' | 'updatedBy'>;
+
+export const DEFAULT_ABSENCE_POLICY: AbsencePolicy = {
+  id: 'default',
+  site: '',
+  name: 'Default policy',
+  windowMonths: 12,
+  bradfordWarning: 32,
+  bradfordTrigger: 51,
+  maxOccurrences: 4,
+  maxDays: 10,
+  unpaidMaxDays: null,
+};
+
+export type TriggerReason = 'bradford' | 'occurrences' | 'days';
+
 export interface TriggerStatus {
   occurrences: number;
   totalDays: number;
+  bradfordScore: number;
+  windowStart: Date;
+  policy: AbsencePolicy;
+  // Thresholds met or exceeded, empty when no trigger has been reached
+  triggeredBy: TriggerReason[];
   isNearingTrigger: boolean;
   hasReachedTrigger: boolean;
   patterns: SicknessPattern[];
+  unpaid: {
+    occurrences: number;
+    totalDays: number;
+    hasReachedTrigger: boolean;
+  };
 }
 
 export type NewSicknessRecord = Omit<SicknessRecord, 'id' | 'createdAt' | 'updatedAt' | 'step'>;
@@ -49,7 +155,14 @@ export interface SicknessContextType {
   scheduleReview: (record: SicknessRecord, reviewDate: Date) => Promise<void>;
   completeSicknessRecord: (id: string, endDate: Date) => Promise<void>;
   uploadReturnToWorkForm: (recordId: string, file: File) => Promise<void>;
+  saveReturnToWorkInterview: (recordId: string, interview: ReturnToWorkInterview) => Promise<void>;
+  completeReturnToWorkInterview: (record: SicknessRecord, interview: ReturnToWorkInterview) => Promise<void>;
+  signReturnToWorkInterview: (record: SicknessRecord, name: string) => Promise<void>;
   progressToNextStep: (record: SicknessRecord) => Promise<void>;
   archiveRecord: (id: string) => Promise<void>;
   getTriggerStatus: (staffId: string) => TriggerStatus;
+  absencePolicies: AbsencePolicy[];
+  getPolicyForSite: (site?: string) => AbsencePolicy;
+  saveAbsencePolicy: (site: string, policy: AbsencePolicyInput) => Promise<void>;
+  deleteAbsencePolicy: (site: string) => Promise<void>;
 }
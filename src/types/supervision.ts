@@ -0,0 +1,104 @@
+import { Timestamp } from 'firebase/firestore';
+import { SupervisionFeedback } from './index';
+
+export type SupervisionActionStatus = 'open' | 'completed' | 'cancelled';
+
+/**
+ * Something agreed in a supervision. Open action points are copied into the
+ * next session with the same id, so the latest session holds their status.
+ */
+export interface SupervisionActionPoint {
+  id: string;
+  description: string;
+  ownerId: string;
+  ownerName: string;
+  // 'yyyy-MM-dd'
+  dueDate: string;
+  status: SupervisionActionStatus;
+  // Session the point was first agreed in; null when agreed in this one
+  raisedIn: string | null;
+  completedAt: string | null;
+}
+
+export interface SupervisionAgendaSection {
+  id: string;
+  title: string;
+  prompts: string[];
+}
+
+// What was discussed under one agenda section
+export interface SupervisionAgendaItem {
+  sectionId: string;
+  title: string;
+  notes: string;
+}
+
+/**
+ * Agenda used to record supervisions at a site. `site: ''` is the default used
+ * by sites without their own template. Stored in `supervisionTemplates`, keyed
+ * by site (or 'default').
+ */
+export interface SupervisionTemplate {
+  id: string;
+  site: string;
+  name: string;
+  sections: SupervisionAgendaSection[];
+  updatedAt?: Date | Timestamp;
+  updatedBy?: string;
+}
+
+export type SupervisionTemplateInput = Omit<SupervisionTemplate, 'id' | 'site' | 'updatedAt' | 'updatedBy'>;
+
+export const DEFAULT_SUPERVISION_TEMPLATE: SupervisionTemplate = {
+  id: 'default',
+  site: '',
+  name: 'Default agenda',
+  sections: [
+    {
+      id: 'wellbeing',
+      title: 'Wellbeing',
+      prompts: ['How are you feeling at work?', 'Is anything outside work affecting you?'],
+    },
+    {
+      id: 'training',
+      title: 'Training & Development',
+      prompts: ['Is your training up to date?', 'What would you like to learn next?'],
+    },
+    {
+      id: 'safeguarding',
+      title: 'Safeguarding',
+      prompts: ['Any concerns about the people we support?', 'Do you know how to raise a concern?'],
+    },
+    {
+      id: 'performance',
+      title: 'Performance',
+      prompts: ['What has gone well?', 'What could be improved?'],
+    },
+  ],
+};
+
+export const SUPERVISION_ACTION_STATUS_LABELS: Record<SupervisionActionStatus, string> = {
+  open: 'Open',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export interface SupervisionFeedbackPeriod {
+  // Calendar quarter, 'yyyy-Qn'
+  period: string;
+  // Null, with no themes, when the quarter has too few answers to show
+  responses: number | null;
+  averageRating: number | null;
+  themes: Array<{ theme: string; count: number }>;
+}
+
+// Questionnaire answers for a site, built by functions so confidential answers
+// are only ever seen in aggregate, per quarter once it has ended. `feedback`
+// holds the non-confidential ones.
+export interface SupervisionFeedbackSummary {
+  site: string;
+  quarters: number;
+  minimumResponses: number;
+  periods: SupervisionFeedbackPeriod[];
+  feedback: SupervisionFeedback[];
+}
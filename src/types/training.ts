@@ -0,0 +1,38 @@
+import { TrainingRecord } from './index';
+
+// 'missing' is a required course with no record at all
+export type TrainingMatrixStatus = 'valid' | 'expiring' | 'expired' | 'missing';
+
+export type TrainingMatrixCourseGroup = 'training' | 'f2f';
+
+export interface TrainingMatrixCourse {
+  title: string;
+  group: TrainingMatrixCourseGroup;
+}
+
+export interface TrainingMatrixCell {
+  status: TrainingMatrixStatus;
+  // The latest record for the course, by expiry
+  record: TrainingRecord | null;
+  // Negative once expired
+  daysToExpiry: number | null;
+}
+
+export interface TrainingMatrixRow {
+  staffId: string;
+  staffName: string;
+  site: string;
+  cells: Record<string, TrainingMatrixCell>;
+}
+
+export const TRAINING_MATRIX_STATUS_LABELS: Record<TrainingMatrixStatus, string> = {
+  valid: 'In date',
+  expiring: 'Expiring',
+  expired: 'Expired',
+  missing: 'Missing',
+};
+
+export const TRAINING_MATRIX_GROUP_LABELS: Record<TrainingMatrixCourseGroup, string> = {
+  training: 'E-learning',
+  f2f: 'Face-to-face',
+};
@@ -0,0 +1,93 @@
+import { differenceInCalendarDays, max as maxDate, min as minDate, startOfDay, subMonths } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { AbsencePolicy, SicknessRecord, TriggerReason } from '../types/sickness';
+
+const toDate = (value: Date | Timestamp | null | undefined): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  return value.toDate();
+};
+
+type ScoredRecord = Pick<SicknessRecord, 'type' | 'startDate' | 'endDate'>;
+
+export const getWindowStart = (policy: AbsencePolicy, today: Date = new Date()) =>
+  startOfDay(subMonths(today, policy.windowMonths));
+
+/**
+ * Calendar days of an absence that fall inside the window, counting both the
+ * first and last day. Open absences run to today.
+ */
+export const getAbsenceDaysInWindow = (record: ScoredRecord, windowStart: Date, today: Date = new Date()) => {
+  const start = toDate(record.startDate);
+  if (!start) return 0;
+  const end = toDate(record.endDate) || today;
+  const from = maxDate([startOfDay(start), windowStart]);
+  const to = minDate([startOfDay(end), startOfDay(today)]);
+  return Math.max(0, differenceInCalendarDays(to, from) + 1);
+};
+
+// Bradford Factor: S² × D, where S is spells of absence and D total days
+export const calculateBradfordScore = (occurrences: number, totalDays: number) =>
+  occurrences * occurrences * totalDays;
+
+/**
+ * Scores a staff member's records against a policy. Only `sickness` records
+ * count towards the Bradford Factor; `authorised_unpaid` is totalled separately.
+ */
+export const scoreAbsences = <T extends ScoredRecord>(records: T[], policy: AbsencePolicy, today: Date = new Date()) => {
+  const windowStart = getWindowStart(policy, today);
+  const inWindow = records
+    .map(record => ({ record, days: getAbsenceDaysInWindow(record, windowStart, today) }))
+    .filter(({ days }) => days > 0);
+
+  const sickness = inWindow.filter(({ record }) => record.type === 'sickness');
+  const unpaid = inWindow.filter(({ record }) => record.type === 'authorised_unpaid');
+
+  const occurrences = sickness.length;
+  const totalDays = sickness.reduce((sum, { days }) => sum + days, 0);
+  const unpaidDays = unpaid.reduce((sum, { days }) => sum + days, 0);
+
+  const triggeredBy: TriggerReason[] = [];
+  const bradfordScore = calculateBradfordScore(occurrences, totalDays);
+  if (bradfordScore >= policy.bradfordTrigger) triggeredBy.push('bradford');
+  if (occurrences >= policy.maxOccurrences) triggeredBy.push('occurrences');
+  if (totalDays > policy.maxDays) triggeredBy.push('days');
+
+  const hasReachedTrigger = triggeredBy.length > 0;
+  const isNearingTrigger = !hasReachedTrigger && (
+    bradfordScore >= policy.bradfordWarning ||
+    occurrences >= policy.maxOccurrences - 1 ||
+    totalDays >= policy.maxDays - 2
+  );
+
+  return {
+    windowStart,
+    sicknessRecords: sickness.map(({ record }) => record),
+    occurrences,
+    totalDays,
+    bradfordScore,
+    triggeredBy,
+    hasReachedTrigger,
+    isNearingTrigger,
+    unpaid: {
+      occurrences: unpaid.length,
+      totalDays: unpaidDays,
+      hasReachedTrigger: policy.unpaidMaxDays !== null && unpaidDays > policy.unpaidMaxDays,
+    },
+  };
+};
+
+export const TRIGGER_REASON_LABELS: Record<TriggerReason, string> = {
+  bradford: 'Bradford Factor',
+  occurrences: 'Occurrences',
+  days: 'Total days',
+};
+
+// One line per threshold, e.g. "Bradford Factor: 64/51"
+export const describeTriggerStatus = (
+  status: { bradfordScore: number; occurrences: number; totalDays: number; policy: AbsencePolicy }
+) => [
+  `Bradford Factor: ${status.bradfordScore}/${status.policy.bradfordTrigger}`,
+  `Occurrences: ${status.occurrences}/${status.policy.maxOccurrences}`,
+  `Total Days: ${status.totalDays}/${status.policy.maxDays}`,
+];
@@ -0,0 +1,37 @@
+import { endOfDay, parseISO, subDays } from 'date-fns';
+import { LeaveEntitlement, LeavePolicy } from '../types/leave';
+
+export interface LeaveYear {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+// The leave year containing `date`; functions work balances out over the same year
+export const getLeaveYear = (policy: LeavePolicy, date: Date = new Date()): LeaveYear => {
+  const startOf = (year: number) => new Date(year, policy.yearStartMonth - 1, policy.yearStartDay);
+  const startYear = date >= startOf(date.getFullYear()) ? date.getFullYear() : date.getFullYear() - 1;
+  return {
+    label: policy.yearStartMonth === 1 && policy.yearStartDay === 1
+      ? `${startYear}`
+      : `${startYear}-${startYear + 1}`,
+    start: startOf(startYear),
+    end: endOfDay(subDays(startOf(startYear + 1), 1)),
+  };
+};
+
+// The year a balance was worked out for, falling back to the policy for older balances
+export const getEntitlementYear = (
+  entitlement: LeaveEntitlement | null,
+  policy: LeavePolicy,
+  date: Date = new Date()
+): LeaveYear => {
+  if (entitlement?.yearStart && entitlement.yearEnd) {
+    return {
+      label: entitlement.leaveYear,
+      start: parseISO(entitlement.yearStart),
+      end: endOfDay(parseISO(entitlement.yearEnd)),
+    };
+  }
+  return getLeaveYear(policy, date);
+};
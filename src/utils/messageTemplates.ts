@@ -0,0 +1,109 @@
+import { addDays, format } from 'date-fns';
+import { TrainingRecord, User } from '../types';
+import { RotaVersion, Shift } from '../types/rota';
+
+/**
+ * Placeholder handling for message templates.
+ *
+ * Templates use `{{variable}}` placeholders that are resolved per recipient.
+ * The placeholder list and rendering rules mirror `functions/src/messageTemplates.ts`,
+ * which renders the messages sendMassMessage delivers. Keep the two in sync.
+ */
+
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  name: 'Full name',
+  firstName: 'First name',
+  site: 'Home site',
+  nextShift: 'Next rota shift, e.g. "Mon 20 Oct, 7:30-14:30"',
+  expiringCourses: 'Training expiring in the next 30 days, or "None"',
+};
+
+export type TemplateValues = Record<string, string | null>;
+
+type RotaShift = Pick<Shift, 'date' | 'startTime' | 'endTime' | 'assignedStaff'>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+const EXPIRING_WINDOW_DAYS = 30;
+
+export const findPlaceholders = (...texts: string[]): string[] => {
+  const found = new Set<string>();
+  texts.forEach(text => {
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      found.add(match[1]);
+    }
+  });
+  return Array.from(found);
+};
+
+export const getUnknownPlaceholders = (placeholders: string[], custom: Record<string, string> = {}) =>
+  placeholders.filter(name => !(name in TEMPLATE_VARIABLES) && !(name in custom));
+
+export const renderTemplate = (text: string, values: TemplateValues) =>
+  text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => values[name] ?? '');
+
+export const formatShift = (shift: Pick<RotaShift, 'date' | 'startTime' | 'endTime'>) => {
+  const [year, month, day] = shift.date.split('-').map(Number);
+  return `${format(new Date(year, month - 1, day), 'EEE d MMM')}, ${shift.startTime}-${shift.endTime}`;
+};
+
+export const findNextShift = (shifts: RotaShift[], userId: string, today: string) =>
+  shifts
+    .filter(shift => shift.date >= today && shift.assignedStaff.some(a =>
+      (typeof a === 'string' ? a : a.userId) === userId
+    ))
+    .sort((a, b) => a.date.localeCompare(b.date) ||
+      a.startTime.padStart(5, '0').localeCompare(b.startTime.padStart(5, '0')))[0] || null;
+
+// Shifts as staff were last sent them: the newest published version of each rota.
+// Drafts and edits made since the last publish never reach a message.
+export const getPublishedShifts = (
+  versions: Array<Pick<RotaVersion, 'rotaId' | 'version' | 'shifts'>>,
+  liveRotaIds: Set<string>
+) => {
+  const latest = new Map<string, Pick<RotaVersion, 'rotaId' | 'version' | 'shifts'>>();
+  versions
+    .filter(version => liveRotaIds.has(version.rotaId))
+    .forEach(version => {
+      const current = latest.get(version.rotaId);
+      if (!current || version.version > current.version) latest.set(version.rotaId, version);
+    });
+  return Array.from(latest.values()).flatMap(version => version.shifts || []);
+};
+
+export const buildTemplateValues = (
+  user: Pick<User, 'id' | 'name' | 'site'>,
+  trainingRecords: TrainingRecord[],
+  upcomingShifts: RotaShift[],
+  custom: Record<string, string> = {}
+): TemplateValues => {
+  const now = new Date();
+  const cutoff = addDays(now, EXPIRING_WINDOW_DAYS);
+  // Each course's latest record, so a course renewed early is not listed
+  const latest = new Map<string, TrainingRecord>();
+  trainingRecords
+    .filter(r => r.staffId === user.id && r.expiryDate)
+    .forEach(r => {
+      const current = latest.get(r.courseTitle);
+      if (!current || r.expiryDate > current.expiryDate) latest.set(r.courseTitle, r);
+    });
+  const courses = Array.from(latest.values())
+    .filter(r => r.expiryDate >= now && r.expiryDate <= cutoff)
+    .map(r => r.courseTitle)
+    .sort();
+  const nextShift = findNextShift(upcomingShifts, user.id, format(new Date(), 'yyyy-MM-dd'));
+
+  return {
+    ...custom,
+    name: user.name || null,
+    firstName: user.name?.split(' ')[0] || null,
+    site: user.site || null,
+    nextShift: nextShift ? formatShift(nextShift) : null,
+    expiringCourses: courses.length ? courses.join(', ') : 'None',
+  };
+};
+
+// Placeholders used in the text that resolve to nothing for this recipient
+export const getMissingValues = (placeholders: string[], values: TemplateValues) =>
+  placeholders.filter(name => name in TEMPLATE_VARIABLES && !values[name]);
@@ -0,0 +1,81 @@
+import { addDays, addWeeks, isBefore, parseISO, startOfDay, subWeeks } from 'date-fns';
+import { Supervision, User } from '../types';
+import { PROBATION_MILESTONES, PROBATION_STATUS_LABELS, ProbationStage } from '../types/probation';
+import { getStartDate } from './supervisionSchedule';
+
+// Starters stay on the board for a while after their original end date so
+// late reviews are still visible
+const BOARD_WEEKS = 24;
+
+export const getProbationStatus = (user: User) => user.probationStatus || 'pending';
+
+export const isNewStarter = (user: User, now: Date = new Date()): boolean => {
+  const status = getProbationStatus(user);
+  if (status === 'extended') return true;
+  if (status !== 'pending') return false;
+  const startDate = getStartDate(user);
+  return !!startDate && !isBefore(startDate, subWeeks(startOfDay(now), BOARD_WEEKS));
+};
+
+const findSession = (supervisions: Supervision[], user: User, milestone: Supervision['probationMilestone']) =>
+  supervisions.find(supervision =>
+    supervision.staffId === user.id &&
+    supervision.probationMilestone === milestone &&
+    supervision.status !== 'cancelled'
+  ) || null;
+
+// The next thing a new starter's probation is waiting on. Milestones are held
+// in order; once all four are done a manager has to record the outcome.
+export const getProbationStage = (
+  user: User,
+  supervisions: Supervision[],
+  now: Date = new Date()
+): ProbationStage => {
+  const status = getProbationStatus(user);
+  const today = startOfDay(now);
+  const endDate = user.probationEndDate ? parseISO(user.probationEndDate) : null;
+
+  if (status === 'completed' || status === 'failed') {
+    return { kind: status, label: PROBATION_STATUS_LABELS[status], dueDate: null, overdue: false, session: null };
+  }
+
+  if (status === 'extended') {
+    const session = supervisions.find(supervision =>
+      supervision.staffId === user.id &&
+      supervision.probationMilestone === 'extension' &&
+      supervision.status === 'scheduled'
+    ) || null;
+    const dueDate = session?.date || endDate;
+    return {
+      kind: 'extension',
+      label: 'Extension review',
+      dueDate,
+      overdue: !!dueDate && isBefore(dueDate, today),
+      session,
+    };
+  }
+
+  const startDate = getStartDate(user);
+  const next = PROBATION_MILESTONES.find(milestone => !user.trainingProgress?.[milestone.key]);
+
+  if (!next) {
+    const dueDate = endDate || (startDate && addWeeks(startDate, PROBATION_MILESTONES[PROBATION_MILESTONES.length - 1].week));
+    return {
+      kind: 'decision',
+      label: 'Outcome due',
+      dueDate,
+      overdue: !!dueDate && isBefore(dueDate, today),
+      session: null,
+    };
+  }
+
+  const session = findSession(supervisions, user, next.key);
+  const dueDate = session?.date || (startDate && addDays(startDate, next.week * 7));
+  return {
+    kind: next.key,
+    label: next.label,
+    dueDate,
+    overdue: !!dueDate && isBefore(dueDate, today),
+    session,
+  };
+};
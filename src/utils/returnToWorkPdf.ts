@@ -0,0 +1,111 @@
+import { jsPDF } from 'jspdf';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import {
+  RETURN_TO_WORK_QUESTIONS,
+  ReturnToWorkInterview,
+  SicknessRecord,
+} from '../types/sickness';
+
+const toDate = (value: Date | Timestamp | null | undefined): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  return value.toDate();
+};
+
+const formatDate = (value: Date | Timestamp | null | undefined) => {
+  const date = toDate(value);
+  return date ? format(date, 'dd/MM/yyyy') : '-';
+};
+
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+
+/**
+ * Builds the signed return-to-work interview as a PDF and downloads it.
+ */
+export const exportReturnToWorkPdf = (record: SicknessRecord, interview: ReturnToWorkInterview) => {
+  const pdf = new jsPDF();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const width = pdf.internal.pageSize.getWidth() - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(12);
+    y += 4;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(12);
+    pdf.text(text, MARGIN, y);
+    y += LINE_HEIGHT + 1;
+  };
+
+  const paragraph = (text: string, bold = false) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.setFontSize(10);
+    const lines: string[] = pdf.splitTextToSize(text || '-', width);
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      pdf.text(line, MARGIN, y);
+      y += LINE_HEIGHT;
+    });
+  };
+
+  const field = (label: string, value: string) => paragraph(`${label}: ${value || '-'}`);
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.text('Return to Work Interview', MARGIN, y);
+  y += LINE_HEIGHT * 2;
+
+  heading('Absence');
+  field('Employee', record.staffName);
+  field('Site', record.site || '');
+  field('Absence', `${formatDate(record.startDate)} to ${formatDate(record.endDate)}`);
+  field('Reason recorded', record.reason);
+  field('Interview date', formatDate(interview.interviewDate));
+  field('First day back', formatDate(interview.firstDayBack));
+  field('Conducted by', interview.conductedByName);
+
+  heading('Interview');
+  RETURN_TO_WORK_QUESTIONS.forEach(question => {
+    paragraph(question.label, true);
+    paragraph(interview.answers[question.id] || '');
+    y += 1;
+  });
+
+  heading('Fit Note');
+  if (interview.fitNote.provided) {
+    field('Status', interview.fitNote.status === 'may_be_fit' ? 'May be fit for work' : 'Not fit for work');
+    field('Covers', `${formatDate(interview.fitNote.dateFrom)} to ${formatDate(interview.fitNote.dateTo)}`);
+    field('Issued by', interview.fitNote.issuedBy);
+    field('Recommendations', interview.fitNote.recommendations);
+  } else {
+    paragraph('No fit note provided');
+  }
+
+  heading('Agreed Adjustments');
+  if (interview.adjustments.length) {
+    interview.adjustments.forEach(adjustment => {
+      paragraph(`• ${adjustment.description} (review ${formatDate(adjustment.reviewDate)})`);
+    });
+  } else {
+    paragraph('None agreed');
+  }
+
+  heading('Sign-off');
+  [
+    { label: 'Employee', signOff: interview.employeeSignOff },
+    { label: 'Manager', signOff: interview.managerSignOff },
+  ].forEach(({ label, signOff }) => {
+    field(label, signOff ? `${signOff.name}, signed ${formatDate(signOff.signedAt)}` : 'Not signed');
+  });
+
+  pdf.save(`return-to-work-${record.staffName.replace(/\s+/g, '-').toLowerCase()}-${format(toDate(interview.interviewDate) || new Date(), 'yyyy-MM-dd')}.pdf`);
+};
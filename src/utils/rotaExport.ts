@@ -0,0 +1,261 @@
+import * as XLSX from 'xlsx';
+import { jsPDF } from 'jspdf';
+import { addDays, eachDayOfInterval, format, parseISO, startOfWeek } from 'date-fns';
+import {
+  RotaExportData,
+  RotaExportLeave,
+  RotaExportOptions,
+  Shift,
+  ShiftPattern,
+  Staff,
+} from '../types/rota';
+import { calculateAssignedHours, getRotaPatterns, getStaffAssignment, isBorrowedStaff } from './rotaUtils';
+import { ROLE_MARKERS, formatShiftCell, getLeaveCode } from './rotaSpreadsheet';
+
+const MARGIN = 10;
+const LINE_HEIGHT = 3.8;
+const CELL_PADDING = 1.5;
+const LABEL_WIDTH = 34;
+
+const getDays = (data: RotaExportData): string[] =>
+  eachDayOfInterval({ start: parseISO(data.from), end: parseISO(data.to) }).map(day => format(day, 'yyyy-MM-dd'));
+
+const getShifts = (data: RotaExportData): Shift[] =>
+  data.rotas.flatMap(rota => rota.shifts).filter(shift => {
+    const date = shift.date.slice(0, 10);
+    return date >= data.from && date <= data.to;
+  });
+
+// Each pattern once, as the first rota that has it describes it
+const getPatterns = (data: RotaExportData): ShiftPattern[] =>
+  data.rotas
+    .flatMap(getRotaPatterns)
+    .filter((pattern, index, patterns) => patterns.findIndex(other => other.id === pattern.id) === index);
+
+// The site's own staff, and anyone borrowed who works a shift in the period
+const getStaffRows = (data: RotaExportData, shifts: Shift[]): Staff[] =>
+  data.staff
+    .filter(member => !isBorrowedStaff(member, data.site) || shifts.some(shift => getStaffAssignment(shift, member.id)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const getLeave = (data: RotaExportData, userId: string, date: string): RotaExportLeave | undefined =>
+  data.leave.find(leave =>
+    leave.userId === userId && leave.startDate.slice(0, 10) <= date && leave.endDate.slice(0, 10) >= date
+  );
+
+// Paid hours in the period, counted per rota as the rota page does
+const getHours = (data: RotaExportData, member: Staff, from = data.from, to = data.to): number =>
+  data.rotas.reduce((total, rota) => total + calculateAssignedHours(member, {
+    ...rota,
+    shifts: rota.shifts.filter(shift => shift.date.slice(0, 10) >= from && shift.date.slice(0, 10) <= to),
+  }), 0);
+
+const formatHours = (hours: number) => String(Math.round(hours * 100) / 100);
+
+const getFileName = (data: RotaExportData, extension: string) =>
+  `rota-${data.site.replace(/\s+/g, '-').toLowerCase()}-${data.from}-to-${data.to}.${extension}`;
+
+/**
+ * Builds a printable landscape rota, a page per week laid out like the rota
+ * grid: shift patterns down the side, days across. Hours totals go on a
+ * last page.
+ */
+export const exportRotaPdf = (data: RotaExportData, options: RotaExportOptions) => {
+  const pdf = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const dayWidth = (pageWidth - MARGIN * 2 - LABEL_WIDTH) / 7;
+
+  const shifts = getShifts(data);
+  const patterns = getPatterns(data);
+  const staffRows = getStaffRows(data, shifts);
+  const nameOf = (staffId: string) => data.staff.find(member => member.id === staffId)?.name || 'Unknown';
+  const weekStarts = Array.from(new Set(getDays(data).map(day =>
+    format(startOfWeek(parseISO(day), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+  )));
+
+  const cellText = (lines: string[], x: number, y: number, width: number) => {
+    const wrapped = lines.flatMap(line => pdf.splitTextToSize(line, width - CELL_PADDING * 2) as string[]);
+    wrapped.forEach((line, index) => pdf.text(line, x + CELL_PADDING, y + CELL_PADDING + LINE_HEIGHT * (index + 0.8)));
+    return wrapped.length;
+  };
+
+  const measure = (lines: string[]) =>
+    lines.flatMap(line => pdf.splitTextToSize(line, dayWidth - CELL_PADDING * 2) as string[]).length;
+
+  const title = (text: string) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.text(text, MARGIN, MARGIN + 4);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.text(`Printed ${format(new Date(), 'd MMM yyyy HH:mm')}`, pageWidth - MARGIN, MARGIN + 4, { align: 'right' });
+  };
+
+  weekStarts.forEach((weekStart, weekIndex) => {
+    const days = Array.from({ length: 7 }, (_, i) => format(addDays(parseISO(weekStart), i), 'yyyy-MM-dd'));
+    let y = MARGIN + 10;
+
+    const header = () => {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(8);
+      days.forEach((day, i) => {
+        const x = MARGIN + LABEL_WIDTH + dayWidth * i;
+        if (day < data.from || day > data.to) {
+          pdf.setFillColor(235, 235, 235);
+          pdf.rect(x, y, dayWidth, 7, 'F');
+        }
+        pdf.rect(x, y, dayWidth, 7);
+        pdf.text(format(parseISO(day), 'EEE d MMM'), x + dayWidth / 2, y + 4.8, { align: 'center' });
+      });
+      y += 7;
+    };
+
+    const row = (label: string[], cells: string[][]) => {
+      pdf.setFontSize(8);
+      const height = Math.max(10, ...cells.map(lines => measure(lines) * LINE_HEIGHT + CELL_PADDING * 2));
+      if (y + height > pageHeight - MARGIN) {
+        pdf.addPage();
+        title(`${data.site} rota - week of ${format(parseISO(weekStart), 'd MMMM yyyy')} (continued)`);
+        y = MARGIN + 10;
+        header();
+      }
+
+      pdf.setFont('helvetica', 'bold');
+      pdf.rect(MARGIN, y, LABEL_WIDTH, height);
+      cellText(label, MARGIN, y, LABEL_WIDTH);
+      pdf.setFont('helvetica', 'normal');
+      cells.forEach((lines, i) => {
+        const x = MARGIN + LABEL_WIDTH + dayWidth * i;
+        pdf.rect(x, y, dayWidth, height);
+        cellText(lines, x, y, dayWidth);
+      });
+      y += height;
+    };
+
+    if (weekIndex) pdf.addPage();
+    title(`${data.site} rota - week of ${format(parseISO(weekStart), 'd MMMM yyyy')}`);
+    header();
+
+    patterns.forEach(pattern => {
+      const cells = days.map(day => {
+        if (day < data.from || day > data.to) return [];
+        return shifts
+          .filter(shift => shift.date.slice(0, 10) === day && shift.time === pattern.id)
+          .flatMap(shift => shift.assignedStaff.map(assignment => {
+            const staffId = typeof assignment === 'string' ? assignment : assignment.userId;
+            const role = typeof assignment === 'string' ? undefined : assignment.role;
+            return formatShiftCell(nameOf(staffId), options.showRoles ? role : undefined);
+          }));
+      });
+      row([pattern.name, `${pattern.start}-${pattern.end}`], cells);
+    });
+
+    if (options.showLeave) {
+      row(['On leave'], days.map(day => (day < data.from || day > data.to ? [] : staffRows
+        .map(member => ({ member, leave: getLeave(data, member.id, day) }))
+        .filter(({ leave }) => leave)
+        .map(({ member, leave }) => `${member.name} (${getLeaveCode(leave?.leaveType || '')})`))));
+    }
+
+    if (options.showRoles) {
+      pdf.setFontSize(7);
+      pdf.text(
+        Object.entries(ROLE_MARKERS).map(([role, marker]) => `${marker} = ${role}`).join('   '),
+        MARGIN,
+        Math.min(y + 5, pageHeight - MARGIN / 2)
+      );
+    }
+  });
+
+  if (options.showHours) {
+    pdf.addPage();
+    title(`${data.site} - paid hours ${format(parseISO(data.from), 'd MMM')} to ${format(parseISO(data.to), 'd MMM yyyy')}`);
+
+    const columns = [
+      ...(weekStarts.length > 1 ? weekStarts.map(weekStart => `w/c ${format(parseISO(weekStart), 'd MMM')}`) : []),
+      'Total',
+      'Contracted / week',
+    ];
+    const columnWidth = Math.min(28, (pageWidth - MARGIN * 2 - 60) / columns.length);
+    let y = MARGIN + 12;
+
+    const line = (cells: string[], bold = false) => {
+      if (y + 6 > pageHeight - MARGIN) {
+        pdf.addPage();
+        y = MARGIN;
+      }
+      pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+      pdf.setFontSize(8);
+      pdf.text(cells[0], MARGIN, y);
+      cells.slice(1).forEach((cell, i) => pdf.text(cell, MARGIN + 60 + columnWidth * (i + 1), y, { align: 'right' }));
+      y += 6;
+    };
+
+    line(['Name', ...columns], true);
+    staffRows.forEach(member => {
+      const weekly = weekStarts.length > 1
+        ? weekStarts.map(weekStart => {
+          const weekEnd = format(addDays(parseISO(weekStart), 6), 'yyyy-MM-dd');
+          return formatHours(getHours(data, member,
+            weekStart < data.from ? data.from : weekStart,
+            weekEnd > data.to ? data.to : weekEnd));
+        })
+        : [];
+      line([member.name, ...weekly, formatHours(getHours(data, member)), formatHours(member.contractedHours)]);
+    });
+  }
+
+  pdf.save(getFileName(data, 'pdf'));
+};
+
+/**
+ * Builds the rota as a spreadsheet in the grid the rota importer reads: staff
+ * down the side, dates across and shift codes in the cells. A second sheet
+ * explains the codes.
+ */
+export const exportRotaXlsx = (data: RotaExportData, options: RotaExportOptions) => {
+  const days = getDays(data);
+  const shifts = getShifts(data);
+  const patterns = getPatterns(data);
+  const codeOf = (time: string) => {
+    const pattern = patterns.find(p => p.id === time);
+    return pattern?.codes?.[0] || pattern?.name || time;
+  };
+
+  const rows: Array<Array<string | number>> = [
+    [`${data.site} rota, ${format(parseISO(data.from), 'd MMM yyyy')} to ${format(parseISO(data.to), 'd MMM yyyy')}`],
+    ['Name', ...days.map(day => format(parseISO(day), 'EEE dd/MM/yyyy')), ...(options.showHours ? ['Hours'] : [])],
+  ];
+
+  getStaffRows(data, shifts).forEach(member => {
+    const cells = days.map(day => {
+      const worked = shifts
+        .filter(shift => shift.date.slice(0, 10) === day)
+        .map(shift => ({ shift, assignment: getStaffAssignment(shift, member.id) }))
+        .filter(({ assignment }) => assignment)
+        .map(({ shift, assignment }) => formatShiftCell(codeOf(shift.time), options.showRoles ? assignment?.role : undefined));
+      if (worked.length) return worked.join(' / ');
+
+      const leave = options.showLeave ? getLeave(data, member.id, day) : undefined;
+      return leave ? getLeaveCode(leave.leaveType) : '';
+    });
+    rows.push([member.name, ...cells, ...(options.showHours ? [Number(formatHours(getHours(data, member)))] : [])]);
+  });
+
+  const rotaSheet = XLSX.utils.aoa_to_sheet(rows);
+  rotaSheet['!cols'] = [{ wch: 24 }, ...days.map(() => ({ wch: 15 })), { wch: 8 }];
+
+  const keySheet = XLSX.utils.aoa_to_sheet([
+    ['Code', 'Shift', 'Times'],
+    ...patterns.map(pattern => [codeOf(pattern.id), pattern.name, `${pattern.start}-${pattern.end}`]),
+    ...(options.showRoles ? Object.entries(ROLE_MARKERS).map(([role, marker]) => [`(${marker})`, role, '']) : []),
+    ...(options.showLeave ? [['AL', 'Annual leave', ''], ['SICK', 'Sickness', ''], ['TRN', 'Training', ''], ['LEAVE', 'Other leave', '']] : []),
+  ]);
+  keySheet['!cols'] = [{ wch: 10 }, { wch: 20 }, { wch: 14 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, rotaSheet, 'Rota');
+  XLSX.utils.book_append_sheet(workbook, keySheet, 'Key');
+  XLSX.writeFile(workbook, getFileName(data, 'xlsx'));
+};
@@ -0,0 +1,205 @@
+import { generateRota, withApprovedLeave } from './rotaGenerator';
+import {
+  AISchedulerOptions,
+  DEFAULT_SHIFT_PATTERNS,
+  RotaConfiguration,
+  RotaOptimiserResult,
+  ShiftPattern,
+  ShiftRole,
+  Staff,
+} from '../types/rota';
+
+const [EARLY, LATE] = DEFAULT_SHIFT_PATTERNS;
+
+const pattern = (base: ShiftPattern, role: ShiftRole = 'Care Staff'): ShiftPattern => ({
+  ...base,
+  defaultRequirements: [{ role, count: 1 }],
+});
+
+const configuration = (
+  patterns: ShiftPattern[] = [pattern(EARLY)],
+  rules: Partial<RotaConfiguration['staffingRules']> = {}
+): RotaConfiguration => ({
+  shiftPatterns: patterns,
+  staffingRules: { minStaffPerShift: 1, maxConsecutiveDays: 5, minRestBetweenShifts: 11, ...rules },
+});
+
+const options = (changes: Partial<AISchedulerOptions> = {}): AISchedulerOptions => ({
+  optimizationPriority: 'balanced',
+  considerTrainingStatus: false,
+  considerPerformanceMetrics: false,
+  allowPartialFill: true,
+  maxIterations: 500,
+  shiftRequirements: {},
+  staff: [],
+  ...changes,
+});
+
+const member = (id: string, changes: Partial<Staff> = {}): Staff => ({
+  id,
+  name: id,
+  email: `${id}@example.com`,
+  roles: ['Care Staff'],
+  contractedHours: 100,
+  preferences: {
+    preferredShifts: [],
+    unavailableDates: [],
+    flexibleHours: false,
+    nightShiftOnly: false,
+  },
+  performanceMetrics: { attendanceRate: 100, punctualityScore: 100, shiftCompletionRate: 100, feedbackScore: 100 },
+  trainingStatus: {},
+  leave: [],
+  complianceScore: { overall: 100, training: 100, certification: 100, supervision: 100, documentation: 100 },
+  trainingModules: [],
+  certifications: [],
+  ...changes,
+});
+
+// Who works each shift, by date and pattern
+const assignments = ({ rota }: RotaOptimiserResult) =>
+  rota.shifts.map(shift => [
+    `${shift.date} ${shift.time}`,
+    shift.assignedStaff.map(a => (typeof a === 'string' ? a : `${a.userId}:${a.role}`)).sort(),
+  ]);
+
+const blockers = ({ unmet }: RotaOptimiserResult) => unmet.flatMap(requirement => Object.keys(requirement.blockedBy));
+
+describe('generateRota', () => {
+  describe('seeding', () => {
+    const team = ['ann', 'bob', 'cat', 'dan', 'eve', 'fay', 'gus', 'hal'].map((id, i) => member(id, {
+      roles: i < 3 ? ['Shift Leader', 'Care Staff'] : i < 5 ? ['Driver', 'Care Staff'] : ['Care Staff'],
+      contractedHours: 37.5,
+    }));
+    const run = (seed: number) =>
+      generateRota('2024-03-04', '2024-03-10', team, configuration(DEFAULT_SHIFT_PATTERNS), options({ seed }));
+
+    it('gives the same rota for the same seed', () => {
+      const first = run(7);
+      const second = run(7);
+
+      expect(assignments(second)).toEqual(assignments(first));
+      expect(second.unmet).toEqual(first.unmet);
+      expect(second.preferenceCost).toBe(first.preferenceCost);
+      expect(first.seed).toBe(7);
+    });
+
+    it('reports the seed it used when none is given', () => {
+      const result = generateRota('2024-03-04', '2024-03-05', team, configuration(), options());
+      expect(result.seed).toBe(1);
+      expect(assignments(generateRota('2024-03-04', '2024-03-05', team, configuration(), options({ seed: 1 }))))
+        .toEqual(assignments(result));
+    });
+  });
+
+  describe('hard constraints', () => {
+    it('only gives a place to staff holding its role', () => {
+      const result = generateRota(
+        '2024-03-04',
+        '2024-03-04',
+        [member('ann')],
+        configuration([pattern(EARLY, 'Driver')]),
+        options()
+      );
+
+      expect(result.rota.shifts[0].assignedStaff).toHaveLength(0);
+      expect(result.unmet).toEqual([expect.objectContaining({ role: 'Driver', missing: 1, blockedBy: { role: 1 } })]);
+    });
+
+    it('does not roster staff on approved leave', () => {
+      const onLeave = member('ann', {
+        leave: [{ type: 'Annual', startDate: '2024-03-05', endDate: '2024-03-05', approved: true }],
+      });
+      const result = generateRota('2024-03-04', '2024-03-06', [onLeave], configuration(), options());
+
+      expect(result.unmet).toEqual([expect.objectContaining({ date: '2024-03-05', blockedBy: { leave: 1 } })]);
+    });
+
+    it('treats approved leave requests as leave', () => {
+      const [withLeave] = withApprovedLeave([member('ann')], [
+        { userId: 'ann', startDate: '2024-03-05', endDate: '2024-03-05', leaveType: 'Annual Leave', status: 'approved' },
+        { userId: 'ann', startDate: '2024-03-06', endDate: '2024-03-06', leaveType: 'Annual Leave', status: 'pending' },
+      ]);
+      const result = generateRota('2024-03-04', '2024-03-06', [withLeave], configuration(), options());
+
+      expect(result.unmet).toEqual([expect.objectContaining({ date: '2024-03-05', blockedBy: { leave: 1 } })]);
+    });
+
+    it('treats leave booked at the home site of borrowed staff as leave', () => {
+      const borrowed = member('bob', { site: 'Elm House', sites: ['Elm House', 'Oak House'] });
+      const [withLeave] = withApprovedLeave([borrowed], [
+        { userId: 'bob', startDate: '2024-03-04', endDate: '2024-03-05', leaveType: 'Annual Leave', status: 'approved' },
+      ]);
+      const result = generateRota('2024-03-04', '2024-03-06', [withLeave], configuration(), options());
+
+      expect(result.rota.shifts.filter(shift => shift.assignedStaff.length).map(shift => shift.date))
+        .toEqual(['2024-03-06']);
+      expect(result.unmet.map(requirement => requirement.blockedBy)).toEqual([{ leave: 1 }, { leave: 1 }]);
+    });
+
+    it('does not roster staff on dates they are unavailable', () => {
+      const unavailable = member('ann', {
+        preferences: { ...member('ann').preferences, unavailableDates: ['2024-03-04'] },
+      });
+      const result = generateRota('2024-03-04', '2024-03-05', [unavailable], configuration(), options());
+
+      expect(result.unmet).toEqual([expect.objectContaining({ date: '2024-03-04', blockedBy: { unavailable: 1 } })]);
+    });
+
+    it('leaves the minimum rest between shifts', () => {
+      const result = generateRota(
+        '2024-03-04',
+        '2024-03-05',
+        [member('ann')],
+        configuration([pattern(EARLY), pattern(LATE)]),
+        options()
+      );
+
+      // A late then the next early, or an early then a late, is short of 11 hours
+      const worked = result.rota.shifts.filter(shift => shift.assignedStaff.length).map(shift => shift.time);
+      expect(worked).toHaveLength(2);
+      expect(new Set(worked).size).toBe(1);
+      expect(blockers(result)).toEqual(['rest-period', 'rest-period']);
+    });
+
+    it('stays within contracted hours each week', () => {
+      const result = generateRota(
+        '2024-03-04',
+        '2024-03-06',
+        [member('ann', { contractedHours: 14 })],
+        configuration(),
+        options()
+      );
+
+      expect(result.rota.shifts.filter(shift => shift.assignedStaff.length)).toHaveLength(2);
+      expect(result.unmet).toEqual([expect.objectContaining({ blockedBy: { 'contracted-hours': 1 } })]);
+    });
+
+    it('keeps runs of working days within the limit', () => {
+      const result = generateRota(
+        '2024-03-04',
+        '2024-03-06',
+        [member('ann')],
+        configuration([pattern(EARLY)], { maxConsecutiveDays: 2 }),
+        options()
+      );
+
+      expect(result.rota.shifts.filter(shift => shift.assignedStaff.length)).toHaveLength(2);
+      expect(result.unmet).toEqual([expect.objectContaining({ blockedBy: { 'consecutive-days': 1 } })]);
+    });
+
+    it('does not double-book staff working at another site', () => {
+      const result = generateRota('2024-03-04', '2024-03-05', [member('ann')], configuration(), options(), [{
+        staffId: 'ann',
+        site: 'Elm House',
+        date: '2024-03-04',
+        time: EARLY.id,
+        startTime: EARLY.start,
+        endTime: EARLY.end,
+        hours: 7,
+      }]);
+
+      expect(result.unmet).toEqual([expect.objectContaining({ date: '2024-03-04', blockedBy: { 'double-booked': 1 } })]);
+    });
+  });
+});
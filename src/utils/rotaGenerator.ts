@@ -2,7 +2,6 @@ import {
   Rota, 
   Staff, 
   Shift, 
-  ShiftTime, 
   ShiftRole, 
   AISchedulerOptions, 
   RotaConfiguration,
@@ -10,9 +9,29 @@ import {
   StaffSuggestion,
   ShiftAssignment,
   StaffEvaluation,
-  ShiftType
+  RotaConstraint,
+  RotaOptimiserResult,
+  UnmetRequirement,
+  StaffCommitment,
+  ROTA_CONSTRAINT_LABELS
 } from '../types/rota';
-import { addDays, parseISO, format, isWithinInterval, differenceInHours } from 'date-fns';
+import { LeaveRequest } from '../types/leave';
+import {
+  addDays,
+  parseISO,
+  format,
+  isWithinInterval,
+  differenceInHours,
+  differenceInCalendarDays
+} from 'date-fns';
+import {
+  calculateShiftHours,
+  createShiftFromPattern,
+  getShiftPatterns,
+  getShiftWindow,
+  staffingToRequirements,
+  updateShiftStatuses
+} from './rotaUtils';
 
 interface StaffScore {
   staff: Staff;
@@ -384,123 +403,412 @@ export const generateShiftSuggestions = (
   };
 };
 
-// Generate a complete rota
-export const generateRota = (
+
+// Rota optimiser
+//
+// Builds the whole rota period at once rather than shift by shift. Every place
+// on every shift is a slot; hard constraints (role, leave, unavailability, rest,
+// contracted hours, consecutive days) are never broken, and everything else is a
+// cost to minimise. It fills the most constrained slots first, then improves the
+// rota with seeded simulated annealing, so a seed always gives the same rota.
+
+const DEFAULT_SEED = 1;
+const START_TEMPERATURE = 50;
+const END_TEMPERATURE = 0.5;
+
+// Leaving a place empty costs more than any combination of preferences
+const UNFILLED_COST: Record<ShiftRole, number> = {
+  'Shift Leader': 1200,
+  'Driver': 1000,
+  'Care Staff': 1000,
+};
+
+const PRIORITY_WEIGHTS: Record<AISchedulerOptions['optimizationPriority'], {
+  preference: number;
+  balance: number;
+  quality: number;
+}> = {
+  'balanced': { preference: 10, balance: 20, quality: 5 },
+  'staff-preference': { preference: 25, balance: 10, quality: 3 },
+  'coverage': { preference: 4, balance: 20, quality: 5 },
+};
+
+interface TimeWindow {
+  day: number;
+  week: number;
+  // Minutes from the start of the rota period
+  start: number;
+  end: number;
+  hours: number;
+}
+
+interface ShiftWindow extends TimeWindow {
+  shift: Shift;
+}
+
+interface Slot {
+  shift: number;
+  role: ShiftRole;
+  staffId: string | null;
+}
+
+type SlotChange = [number, string | null];
+
+// mulberry32: a small seeded PRNG, so runs are reproducible
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const buildShifts = (
   startDate: string,
   endDate: string,
-  staff: Staff[],
   configuration: RotaConfiguration,
   options: AISchedulerOptions
-): Rota => {
+): Shift[] => {
   const shifts: Shift[] = [];
-  let currentDate = parseISO(startDate);
-  const end = parseISO(endDate);
+  const lastDate = parseISO(endDate);
+
+  const patterns = getShiftPatterns(configuration);
+
+  for (let date = parseISO(startDate); date <= lastDate; date = addDays(date, 1)) {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    patterns.forEach(pattern => {
+      // Requirements set in the Auto Scheduler override the pattern defaults
+      const requirements = options.shiftRequirements?.[pattern.id];
+      shifts.push(createShiftFromPattern(
+        dateStr,
+        pattern,
+        requirements ? staffingToRequirements(requirements) : pattern.defaultRequirements
+      ));
+    });
+  }
 
-  // Generate shifts for each day
-  while (currentDate <= end) {
-    const dateStr = format(currentDate, 'yyyy-MM-dd');
+  return shifts;
+};
 
-    // Generate shifts for each time slot
-    configuration.shiftPatterns.forEach(pattern => {
-      const timeDetails = pattern.time.split('-');
-      const shiftType: ShiftType = pattern.time.includes('7:30-14:30') ? 'morning' :
-                                  pattern.time.includes('14:30-21:30') ? 'afternoon' : 'night';
-
-      const shift: Shift = {
-        id: `${dateStr}-${pattern.time}-${Date.now()}`,
-        date: dateStr,
-        time: pattern.time,
-        startTime: timeDetails[0],
-        endTime: timeDetails[1],
-        type: shiftType,
-        requiredStaff: pattern.defaultRequirements.reduce((sum, req) => sum + req.count, 0),
-        requiredRoles: pattern.defaultRequirements,
-        assignedStaff: [],
-        status: 'Unfilled',
-        complianceStatus: 'High',
-        trainingRequired: []
-      };
-
-      // Get suggestions for this shift
-      const tempRota: Rota = {
-        id: '',
-        startDate,
-        endDate,
-        shifts,
-        configuration,
-        status: 'draft',
-        createdBy: '',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        lastModified: new Date().toISOString(),
-        modifiedBy: ''
-      };
-
-      const suggestions = generateShiftSuggestions(shift, staff, tempRota, configuration);
-
-      // Assign staff based on suggestions and requirements
-      if (options.allowPartialFill || suggestions.suggestedStaff.length >= shift.requiredStaff) {
-        // First, assign a Shift Leader if required
-        const shiftLeaderReq = shift.requiredRoles.find(r => r.role === 'Shift Leader');
-        if (shiftLeaderReq && shiftLeaderReq.count > 0) {
-          const shiftLeader = suggestions.suggestedStaff.find(s => 
-            staff.find(st => st.id === s.staffId)?.roles.includes('Shift Leader')
-          );
-          if (shiftLeader) {
-            shift.assignedStaff.push({
-              userId: shiftLeader.userId,
-              role: 'Shift Leader',
-              assignedAt: new Date().toISOString(),
-              assignedBy: 'AI_SCHEDULER'
-            });
-            suggestions.suggestedStaff = suggestions.suggestedStaff.filter(s => s.staffId !== shiftLeader.staffId);
-          }
-        }
-
-        // Then assign remaining staff
-        const remainingSlots = shift.requiredStaff - shift.assignedStaff.length;
-        shift.assignedStaff.push(...suggestions.suggestedStaff
-          .slice(0, remainingSlots)
-          .map(suggestion => ({
-            userId: suggestion.userId,
-            role: suggestion.role,
-            assignedAt: new Date().toISOString(),
-            assignedBy: 'AI_SCHEDULER'
-          })));
-
-        shift.status = shift.assignedStaff.length >= shift.requiredStaff
-          ? 'Fully Staffed'
-          : 'Partially Staffed';
-
-        // Calculate compliance status
-        const assignedStaffCompliance = shift.assignedStaff.map(assignment => {
-          const staffMember = staff.find(s => s.id === (typeof assignment === 'string' ? assignment : assignment.userId));
-          return staffMember?.complianceScore.overall || 0;
-        });
-
-        const averageCompliance = assignedStaffCompliance.reduce((sum, score) => sum + score, 0) / assignedStaffCompliance.length;
-        shift.complianceStatus = averageCompliance >= 90 ? 'High' : averageCompliance >= 70 ? 'Medium' : 'Low';
-
-        // Check for required training
-        const requiredTraining = new Set<string>();
-        shift.assignedStaff.forEach(assignment => {
-          const staffMember = staff.find(s => s.id === (typeof assignment === 'string' ? assignment : assignment.userId));
-          if (staffMember) {
-            staffMember.trainingModules
-              .filter(m => m.required && m.status !== 'completed')
-              .forEach(m => requiredTraining.add(m.name));
-          }
-        });
-        shift.trainingRequired = Array.from(requiredTraining);
-      }
+// Length of the run of consecutive days through `day`
+const runThrough = (days: Set<number>, day: number): number => {
+  let run = 1;
+  for (let d = day - 1; days.has(d); d--) run++;
+  for (let d = day + 1; days.has(d); d++) run++;
+  return run;
+};
+
+const longestRun = (days: Set<number>): number =>
+  Array.from(days).reduce((longest, day) => Math.max(longest, runThrough(days, day)), 0);
+
+const describeUnmet = (
+  role: ShiftRole,
+  missing: number,
+  blockedBy: Partial<Record<RotaConstraint, number>>,
+  staffCount: number
+): string => {
+  const reasons = (Object.entries(blockedBy) as [RotaConstraint, number][])
+    .sort(([, a], [, b]) => b - a)
+    .map(([constraint, count]) => `${count} ${ROTA_CONSTRAINT_LABELS[constraint]}`);
+  const places = `${missing} ${role} place${missing === 1 ? '' : 's'} unfilled`;
+  return staffCount ? `${places}: of ${staffCount} staff, ${reasons.join(', ')}` : `${places}: no staff to choose from`;
+};
+
+/**
+ * Approved leave is kept in `leave-requests` rather than on the user, so it is
+ * added to each member's `leave` before the optimiser checks it.
+ */
+export const withApprovedLeave = (
+  staff: Staff[],
+  requests: Pick<LeaveRequest, 'userId' | 'startDate' | 'endDate' | 'leaveType' | 'status' | 'notes'>[]
+): Staff[] => staff.map(member => {
+  const approved = requests.filter(request => request.userId === member.id && request.status === 'approved');
+  if (!approved.length) return member;
+  return {
+    ...member,
+    leave: [
+      ...member.leave,
+      ...approved.map(request => ({
+        type: request.leaveType === 'Annual Leave' ? 'Annual' as const : 'Other' as const,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        approved: true,
+        notes: request.notes,
+      })),
+    ],
+  };
+});
+
+/**
+ * Generate a complete rota for the period and report what it could not cover.
+ * `commitments` are shifts staff already work on other sites' rotas; they count
+ * towards rest, hours and consecutive days but are never moved.
+ */
+export const generateRota = (
+  startDate: string,
+  endDate: string,
+  staff: Staff[],
+  configuration: RotaConfiguration,
+  options: AISchedulerOptions,
+  commitments: StaffCommitment[] = []
+): RotaOptimiserResult => {
+  const seed = options.seed ?? DEFAULT_SEED;
+  const random = createRandom(seed);
+  const weights = PRIORITY_WEIGHTS[options.optimizationPriority] || PRIORITY_WEIGHTS.balanced;
+  const { maxConsecutiveDays, minRestBetweenShifts } = configuration.staffingRules;
+  const periodStart = parseISO(startDate);
+
+  const periodOffset = periodStart.getTime() / 60000;
+  const toTimeWindow = (
+    shift: { date: string; startTime: string; endTime: string },
+    hours: number
+  ): TimeWindow => {
+    const day = differenceInCalendarDays(parseISO(shift.date), periodStart);
+    const { start, end } = getShiftWindow(shift);
+    return {
+      day,
+      week: Math.floor(day / 7),
+      start: start - periodOffset,
+      end: end - periodOffset,
+      hours,
+    };
+  };
+
+  const shifts = buildShifts(startDate, endDate, configuration, options);
+  const windows: ShiftWindow[] = shifts.map(shift => ({ shift, ...toTimeWindow(shift, calculateShiftHours(shift)) }));
+  const external = new Map<string, TimeWindow[]>();
+  commitments.forEach(commitment => {
+    external.set(commitment.staffId, [
+      ...(external.get(commitment.staffId) || []),
+      toTimeWindow(commitment, commitment.hours)
+    ]);
+  });
+  const weeks = Math.max(1, Math.ceil((windows[windows.length - 1]?.day + 1 || 1) / 7));
+
+  const slots: Slot[] = shifts.flatMap((shift, index) =>
+    shift.requiredRoles.flatMap(({ role, count }) =>
+      Array.from({ length: count }, () => ({ shift: index, role, staffId: null }))
+    )
+  );
+  const staffById = new Map(staff.map(member => [member.id, member]));
+  const staffSlots = new Map(staff.map(member => [member.id, new Set<number>()]));
+
+  const setSlot = (index: number, staffId: string | null) => {
+    const current = slots[index].staffId;
+    if (current) staffSlots.get(current)?.delete(index);
+    slots[index].staffId = staffId;
+    if (staffId) staffSlots.get(staffId)?.add(index);
+  };
+
+  // The hard constraint stopping `member` from taking a slot, treating `ignore` as empty
+  const findBlocker = (member: Staff, slotIndex: number, ignore: number[] = []): RotaConstraint | null => {
+    const slot = slots[slotIndex];
+    const target = windows[slot.shift];
+    const { date } = target.shift;
+
+    if (!member.roles.includes(slot.role)) return 'role';
+    if (member.leave.some(leave =>
+      leave.approved && leave.startDate.slice(0, 10) <= date && leave.endDate.slice(0, 10) >= date
+    )) return 'leave';
+    if (member.preferences.unavailableDates.some(unavailable => unavailable.slice(0, 10) === date)) {
+      return 'unavailable';
+    }
+
+    const others: TimeWindow[] = Array.from(staffSlots.get(member.id) || [])
+      .filter(index => index !== slotIndex && !ignore.includes(index))
+      .map(index => windows[slots[index].shift] as TimeWindow)
+      .concat(external.get(member.id) || []);
+
+    if (others.some(other => other.start < target.end && target.start < other.end)) return 'double-booked';
+    if (others.some(other =>
+      Math.max(other.start - target.end, target.start - other.end) < minRestBetweenShifts * 60
+    )) return 'rest-period';
 
-      shifts.push(shift);
+    const weekHours = others
+      .filter(other => other.week === target.week)
+      .reduce((sum, other) => sum + other.hours, 0);
+    if (weekHours + target.hours > member.contractedHours) return 'contracted-hours';
+
+    const days = new Set(others.map(other => other.day));
+    days.add(target.day);
+    if (runThrough(days, target.day) > maxConsecutiveDays) return 'consecutive-days';
+
+    return null;
+  };
+
+  const assignmentCosts = new Map<string, number>();
+  const assignmentCost = (member: Staff, slotIndex: number): number => {
+    const slot = slots[slotIndex];
+    const key = `${slot.shift}:${slot.role}:${member.id}`;
+    const cached = assignmentCosts.get(key);
+    if (cached !== undefined) return cached;
+
+    const { shift } = windows[slot.shift];
+    const preferences = member.preferences;
+    let cost = 0;
+
+    if (preferences.preferredShifts.length && !preferences.preferredShifts.includes(shift.time)) {
+      cost += preferences.flexibleHours ? weights.preference / 2 : weights.preference;
+    }
+    if (preferences.nightShiftOnly && shift.type !== 'night') {
+      cost += weights.preference * 2;
+    }
+    const dayName = format(parseISO(shift.date), 'EEEE').toLowerCase();
+    if (preferences.preferredWorkingDays?.length &&
+        !preferences.preferredWorkingDays.some(day => day.toLowerCase() === dayName)) {
+      cost += weights.preference;
+    }
+    if (preferences.preferredRoles?.length && !preferences.preferredRoles.includes(slot.role)) {
+      cost += weights.preference / 2;
+    }
+    if (options.considerTrainingStatus) {
+      cost += weights.quality * (100 - member.complianceScore.overall) / 100;
+    }
+    if (options.considerPerformanceMetrics) {
+      const { attendanceRate, punctualityScore } = member.performanceMetrics;
+      cost += weights.quality * (200 - attendanceRate - punctualityScore) / 200;
+    }
+
+    assignmentCosts.set(key, cost);
+    return cost;
+  };
+
+  // Soft cost of one staff member's whole schedule
+  const staffCost = (member: Staff): number => {
+    const assigned = Array.from(staffSlots.get(member.id) || []);
+    if (!assigned.length) return 0;
+
+    let cost = assigned.reduce((sum, index) => sum + assignmentCost(member, index), 0);
+
+    // Squared utilisation spreads hours across the team instead of maxing out a few
+    const hours = assigned.reduce((sum, index) => sum + windows[slots[index].shift].hours, 0);
+    const utilisation = hours / (member.contractedHours * weeks || 1);
+    cost += weights.balance * utilisation * utilisation;
+
+    const { maxShiftsPerWeek, maxConsecutiveDays: preferredRun } = member.preferences;
+    if (maxShiftsPerWeek) {
+      const perWeek = new Map<number, number>();
+      assigned.forEach(index => {
+        const { week } = windows[slots[index].shift];
+        perWeek.set(week, (perWeek.get(week) || 0) + 1);
+      });
+      perWeek.forEach(count => {
+        cost += weights.preference * Math.max(0, count - maxShiftsPerWeek);
+      });
+    }
+    if (preferredRun) {
+      const days = new Set(assigned.map(index => windows[slots[index].shift].day));
+      cost += weights.preference * Math.max(0, longestRun(days) - preferredRun);
+    }
+
+    return cost;
+  };
+
+  const slotCost = (index: number) => (slots[index].staffId ? 0 : UNFILLED_COST[slots[index].role]);
+
+  // Applies the changes and returns the change in total cost, with a way back
+  const applyMove = (changes: SlotChange[]) => {
+    const affected = new Set<string>();
+    changes.forEach(([index, staffId]) => {
+      const current = slots[index].staffId;
+      if (current) affected.add(current);
+      if (staffId) affected.add(staffId);
     });
+    const cost = () =>
+      changes.reduce((sum, [index]) => sum + slotCost(index), 0) +
+      Array.from(affected).reduce((sum, id) => sum + staffCost(staffById.get(id) as Staff), 0);
 
-    currentDate = addDays(currentDate, 1);
+    const before = cost();
+    const previous: SlotChange[] = changes.map(([index]) => [index, slots[index].staffId]);
+    changes.forEach(([index, staffId]) => setSlot(index, staffId));
+    return {
+      delta: cost() - before,
+      undo: () => previous.forEach(([index, staffId]) => setSlot(index, staffId)),
+    };
+  };
+
+  // Gives an empty slot to whoever adds the least cost
+  const fillSlot = (index: number) => {
+    let best: { id: string; delta: number } | null = null;
+    for (const member of staff) {
+      if (findBlocker(member, index)) continue;
+      const { delta, undo } = applyMove([[index, member.id]]);
+      undo();
+      if (!best || delta < best.delta) best = { id: member.id, delta };
+    }
+    if (best) setSlot(index, best.id);
+  };
+
+  // Most constrained slots first: fewest staff holding the role, ties broken by the seed
+  const capable = slots.map(slot => staff.filter(member => member.roles.includes(slot.role)).length);
+  const tieBreak = slots.map(() => random());
+  slots
+    .map((_slot, index) => index)
+    .sort((a, b) => capable[a] - capable[b] || tieBreak[a] - tieBreak[b])
+    .forEach(fillSlot);
+
+  const totalCost = () =>
+    slots.reduce((sum, _slot, index) => sum + slotCost(index), 0) +
+    staff.reduce((sum, member) => sum + staffCost(member), 0);
+
+  let currentCost = totalCost();
+  let bestCost = currentCost;
+  let bestState = slots.map(slot => slot.staffId);
+  const iterations = slots.length && staff.length ? Math.max(0, options.maxIterations) : 0;
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, step / iterations);
+    const first = Math.floor(random() * slots.length);
+    let changes: SlotChange[];
+
+    if (random() < 0.5) {
+      // Hand the place to someone else
+      const candidate = staff[Math.floor(random() * staff.length)];
+      if (candidate.id === slots[first].staffId || findBlocker(candidate, first)) continue;
+      changes = [[first, candidate.id]];
+    } else {
+      // Swap who works two places; either may be empty
+      const second = Math.floor(random() * slots.length);
+      const a = slots[first].staffId;
+      const b = slots[second].staffId;
+      if (first === second || a === b) continue;
+      if (b && findBlocker(staffById.get(b) as Staff, first, [first, second])) continue;
+      if (a && findBlocker(staffById.get(a) as Staff, second, [first, second])) continue;
+      changes = [[first, b], [second, a]];
+    }
+
+    const { delta, undo } = applyMove(changes);
+    if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+      currentCost += delta;
+      if (currentCost < bestCost) {
+        bestCost = currentCost;
+        bestState = slots.map(slot => slot.staffId);
+      }
+    } else {
+      undo();
+    }
   }
 
-  return {
+  bestState.forEach((staffId, index) => setSlot(index, staffId));
+  slots.forEach((slot, index) => {
+    if (!slot.staffId) fillSlot(index);
+  });
+
+  const assignedAt = new Date().toISOString();
+  slots.forEach(slot => {
+    if (!slot.staffId) return;
+    shifts[slot.shift].assignedStaff.push({
+      userId: slot.staffId,
+      role: slot.role,
+      assignedAt,
+      assignedBy: 'AI_SCHEDULER'
+    });
+  });
+
+  const rota: Rota = {
     id: '',
     startDate,
     endDate,
@@ -508,9 +816,59 @@ export const generateRota = (
     configuration,
     status: 'draft',
     createdBy: '',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    lastModified: new Date().toISOString(),
+    createdAt: assignedAt,
+    updatedAt: assignedAt,
+    lastModified: assignedAt,
     modifiedBy: ''
   };
+  updateShiftStatuses(rota);
+
+  const unmet: UnmetRequirement[] = [];
+  shifts.forEach((shift, shiftIndex) => {
+    const members = shift.assignedStaff
+      .map(assignment => staffById.get(typeof assignment === 'string' ? assignment : assignment.userId))
+      .filter((member): member is Staff => !!member);
+
+    if (members.length) {
+      const averageCompliance = members.reduce((sum, member) => sum + member.complianceScore.overall, 0) / members.length;
+      shift.complianceStatus = averageCompliance >= 90 ? 'High' : averageCompliance >= 70 ? 'Medium' : 'Low';
+      shift.trainingRequired = Array.from(new Set(members.flatMap(member =>
+        member.trainingModules.filter(m => m.required && m.status !== 'completed').map(m => m.name)
+      )));
+    }
+
+    new Set(shift.requiredRoles.map(requirement => requirement.role)).forEach(role => {
+      const open = slots
+        .map((slot, index) => ({ slot, index }))
+        .filter(({ slot }) => slot.shift === shiftIndex && slot.role === role && !slot.staffId);
+      if (!open.length) return;
+
+      const blockedBy: Partial<Record<RotaConstraint, number>> = {};
+      staff.forEach(member => {
+        const blocker = findBlocker(member, open[0].index);
+        if (blocker) blockedBy[blocker] = (blockedBy[blocker] || 0) + 1;
+      });
+
+      unmet.push({
+        shiftId: shift.id,
+        date: shift.date,
+        time: shift.time,
+        role,
+        missing: open.length,
+        blockedBy,
+        message: describeUnmet(role, open.length, blockedBy, staff.length),
+      });
+    });
+
+    if (!options.allowPartialFill && unmet.some(requirement => requirement.shiftId === shift.id)) {
+      shift.status = 'Conflict';
+    }
+  });
+
+  return {
+    rota,
+    unmet,
+    preferenceCost: Math.round(staff.reduce((sum, member) => sum + staffCost(member), 0)),
+    seed,
+  };
 };
@@ -0,0 +1,350 @@
+import * as XLSX from 'xlsx';
+import { format, isValid, parse } from 'date-fns';
+import {
+  Rota,
+  RotaSpreadsheet,
+  RotaSpreadsheetImport,
+  RotaSpreadsheetRow,
+  ShiftChange,
+  ShiftCodeMap,
+  ShiftPattern,
+  ShiftRole,
+  ShiftTime,
+  Staff,
+  StaffNameMatch,
+} from '../types/rota';
+import { getOpenRoles, getStaffAssignment } from './rotaUtils';
+
+type Cell = string | number | boolean | Date | null;
+
+// Codes that mean the person is not working that day
+const OFF_CODES = ['OFF', 'O', 'X', '-', 'R', 'RD', 'REST', 'AL', 'HOL', 'LEAVE', 'SICK', 'TRN'];
+
+// How sure a name match must be to be used without asking
+const MATCH_THRESHOLD = 0.8;
+// Two candidates this close are too close to pick between
+const AMBIGUOUS_MARGIN = 0.05;
+
+const MONTH_NAME_FORMATS = ['d MMM yyyy', 'd MMM yy', 'd MMMM yyyy', 'd-MMM-yyyy', 'd-MMM-yy', 'd MMM', 'd MMMM', 'd-MMM'];
+
+// Written after a shift code for the role worked, e.g. 'E (SL)'
+export const ROLE_MARKERS: Partial<Record<ShiftRole, string>> = {
+  'Shift Leader': 'SL',
+  'Driver': 'D',
+};
+
+export const normaliseShiftCode = (code: string): string => code.trim().toUpperCase();
+
+export const formatShiftCell = (code: string, role?: ShiftRole): string =>
+  role && ROLE_MARKERS[role] ? `${code} (${ROLE_MARKERS[role]})` : code;
+
+// A cell's shift code, and the role if it has a marker
+export const parseShiftCell = (text: string): { code: string; role?: ShiftRole } => {
+  const match = text.match(/^(.*\S)\s*\(([a-z]+)\)$/i);
+  const role = match
+    ? (Object.keys(ROLE_MARKERS) as ShiftRole[]).find(r => ROLE_MARKERS[r] === match[2].toUpperCase())
+    : undefined;
+  return match && role ? { code: match[1], role } : { code: text };
+};
+
+// The off code a spreadsheet shows for a day of leave
+export const getLeaveCode = (leaveType: string): string => {
+  if (/annual/i.test(leaveType)) return 'AL';
+  if (/sick/i.test(leaveType)) return 'SICK';
+  if (/training/i.test(leaveType)) return 'TRN';
+  return 'LEAVE';
+};
+
+/**
+ * Codes for the site's shift patterns, from the codes set on each pattern
+ * plus its id and name, and the usual codes for days off.
+ */
+export const getDefaultShiftCodes = (patterns: ShiftPattern[]): ShiftCodeMap => {
+  const codes: ShiftCodeMap = {};
+  OFF_CODES.forEach(code => {
+    codes[code] = null;
+  });
+  patterns.forEach(pattern => {
+    [pattern.id, pattern.name].forEach(code => {
+      codes[normaliseShiftCode(code)] = pattern.id;
+    });
+  });
+  // Codes set on a pattern win over names and the off codes
+  patterns.forEach(pattern => {
+    (pattern.codes || []).forEach(code => {
+      codes[normaliseShiftCode(code)] = pattern.id;
+    });
+  });
+  return codes;
+};
+
+// The pattern a code means, null for a day off, undefined when it is not known
+export const resolveShiftCode = (code: string, codes: ShiftCodeMap): ShiftTime | null | undefined => {
+  const key = normaliseShiftCode(code);
+  return key in codes ? codes[key] : undefined;
+};
+
+// Excel stores dates at local midnight, sometimes a few seconds out
+const toDateString = (date: Date) => format(new Date(date.getTime() + 12 * 60 * 60 * 1000), 'yyyy-MM-dd');
+
+/**
+ * A header cell as a date. Text dates are read day first (20/10/2025), and a
+ * date with no year takes the year that puts it nearest the reference date.
+ */
+export const parseHeaderDate = (value: Cell, reference: Date): string | null => {
+  if (value instanceof Date) return isValid(value) ? toDateString(value) : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return toDateString(new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+
+  const closest = (day: number, month: number) => {
+    const candidates = [-1, 0, 1].map(offset => new Date(reference.getFullYear() + offset, month - 1, day));
+    return candidates.reduce((best, date) =>
+      Math.abs(date.getTime() - reference.getTime()) < Math.abs(best.getTime() - reference.getTime()) ? date : best
+    );
+  };
+
+  // "20/10/2025" or "Mon 20/10"
+  const numeric = text.match(/^(?:[a-z]+,?\s+)?(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?$/i);
+  if (numeric) {
+    const day = Number(numeric[1]);
+    const month = Number(numeric[2]);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    if (!numeric[3]) return toDateString(closest(day, month));
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    return toDateString(new Date(year, month - 1, day));
+  }
+
+  // "Mon 20 Oct", "20-Oct-25"; a leading day name is ignored
+  const withoutDay = text.replace(/^[a-z]+,?\s+(?=\d)/i, '');
+  for (const pattern of MONTH_NAME_FORMATS) {
+    const parsed = parse(withoutDay, pattern, reference);
+    if (!isValid(parsed)) continue;
+    if (!pattern.includes('y')) return toDateString(closest(parsed.getDate(), parsed.getMonth() + 1));
+    // A two digit year read by 'yyyy'
+    if (parsed.getFullYear() < 100) parsed.setFullYear(parsed.getFullYear() + 2000);
+    return toDateString(parsed);
+  }
+  return null;
+};
+
+const cellText = (value: Cell): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return toDateString(value);
+  return String(value).trim();
+};
+
+/**
+ * Reads the first sheet of an XLSX or CSV rota. The header row is the one
+ * with the most dates in it; the staff names are in the column headed
+ * "Name" or "Staff", or the first column.
+ */
+export const parseRotaSpreadsheet = async (file: File, reference: Date): Promise<RotaSpreadsheet> => {
+  try {
+    const data = new Uint8Array(await file.arrayBuffer());
+    // raw stops CSV text like 01/02 being read as a US date
+    const workbook = XLSX.read(data, { type: 'array', cellDates: true, raw: true });
+    if (!workbook.SheetNames.length) {
+      throw new Error('The spreadsheet is empty');
+    }
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const grid = XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, raw: true, defval: null, blankrows: false });
+
+    let headerIndex = -1;
+    let dateColumns: Array<{ column: number; date: string }> = [];
+    grid.slice(0, 15).forEach((row, index) => {
+      const found = row
+        .map((value, column) => ({ column, date: parseHeaderDate(value, reference) }))
+        .filter((cell): cell is { column: number; date: string } => cell.date !== null);
+      if (found.length > dateColumns.length) {
+        headerIndex = index;
+        dateColumns = found;
+      }
+    });
+
+    if (headerIndex < 0) {
+      throw new Error('No row of dates was found. Put the dates across the top row, with staff names down the side.');
+    }
+
+    const header = grid[headerIndex];
+    const firstDateColumn = dateColumns[0].column;
+    const labelled = header.findIndex((value, column) =>
+      column < firstDateColumn && /name|staff|employee/i.test(cellText(value))
+    );
+    const nameColumn = labelled >= 0 ? labelled : 0;
+
+    const rows: RotaSpreadsheetRow[] = grid.slice(headerIndex + 1)
+      .map(row => ({
+        name: cellText(row[nameColumn] ?? null),
+        cells: dateColumns.reduce<Record<string, string>>((cells, { column, date }) => {
+          const code = cellText(row[column] ?? null);
+          if (code) cells[date] = code;
+          return cells;
+        }, {}),
+      }))
+      .filter(row => row.name && !/^(total|totals|key)$/i.test(row.name));
+
+    return { dates: Array.from(new Set(dateColumns.map(({ date }) => date))), rows };
+  } catch (error) {
+    console.error('Error reading rota spreadsheet:', error);
+    throw error instanceof Error ? error : new Error('Failed to read the spreadsheet');
+  }
+};
+
+// Staff name matching
+
+// "Smith, Jane" and "jane  SMITH." both become "jane smith"
+const normaliseName = (name: string): string => {
+  const plain = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  const [surname, ...rest] = plain.split(',');
+  const ordered = rest.length ? `${rest.join(' ')} ${surname}` : plain;
+  return ordered.replace(/[^a-z\s'-]/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number =>
+  1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+// 0 to 1: how likely the sheet's name is this staff member
+const scoreName = (sheetName: string, staffName: string): number => {
+  const a = normaliseName(sheetName);
+  const b = normaliseName(staffName);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const aTokens = a.split(' ');
+  const bTokens = b.split(' ');
+  if ([...aTokens].sort().join(' ') === [...bTokens].sort().join(' ')) return 0.95;
+
+  // "J Smith" or "Jane S" against "Jane Smith"
+  const aFirst = aTokens[0];
+  const aLast = aTokens[aTokens.length - 1];
+  const bFirst = bTokens[0];
+  const bLast = bTokens[bTokens.length - 1];
+  if (aTokens.length > 1 && (
+    (aLast === bLast && aFirst.length === 1 && bFirst.startsWith(aFirst)) ||
+    (aFirst === bFirst && aLast.length === 1 && bLast.startsWith(aLast))
+  )) {
+    return 0.85;
+  }
+  // A first name on its own is only a guess
+  if (aTokens.length === 1 && aFirst === bFirst) return 0.7;
+
+  return Math.max(
+    similarity(a, b),
+    similarity([...aTokens].sort().join(' '), [...bTokens].sort().join(' '))
+  );
+};
+
+/**
+ * The staff member a name in the sheet refers to. Typos and initials are
+ * allowed for; a name that fits two people equally well is left unmatched
+ * with both offered as suggestions.
+ */
+export const matchStaffName = (name: string, staff: Staff[]): StaffNameMatch => {
+  const ranked = staff
+    .map(member => ({ id: member.id, score: scoreName(name, member.name) }))
+    .filter(candidate => candidate.score >= 0.5)
+    .sort((a, b) => b.score - a.score);
+
+  const [best, next] = ranked;
+  const suggestions = ranked.slice(0, 3).map(candidate => candidate.id);
+  if (!best || best.score < MATCH_THRESHOLD) {
+    return { staffId: null, score: best?.score || 0, suggestions };
+  }
+  if (next && best.score < 1 && best.score - next.score < AMBIGUOUS_MARGIN) {
+    return { staffId: null, score: best.score, suggestions };
+  }
+  return { staffId: best.id, score: best.score, suggestions: [] };
+};
+
+/**
+ * The changes that make the rota match the sheet for the staff on it. The
+ * sheet is taken as the whole week for each person listed: they come off
+ * shifts the sheet does not give them, and staff not in the sheet keep their
+ * shifts. Days with a code that is not mapped are left as they are.
+ */
+export const buildSpreadsheetImport = (
+  sheet: RotaSpreadsheet,
+  rota: Rota,
+  staff: Staff[],
+  staffIds: Array<string | null>,
+  codes: ShiftCodeMap,
+  assignedBy: string
+): RotaSpreadsheetImport => {
+  const changes: ShiftChange[] = [];
+  const unknown = new Map<string, number>();
+  const missing = new Map<string, { date: string; time: ShiftTime }>();
+  const rotaDates = new Set(rota.shifts.map(shift => shift.date.slice(0, 10)));
+  const now = new Date().toISOString();
+
+  sheet.rows.forEach((row, index) => {
+    const member = staff.find(s => s.id === staffIds[index]);
+    // Someone listed twice is taken from their first row
+    if (!member || staffIds.indexOf(member.id) !== index) return;
+
+    rotaDates.forEach(date => {
+      if (!sheet.dates.includes(date)) return;
+      const { code, role: marked } = parseShiftCell(row.cells[date] || '');
+      const time = code ? resolveShiftCode(code, codes) : null;
+      if (time === undefined) {
+        const key = normaliseShiftCode(code);
+        unknown.set(key, (unknown.get(key) || 0) + 1);
+        return;
+      }
+
+      const dayShifts = rota.shifts.filter(shift => shift.date.slice(0, 10) === date);
+      const target = time ? dayShifts.find(shift => shift.time === time) : undefined;
+      if (time && !target) {
+        missing.set(`${date}|${time}`, { date, time });
+      }
+
+      dayShifts.forEach(shift => {
+        const assigned = !!getStaffAssignment(shift, member.id);
+        if (shift === target && !assigned) {
+          const open = getOpenRoles(shift).find(role => member.roles.includes(role));
+          const role = marked && member.roles.includes(marked) ? marked : open;
+          changes.push({
+            shiftId: shift.id,
+            assign: {
+              userId: member.id,
+              role: role || member.roles[0] || 'Care Staff',
+              assignedAt: now,
+              assignedBy,
+            },
+          });
+        } else if (shift !== target && assigned) {
+          changes.push({ shiftId: shift.id, removeStaffId: member.id });
+        }
+      });
+    });
+  });
+
+  return {
+    changes,
+    unknownCodes: Array.from(unknown.entries()).map(([code, count]) => ({ code, count })),
+    outsideDates: sheet.dates.filter(date => !rotaDates.has(date)),
+    missingShifts: Array.from(missing.values()),
+  };
+};
@@ -1,53 +1,146 @@
 import { 
-  Rota, Staff, ShiftRequirementWithRoles, Shift, ShiftRole, ShiftTime, ShiftType,
+  Rota, Staff, ShiftRequirementWithRoles, Shift, ShiftRole, ShiftTime, ShiftType, ShiftTimeDetails,
+  ShiftPattern, ShiftStaffing, RotaConfiguration, DEFAULT_SHIFT_PATTERNS,
   RotaValidationError, RotaStats, AIShiftSuggestion, StaffSuggestion,
   createValidationError, createEmptyRotaStats, createAIShiftSuggestion,
-  createEmptyRoleDistribution, defaultRotaConfiguration, AISchedulerOptions, ShiftRequirements
+  createEmptyRoleDistribution, defaultRotaConfiguration, AISchedulerOptions, ShiftRequirements, StaffCommitment,
+  ShiftAssignment, ShiftStatus, ShiftChange, ShiftSwapRequest, RotaShiftDiff
 } from '../types/rota';
-import { addDays, isSameDay, parseISO, differenceInHours } from 'date-fns';
-
-// Constants and Types
-export const SHIFT_TIMES: ShiftTime[] = ['7:30-14:30', '14:30-21:30', '21:30-7:30'];
-
-export interface ShiftTimeDetails {
-  start: string;
-  end: string;
-  type: ShiftType;
-}
+import { format, isSameDay, parseISO } from 'date-fns';
+
+// Shift patterns
+type StoredShiftPattern = Partial<ShiftPattern> & { time?: ShiftTime };
+
+/**
+ * A rota's shift patterns, filling in rotas saved before patterns were
+ * configurable, which only stored `{ time, defaultRequirements }`.
+ */
+export const getShiftPatterns = (configuration?: RotaConfiguration): ShiftPattern[] => {
+  const stored = (configuration?.shiftPatterns || DEFAULT_SHIFT_PATTERNS) as StoredShiftPattern[];
+  return stored.map(pattern => {
+    const id = pattern.id || pattern.time || '';
+    const fallback = DEFAULT_SHIFT_PATTERNS.find(p => p.id === id) || parseShiftTimeId(id);
+    return { ...fallback, ...pattern, id } as ShiftPattern;
+  });
+};
 
-export const SHIFT_TIME_DETAILS: Record<ShiftTime, ShiftTimeDetails> = {
-  '7:30-14:30': { start: '7:30', end: '14:30', type: 'morning' },
-  '14:30-21:30': { start: '14:30', end: '21:30', type: 'afternoon' },
-  '21:30-7:30': { start: '21:30', end: '7:30', type: 'night' }
+// Reads a pattern from an id like '8:00-20:00' when nothing else describes it
+const parseShiftTimeId = (id: ShiftTime): ShiftPattern => {
+  const [start = '0:00', end = '0:00'] = id.split('-');
+  return {
+    id,
+    name: id,
+    start,
+    end,
+    type: getShiftTypeForHours(parseTime(start), parseTime(end)),
+    breaks: [],
+    sleepIn: false,
+    defaultRequirements: []
+  };
 };
 
-export const SHIFT_TYPES: ShiftType[] = ['morning', 'afternoon', 'night'];
+const getShiftTypeForHours = (start: number, end: number): ShiftType => {
+  if (end <= start) return 'night';
+  if (end - start >= 10) return 'long-day';
+  if (start >= 17) return 'twilight';
+  return start < 12 ? 'morning' : 'afternoon';
+};
 
-// Helper Functions
-export const parseShiftTime = (time: ShiftTime): ShiftTimeDetails => {
-  return SHIFT_TIME_DETAILS[time];
+// The rota's patterns, plus one for each shift whose pattern has since been removed
+export const getRotaPatterns = (rota: Rota): ShiftPattern[] => {
+  const configured = getShiftPatterns(rota.configuration);
+  const orphaned = rota.shifts
+    .filter((shift, index, shifts) =>
+      !configured.some(pattern => pattern.id === shift.time) &&
+      shifts.findIndex(other => other.time === shift.time) === index)
+    .map((shift): ShiftPattern => ({
+      ...findShiftPattern(shift.time, configured),
+      start: shift.startTime,
+      end: shift.endTime,
+      type: shift.type,
+      name: `${shift.startTime}-${shift.endTime}`
+    }));
+  return [...configured, ...orphaned];
 };
 
-export const getShiftTimeByType = (type: ShiftType): ShiftTime => {
-  const entry = Object.entries(SHIFT_TIME_DETAILS).find(([_, details]) => details.type === type);
-  return entry ? entry[0] as ShiftTime : '7:30-14:30';
+export const findShiftPattern = (time: ShiftTime, patterns: ShiftPattern[] = DEFAULT_SHIFT_PATTERNS): ShiftPattern =>
+  patterns.find(pattern => pattern.id === time) ||
+  DEFAULT_SHIFT_PATTERNS.find(pattern => pattern.id === time) ||
+  parseShiftTimeId(time);
+
+export const parseShiftTime = (time: ShiftTime, patterns?: ShiftPattern[]): ShiftTimeDetails => {
+  const { start, end, type } = findShiftPattern(time, patterns);
+  return { start, end, type };
 };
 
-export const getShiftType = (time: ShiftTime): ShiftType => {
-  return SHIFT_TIME_DETAILS[time].type;
+export const getShiftType = (time: ShiftTime, patterns?: ShiftPattern[]): ShiftType => {
+  return findShiftPattern(time, patterns).type;
 };
 
 export const parseTime = (time: string): number => {
   const [hours, minutes] = time.split(':').map(Number);
-  return hours + (minutes / 60);
+  return hours + ((minutes || 0) / 60);
 };
 
-export const calculateShiftHours = (shift: Shift): number => {
-  const start = parseTime(shift.startTime);
-  const end = parseTime(shift.endTime);
+// Hours from start to end, running past midnight when the end is earlier
+export const getShiftDuration = (startTime: string, endTime: string): number => {
+  const start = parseTime(startTime);
+  const end = parseTime(endTime);
   return end > start ? end - start : (24 - start) + end;
 };
 
+export const getPaidHours = (pattern: ShiftPattern): number => {
+  if (pattern.paidHours !== undefined) return pattern.paidHours;
+  const duration = getShiftDuration(pattern.start, pattern.end);
+  const unpaidMinutes = pattern.breaks
+    .filter(rule => duration >= rule.minShiftHours)
+    .reduce((longest, rule) => Math.max(longest, rule.unpaidMinutes), 0);
+  return Math.max(0, duration - unpaidMinutes / 60);
+};
+
+export const staffingToRequirements = (
+  { total, shiftLeader, driver }: ShiftStaffing
+): ShiftRequirementWithRoles[] => [
+  { role: 'Shift Leader' as ShiftRole, count: shiftLeader },
+  { role: 'Driver' as ShiftRole, count: driver },
+  { role: 'Care Staff' as ShiftRole, count: Math.max(0, total - shiftLeader - driver) },
+].filter(requirement => requirement.count > 0);
+
+export const requirementsToStaffing = (requirements: ShiftRequirementWithRoles[]): ShiftStaffing => {
+  const countOf = (role: ShiftRole) => requirements
+    .filter(requirement => requirement.role === role)
+    .reduce((sum, requirement) => sum + requirement.count, 0);
+  return {
+    total: requirements.reduce((sum, requirement) => sum + requirement.count, 0),
+    shiftLeader: countOf('Shift Leader'),
+    driver: countOf('Driver')
+  };
+};
+
+export const createShiftFromPattern = (
+  date: string,
+  pattern: ShiftPattern,
+  requiredRoles: ShiftRequirementWithRoles[] = pattern.defaultRequirements
+): Shift => ({
+  id: `${date}-${pattern.id}`,
+  date,
+  time: pattern.id,
+  startTime: pattern.start,
+  endTime: pattern.end,
+  type: pattern.type,
+  requiredStaff: requiredRoles.reduce((sum, requirement) => sum + requirement.count, 0),
+  requiredRoles,
+  assignedStaff: [],
+  status: 'Unfilled',
+  paidHours: getPaidHours(pattern),
+  sleepIn: pattern.sleepIn
+});
+
+// Paid hours for a shift; shifts saved before patterns had paid hours count in full
+export const calculateShiftHours = (shift: Shift): number => {
+  return shift.paidHours ?? getShiftDuration(shift.startTime, shift.endTime);
+};
+
 export const isStaffAvailable = (staff: Staff, shift: Shift): boolean => {
   const shiftDate = parseISO(shift.date);
   return !staff.preferences.unavailableDates.some(date => 
@@ -111,37 +204,65 @@ export const exceedsWorkingHours = (staff: Staff, rota: Rota): boolean => {
   return assignedHours > staff.contractedHours;
 };
 
-// Helper function for checking rest periods
+// Rotas are kept one per site per week, under an id built from both
+export const getRotaId = (site: string, weekStart: string): string =>
+  `${weekStart}_${site.trim().replace(/[^A-Za-z0-9]+/g, '-').toLowerCase()}`;
+
+export const worksAtSite = (staff: Staff, site: string): boolean =>
+  staff.site === site ||
+  (staff.sites || []).includes(site) ||
+  (staff.preferences.preferredSites || []).includes(site);
+
+// Staff from another home who also work at `site`
+export const isBorrowedStaff = (staff: Staff, site: string): boolean =>
+  !!staff.site && staff.site !== site && worksAtSite(staff, site);
+
+// Start and end of a shift in minutes, comparable across rotas
+export const getShiftWindow = (
+  { date, startTime, endTime }: { date: string; startTime: string; endTime: string }
+): { start: number; end: number } => {
+  const start = parseISO(date.slice(0, 10)).getTime() / 60000 + parseTime(startTime) * 60;
+  return { start, end: start + getShiftDuration(startTime, endTime) * 60 };
+};
+
+type TimedShift = { date: string; startTime: string; endTime: string };
+
+export const shiftsOverlap = (a: TimedShift, b: TimedShift): boolean => {
+  const first = getShiftWindow(a);
+  const second = getShiftWindow(b);
+  return first.start < second.end && second.start < first.end;
+};
+
+// Every shift staff work on the given rotas, for checks across sites
+export const getStaffCommitments = (rotas: Rota[]): StaffCommitment[] =>
+  rotas.flatMap(rota => rota.shifts.flatMap(shift => shift.assignedStaff.map(assignment => ({
+    staffId: typeof assignment === 'string' ? assignment : assignment.userId,
+    site: rota.site || 'another site',
+    date: shift.date.slice(0, 10),
+    time: shift.time,
+    startTime: shift.startTime,
+    endTime: shift.endTime,
+    hours: calculateShiftHours(shift),
+  }))));
+
+// Helper function for checking rest periods, measured between the end of one
+// of the staff member's shifts and the start of the next
 const hasAdequateRest = (staff: Staff, shift: Shift, rota: Rota): boolean => {
-  const shiftStart = parseISO(shift.date);
-  const previousShifts = rota.shifts.filter(s => 
+  const target = getShiftWindow(shift);
+  const minRest = rota.configuration.staffingRules.minRestBetweenShifts * 60;
+  const otherShifts = rota.shifts.filter(s => 
+    s.id !== shift.id &&
     s.assignedStaff.some(a => 
       typeof a === 'object' && a.userId === staff.id
     )
   );
 
-  return !previousShifts.some(prevShift => {
-    const prevEnd = parseISO(prevShift.date);
-    const restHours = differenceInHours(shiftStart, prevEnd);
-    return restHours < rota.configuration.staffingRules.minRestBetweenShifts;
+  return !otherShifts.some(other => {
+    const window = getShiftWindow(other);
+    return Math.max(window.start - target.end, target.start - window.end) < minRest;
   });
 };
 
-// Calculate shift priority based on requirements and time
-const calculateShiftPriority = (shift: Shift): number => {
-  let priority = 0;
-  
-  // Prioritize shifts that need specific roles
-  priority += shift.requiredRoles.reduce((sum, req) => 
-    sum + (req.role === 'Shift Leader' ? 3 : req.role === 'Driver' ? 2 : 1) * req.count, 0);
-
-  // Prioritize upcoming shifts
-  const daysUntilShift = differenceInHours(parseISO(shift.date), new Date());
-  priority += Math.max(0, 7 - Math.floor(daysUntilShift / 24)) * 2;
-
-  return priority;
-};
-
 export const canAssignStaff = (
   staffId: string,
   shift: Shift,
@@ -159,6 +280,185 @@ export const canAssignStaff = (
   );
 };
 
+const getAssignedStaffId = (assignment: ShiftAssignment | string): string =>
+  typeof assignment === 'string' ? assignment : assignment.userId;
+
+const getStaffingStatus = (assigned: number, required: number): ShiftStatus =>
+  assigned === 0 ? 'Unfilled' :
+  assigned >= required ? 'Fully Staffed' :
+  'Partially Staffed';
+
+// The rota with the changes made, leaving the original untouched
+export const applyShiftChanges = (rota: Rota, changes: ShiftChange[]): Rota => ({
+  ...rota,
+  shifts: rota.shifts.map(shift => {
+    const shiftChanges = changes.filter(change => change.shiftId === shift.id);
+    if (!shiftChanges.length) return shift;
+
+    const assignedStaff = shiftChanges.reduce<(ShiftAssignment | string)[]>((assigned, change) => [
+      ...assigned.filter(assignment => getAssignedStaffId(assignment) !== change.removeStaffId),
+      ...(change.assign ? [change.assign] : [])
+    ], shift.assignedStaff);
+
+    return {
+      ...shift,
+      assignedStaff,
+      status: getStaffingStatus(assignedStaff.length, shift.requiredStaff)
+    };
+  })
+});
+
+/**
+ * Problems with making the changes, for everyone they put on a shift: the
+ * role they would fill, `canAssignStaff`, and any `validateRota` error the
+ * changes introduce for them (availability, hours, rest, other sites).
+ */
+export const checkShiftChanges = (
+  rota: Rota,
+  staff: Staff[],
+  changes: ShiftChange[],
+  otherRotas: Rota[] = []
+): string[] => {
+  const issues: string[] = [];
+  const updated = applyShiftChanges(rota, changes);
+  const incoming: string[] = [];
+
+  changes.forEach(({ shiftId, assign }) => {
+    if (!assign) return;
+    const shift = updated.shifts.find(s => s.id === shiftId);
+    const member = staff.find(s => s.id === assign.userId);
+    if (!shift) {
+      issues.push('The shift is no longer on the rota');
+      return;
+    }
+    if (!member) {
+      issues.push(`A staff member being assigned does not work at ${rota.site || 'this site'}`);
+      return;
+    }
+    incoming.push(member.id);
+
+    if (!member.roles.includes(assign.role)) {
+      issues.push(`${member.name} does not hold the ${assign.role} role`);
+    }
+    if (shift.assignedStaff.filter(a => getAssignedStaffId(a) === member.id).length > 1) {
+      issues.push(`${member.name} is already on the ${shift.startTime}-${shift.endTime} shift on ${shift.date.slice(0, 10)}`);
+    }
+  });
+
+  // Only report what the changes cause, not problems the rota already had
+  const describe = (errors: RotaValidationError[]) => errors
+    .filter(error => error.staffId && incoming.includes(error.staffId))
+    .map(error => error.message);
+  const before = new Set(describe(validateRota(rota, staff, otherRotas)));
+  const introduced = describe(validateRota(updated, staff, otherRotas)).filter(message => !before.has(message));
+  issues.push(...Array.from(new Set(introduced)));
+
+  if (!issues.length) {
+    changes.forEach(({ shiftId, assign }) => {
+      const shift = updated.shifts.find(s => s.id === shiftId);
+      if (!assign || !shift || canAssignStaff(assign.userId, shift, updated, staff)) return;
+      const name = staff.find(s => s.id === assign.userId)?.name || 'Staff member';
+      issues.push(`${name} cannot be assigned to the ${shift.startTime}-${shift.endTime} shift on ${shift.date.slice(0, 10)}`);
+    });
+  }
+
+  return issues;
+};
+
+// Shift swaps
+
+// e.g. "Mon 20 Oct, Early 7:30-14:30"
+export const getShiftLabel = (
+  shift: Pick<Shift, 'date' | 'time' | 'startTime' | 'endTime'>,
+  patterns?: ShiftPattern[]
+): string =>
+  `${format(parseISO(shift.date), 'EEE d MMM')}, ${findShiftPattern(shift.time, patterns).name} ${shift.startTime}-${shift.endTime}`;
+
+export const getStaffAssignment = (shift: Shift, staffId: string): ShiftAssignment | null => {
+  const assignment = shift.assignedStaff.find(a => getAssignedStaffId(a) === staffId);
+  if (!assignment) return null;
+  // Older rotas stored bare ids, with no role
+  return typeof assignment === 'string'
+    ? { userId: assignment, role: 'Care Staff', assignedAt: '', assignedBy: '' }
+    : assignment;
+};
+
+// Roles still short on a shift, which staff holding them can claim
+export const getOpenRoles = (shift: Shift): ShiftRole[] =>
+  shift.requiredRoles
+    .filter(requirement => countAssignedRoles(shift, requirement.role) < requirement.count)
+    .map(requirement => requirement.role);
+
+// What approving a swap request does to the rota
+export const getSwapChanges = (request: ShiftSwapRequest, assignedBy: string): ShiftChange[] => {
+  const assignedAt = new Date().toISOString();
+  const assign = (userId: string, role: ShiftRole): ShiftAssignment => ({ userId, role, assignedAt, assignedBy });
+
+  switch (request.type) {
+    case 'claim':
+      return [{ shiftId: request.shiftId, assign: assign(request.requesterId, request.role) }];
+    case 'offer':
+      if (!request.counterpartId) return [];
+      return [{
+        shiftId: request.shiftId,
+        removeStaffId: request.requesterId,
+        assign: assign(request.counterpartId, request.role)
+      }];
+    case 'swap':
+      if (!request.counterpartId || !request.counterpartShiftId || !request.counterpartRole) return [];
+      return [
+        {
+          shiftId: request.shiftId,
+          removeStaffId: request.requesterId,
+          assign: assign(request.counterpartId, request.role)
+        },
+        {
+          shiftId: request.counterpartShiftId,
+          removeStaffId: request.counterpartId,
+          assign: assign(request.requesterId, request.counterpartRole)
+        }
+      ];
+  }
+};
+
+// Publishing
+
+/**
+ * Staff put on or taken off each shift going from one set of shifts to
+ * another. Shifts added or deleted count as everyone on them being added or
+ * removed.
+ */
+export const diffRotaShifts = (previous: Shift[], next: Shift[]): RotaShiftDiff[] => {
+  const staffOn = (shift?: Shift) => (shift?.assignedStaff || []).map(getAssignedStaffId);
+  const previousById = new Map(previous.map(shift => [shift.id, shift]));
+  const nextById = new Map(next.map(shift => [shift.id, shift]));
+  const shifts = [...next, ...previous.filter(shift => !nextById.has(shift.id))];
+
+  return shifts
+    .map(shift => {
+      const before = staffOn(previousById.get(shift.id));
+      const after = staffOn(nextById.get(shift.id));
+      return {
+        shiftId: shift.id,
+        date: shift.date.slice(0, 10),
+        time: shift.time,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        added: after.filter(id => !before.includes(id)),
+        removed: before.filter(id => !after.includes(id))
+      };
+    })
+    .filter(diff => diff.added.length || diff.removed.length)
+    .sort((a, b) => a.date.localeCompare(b.date) || parseTime(a.startTime) - parseTime(b.startTime));
+};
+
+// Everyone a published version concerns: on one of its shifts, or changed since the last version
+export const getVersionStaffIds = (shifts: Shift[], diffs: RotaShiftDiff[]): string[] =>
+  Array.from(new Set([
+    ...shifts.flatMap(shift => shift.assignedStaff.map(getAssignedStaffId)),
+    ...diffs.flatMap(diff => [...diff.added, ...diff.removed])
+  ]));
+
 // Calculate staff scores for AI suggestions
 const calculateStaffScores = (
   shift: Shift,
@@ -247,7 +547,7 @@ const calculateTrainingScore = (staff: Staff): number => {
 };
 
 // Update shift statuses based on assignments
-const updateShiftStatuses = (rota: Rota): void => {
+export const updateShiftStatuses = (rota: Rota): void => {
   rota.shifts.forEach(shift => {
     const totalAssigned = shift.assignedStaff.length;
     const totalRequired = shift.requiredStaff;
@@ -272,103 +572,10 @@ const updateShiftStatuses = (rota: Rota): void => {
   });
 };
 
-// Main rota generation function
-export const generateRota = (
-  startDate: string,
-  endDate: string,
-  staff: Staff[],
-  configuration: Rota['configuration'] = defaultRotaConfiguration,
-  options: AISchedulerOptions
-): Rota => {
-  // Initialize empty rota
-  const shifts: Shift[] = [];
-  let currentDate = parseISO(startDate);
-  const lastDate = parseISO(endDate);
-
-  // Generate all shifts
-  while (currentDate <= lastDate) {
-    configuration.shiftPatterns.forEach(pattern => {
-      const shiftTimeDetails = parseShiftTime(pattern.time);
-      const shift: Shift = {
-        id: `${currentDate.toISOString()}-${pattern.time}`,
-        date: currentDate.toISOString(),
-        startTime: shiftTimeDetails.start,
-        endTime: shiftTimeDetails.end,
-        time: pattern.time,
-        type: shiftTimeDetails.type,
-        requiredStaff: pattern.defaultRequirements.reduce((sum, req) => sum + req.count, 0),
-        requiredRoles: pattern.defaultRequirements,
-        assignedStaff: [],
-        status: 'Unfilled'
-      };
-      shifts.push(shift);
-    });
-    currentDate = addDays(currentDate, 1);
-  }
-
-  const rota: Rota = {
-    id: `rota-${startDate}`,
-    startDate,
-    endDate,
-    shifts,
-    configuration,
-    status: 'draft',
-    createdBy: 'system',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    lastModified: new Date().toISOString(),
-    modifiedBy: 'system'
-  };
-
-  // Assign staff using AI optimization
-  let iteration = 0;
-  let unfilledShifts = [...shifts];
-
-  while (unfilledShifts.length > 0 && iteration < options.maxIterations) {
-    // Sort shifts by priority (e.g., harder to fill shifts first)
-    unfilledShifts.sort((a, b) => calculateShiftPriority(b) - calculateShiftPriority(a));
-
-    const currentShift = unfilledShifts[0];
-    const staffScores = calculateStaffScores(currentShift, staff, rota, options);
-    
-    // Sort staff by score and assign the best matches
-    staffScores.sort((a, b) => b.score - a.score);
-    
-    let assigned = false;
-    for (const staffSuggestion of staffScores) {
-      if (canAssignStaff(staffSuggestion.staffId, currentShift, rota, staff)) {
-        const assignment = {
-          userId: staffSuggestion.staffId,
-          role: staffSuggestion.role,
-          assignedAt: new Date().toISOString(),
-          assignedBy: 'system'
-        };
-        currentShift.assignedStaff.push(assignment);
-        assigned = true;
-        break;
-      }
-    }
-
-    if (!assigned && !options.allowPartialFill) {
-      currentShift.status = 'Conflict';
-    }
-
-    unfilledShifts = rota.shifts.filter(shift => 
-      shift.status === 'Unfilled' || 
-      (shift.status === 'Partially Staffed' && !options.allowPartialFill)
-    );
-    iteration++;
-  }
-
-  // Update final shift statuses
-  updateShiftStatuses(rota);
-
-  return rota;
-};
-
-// Validate rota
-export const validateRota = (rota: Rota, staff: Staff[]): RotaValidationError[] => {
+// Validate rota; `otherRotas` are the same week's rotas at other sites
+export const validateRota = (rota: Rota, staff: Staff[], otherRotas: Rota[] = []): RotaValidationError[] => {
   const errors: RotaValidationError[] = [];
+  const commitments = getStaffCommitments(otherRotas.filter(other => other.id !== rota.id));
 
   // Validate each shift
   rota.shifts.forEach(shift => {
@@ -424,6 +631,22 @@ export const validateRota = (rota: Rota, staff: Staff[]): RotaValidationError[]
           }
         }
       }
+
+      // Check for the same person working an overlapping shift at another site
+      const staffId = typeof assignment === 'string' ? assignment : assignment.userId;
+      const name = staff.find(s => s.id === staffId)?.name || 'Staff member';
+      commitments
+        .filter(commitment => commitment.staffId === staffId && shiftsOverlap(commitment, shift))
+        .forEach(commitment => {
+          errors.push(createValidationError({
+            type: 'double-booked',
+            message: `${name} is also on the ${commitment.startTime}-${commitment.endTime} shift at ${commitment.site} on ${commitment.date}`,
+            severity: 'error',
+            shiftId: shift.id,
+            staffId,
+            affectedStaff: [staffId]
+          }));
+        });
     });
   });
 
@@ -443,11 +666,7 @@ export const generateShiftSuggestions = (
     considerPerformanceMetrics: true,
     allowPartialFill: false,
     maxIterations: 100,
-    shiftRequirements: {
-      morning: { total: 5, shiftLeader: 1, driver: 1 },
-      afternoon: { total: 4, shiftLeader: 1, driver: 1 },
-      night: { total: 2, shiftLeader: 1, driver: 0 }
-    },
+    shiftRequirements: {},
     staff: availableStaff
   });
 
@@ -460,23 +679,6 @@ export const generateShiftSuggestions = (
 };
 
 // Export wrapper functions with defaults
-export const generateRotaWithDefaults = (startDate: string): Rota => {
-  const endDate = addDays(parseISO(startDate), 6).toISOString(); // Default to 1 week
-  return generateRota(startDate, endDate, [], defaultRotaConfiguration, {
-    optimizationPriority: 'balanced',
-    considerTrainingStatus: true,
-    considerPerformanceMetrics: true,
-    allowPartialFill: false,
-    maxIterations: 100,
-    shiftRequirements: {
-      morning: { total: 5, shiftLeader: 1, driver: 1 },
-      afternoon: { total: 4, shiftLeader: 1, driver: 1 },
-      night: { total: 2, shiftLeader: 1, driver: 0 }
-    },
-    staff: []
-  });
-};
-
 export const generateRotaStatsWithDefaults = (rota: Rota): RotaStats => {
   return generateRotaStats(rota, []); // Default to empty staff array
 };
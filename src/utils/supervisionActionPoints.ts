@@ -0,0 +1,54 @@
+import { addDays, format } from 'date-fns';
+import { Supervision } from '../types';
+import { SupervisionActionPoint } from '../types/supervision';
+
+// Older sessions stored action points as plain strings, or as objects with a
+// `completed` flag and a Timestamp due date; functions gave them two weeks
+const LEGACY_DUE_DAYS = 14;
+
+type LegacyActionPoint = string | {
+  description?: string;
+  dueDate?: { toDate: () => Date };
+  completed?: boolean;
+};
+
+export const toActionPoints = (
+  raw: Array<SupervisionActionPoint | LegacyActionPoint> | undefined,
+  supervision: Pick<Supervision, 'id' | 'staffId' | 'staffName' | 'date'>
+): SupervisionActionPoint[] =>
+  (raw || []).map((point, index) => {
+    if (typeof point === 'object' && 'status' in point) return point as SupervisionActionPoint;
+
+    const legacy = typeof point === 'string' ? { description: point } : point;
+    const dueDate = legacy.dueDate?.toDate() || addDays(supervision.date, LEGACY_DUE_DAYS);
+    return {
+      id: `${supervision.id}-${index}`,
+      description: legacy.description || '',
+      ownerId: supervision.staffId,
+      ownerName: supervision.staffName || '',
+      dueDate: format(dueDate, 'yyyy-MM-dd'),
+      status: 'completed' in legacy && legacy.completed ? 'completed' : 'open',
+      raisedIn: null,
+      completedAt: null,
+    };
+  });
+
+// The session an action point was first agreed in; tasks for it point there
+export const getActionPointOrigin = (point: SupervisionActionPoint, supervisionId: string) =>
+  point.raisedIn || supervisionId;
+
+// Open action points a staff member carries into their next supervision
+export const getOpenActionPoints = (supervisions: Supervision[], staffId: string) => {
+  const last = supervisions
+    .filter(supervision => supervision.staffId === staffId && supervision.status === 'completed')
+    .reduce<Supervision | null>((latest, supervision) =>
+      (!latest || supervision.date > latest.date ? supervision : latest), null);
+
+  if (!last) return { from: null, actionPoints: [] };
+  return {
+    from: last,
+    actionPoints: (last.actionPoints || [])
+      .filter(point => point.status === 'open')
+      .map(point => ({ ...point, raisedIn: getActionPointOrigin(point, last.id) })),
+  };
+};
@@ -0,0 +1,54 @@
+import { addWeeks, startOfDay } from 'date-fns';
+import { StaffSupervisionSchedule, Supervision, User } from '../types';
+
+export const DEFAULT_SUPERVISION_FREQUENCY_WEEKS = 12;
+
+export const SUPERVISION_TYPE_LABELS: Record<Supervision['type'], string> = {
+  supervision: 'Supervision',
+  appraisal: 'Appraisal',
+  probation: 'Probation Review',
+  induction: 'Induction',
+};
+
+export const getSupervisionFrequency = (user?: Pick<User, 'supervisionFrequencyWeeks'> | null): number =>
+  user?.supervisionFrequencyWeeks || DEFAULT_SUPERVISION_FREQUENCY_WEEKS;
+
+export const getStartDate = (user: User): Date | null => {
+  const value = user.startDate;
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if ('toDate' in value && typeof value.toDate === 'function') return value.toDate();
+  return null;
+};
+
+// The next supervision is due one frequency after the last completed session;
+// functions store the same date on the session when it is completed
+export const getStaffSupervisionSchedule = (
+  user: User,
+  supervisions: Supervision[],
+  now: Date = new Date()
+): StaffSupervisionSchedule => {
+  const own = supervisions.filter(supervision => supervision.staffId === user.id);
+  const lastCompleted = own
+    .filter(supervision => supervision.status === 'completed')
+    .reduce<Supervision | null>((latest, supervision) =>
+      (!latest || supervision.date > latest.date ? supervision : latest), null);
+  const nextScheduled = own
+    .filter(supervision => supervision.status === 'scheduled' && supervision.date >= startOfDay(now))
+    .reduce<Supervision | null>((earliest, supervision) =>
+      (!earliest || supervision.date < earliest.date ? supervision : earliest), null);
+
+  const frequencyWeeks = getSupervisionFrequency(user);
+  // New starters are due one frequency after they start; anyone else without a session is due now
+  const from = lastCompleted?.date || getStartDate(user);
+
+  return {
+    staffId: user.id,
+    staffName: user.name,
+    site: user.site,
+    frequencyWeeks,
+    lastCompleted,
+    nextScheduled,
+    nextDueDate: from ? addWeeks(from, frequencyWeeks) : startOfDay(now),
+  };
+};
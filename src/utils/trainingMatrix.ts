@@ -0,0 +1,85 @@
+import { differenceInDays, isValid, startOfDay } from 'date-fns';
+import { TrainingRecord, User } from '../types';
+import { TrainingMatrixCell, TrainingMatrixCourse, TrainingMatrixRow, TrainingMatrixStatus } from '../types/training';
+import { F2F_COURSES, TRAINING_COURSES } from './courseConstants';
+
+// Matches the Training page's "expiring" tab
+const EXPIRING_DAYS = 30;
+
+export const TRAINING_MATRIX_COURSES: TrainingMatrixCourse[] = [
+  ...TRAINING_COURSES.map(title => ({ title, group: 'training' as const })),
+  ...F2F_COURSES.map(title => ({ title, group: 'f2f' as const })),
+].filter((course, index, courses) => courses.findIndex(other => other.title === course.title) === index);
+
+// The stored status is worked out when the record is uploaded, so the expiry
+// date is checked again here. Records without one fall back to the RAG status
+// the spreadsheet gave them.
+const getRecordStatus = (record: TrainingRecord, daysToExpiry: number | null): TrainingMatrixStatus => {
+  if (daysToExpiry !== null) {
+    if (daysToExpiry < 0) return 'expired';
+    return daysToExpiry <= EXPIRING_DAYS ? 'expiring' : 'valid';
+  }
+
+  const ragStatus = (record.ragStatus || '').toLowerCase();
+  if (ragStatus.includes('expired') || ragStatus.includes('overdue') || record.status === 'expired') return 'expired';
+  if (ragStatus.includes('window opens') || ragStatus.includes('expires soon') || record.status === 'expiring') {
+    return 'expiring';
+  }
+  return 'valid';
+};
+
+// Records uploaded without an expiry date come through as an invalid date
+const getExpiryDate = (record: TrainingRecord): Date | null =>
+  (record.expiryDate && isValid(record.expiryDate) ? record.expiryDate : null);
+
+const MISSING_CELL: TrainingMatrixCell = { status: 'missing', record: null, daysToExpiry: null };
+
+export const getTrainingMatrixCell = (records: TrainingRecord[], now: Date = new Date()): TrainingMatrixCell => {
+  const record = records.reduce<TrainingRecord | null>((latest, candidate) => {
+    if (!latest) return candidate;
+    const candidateExpiry = getExpiryDate(candidate);
+    const latestExpiry = getExpiryDate(latest);
+    return candidateExpiry && (!latestExpiry || candidateExpiry > latestExpiry) ? candidate : latest;
+  }, null);
+  if (!record) return MISSING_CELL;
+
+  const expiryDate = getExpiryDate(record);
+  const daysToExpiry = expiryDate ? differenceInDays(startOfDay(expiryDate), startOfDay(now)) : null;
+  return { status: getRecordStatus(record, daysToExpiry), record, daysToExpiry };
+};
+
+export const getUserSite = (user: Pick<User, 'site' | 'sites'>) => user.site || user.sites?.[0] || '';
+
+// A row per member of staff, whether or not they have any training records,
+// so courses nobody has booked show up as missing
+export const buildTrainingMatrix = (
+  users: User[],
+  records: TrainingRecord[],
+  courses: TrainingMatrixCourse[] = TRAINING_MATRIX_COURSES,
+  now: Date = new Date()
+): TrainingMatrixRow[] => {
+  const byStaff = new Map<string, TrainingRecord[]>();
+  records.forEach(record => byStaff.set(record.staffId, [...(byStaff.get(record.staffId) || []), record]));
+
+  return users
+    .map(user => {
+      const own = byStaff.get(user.id) || [];
+      return {
+        staffId: user.id,
+        staffName: user.name,
+        site: getUserSite(user),
+        cells: Object.fromEntries(courses.map(course => [
+          course.title,
+          getTrainingMatrixCell(own.filter(record => record.courseTitle === course.title), now),
+        ])),
+      };
+    })
+    .sort((a, b) => a.staffName.localeCompare(b.staffName));
+};
+
+export const formatMatrixCell = (cell: TrainingMatrixCell): string => {
+  if (cell.status === 'missing') return 'Missing';
+  if (cell.daysToExpiry === null) return cell.status === 'expired' ? 'Expired' : 'No expiry';
+  if (cell.daysToExpiry < 0) return `Expired ${Math.abs(cell.daysToExpiry)}d`;
+  return `${cell.daysToExpiry}d`;
+};
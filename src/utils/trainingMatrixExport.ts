@@ -0,0 +1,50 @@
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import {
+  TRAINING_MATRIX_STATUS_LABELS,
+  TrainingMatrixCourse,
+  TrainingMatrixRow,
+  TrainingMatrixStatus,
+} from '../types/training';
+import { formatMatrixCell } from './trainingMatrix';
+
+const STATUSES: TrainingMatrixStatus[] = ['valid', 'expiring', 'expired', 'missing'];
+
+/**
+ * Writes the matrix as it is filtered on screen: a sheet with a row per member
+ * of staff and a column per course, and a per-course count of each status.
+ * Cells hold days to expiry since the spreadsheet library cannot colour them.
+ */
+export const exportTrainingMatrixXlsx = (
+  rows: TrainingMatrixRow[],
+  courses: TrainingMatrixCourse[],
+  label: string
+) => {
+  const matrixSheet = XLSX.utils.aoa_to_sheet([
+    ['Staff', 'Site', ...courses.map(course => course.title)],
+    ...rows.map(row => [
+      row.staffName,
+      row.site,
+      ...courses.map(course => formatMatrixCell(row.cells[course.title])),
+    ]),
+  ]);
+  matrixSheet['!cols'] = [{ wch: 24 }, { wch: 16 }, ...courses.map(() => ({ wch: 14 }))];
+
+  const summarySheet = XLSX.utils.aoa_to_sheet([
+    ['Course', ...STATUSES.map(status => TRAINING_MATRIX_STATUS_LABELS[status]), 'Compliance %'],
+    ...courses.map(course => {
+      const counts = STATUSES.map(status => rows.filter(row => row.cells[course.title].status === status).length);
+      const inDate = counts[0] + counts[1];
+      return [course.title, ...counts, rows.length ? Math.round((inDate / rows.length) * 100) : 0];
+    }),
+  ]);
+  summarySheet['!cols'] = [{ wch: 40 }, ...STATUSES.map(() => ({ wch: 10 })), { wch: 13 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, matrixSheet, 'Matrix');
+  XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+  XLSX.writeFile(
+    workbook,
+    `training-matrix-${label.replace(/\s+/g, '-').toLowerCase()}-${format(new Date(), 'yyyy-MM-dd')}.xlsx`
+  );
+};